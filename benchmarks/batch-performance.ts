@@ -0,0 +1,199 @@
+/**
+ * Benchmark: Batch vs Streaming Throughput
+ *
+ * Compares per-bar update calls on bar objects with computeBatch and
+ * GraphExec.runBatch over Float64Array columns. Both paths run the same
+ * operators, so the difference is the cost of bar objects and dispatch.
+ */
+
+import { GraphExec, OpRegistry, computeBatch } from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import { ATR } from "../src/indicators/Volatility.js";
+import { RSI } from "../src/indicators/Momentum.js";
+import { MACD } from "../src/indicators/Oscillators.js";
+
+const BARS = 1_000_000;
+const GRAPH_BARS = 200_000;
+
+interface Bar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+function generateBars(count: number): Bar[] {
+  const bars: Bar[] = new Array(count);
+  let price = 100;
+  for (let i = 0; i < count; i++) {
+    const open = price;
+    price += (Math.random() - 0.5) * 2;
+    bars[i] = {
+      open,
+      high: Math.max(open, price) + Math.random(),
+      low: Math.min(open, price) - Math.random(),
+      close: price,
+      volume: 1000 + Math.random() * 1000,
+    };
+  }
+  return bars;
+}
+
+function toColumns(bars: Bar[]): Record<keyof Bar, Float64Array> {
+  return {
+    open: Float64Array.from(bars, (b) => b.open),
+    high: Float64Array.from(bars, (b) => b.high),
+    low: Float64Array.from(bars, (b) => b.low),
+    close: Float64Array.from(bars, (b) => b.close),
+    volume: Float64Array.from(bars, (b) => b.volume),
+  };
+}
+
+// Best of several runs, so a GC pause does not decide the comparison
+function time(fn: () => void, runs = 5): number {
+  let best = Infinity;
+  for (let r = 0; r < runs; r++) {
+    const start = performance.now();
+    fn();
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+}
+
+function row(label: string, ms: number, count: number) {
+  console.log(
+    `  ${label.padEnd(22)} ${ms.toFixed(1).padStart(8)}ms  ${(
+      count /
+      (ms / 1000)
+    ).toFixed(0)} bars/sec`
+  );
+}
+
+function runOperatorComparison(
+  bars: Bar[],
+  cols: Record<keyof Bar, Float64Array>
+) {
+  console.log(`\nOperators (${bars.length} bars):`);
+
+  const cases: [string, () => void, () => void][] = [
+    [
+      "RSI",
+      () => {
+        const rsi = new RSI({ period: 14 });
+        const out = new Float64Array(bars.length);
+        for (let i = 0; i < bars.length; i++) out[i] = rsi.onData(bars[i]!);
+      },
+      () => computeBatch(new RSI({ period: 14 }), [cols.close]),
+    ],
+    [
+      "ATR",
+      () => {
+        const atr = new ATR({ period: 14 });
+        const out = new Float64Array(bars.length);
+        for (let i = 0; i < bars.length; i++) out[i] = atr.onData(bars[i]!);
+      },
+      () =>
+        computeBatch(new ATR({ period: 14 }), [
+          cols.high,
+          cols.low,
+          cols.close,
+        ]),
+    ],
+    [
+      "MACD",
+      () => {
+        const macd = new MACD({
+          period_fast: 12,
+          period_slow: 26,
+          period_signal: 9,
+        });
+        const out = [0, 1, 2].map(() => new Float64Array(bars.length));
+        for (let i = 0; i < bars.length; i++) {
+          const { macd: m, signal, histogram } = macd.onData(bars[i]!);
+          out[0]![i] = m;
+          out[1]![i] = signal;
+          out[2]![i] = histogram;
+        }
+      },
+      () =>
+        computeBatch(
+          new MACD({ period_fast: 12, period_slow: 26, period_signal: 9 }),
+          [cols.close]
+        ),
+    ],
+  ];
+
+  for (const [name, streaming, batch] of cases) {
+    row(`${name} streaming:`, time(streaming), bars.length);
+    row(`${name} batch:`, time(batch), bars.length);
+  }
+}
+
+function runGraphComparison(
+  bars: Bar[],
+  cols: Record<keyof Bar, Float64Array>
+) {
+  console.log(`\nGraphExec (${bars.length} bars):`);
+
+  const registry = new OpRegistry();
+  regAll(registry);
+  const build = () =>
+    GraphExec.fromJSON(
+      {
+        root: "bar",
+        nodes: [
+          {
+            name: "rsi",
+            type: "RSI",
+            init: { period: 14 },
+            inputSrc: "bar.close",
+          },
+          {
+            name: "atr",
+            type: "ATR",
+            init: { period: 14 },
+            inputSrc: ["bar.high", "bar.low", "bar.close"],
+          },
+          {
+            name: "macd",
+            type: "MACD",
+            init: { period_fast: 12, period_slow: 26, period_signal: 9 },
+            inputSrc: "bar.close",
+          },
+          {
+            name: "spread",
+            type: "Sub",
+            inputSrc: ["macd.macd", "macd.signal"],
+          },
+        ],
+      },
+      registry
+    );
+
+  const streaming = () => {
+    const graph = build();
+    const rsi = new Float64Array(bars.length);
+    for (let i = 0; i < bars.length; i++) {
+      rsi[i] = graph.update(bars[i]!)["rsi"];
+    }
+  };
+  const batch = () => build().runBatch(cols);
+
+  row("update():", time(streaming), bars.length);
+  row("runBatch():", time(batch), bars.length);
+}
+
+console.log("=".repeat(60));
+console.log("Batch vs Streaming Throughput");
+console.log("=".repeat(60));
+
+const bars = generateBars(BARS);
+const cols = toColumns(bars);
+runOperatorComparison(bars, cols);
+runGraphComparison(
+  bars.slice(0, GRAPH_BARS),
+  toColumns(bars.slice(0, GRAPH_BARS))
+);
+
+console.log("\n" + "=".repeat(60));
@@ -15,7 +15,7 @@
  * Real indicator performance depends on the complexity of the indicators used.
  */
 
-import { GraphExec } from "../src/flow/index.js";
+import { GraphExec, compileGraph } from "../src/flow/index.js";
 import { EMA, SMA } from "@junduck/trading-core";
 
 // Trivial computation nodes
@@ -214,4 +214,53 @@ function runBenchmark() {
   console.log("\n" + "=".repeat(60));
 }
 
+function timeUpdates(update: (x: number) => unknown, iterations: number) {
+  const inputs = Array.from(
+    { length: iterations },
+    () => 100 + Math.random() * 10
+  );
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) {
+    update(inputs[i]!);
+  }
+  return performance.now() - start;
+}
+
+function runCompiledComparison() {
+  console.log("Compiled vs Interpreted");
+  console.log("=".repeat(60));
+
+  const interpreted = buildGraph();
+  const compiled = compileGraph(buildGraph());
+
+  // Warmup both paths equally
+  for (let i = 0; i < 1000; i++) {
+    const x = 100 + Math.random() * 10;
+    interpreted.update(x);
+    compiled(x);
+  }
+
+  const iterations = 100000;
+  const interpretedTime = timeUpdates((x) => interpreted.update(x), iterations);
+  const compiledTime = timeUpdates(compiled, iterations);
+
+  const row = (label: string, ms: number) =>
+    console.log(
+      `  ${label.padEnd(13)} ${ms.toFixed(1).padStart(8)}ms  ${(
+        iterations /
+        (ms / 1000)
+      ).toFixed(0)} ops/sec`
+    );
+
+  console.log(`\nExecution (${iterations} iterations):`);
+  row("Interpreted:", interpretedTime);
+  row("Compiled:", compiledTime);
+  console.log(
+    `  Speedup:      ${(interpretedTime / compiledTime).toFixed(2)}x`
+  );
+
+  console.log("\n" + "=".repeat(60));
+}
+
 runBenchmark();
+runCompiledComparison();
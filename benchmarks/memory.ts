@@ -67,6 +67,9 @@ import {
   VROC,
   PVT,
 } from "../src/indicators/Volume.js";
+import { GraphExec, GraphPool, OpRegistry } from "../src/flow/index.js";
+import type { FlowGraph } from "../src/flow/schema.js";
+import { regAll } from "../src/flow/registry-utils.js";
 
 function generateOHLCV(count: number): BarData[] {
   const bars: BarData[] = [];
@@ -306,4 +309,91 @@ function analyzeMemory() {
   console.log(`Memory growth per bar: ${formatBytes(memoryGrowthPerBar)}`);
 }
 
+const STRATEGY: FlowGraph = {
+  root: "bar",
+  nodes: [
+    { name: "rsi", type: "RSI", init: { period: 14 }, inputSrc: "bar.close" },
+    {
+      name: "macd",
+      type: "MACD",
+      init: { period_fast: 12, period_slow: 26, period_signal: 9 },
+      inputSrc: "bar.close",
+    },
+    {
+      name: "atr",
+      type: "ATR",
+      init: { period: 14 },
+      inputSrc: ["bar.high", "bar.low", "bar.close"],
+    },
+    {
+      name: "bb",
+      type: "BBANDS",
+      init: { period: 20 },
+      inputSrc: "bar.close",
+    },
+    { name: "lo", type: "Const", init: { value: 30 } },
+    { name: "oversold", type: "LT", inputSrc: ["rsi", "lo"] },
+    { name: "below", type: "LT", inputSrc: ["bar.close", "bb.lower"] },
+    { name: "entry", type: "And", inputSrc: ["oversold", "below"] },
+  ],
+};
+
+function heapUsed(): number {
+  if (global.gc) global.gc();
+  return process.memoryUsage().heapUsed;
+}
+
+function analyzeGraphPool(symbols: number, barsPerSymbol: number) {
+  console.log(`\nGraphPool vs GraphExec per symbol (${symbols} symbols)`);
+  console.log("=".repeat(50));
+
+  const registry = new OpRegistry();
+  regAll(registry);
+  const bars = generateOHLCV(barsPerSymbol);
+  const keys = Array.from({ length: symbols }, (_, i) => `SYM${i}`);
+
+  function measure(
+    name: string,
+    setup: () => (key: string, i: number, bar: BarData) => void
+  ) {
+    const before = heapUsed();
+    const update = setup();
+    // Pool creates operators on first update, count them as setup
+    keys.forEach((key, i) => update(key, i, bars[0]!));
+    const afterSetup = heapUsed();
+
+    const start = performance.now();
+    for (let b = 1; b < bars.length; b++) {
+      keys.forEach((key, i) => update(key, i, bars[b]!));
+    }
+    const elapsed = performance.now() - start;
+    const updates = symbols * (bars.length - 1);
+
+    console.log(`${name}:`);
+    console.log(
+      `  Heap: ${formatBytes(afterSetup - before)} (${formatBytes(
+        (afterSetup - before) / symbols
+      )} per symbol)`
+    );
+    console.log(
+      `  Updates per second: ${(updates / (elapsed / 1000)).toFixed(0)}`
+    );
+  }
+
+  let graphs: GraphExec[] = [];
+  measure("GraphExec per symbol", () => {
+    graphs = keys.map(() => GraphExec.fromJSON(STRATEGY, registry));
+    return (_key, i, bar) => graphs[i]!.update(bar);
+  });
+  graphs = [];
+
+  let pool: GraphPool | undefined;
+  measure("GraphPool", () => {
+    pool = GraphPool.fromJSON(STRATEGY, registry);
+    return (key, _i, bar) => pool!.update(key, bar);
+  });
+  pool = undefined;
+}
+
 analyzeMemory();
+analyzeGraphPool(3000, 500);
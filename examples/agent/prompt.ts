@@ -1,4 +1,5 @@
-import type { OpRegistry } from "../../src/flow/registry.js";
+import { z } from "zod";
+import type { OpContext, OpRegistry } from "../../src/flow/registry.js";
 import type { FlowGraph, FlowGraphError } from "../../src/flow/schema.js";
 import { validateFlowGraph } from "../../src/flow/validate.js";
 
@@ -25,6 +26,21 @@ export interface AgentFeedback {
   userInput?: string;
 }
 
+/**
+ * Operator context for the prompt, init described by its JSON schema.
+ * Operators without an init schema keep their free-text init.
+ */
+function describeOperator(registry: OpRegistry, doc: OpContext): object {
+  const initSchema = registry.getInitSchema(doc.type);
+  if (!initSchema) return doc;
+
+  const { $schema: _, ...init } = z.toJSONSchema(initSchema, {
+    io: "input",
+    unrepresentable: "any",
+  });
+  return { ...doc, init };
+}
+
 /**
  * Generate agent prompt for GraphSchema creation.
  * @param registry Available operators registry
@@ -38,7 +54,12 @@ export function generateGraphSchemaPrompt(
   userPrompt: string
 ): string {
   const operatorDocs = JSON.stringify(
-    Object.fromEntries(registry.getAllContexts()),
+    Object.fromEntries(
+      Array.from(registry.getAllContexts(), ([group, docs]) => [
+        group,
+        docs.map((doc) => describeOperator(registry, doc)),
+      ])
+    ),
     null,
     2
   );
@@ -72,7 +93,7 @@ Generate a JSON object with this structure:
     {
       "name": string,         // Unique node identifier
       "type": string,         // Operator type from available operators
-      "init": object,         // Constructor parameters (optional)
+      "init": object,         // Constructor parameters, must match operator's init JSON schema
       "inputSrc": string[] // Input paths (e.g., ["tick"], ["fast", "slow"], ["tick.close"])
     }
   ]
@@ -85,6 +106,7 @@ Generate a JSON object with this structure:
 2. **Input paths**: Reference nodes by name or path (e.g., "ema", "tick.close" for access nested fields)
 3. **No cycles**: DAG structure required
 4. **Match parameters**: Each node's inputSrc must match its operator's input arity
+5. **Init**: Provide every required init field, omitted fields with a default take that default
 
 ## Examples
 
@@ -1,4 +1,10 @@
-import { TumblingWindow } from "./windows.js";
+import { z } from "zod";
+import { CalendarWindow, TumblingWindow } from "./windows.js";
+import {
+  CalendarSpecSchema,
+  type CalendarSpec,
+  type ExchangeCalendar,
+} from "./calendar.js";
 import { OHLCVProcessor, type OHLCVBar } from "./processors.js";
 import type { OperatorDoc } from "../types/OpDoc.js";
 
@@ -57,6 +63,8 @@ export class OHLCV {
     // Processor resets itself on emission
   }
 
+  static readonly initSchema = z.object({ intervalMs: z.number().positive() });
+
   static readonly doc: OperatorDoc = {
     type: "OHLCV",
     desc: "Time-based OHLCV candle aggregator",
@@ -77,3 +85,83 @@ export function useOHLCV(opts: {
   const instance = new OHLCV(opts);
   return (tick: OHLCVTick) => instance.onData(tick);
 }
+
+/**
+ * Session-aware OHLCV aggregator driven by an exchange calendar.
+ * Internally composes CalendarWindow + OHLCVProcessor: bars align to the
+ * session open, skip lunch breaks and ticks outside trading hours.
+ */
+export class CalendarOHLCV {
+  private readonly window: CalendarWindow;
+  private readonly processor: OHLCVProcessor;
+
+  constructor(opts: {
+    calendar: string | CalendarSpec | ExchangeCalendar;
+    intervalMs?: number;
+  }) {
+    this.window = new CalendarWindow(
+      opts.intervalMs === undefined
+        ? { calendar: opts.calendar }
+        : { calendar: opts.calendar, interval: opts.intervalMs }
+    );
+    this.processor = new OHLCVProcessor();
+  }
+
+  /**
+   * Process tick data.
+   * @param timestamp Tick timestamp
+   * @param price Tick price
+   * @param volume Tick volume
+   * @returns Completed OHLCV bar or undefined
+   */
+  update(
+    timestamp: number,
+    price: number,
+    volume: number
+  ): OHLCVBar | undefined {
+    const spec = this.window.update(timestamp);
+    return this.processor.update(spec, price, volume);
+  }
+
+  /**
+   * Process tick object.
+   * @param tick Tick data
+   * @returns Completed OHLCV bar or undefined
+   */
+  onData(tick: OHLCVTick): OHLCVBar | undefined {
+    return this.update(tick.timestamp, tick.price, tick.volume);
+  }
+
+  /**
+   * Reset aggregator state.
+   */
+  reset(): void {
+    this.window.reset();
+  }
+
+  static readonly initSchema = z.object({
+    calendar: z.union([z.string(), CalendarSpecSchema]),
+    intervalMs: z.number().positive().optional(),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "CalendarOHLCV",
+    desc: "Exchange session OHLCV candle aggregator",
+    init: "{calendar: string | CalendarSpec, intervalMs?: number}",
+    input: "timestamp, price, volume",
+    output: "{timestamp, open, high, low, close, volume, turnover} | undefined",
+  };
+}
+
+/**
+ * Creates CalendarOHLCV aggregator closure for functional usage.
+ * @param opts Calendar and interval configuration
+ * @returns Function that processes ticks and returns completed bars
+ */
+export function useCalendarOHLCV(opts: {
+  calendar: string | CalendarSpec | ExchangeCalendar;
+  intervalMs?: number;
+}): (tick: OHLCVTick) => OHLCVBar | undefined {
+  const instance = new CalendarOHLCV(opts);
+  return (tick: OHLCVTick) => instance.onData(tick);
+}
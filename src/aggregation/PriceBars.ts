@@ -0,0 +1,266 @@
+import { z } from "zod";
+import { ATR } from "../indicators/Volatility.js";
+import { PeriodValueSchema } from "../types/PeriodOptions.js";
+import type { OperatorDoc } from "../types/OpDoc.js";
+import type { OHLCVTick } from "./OHLCV.js";
+import type { OHLCVBar } from "./processors.js";
+
+/**
+ * Range bars - a bar completes once its high - low reaches range.
+ * The tick that reaches the range is included, the next tick opens a new bar.
+ * Bar timestamp is the timestamp of its first tick.
+ */
+export class RangeBars {
+  private readonly range: number;
+  private bar: OHLCVBar | undefined;
+
+  constructor(opts: { range: number }) {
+    this.range = opts.range;
+  }
+
+  /**
+   * Process tick data.
+   * @param timestamp Tick timestamp
+   * @param price Tick price
+   * @param volume Tick volume
+   * @returns Completed bar or undefined
+   */
+  update(
+    timestamp: number,
+    price: number,
+    volume: number
+  ): OHLCVBar | undefined {
+    const bar = this.bar;
+    if (bar === undefined) {
+      this.bar = {
+        timestamp,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume,
+        turnover: price * volume,
+      };
+      return undefined;
+    }
+
+    bar.high = Math.max(bar.high, price);
+    bar.low = Math.min(bar.low, price);
+    bar.close = price;
+    bar.volume += volume;
+    bar.turnover += price * volume;
+
+    if (bar.high - bar.low >= this.range) {
+      this.bar = undefined;
+      return bar;
+    }
+    return undefined;
+  }
+
+  /**
+   * Process tick object.
+   * @param tick Tick data
+   * @returns Completed bar or undefined
+   */
+  onData(tick: OHLCVTick): OHLCVBar | undefined {
+    return this.update(tick.timestamp, tick.price, tick.volume);
+  }
+
+  static readonly initSchema = z.object({ range: z.number().positive() });
+
+  static readonly doc: OperatorDoc = {
+    type: "RangeBars",
+    desc: "Bars completing when high - low reaches a fixed range",
+    init: "{range: number}",
+    input: "timestamp, price, volume",
+    output: "{timestamp, open, high, low, close, volume, turnover} | undefined",
+  };
+}
+
+/**
+ * Creates RangeBars closure for functional usage.
+ * @param opts Range configuration
+ * @returns Function that processes ticks and returns completed bars
+ */
+export function useRangeBars(opts: {
+  range: number;
+}): (tick: OHLCVTick) => OHLCVBar | undefined {
+  const instance = new RangeBars(opts);
+  return (tick) => instance.onData(tick);
+}
+
+/**
+ * Renko brick output.
+ * A move of several boxes in one update forms one bar spanning them.
+ */
+export interface RenkoBar extends OHLCVBar {
+  /** Number of boxes formed, positive up, negative down */
+  bricks: number;
+}
+
+/**
+ * Renko bricks from a bar stream's closes.
+ * Box size is fixed (boxSize) or the current ATR (atrPeriod), in which case
+ * no bricks form until ATR is ready. Continuing a trend takes one box beyond
+ * the last brick, a reversal two. Volume and turnover accumulate between bricks.
+ * Bar timestamp is the timestamp of the bar that completed the brick.
+ */
+export class Renko {
+  private readonly boxSize: number | undefined;
+  private readonly atr: ATR | undefined;
+  // Top and bottom of the last brick, equal before the first brick
+  private top: number | undefined;
+  private bottom: number = NaN;
+  private volume: number = 0;
+  private turnover: number = 0;
+
+  constructor(opts: { boxSize?: number; atrPeriod?: number }) {
+    if (opts.boxSize === undefined && opts.atrPeriod === undefined) {
+      throw new Error("Renko requires either boxSize or atrPeriod");
+    }
+    this.boxSize = opts.boxSize;
+    this.atr =
+      opts.boxSize === undefined
+        ? new ATR({ period: opts.atrPeriod! })
+        : undefined;
+  }
+
+  /**
+   * Process a bar.
+   * @param bar Source bar, only close is used for bricks
+   * @returns Completed brick or undefined
+   */
+  update(bar: OHLCVBar): RenkoBar | undefined {
+    this.volume += bar.volume;
+    this.turnover += bar.turnover;
+
+    let box = this.boxSize;
+    if (this.atr !== undefined) {
+      const atr = this.atr.update(bar.high, bar.low, bar.close);
+      box = this.atr.isReady ? atr : undefined;
+    }
+
+    if (this.top === undefined) {
+      // Anchor at the first close
+      this.top = bar.close;
+      this.bottom = bar.close;
+      return undefined;
+    }
+    if (box === undefined || !(box > 0)) return undefined;
+
+    let open: number;
+    let bricks: number;
+    if (bar.close >= this.top + box) {
+      bricks = Math.floor((bar.close - this.top) / box);
+      open = this.top;
+      this.bottom = this.top + (bricks - 1) * box;
+      this.top += bricks * box;
+    } else if (bar.close <= this.bottom - box) {
+      bricks = -Math.floor((this.bottom - bar.close) / box);
+      open = this.bottom;
+      this.top = this.bottom + (bricks + 1) * box;
+      this.bottom += bricks * box;
+    } else {
+      return undefined;
+    }
+
+    const close = open + bricks * box;
+    const brick: RenkoBar = {
+      timestamp: bar.timestamp,
+      open,
+      high: Math.max(open, close),
+      low: Math.min(open, close),
+      close,
+      volume: this.volume,
+      turnover: this.turnover,
+      bricks,
+    };
+    this.volume = 0;
+    this.turnover = 0;
+    return brick;
+  }
+
+  static readonly initSchema = z
+    .object({
+      boxSize: z.number().positive().optional(),
+      atrPeriod: PeriodValueSchema.optional(),
+    })
+    .refine(
+      (opts) => opts.boxSize !== undefined || opts.atrPeriod !== undefined,
+      { message: "Either boxSize or atrPeriod is required" }
+    );
+
+  static readonly doc: OperatorDoc = {
+    type: "Renko",
+    desc: "Renko bricks from closes, fixed or ATR box size",
+    init: "{boxSize?: number, atrPeriod?: number}",
+    input: "bar: {timestamp, open, high, low, close, volume, turnover}",
+    output:
+      "{timestamp, open, high, low, close, volume, turnover, bricks} | undefined",
+  };
+}
+
+/**
+ * Creates Renko closure for functional usage.
+ * @param opts Fixed box size or ATR period
+ * @returns Function that processes bars and returns completed bricks
+ */
+export function useRenko(opts: {
+  boxSize?: number;
+  atrPeriod?: number;
+}): (bar: OHLCVBar) => RenkoBar | undefined {
+  const instance = new Renko(opts);
+  return (bar) => instance.update(bar);
+}
+
+/**
+ * Heikin-Ashi transform of a bar stream.
+ * close = (O + H + L + C) / 4, open = midpoint of the previous HA bar's
+ * open and close, high/low extend to include both.
+ * Timestamp, volume and turnover pass through.
+ */
+export class HeikinAshi {
+  private prevOpen: number | undefined;
+  private prevClose: number = NaN;
+
+  /**
+   * Process a bar.
+   * @param bar Source bar
+   * @returns Heikin-Ashi bar
+   */
+  update(bar: OHLCVBar): OHLCVBar {
+    const close = (bar.open + bar.high + bar.low + bar.close) / 4;
+    const open =
+      this.prevOpen === undefined
+        ? (bar.open + bar.close) / 2
+        : (this.prevOpen + this.prevClose) / 2;
+    this.prevOpen = open;
+    this.prevClose = close;
+
+    return {
+      timestamp: bar.timestamp,
+      open,
+      high: Math.max(bar.high, open, close),
+      low: Math.min(bar.low, open, close),
+      close,
+      volume: bar.volume,
+      turnover: bar.turnover,
+    };
+  }
+
+  static readonly doc: OperatorDoc = {
+    type: "HeikinAshi",
+    desc: "Heikin-Ashi bars from a bar stream",
+    input: "bar: {timestamp, open, high, low, close, volume, turnover}",
+    output: "{timestamp, open, high, low, close, volume, turnover}",
+  };
+}
+
+/**
+ * Creates HeikinAshi closure for functional usage.
+ * @returns Function that processes bars and returns Heikin-Ashi bars
+ */
+export function useHeikinAshi(): (bar: OHLCVBar) => OHLCVBar {
+  const instance = new HeikinAshi();
+  return (bar) => instance.update(bar);
+}
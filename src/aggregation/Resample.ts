@@ -0,0 +1,100 @@
+import { z } from "zod";
+import type { OperatorDoc } from "../types/OpDoc.js";
+import type { OHLCVBar } from "./processors.js";
+
+/**
+ * Resample options.
+ */
+export interface ResampleOptions {
+  /** Target bar interval, buckets are aligned to epoch multiples */
+  intervalMs: number;
+  /**
+   * Source bar interval. When set, a bucket is emitted with the source bar
+   * that completes it instead of with the first bar of the next bucket.
+   */
+  sourceMs?: number;
+}
+
+/**
+ * Resample lower timeframe bars into higher timeframe bars.
+ * A bar is emitted only once its bucket is complete, so consumers never see
+ * a partial higher timeframe bar. Without sourceMs the bucket is closed by the
+ * first bar of a later bucket, like OHLCV.
+ * Buckets are UTC aligned, use CalendarOHLCV for session-aligned daily bars.
+ *
+ * In GraphExec, hold the resampled node (GraphExecOptions.hold) to consume
+ * the latest completed bar alongside every source bar.
+ */
+export class Resample {
+  private readonly interval: number;
+  private readonly source: number | undefined;
+  private current: OHLCVBar | undefined;
+
+  constructor(opts: ResampleOptions) {
+    this.interval = opts.intervalMs;
+    this.source = opts.sourceMs;
+  }
+
+  /**
+   * Process a source bar.
+   * At most one bar is emitted per update. If a bar closes the previous
+   * bucket and completes its own, its bucket is emitted with the next bar.
+   * @param bar Source bar, timestamp is its start
+   * @returns Completed bar, or undefined
+   */
+  update(bar: OHLCVBar): OHLCVBar | undefined {
+    const start = Math.floor(bar.timestamp / this.interval) * this.interval;
+
+    let out: OHLCVBar | undefined;
+    if (this.current !== undefined && this.current.timestamp !== start) {
+      out = this.current;
+      this.current = undefined;
+    }
+
+    if (this.current === undefined) {
+      this.current = { ...bar, timestamp: start };
+    } else {
+      const cur = this.current;
+      cur.high = Math.max(cur.high, bar.high);
+      cur.low = Math.min(cur.low, bar.low);
+      cur.close = bar.close;
+      cur.volume += bar.volume;
+      cur.turnover += bar.turnover;
+    }
+
+    if (
+      out === undefined &&
+      this.source !== undefined &&
+      bar.timestamp + this.source >= start + this.interval
+    ) {
+      out = this.current;
+      this.current = undefined;
+    }
+    return out;
+  }
+
+  static readonly initSchema = z.object({
+    intervalMs: z.number().positive(),
+    sourceMs: z.number().positive().optional(),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "Resample",
+    desc: "Completed higher timeframe bars from a lower timeframe bar stream",
+    init: "{intervalMs: number, sourceMs?: number}",
+    input: "bar: {timestamp, open, high, low, close, volume, turnover}",
+    output: "{timestamp, open, high, low, close, volume, turnover}",
+  };
+}
+
+/**
+ * Creates Resample closure for functional usage.
+ * @param opts Target and source interval configuration
+ * @returns Function that processes bars and returns completed bars
+ */
+export function useResample(
+  opts: ResampleOptions
+): (bar: OHLCVBar) => OHLCVBar | undefined {
+  const instance = new Resample(opts);
+  return (bar) => instance.update(bar);
+}
@@ -1,14 +1,35 @@
-import type { TumblingSpec } from "./types.js";
+import { Deque } from "@junduck/trading-core";
+import type {
+  HoppingSpec,
+  SlidingSpec,
+  TumblingSpec,
+  WindowOutput,
+} from "./types.js";
 import type { OperatorDoc } from "../types/OpDoc.js";
 
 type Constructor<T> = new (opts: any) => T;
 
+/** Operator that takes data back out, the inverse of update() */
+type Removable<TOperator extends { update(...args: any[]): any }> = {
+  remove(...args: Parameters<TOperator["update"]>): void;
+};
+
 /**
  * Factory that creates a windowed aggregator class for any streaming operator.
  *
  * Returns a constructor that can be registered in the operator registry.
  * The returned class wraps the operator and resets on window emission.
  *
+ * Reset-on-boundary generalises to overlapping windows:
+ * - TumblingSpec: one operator instance, replaced when the window emits.
+ * - HoppingSpec: one instance per open window, created when the window opens
+ *   and dropped when it emits. Output lists every emitted window.
+ * - SlidingSpec: data of the current window is buffered. Operators with a
+ *   remove() method (same arguments as update()) evict incrementally at O(1)
+ *   per update. Any other operator is NOT slid: a fresh instance replays the
+ *   whole buffer on every update, O(window) per update. Prefer removable or
+ *   Rolling* operators for long windows.
+ *
  * @example
  * ```typescript
  * // Create adapted constructor
@@ -21,6 +42,10 @@ type Constructor<T> = new (opts: any) => T;
  *
  * // Register for DAG execution
  * registry.register(SMAAggregator);
+ *
+ * // Hopping windows emit [{timestamp: windowStart, value}, ...]
+ * const hopping = new HoppingWindow({ size: 300000, step: 60000 });
+ * const outputs = aggr.update(hopping.update(timestamp), price);
  * ```
  */
 export function StreamingAdapter<
@@ -32,6 +57,14 @@ export function StreamingAdapter<
     readonly initOpts: any;
     instance: TOperator;
     last: ReturnType<TOperator["update"]> | undefined;
+    // Open hopping windows by start boundary, oldest first
+    windows: {
+      start: number;
+      instance: TOperator;
+      last: ReturnType<TOperator["update"]>;
+    }[] = [];
+    // Arguments of data in the current sliding window
+    readonly buffer = new Deque<Parameters<TOperator["update"]>>(16);
 
     constructor(opts?: any) {
       this.initOpts = opts ?? {};
@@ -43,12 +76,37 @@ export function StreamingAdapter<
      * Window as first parameter, then original operator update() parameters.
      * @param window Window emission signal
      * @param args Arguments to forward to operator's update() method
-     * @returns Output when window emits, undefined otherwise
+     * @returns Output when window emits, undefined otherwise.
+     * Hopping windows return all emitted windows, sliding windows always emit.
      */
     update(
       window: TumblingSpec,
       ...args: Parameters<TOperator["update"]>
-    ): ReturnType<TOperator["update"]> | undefined {
+    ): ReturnType<TOperator["update"]> | undefined;
+    update(
+      window: HoppingSpec,
+      ...args: Parameters<TOperator["update"]>
+    ): WindowOutput<ReturnType<TOperator["update"]>>[] | undefined;
+    update(
+      window: SlidingSpec,
+      ...args: Parameters<TOperator["update"]>
+    ): ReturnType<TOperator["update"]>;
+    update(
+      window: TumblingSpec | HoppingSpec | SlidingSpec,
+      ...args: Parameters<TOperator["update"]>
+    ): any {
+      if ("emit" in window) return this.updateHopping(window, args);
+      if ("evict" in window) return this.updateSliding(window, args);
+
+      if (window.skip) {
+        // Discard current data, emit old window if requested
+        if (window.timestamp === undefined) return undefined;
+        const output = this.last;
+        this.reset();
+        this.last = undefined;
+        return output;
+      }
+
       if (window.timestamp === undefined) {
         // Accumulate
         this.last = this.instance.update(...args);
@@ -71,22 +129,92 @@ export function StreamingAdapter<
       }
     }
 
+    updateHopping(
+      window: HoppingSpec,
+      args: Parameters<TOperator["update"]>
+    ): WindowOutput<ReturnType<TOperator["update"]>>[] | undefined {
+      // Right-open: emit closed windows before current data
+      let outputs: WindowOutput<ReturnType<TOperator["update"]>>[] | undefined;
+      for (const start of window.emit) {
+        const index = this.windows.findIndex((w) => w.start === start);
+        if (index < 0) continue;
+        const [closed] = this.windows.splice(index, 1);
+        (outputs ??= []).push({ timestamp: start, value: closed!.last });
+      }
+
+      for (const w of this.windows) {
+        w.last = w.instance.update(...args);
+      }
+      for (const start of window.open) {
+        const instance = new OperatorClass(this.initOpts);
+        this.windows.push({ start, instance, last: instance.update(...args) });
+      }
+      return outputs;
+    }
+
+    updateSliding(
+      window: SlidingSpec,
+      args: Parameters<TOperator["update"]>
+    ): ReturnType<TOperator["update"]> {
+      const instance = this.instance as TOperator &
+        Partial<Removable<TOperator>>;
+      if (instance.remove === undefined) return this.replay(window, args);
+
+      for (let i = 0; i < window.evict; i++) {
+        const evicted = this.buffer.pop_front();
+        if (evicted !== undefined) instance.remove(...evicted);
+      }
+      this.buffer.push_back(args);
+      return instance.update(...args);
+    }
+
+    /**
+     * Recompute a sliding window from scratch, O(window) per update.
+     * Fallback for operators that cannot remove data.
+     */
+    replay(
+      window: SlidingSpec,
+      args: Parameters<TOperator["update"]>
+    ): ReturnType<TOperator["update"]> {
+      this.buffer.push_back(args);
+      for (let i = 0; i < window.evict; i++) {
+        this.buffer.pop_front();
+      }
+
+      this.instance = new OperatorClass(this.initOpts);
+      let output!: ReturnType<TOperator["update"]>;
+      for (const buffered of this.buffer) {
+        output = this.instance.update(...buffered);
+      }
+      return output;
+    }
+
     /**
      * Manually reset by creating new instance.
+     * Also drops open hopping windows and buffered sliding window data.
      */
     reset(): void {
       this.instance = new OperatorClass(this.initOpts);
+      this.windows = [];
+      this.buffer.clear();
     }
   };
 
   // Steal and adapt doc from original operator
   if (originalDoc) {
+    const sliding =
+      typeof OperatorClass.prototype.remove === "function"
+        ? "slides incrementally via remove()"
+        : "replays the whole sliding window on every update";
     (AdaptedClass as any).doc = {
       type: NewOperatorName,
-      desc: `Aggregation using ${originalDoc.type}, resets on window boundary`,
+      desc:
+        `Aggregation using ${originalDoc.type}: resets on tumbling window ` +
+        `boundary, one instance per open hopping window (emits ` +
+        `[{timestamp, value}]), ${sliding}`,
       init: originalDoc.init,
-      input: `window: TumblingSpec, ${originalDoc.input}`,
-      output: `${originalDoc.output} | undefined`,
+      input: `window: TumblingSpec | HoppingSpec | SlidingSpec, ${originalDoc.input}`,
+      output: `${originalDoc.output} | WindowOutput<${originalDoc.output}>[] | undefined`,
     } as OperatorDoc;
   }
 
@@ -0,0 +1,257 @@
+import { z } from "zod";
+import type { OHLCVTick } from "./OHLCV.js";
+import type { OHLCVBar } from "./processors.js";
+import type { OperatorDoc } from "../types/OpDoc.js";
+
+/**
+ * Handling of ticks whose bar was already emitted.
+ * - "drop": discard the tick
+ * - "revise": correct the emitted bar and emit it as a revision
+ * - "side": route the tick to the side output
+ */
+export type LatePolicy = "drop" | "revise" | "side";
+
+/**
+ * Watermark OHLCV options.
+ */
+export interface WatermarkOHLCVOptions {
+  intervalMs: number;
+  /** Watermark delay behind the latest timestamp seen (default: 0) */
+  allowedLateness?: number;
+  /** Late tick policy (default: "drop") */
+  latePolicy?: LatePolicy;
+  /** Number of most recent emitted bars "revise" can correct (default: 1) */
+  revisionDepth?: number;
+}
+
+/**
+ * Watermark OHLCV output, undefined when all lists are empty.
+ */
+export interface WatermarkOHLCVOutput {
+  /** Bars finalized by the watermark, oldest first */
+  bars: OHLCVBar[];
+  /** Corrected copies of emitted bars ("revise" policy) */
+  revisions: OHLCVBar[];
+  /** Late ticks ("side" policy) */
+  late: OHLCVTick[];
+}
+
+interface PendingBar {
+  bar: OHLCVBar;
+  // Event time of the ticks that set open and close
+  openTime: number;
+  closeTime: number;
+}
+
+/**
+ * Event-time OHLCV aggregator for out-of-order ticks.
+ * The watermark trails the latest timestamp seen by allowedLateness. A bar is
+ * emitted once the watermark passes its end, so ticks arriving out of order
+ * within the lateness land in their own bar. Ticks whose bar was already
+ * emitted are late and handled by latePolicy.
+ * Open and close are taken by event time, not arrival order.
+ */
+export class WatermarkOHLCV {
+  private readonly interval: number;
+  private readonly lateness: number;
+  private readonly policy: LatePolicy;
+  private readonly depth: number;
+  // Bars not yet emitted, keyed by window start
+  private readonly pending = new Map<number, PendingBar>();
+  // Most recently emitted bars, oldest first
+  private readonly emitted: PendingBar[] = [];
+  private maxTime: number = -Infinity;
+  private lateCount: number = 0;
+  private droppedCount: number = 0;
+
+  constructor(opts: WatermarkOHLCVOptions) {
+    this.interval = opts.intervalMs;
+    this.lateness = opts.allowedLateness ?? 0;
+    this.policy = opts.latePolicy ?? "drop";
+    this.depth = opts.revisionDepth ?? 1;
+  }
+
+  /** Current watermark, -Infinity before the first tick */
+  get watermark(): number {
+    return this.maxTime - this.lateness;
+  }
+
+  /** Number of late ticks seen */
+  get lateTicks(): number {
+    return this.lateCount;
+  }
+
+  /** Number of late ticks discarded, including those too old to revise */
+  get droppedTicks(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * Process tick data.
+   * @param timestamp Tick timestamp
+   * @param price Tick price
+   * @param volume Tick volume
+   * @returns Emitted bars, revisions and late ticks, or undefined
+   */
+  update(
+    timestamp: number,
+    price: number,
+    volume: number
+  ): WatermarkOHLCVOutput | undefined {
+    const start = Math.floor(timestamp / this.interval) * this.interval;
+
+    if (start + this.interval <= this.watermark) {
+      return this.onLate(start, timestamp, price, volume);
+    }
+
+    let pending = this.pending.get(start);
+    if (pending === undefined) {
+      pending = {
+        bar: {
+          timestamp: start,
+          open: price,
+          high: price,
+          low: price,
+          close: price,
+          volume: 0,
+          turnover: 0,
+        },
+        openTime: timestamp,
+        closeTime: timestamp,
+      };
+      this.pending.set(start, pending);
+    }
+    this.apply(pending, timestamp, price, volume);
+
+    if (timestamp > this.maxTime) {
+      this.maxTime = timestamp;
+      return this.emitUpTo(this.watermark);
+    }
+    return undefined;
+  }
+
+  /**
+   * Process tick object.
+   * @param tick Tick data
+   * @returns Emitted bars, revisions and late ticks, or undefined
+   */
+  onData(tick: OHLCVTick): WatermarkOHLCVOutput | undefined {
+    return this.update(tick.timestamp, tick.price, tick.volume);
+  }
+
+  /**
+   * Emit all pending bars, e.g. at end of stream.
+   * @returns Emitted bars, or undefined if none were pending
+   */
+  flush(): WatermarkOHLCVOutput | undefined {
+    return this.emitUpTo(Infinity);
+  }
+
+  /**
+   * Reset aggregator state, including counters.
+   */
+  reset(): void {
+    this.pending.clear();
+    this.emitted.length = 0;
+    this.maxTime = -Infinity;
+    this.lateCount = 0;
+    this.droppedCount = 0;
+  }
+
+  private apply(
+    pending: PendingBar,
+    timestamp: number,
+    price: number,
+    volume: number
+  ): void {
+    const bar = pending.bar;
+    if (timestamp < pending.openTime) {
+      pending.openTime = timestamp;
+      bar.open = price;
+    }
+    if (timestamp >= pending.closeTime) {
+      pending.closeTime = timestamp;
+      bar.close = price;
+    }
+    bar.high = Math.max(bar.high, price);
+    bar.low = Math.min(bar.low, price);
+    bar.volume += volume;
+    bar.turnover += price * volume;
+  }
+
+  private emitUpTo(watermark: number): WatermarkOHLCVOutput | undefined {
+    const starts: number[] = [];
+    for (const start of this.pending.keys()) {
+      if (start + this.interval <= watermark) starts.push(start);
+    }
+    if (starts.length === 0) return undefined;
+
+    starts.sort((a, b) => a - b);
+    const bars: OHLCVBar[] = [];
+    for (const start of starts) {
+      const pending = this.pending.get(start)!;
+      this.pending.delete(start);
+      bars.push({ ...pending.bar });
+      this.emitted.push(pending);
+    }
+    if (this.emitted.length > this.depth) {
+      this.emitted.splice(0, this.emitted.length - this.depth);
+    }
+    return { bars, revisions: [], late: [] };
+  }
+
+  private onLate(
+    start: number,
+    timestamp: number,
+    price: number,
+    volume: number
+  ): WatermarkOHLCVOutput | undefined {
+    this.lateCount++;
+
+    if (this.policy === "side") {
+      return {
+        bars: [],
+        revisions: [],
+        late: [{ timestamp, price, volume }],
+      };
+    }
+
+    if (this.policy === "revise") {
+      const emitted = this.emitted.find((p) => p.bar.timestamp === start);
+      if (emitted !== undefined) {
+        this.apply(emitted, timestamp, price, volume);
+        return { bars: [], revisions: [{ ...emitted.bar }], late: [] };
+      }
+    }
+
+    this.droppedCount++;
+    return undefined;
+  }
+
+  static readonly initSchema = z.object({
+    intervalMs: z.number().positive(),
+    allowedLateness: z.number().nonnegative().default(0),
+    latePolicy: z.enum(["drop", "revise", "side"]).default("drop"),
+    revisionDepth: z.number().int().nonnegative().default(1),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "WatermarkOHLCV",
+    desc: "Event-time OHLCV candles with watermark and late tick policy",
+    init: "{intervalMs: number, allowedLateness: 0, latePolicy: drop, revisionDepth: 1}",
+    input: "timestamp, price, volume",
+    output: "{bars: any, revisions: any, late: any} | undefined",
+  };
+}
+
+/**
+ * Creates WatermarkOHLCV closure for functional usage.
+ * @param opts Interval, lateness and late policy configuration
+ * @returns Function that processes ticks and returns emitted bars
+ */
+export function useWatermarkOHLCV(
+  opts: WatermarkOHLCVOptions
+): (tick: OHLCVTick) => WatermarkOHLCVOutput | undefined {
+  const instance = new WatermarkOHLCV(opts);
+  return (tick) => instance.onData(tick);
+}
@@ -0,0 +1,308 @@
+import { z } from "zod";
+import xnys from "./calendars/xnys.json" with { type: "json" };
+import xhkg from "./calendars/xhkg.json" with { type: "json" };
+import xshg from "./calendars/xshg.json" with { type: "json" };
+
+/**
+ * Declarative trading calendar, kept as JSON data.
+ * Times are local to timezone, so DST shifts are applied per day.
+ */
+export interface CalendarSpec {
+  /** Calendar code, e.g. "XNYS" */
+  name: string;
+  /** IANA timezone of session times and dates */
+  timezone: string;
+  /**
+   * Trading segments of a regular day as local "HH:MM", ascending.
+   * Several segments model lunch breaks.
+   */
+  sessions: { open: string; close: string }[];
+  /** Trading weekdays, 0 = Sunday (default: Monday to Friday) */
+  weekdays?: number[];
+  /** Full-day closures as local "YYYY-MM-DD" */
+  holidays?: string[];
+  /** Half days: local "YYYY-MM-DD" to early close "HH:MM" */
+  earlyCloses?: Record<string, string>;
+  /**
+   * First and last year, inclusive, that holidays and early closes cover.
+   * Dates outside are rejected instead of trading as regular days.
+   * Unbounded when omitted.
+   */
+  years?: { from: number; to: number };
+}
+
+const TimeSchema = z.string().regex(/^\d{2}:\d{2}$/);
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+/** Zod schema of CalendarSpec */
+export const CalendarSpecSchema = z.object({
+  name: z.string(),
+  timezone: z.string(),
+  sessions: z.array(z.object({ open: TimeSchema, close: TimeSchema })).min(1),
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+  holidays: z.array(DateSchema).optional(),
+  earlyCloses: z.record(DateSchema, TimeSchema).optional(),
+  years: z.object({ from: z.number().int(), to: z.number().int() }).optional(),
+});
+
+/**
+ * Trading segment in epoch milliseconds, [open, close).
+ */
+export interface TradingSegment {
+  open: number;
+  close: number;
+}
+
+/** Built-in calendars by code */
+export const CALENDARS: Readonly<Record<string, CalendarSpec>> = {
+  XNYS: xnys,
+  XHKG: xhkg,
+  XSHG: xshg,
+};
+
+// Minutes since local midnight
+function parseTime(time: string): number {
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  if (match === null) {
+    throw new Error(`Invalid calendar time "${time}", expected HH:MM`);
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  if (minutes > 24 * 60) {
+    throw new Error(`Invalid calendar time "${time}", expected HH:MM`);
+  }
+  return minutes;
+}
+
+const formats = new Map<string, Intl.DateTimeFormat>();
+
+function formatFor(timezone: string): Intl.DateTimeFormat {
+  let format = formats.get(timezone);
+  if (format === undefined) {
+    // Throws RangeError for unknown timezones
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formats.set(timezone, format);
+  }
+  return format;
+}
+
+// Wall-clock fields of a timestamp in a timezone
+function zonedParts(timestamp: number, timezone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of formatFor(timezone).formatToParts(timestamp)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts["year"]!,
+    month: parts["month"]!,
+    day: parts["day"]!,
+    hour: parts["hour"]!,
+    minute: parts["minute"]!,
+    second: parts["second"]!,
+  };
+}
+
+// Local time minus UTC at a timestamp, in milliseconds
+function offsetAt(timestamp: number, timezone: string): number {
+  const p = zonedParts(timestamp, timezone);
+  const local = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return local - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to epoch milliseconds.
+ * Nonexistent times in a DST gap resolve to the offset after the shift.
+ * @param local Wall-clock time encoded as if it were UTC, e.g. Date.UTC(...)
+ * @param timezone IANA timezone
+ * @returns Epoch milliseconds
+ */
+export function zonedTimeToEpoch(local: number, timezone: string): number {
+  if (timezone === "UTC") return local;
+  // Offset at the guess may differ across a DST shift, correct once
+  const guess = local - offsetAt(local, timezone);
+  return local - offsetAt(guess, timezone);
+}
+
+function pad(x: number): string {
+  return x < 10 ? `0${x}` : `${x}`;
+}
+
+/**
+ * Exchange trading calendar.
+ * Resolves local session times to epoch milliseconds per trading day.
+ * Sessions must open and close on the same local day.
+ */
+export class ExchangeCalendar {
+  readonly name: string;
+  readonly timezone: string;
+  /** Years with holiday data, undefined if unbounded */
+  readonly years: { from: number; to: number } | undefined;
+  private readonly sessions: { open: number; close: number }[];
+  private readonly weekdays: Set<number>;
+  private readonly holidays: Set<string>;
+  private readonly earlyCloses: Map<string, number>;
+  // Segments of the most recently resolved day
+  private cachedDate: string | undefined;
+  private cachedSegments: TradingSegment[] = [];
+
+  constructor(spec: CalendarSpec) {
+    this.name = spec.name;
+    this.timezone = spec.timezone;
+    // Throws RangeError for unknown timezones
+    formatFor(spec.timezone);
+
+    this.sessions = spec.sessions.map((s) => ({
+      open: parseTime(s.open),
+      close: parseTime(s.close),
+    }));
+    let prev = -1;
+    for (const s of this.sessions) {
+      if (!(s.open > prev && s.close > s.open)) {
+        throw new Error(`Calendar ${spec.name} sessions must be ascending`);
+      }
+      prev = s.close;
+    }
+
+    this.weekdays = new Set(spec.weekdays ?? [1, 2, 3, 4, 5]);
+    this.holidays = new Set(spec.holidays ?? []);
+    this.years = spec.years;
+    if (this.years !== undefined && this.years.from > this.years.to) {
+      throw new Error(`Calendar ${spec.name} years must be ascending`);
+    }
+    this.earlyCloses = new Map(
+      Object.entries(spec.earlyCloses ?? {}).map(([date, time]) => [
+        date,
+        parseTime(time),
+      ])
+    );
+  }
+
+  /**
+   * Local calendar date of a timestamp.
+   * @param timestamp Epoch milliseconds
+   * @returns Local date as "YYYY-MM-DD"
+   */
+  localDate(timestamp: number): string {
+    const { year, month, day } = zonedParts(timestamp, this.timezone);
+    return `${year}-${pad(month)}-${pad(day)}`;
+  }
+
+  /**
+   * Check whether a local date falls in the years the calendar covers.
+   * @param date Local date as "YYYY-MM-DD"
+   */
+  covers(date: string): boolean {
+    if (this.years === undefined) return true;
+    const year = Number(date.slice(0, 4));
+    return year >= this.years.from && year <= this.years.to;
+  }
+
+  /**
+   * Check whether a local date is a trading day.
+   * Throws for dates outside the covered years, whose holidays are unknown.
+   * @param date Local date as "YYYY-MM-DD"
+   */
+  isTradingDay(date: string): boolean {
+    if (!this.covers(date)) {
+      throw new Error(
+        `Calendar ${this.name} has no holiday data for ${date}, ` +
+          `covers ${this.years!.from} to ${this.years!.to}`
+      );
+    }
+    if (this.holidays.has(date)) return false;
+    const [year, month, day] = date.split("-").map(Number);
+    const weekday = new Date(Date.UTC(year!, month! - 1, day!)).getUTCDay();
+    return this.weekdays.has(weekday);
+  }
+
+  /**
+   * Trading segments of a local date, empty on non-trading days.
+   * Early closes cut the day short. Throws outside the covered years.
+   * @param date Local date as "YYYY-MM-DD"
+   * @returns Segments in epoch milliseconds, ascending
+   */
+  segmentsOn(date: string): TradingSegment[] {
+    if (date === this.cachedDate) return this.cachedSegments;
+
+    const segments: TradingSegment[] = [];
+    if (this.isTradingDay(date)) {
+      const [year, month, day] = date.split("-").map(Number);
+      const close = this.earlyCloses.get(date) ?? Infinity;
+      for (const s of this.sessions) {
+        if (s.open >= close) break;
+        segments.push({
+          open: this.toEpoch(year!, month!, day!, s.open),
+          close: this.toEpoch(year!, month!, day!, Math.min(s.close, close)),
+        });
+      }
+    }
+
+    this.cachedDate = date;
+    this.cachedSegments = segments;
+    return segments;
+  }
+
+  /**
+   * Trading segment containing a timestamp.
+   * @param timestamp Epoch milliseconds
+   * @returns Segment, or undefined outside trading hours
+   */
+  segmentAt(timestamp: number): TradingSegment | undefined {
+    return this.segmentsOn(this.localDate(timestamp)).find(
+      (s) => s.open <= timestamp && timestamp < s.close
+    );
+  }
+
+  /**
+   * Check whether the exchange is open at a timestamp.
+   * @param timestamp Epoch milliseconds
+   */
+  isOpen(timestamp: number): boolean {
+    return this.segmentAt(timestamp) !== undefined;
+  }
+
+  private toEpoch(
+    year: number,
+    month: number,
+    day: number,
+    minutes: number
+  ): number {
+    return zonedTimeToEpoch(
+      Date.UTC(year, month - 1, day, 0, minutes),
+      this.timezone
+    );
+  }
+}
+
+/**
+ * Resolve a calendar by built-in code or spec.
+ * @param calendar Calendar code (e.g. "XNYS"), spec or calendar
+ * @returns Exchange calendar
+ */
+export function getCalendar(
+  calendar: string | CalendarSpec | ExchangeCalendar
+): ExchangeCalendar {
+  if (calendar instanceof ExchangeCalendar) return calendar;
+  if (typeof calendar !== "string") return new ExchangeCalendar(calendar);
+
+  const spec = CALENDARS[calendar];
+  if (spec === undefined) {
+    throw new Error(`Unknown calendar: ${calendar}`);
+  }
+  return new ExchangeCalendar(spec);
+}
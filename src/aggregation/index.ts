@@ -1,8 +1,27 @@
 // Core types
-export type { TumblingSpec } from "./types.js";
+export type {
+  TumblingSpec,
+  HoppingSpec,
+  SlidingSpec,
+  WindowOutput,
+} from "./types.js";
 
 // Windows
-export { TumblingWindow, CounterWindow, SessionWindow } from "./windows.js";
+export {
+  TumblingWindow,
+  CounterWindow,
+  SessionWindow,
+  CalendarWindow,
+  HoppingWindow,
+  SlidingWindow,
+  VolumeWindow,
+  DollarWindow,
+  TickImbalanceWindow,
+  VolumeImbalanceWindow,
+  TickRunWindow,
+  VolumeRunWindow,
+  type FlowWindowOptions,
+} from "./windows.js";
 
 // Processors
 export { OHLCVProcessor, type OHLCVBar } from "./processors.js";
@@ -11,4 +30,43 @@ export { OHLCVProcessor, type OHLCVBar } from "./processors.js";
 export { StreamingAdapter } from "./StreamingAdapter.js";
 
 // Convenience OHLCV
-export { OHLCV, useOHLCV, type OHLCVTick } from "./OHLCV.js";
+export {
+  OHLCV,
+  useOHLCV,
+  CalendarOHLCV,
+  useCalendarOHLCV,
+  type OHLCVTick,
+} from "./OHLCV.js";
+
+// Exchange calendars
+export {
+  ExchangeCalendar,
+  getCalendar,
+  CALENDARS,
+  CalendarSpecSchema,
+  type CalendarSpec,
+  type TradingSegment,
+} from "./calendar.js";
+
+// Event-time OHLCV
+export {
+  WatermarkOHLCV,
+  useWatermarkOHLCV,
+  type LatePolicy,
+  type WatermarkOHLCVOptions,
+  type WatermarkOHLCVOutput,
+} from "./WatermarkOHLCV.js";
+
+// Price-driven bars
+export {
+  RangeBars,
+  useRangeBars,
+  Renko,
+  useRenko,
+  HeikinAshi,
+  useHeikinAshi,
+  type RenkoBar,
+} from "./PriceBars.js";
+
+// Multi-timeframe
+export { Resample, useResample, type ResampleOptions } from "./Resample.js";
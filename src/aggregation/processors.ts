@@ -38,6 +38,22 @@ export class OHLCVProcessor {
     price: number,
     volume: number
   ): OHLCVBar | undefined {
+    if (window.skip) {
+      // Discard current data, emit old window if requested
+      if (window.timestamp === undefined) return undefined;
+      const bar: OHLCVBar = {
+        timestamp: window.timestamp,
+        open: this.open,
+        high: this.high,
+        low: this.low,
+        close: this.close,
+        volume: this.volume,
+        turnover: this.turnover,
+      };
+      this.reset();
+      return bar;
+    }
+
     if (window.timestamp === undefined) {
       // Accumulate
       if (isNaN(this.open)) {
@@ -56,7 +72,8 @@ export class OHLCVProcessor {
       // Right-closed: include current data in emitted window
       const bar: OHLCVBar = {
         timestamp: window.timestamp,
-        open: this.open,
+        // Current data may be the only data in the window
+        open: isNaN(this.open) ? price : this.open,
         high: Math.max(this.high, price),
         low: Math.min(this.low, price),
         close: price,
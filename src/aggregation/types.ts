@@ -16,4 +16,44 @@ export interface TumblingSpec {
    * true = right-closed (data included in emitted window)
    */
   include: boolean;
+
+  /**
+   * Current data belongs to no window (e.g. outside trading hours).
+   * Processors emit the old window if timestamp is set, then discard the data.
+   */
+  skip?: boolean;
+}
+
+/**
+ * Window emission signal for hopping (overlapping) windows.
+ * Each window is identified by its start boundary. Windows are right-open:
+ * emitted windows exclude current data, opened windows start with it.
+ */
+export interface HoppingSpec {
+  /** Start boundaries of windows closed by current data, oldest first */
+  emit: number[];
+
+  /** Start boundaries of windows opened by current data, oldest first */
+  open: number[];
+}
+
+/**
+ * Window emission signal for sliding windows.
+ * A sliding window emits on every update, including current data.
+ */
+export interface SlidingSpec {
+  /** Window end boundary, the current value */
+  timestamp: number;
+
+  /** Number of oldest data points evicted from the window by current data */
+  evict: number;
+}
+
+/**
+ * Output of one window emitted by an overlapping window processor.
+ */
+export interface WindowOutput<T> {
+  /** Window start boundary */
+  timestamp: number;
+  value: T;
 }
@@ -1,9 +1,17 @@
-import type { TumblingSpec } from "./types.js";
+import { Deque } from "@junduck/trading-core";
+import {
+  getCalendar,
+  type CalendarSpec,
+  type ExchangeCalendar,
+  type TradingSegment,
+} from "./calendar.js";
+import type { HoppingSpec, SlidingSpec, TumblingSpec } from "./types.js";
 
 /**
  * Time-based tumbling window (right-open).
  * Non-overlapping windows aligned to interval boundaries.
  * Current data always starts new window when boundary crossed.
+ * Assumes ordered values; use WatermarkOHLCV for out-of-order ticks.
  */
 export class TumblingWindow {
   private readonly interval: number;
@@ -115,3 +123,508 @@ export class SessionWindow {
     this.lastValue = undefined;
   }
 }
+
+/**
+ * Exchange session window (right-open).
+ * Bars of interval trading time aligned to each day's open, skipping lunch
+ * breaks; the last bar of a day is cut short at the close. Without interval,
+ * one bar per trading day. Bar boundary is its local-clock start.
+ * Data outside trading hours is skipped; once past the end of the bar in
+ * progress it emits the bar, so a timer tick at the close emits the final bar.
+ */
+export class CalendarWindow {
+  private readonly calendar: ExchangeCalendar;
+  private readonly interval: number;
+  // Segments of the current trading day, and the one containing the last value
+  private segments: TradingSegment[] = [];
+  private segment: TradingSegment | undefined;
+  // Clock start and end of the bar in progress
+  private barStart: number | undefined;
+  private barEnd: number = NaN;
+
+  constructor(opts: {
+    calendar: string | CalendarSpec | ExchangeCalendar;
+    interval?: number;
+  }) {
+    this.calendar = getCalendar(opts.calendar);
+    this.interval = opts.interval ?? Infinity;
+    if (!(this.interval > 0)) {
+      throw new Error("CalendarWindow interval must be positive");
+    }
+  }
+
+  update(value: number): TumblingSpec {
+    const segment = this.locate(value);
+
+    if (segment === undefined) {
+      // Breaks inside a bar (e.g. lunch) keep it open
+      if (this.barStart === undefined || value < this.barEnd) {
+        return { include: false, skip: true };
+      }
+      const spec: TumblingSpec = {
+        timestamp: this.barStart,
+        include: false,
+        skip: true,
+      };
+      this.barStart = undefined;
+      return spec;
+    }
+
+    const [start, end] = this.barAt(value, segment);
+    if (this.barStart === undefined) {
+      this.barStart = start;
+      this.barEnd = end;
+      return { include: false };
+    }
+    if (start !== this.barStart) {
+      const spec: TumblingSpec = { timestamp: this.barStart, include: false };
+      this.barStart = start;
+      this.barEnd = end;
+      return spec;
+    }
+    return { include: false };
+  }
+
+  reset(): void {
+    this.segments = [];
+    this.segment = undefined;
+    this.barStart = undefined;
+    this.barEnd = NaN;
+  }
+
+  private locate(value: number): TradingSegment | undefined {
+    // Fast path: still inside the last segment
+    const last = this.segment;
+    if (last !== undefined && last.open <= value && value < last.close) {
+      return last;
+    }
+    this.segments = this.calendar.segmentsOn(this.calendar.localDate(value));
+    this.segment = this.segments.find(
+      (s) => s.open <= value && value < s.close
+    );
+    return this.segment;
+  }
+
+  // Clock start and end of the bar containing value, aligned in trading
+  // time from the day's open
+  private barAt(value: number, segment: TradingSegment): [number, number] {
+    const close = this.segments[this.segments.length - 1]!.close;
+    if (this.interval === Infinity) return [this.segments[0]!.open, close];
+
+    let elapsed = 0;
+    for (const s of this.segments) {
+      if (s === segment) break;
+      elapsed += s.close - s.open;
+    }
+    elapsed += value - segment.open;
+    const offset = Math.floor(elapsed / this.interval) * this.interval;
+    return [
+      this.toClock(offset, false),
+      this.toClock(offset + this.interval, true),
+    ];
+  }
+
+  // Map trading time offset from the day's open to the clock
+  private toClock(offset: number, end: boolean): number {
+    let base = 0;
+    for (const s of this.segments) {
+      const length = s.close - s.open;
+      // A bar ending at a break ends at the segment close
+      if (offset < base + length || (end && offset === base + length)) {
+        return s.open + (offset - base);
+      }
+      base += length;
+    }
+    return this.segments[this.segments.length - 1]!.close;
+  }
+}
+
+/**
+ * Hopping window (right-open).
+ * Overlapping windows of length size starting every step, aligned to step
+ * boundaries. Each value belongs to every window whose [start, start + size)
+ * covers it. Windows no value falls into are never opened.
+ */
+export class HoppingWindow {
+  private readonly size: number;
+  private readonly step: number;
+  // Start boundaries of open windows, ascending
+  private readonly starts: number[] = [];
+  private lastStart: number = -Infinity;
+
+  constructor(opts: { size: number; step: number }) {
+    if (!(opts.size > 0) || !(opts.step > 0)) {
+      throw new Error("HoppingWindow size and step must be positive");
+    }
+    this.size = opts.size;
+    this.step = opts.step;
+  }
+
+  update(value: number): HoppingSpec {
+    const emit: number[] = [];
+    while (this.starts.length > 0 && this.starts[0]! + this.size <= value) {
+      emit.push(this.starts.shift()!);
+    }
+
+    // Open windows covering value that start after the last opened one
+    const open: number[] = [];
+    const first = Math.floor((value - this.size) / this.step) + 1;
+    const last = Math.floor(value / this.step);
+    for (let k = first; k <= last; k++) {
+      const start = k * this.step;
+      if (start <= this.lastStart) continue;
+      open.push(start);
+      this.starts.push(start);
+      this.lastStart = start;
+    }
+
+    return { emit, open };
+  }
+
+  reset(): void {
+    this.starts.length = 0;
+    this.lastStart = -Infinity;
+  }
+}
+
+/**
+ * Sliding window (right-closed).
+ * Emits on every value a window covering (value - size, value],
+ * evicting values that fell out of it.
+ * StreamingAdapter only slides operators with remove(); others are replayed
+ * over the whole window on every value.
+ */
+export class SlidingWindow {
+  private readonly size: number;
+  private readonly values = new Deque<number>(16);
+
+  constructor(opts: { size: number }) {
+    if (!(opts.size > 0)) {
+      throw new Error("SlidingWindow size must be positive");
+    }
+    this.size = opts.size;
+  }
+
+  update(value: number): SlidingSpec {
+    this.values.push_back(value);
+
+    let evict = 0;
+    while (this.values.front()! <= value - this.size) {
+      this.values.pop_front();
+      evict++;
+    }
+
+    return { timestamp: value, evict };
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Volume window (right-closed).
+ * Emits once accumulated volume reaches threshold, including the crossing tick.
+ * Boundary value is the bar's total volume.
+ */
+export class VolumeWindow {
+  private readonly threshold: number;
+  private volume: number = 0;
+
+  constructor(opts: { threshold: number }) {
+    this.threshold = opts.threshold;
+  }
+
+  update(volume: number): TumblingSpec {
+    this.volume += volume;
+
+    if (this.volume >= this.threshold) {
+      const spec: TumblingSpec = { timestamp: this.volume, include: true };
+      this.volume = 0;
+      return spec;
+    }
+
+    return { include: false };
+  }
+
+  reset(): void {
+    this.volume = 0;
+  }
+}
+
+/**
+ * Dollar (turnover) window (right-closed).
+ * Emits once accumulated price * volume reaches threshold.
+ * Boundary value is the bar's total turnover.
+ */
+export class DollarWindow {
+  private readonly threshold: number;
+  private turnover: number = 0;
+
+  constructor(opts: { threshold: number }) {
+    this.threshold = opts.threshold;
+  }
+
+  update(price: number, volume: number): TumblingSpec {
+    this.turnover += price * volume;
+
+    if (this.turnover >= this.threshold) {
+      const spec: TumblingSpec = { timestamp: this.turnover, include: true };
+      this.turnover = 0;
+      return spec;
+    }
+
+    return { include: false };
+  }
+
+  reset(): void {
+    this.turnover = 0;
+  }
+}
+
+/** Options of imbalance and run windows */
+export interface FlowWindowOptions {
+  /** Ticks in the first bar, seeds the expected bar length */
+  initialTicks: number;
+  /** EWMA period of bar length and buy/sell rates, counted in bars */
+  period: number;
+  /** Shortest bar in ticks, default ceil(initialTicks / 4) */
+  minTicks?: number;
+  /** Longest bar in ticks, a bar is forced closed here, default initialTicks * 4 */
+  maxTicks?: number;
+  /**
+   * Floor of the expected |buy - sell| (imbalance) or max(buy, sell) (run)
+   * of a bar in ticks, scaled by the expected tick volume for volume windows.
+   * Default sqrt(initialTicks) for imbalance and initialTicks / 4 for runs.
+   */
+  minThreshold?: number;
+}
+
+/**
+ * Tick-rule classified buy/sell flow of the current bar, with EWMA
+ * expectations estimated from completed bars.
+ */
+class FlowEstimator {
+  private readonly alpha: number;
+  private prevPrice: number | undefined;
+  private sign: number = 0;
+
+  readonly initialTicks: number;
+  readonly minTicks: number;
+  readonly maxTicks: number;
+  readonly minThreshold: number | undefined;
+
+  ticks: number = 0;
+  buy: number = 0;
+  sell: number = 0;
+
+  // Expectations, undefined until the first bar completes
+  expectedTicks: number;
+  expectedBuyRate: number | undefined;
+  expectedSellRate: number | undefined;
+
+  constructor(opts: FlowWindowOptions) {
+    this.alpha = 2 / (opts.period + 1);
+    this.initialTicks = opts.initialTicks;
+    this.minTicks = opts.minTicks ?? Math.ceil(opts.initialTicks / 4);
+    this.maxTicks = opts.maxTicks ?? opts.initialTicks * 4;
+    this.minThreshold = opts.minThreshold;
+    if (this.minTicks > this.maxTicks) {
+      throw new Error(
+        `minTicks ${this.minTicks} exceeds maxTicks ${this.maxTicks}`
+      );
+    }
+    this.expectedTicks = opts.initialTicks;
+  }
+
+  /** Classify tick by price change, unchanged price keeps previous side */
+  push(price: number, weight: number): void {
+    if (this.prevPrice !== undefined && price !== this.prevPrice) {
+      this.sign = price > this.prevPrice ? 1 : -1;
+    }
+    this.prevPrice = price;
+    this.ticks++;
+    if (this.sign > 0) this.buy += weight;
+    else if (this.sign < 0) this.sell += weight;
+  }
+
+  /**
+   * Test flow against max(expected, floor) within the bar length limits:
+   * never close before minTicks, always close at maxTicks. The first bar
+   * closes after initialTicks ticks.
+   */
+  spec(flow: number, expected: number, minThreshold: number): TumblingSpec {
+    let emit: boolean;
+    if (this.ticks < this.minTicks) emit = false;
+    else if (this.ticks >= this.maxTicks) emit = true;
+    else if (this.expectedBuyRate === undefined) {
+      emit = this.ticks >= this.initialTicks;
+    } else {
+      // Floor in ticks, scaled to expected weight per signed tick
+      const floor =
+        (this.minThreshold ?? minThreshold) *
+        (this.expectedBuyRate + this.expectedSellRate!);
+      emit = flow >= Math.max(expected, floor);
+    }
+    return emit
+      ? { timestamp: this.close(), include: true }
+      : { include: false };
+  }
+
+  /** Fold the current bar into expectations and start a new one */
+  close(): number {
+    const ticks = this.ticks;
+    const buyRate = this.buy / ticks;
+    const sellRate = this.sell / ticks;
+    if (this.expectedBuyRate === undefined) {
+      this.expectedBuyRate = buyRate;
+      this.expectedSellRate = sellRate;
+    } else {
+      this.expectedBuyRate += this.alpha * (buyRate - this.expectedBuyRate);
+      this.expectedSellRate! +=
+        this.alpha * (sellRate - this.expectedSellRate!);
+    }
+    // Clamped so short or long bars cannot feed back without bound
+    this.expectedTicks = Math.min(
+      this.maxTicks,
+      Math.max(
+        this.minTicks,
+        this.expectedTicks + this.alpha * (ticks - this.expectedTicks)
+      )
+    );
+    this.ticks = 0;
+    this.buy = 0;
+    this.sell = 0;
+    return ticks;
+  }
+
+  reset(): void {
+    this.prevPrice = undefined;
+    this.sign = 0;
+    this.ticks = 0;
+    this.buy = 0;
+    this.sell = 0;
+    this.expectedTicks = this.initialTicks;
+    this.expectedBuyRate = undefined;
+    this.expectedSellRate = undefined;
+  }
+}
+
+/**
+ * Emit when |buy - sell| reaches expected bar length * |expected imbalance rate|.
+ * The threshold is floored at sqrt(initialTicks) ticks by default, which a
+ * balanced random walk reaches in about initialTicks ticks.
+ */
+function imbalanceSpec(flow: FlowEstimator): TumblingSpec {
+  const expected =
+    flow.expectedTicks *
+    Math.abs(flow.expectedBuyRate! - flow.expectedSellRate!);
+  return flow.spec(
+    Math.abs(flow.buy - flow.sell),
+    expected,
+    Math.sqrt(flow.initialTicks)
+  );
+}
+
+/**
+ * Emit when max(buy, sell) reaches expected bar length * max expected rate.
+ * The threshold is floored at initialTicks / 4 ticks by default.
+ */
+function runSpec(flow: FlowEstimator): TumblingSpec {
+  const expected =
+    flow.expectedTicks *
+    Math.max(flow.expectedBuyRate!, flow.expectedSellRate!);
+  return flow.spec(
+    Math.max(flow.buy, flow.sell),
+    expected,
+    flow.initialTicks / 4
+  );
+}
+
+/**
+ * Tick imbalance window (right-closed).
+ * Ticks are signed by the tick rule; emits when the signed tick count
+ * exceeds its EWMA expectation. Boundary value is the bar's tick count.
+ */
+export class TickImbalanceWindow {
+  private readonly flow: FlowEstimator;
+
+  constructor(opts: FlowWindowOptions) {
+    this.flow = new FlowEstimator(opts);
+  }
+
+  update(price: number): TumblingSpec {
+    this.flow.push(price, 1);
+    return imbalanceSpec(this.flow);
+  }
+
+  reset(): void {
+    this.flow.reset();
+  }
+}
+
+/**
+ * Volume imbalance window (right-closed).
+ * Like TickImbalanceWindow with ticks weighted by volume.
+ * Boundary value is the bar's tick count.
+ */
+export class VolumeImbalanceWindow {
+  private readonly flow: FlowEstimator;
+
+  constructor(opts: FlowWindowOptions) {
+    this.flow = new FlowEstimator(opts);
+  }
+
+  update(price: number, volume: number): TumblingSpec {
+    this.flow.push(price, volume);
+    return imbalanceSpec(this.flow);
+  }
+
+  reset(): void {
+    this.flow.reset();
+  }
+}
+
+/**
+ * Tick run window (right-closed).
+ * Emits when the larger of buy and sell tick counts exceeds its EWMA
+ * expectation. Boundary value is the bar's tick count.
+ */
+export class TickRunWindow {
+  private readonly flow: FlowEstimator;
+
+  constructor(opts: FlowWindowOptions) {
+    this.flow = new FlowEstimator(opts);
+  }
+
+  update(price: number): TumblingSpec {
+    this.flow.push(price, 1);
+    return runSpec(this.flow);
+  }
+
+  reset(): void {
+    this.flow.reset();
+  }
+}
+
+/**
+ * Volume run window (right-closed).
+ * Like TickRunWindow with ticks weighted by volume.
+ * Boundary value is the bar's tick count.
+ */
+export class VolumeRunWindow {
+  private readonly flow: FlowEstimator;
+
+  constructor(opts: FlowWindowOptions) {
+    this.flow = new FlowEstimator(opts);
+  }
+
+  update(price: number, volume: number): TumblingSpec {
+    this.flow.push(price, volume);
+    return runSpec(this.flow);
+  }
+
+  reset(): void {
+    this.flow.reset();
+  }
+}
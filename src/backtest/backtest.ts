@@ -0,0 +1,250 @@
+import type { GraphExec } from "../flow/graph-exec.js";
+
+/**
+ * When a signal is executed.
+ * - "close": at the close of the bar that produced it
+ * - "next_open": at the open of the following bar
+ */
+export type ExecutionTiming = "close" | "next_open";
+
+/**
+ * How the signal value is turned into a target position.
+ * - "units": signal is the target position in units (negative = short)
+ * - "equity": signal is the target exposure as a fraction of equity
+ */
+export type PositionSizing = "units" | "equity";
+
+/** Backtest options */
+export interface BacktestOptions {
+  /** Node whose output is the target position, booleans map to 1 and 0 */
+  signal: string;
+  /** Default "next_open" */
+  execution?: ExecutionTiming;
+  /** Default "units" */
+  sizing?: PositionSizing;
+  /** Starting cash, default 100000 */
+  initialCash?: number;
+  /** Adverse price move per fill as a fraction of price, default 0 */
+  slippage?: number;
+  /**
+   * Commission as a fraction of fill notional, or a function of the signed
+   * fill quantity and fill price. Default 0.
+   */
+  commission?: number | ((qty: number, price: number) => number);
+}
+
+/** Executed fill */
+export interface BacktestTrade {
+  /** Index of the bar/tick the fill happened on */
+  index: number;
+  timestamp: number;
+  /** Signed quantity, positive = buy */
+  qty: number;
+  /** Fill price including slippage */
+  price: number;
+  commission: number;
+  /** Position after the fill */
+  position: number;
+  /** Profit realized by reducing the position, before commission */
+  realizedPnl: number;
+}
+
+/** Account state marked to market at the close of a bar/tick */
+export interface EquityPoint {
+  index: number;
+  timestamp: number;
+  price: number;
+  position: number;
+  cash: number;
+  equity: number;
+}
+
+/** Backtest result */
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  equity: EquityPoint[];
+  initialCash: number;
+  finalEquity: number;
+  totalReturn: number;
+  totalCommission: number;
+}
+
+/**
+ * Event-driven backtester replaying a stream through a GraphExec.
+ * Accepts BarData (open/close) and OHLCVTick (price) records; the timestamp
+ * field is used when present, otherwise the update index.
+ * Fills use average cost accounting. Runs synchronously and is deterministic.
+ */
+export class Backtest {
+  private readonly signal: string;
+  private readonly execution: ExecutionTiming;
+  private readonly sizing: PositionSizing;
+  private readonly initialCash: number;
+  private readonly slippage: number;
+  private readonly commission: (qty: number, price: number) => number;
+
+  private index = 0;
+  private cash: number;
+  private position = 0;
+  private avgPrice = 0;
+  private totalCommission = 0;
+  // Target awaiting the next bar's open
+  private pending: number | undefined;
+
+  private readonly trades: BacktestTrade[] = [];
+  private readonly equity: EquityPoint[] = [];
+
+  /**
+   * @param graph Graph producing the signal node, fed every bar/tick
+   * @param opts Backtest options
+   */
+  constructor(private readonly graph: GraphExec, opts: BacktestOptions) {
+    if (!graph.plan().names.includes(opts.signal)) {
+      throw new Error(`Unknown signal node '${opts.signal}'`);
+    }
+    this.signal = opts.signal;
+    this.execution = opts.execution ?? "next_open";
+    this.sizing = opts.sizing ?? "units";
+    this.initialCash = opts.initialCash ?? 100000;
+    this.slippage = opts.slippage ?? 0;
+    const commission = opts.commission ?? 0;
+    this.commission =
+      typeof commission === "number"
+        ? (qty, price) => Math.abs(qty) * price * commission
+        : commission;
+    this.cash = this.initialCash;
+  }
+
+  /**
+   * Process one bar or tick: fill pending orders, run the graph, act on the signal.
+   * @returns Account state at the close of this bar/tick
+   */
+  update(data: any): EquityPoint {
+    const index = this.index++;
+    const timestamp =
+      typeof data.timestamp === "number" ? data.timestamp : index;
+    const close: number = data.close ?? data.price;
+    if (typeof close !== "number") {
+      throw new Error(
+        `Cannot backtest record ${index}: expected close or price field`
+      );
+    }
+    const open: number = data.open ?? close;
+
+    if (this.pending !== undefined) {
+      this.fill(this.pending, open, index, timestamp);
+      this.pending = undefined;
+    }
+
+    const state = this.graph.update(data);
+    const target = this.readSignal(state[this.signal], index);
+    if (target !== undefined) {
+      if (this.execution === "close") {
+        this.fill(target, close, index, timestamp);
+      } else {
+        this.pending = target;
+      }
+    }
+
+    const point: EquityPoint = {
+      index,
+      timestamp,
+      price: close,
+      position: this.position,
+      cash: this.cash,
+      equity: this.cash + this.position * close,
+    };
+    this.equity.push(point);
+    return point;
+  }
+
+  /** Trades and equity curve so far. */
+  result(): BacktestResult {
+    const last = this.equity[this.equity.length - 1];
+    const finalEquity = last ? last.equity : this.initialCash;
+    return {
+      trades: [...this.trades],
+      equity: [...this.equity],
+      initialCash: this.initialCash,
+      finalEquity,
+      totalReturn: finalEquity / this.initialCash - 1,
+      totalCommission: this.totalCommission,
+    };
+  }
+
+  private readSignal(value: unknown, index: number): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === "boolean") return value ? 1 : 0;
+    if (typeof value !== "number") {
+      const got = typeof value;
+      throw new Error(
+        `Signal node '${this.signal}' produced ${got} at record ${index}, expected number or boolean`
+      );
+    }
+    return Number.isNaN(value) ? undefined : value;
+  }
+
+  /** Trade towards target position at price before slippage */
+  private fill(
+    target: number,
+    price: number,
+    index: number,
+    timestamp: number
+  ): void {
+    const equity = this.cash + this.position * price;
+    const targetUnits =
+      this.sizing === "equity" ? (target * equity) / price : target;
+    const qty = targetUnits - this.position;
+    if (qty === 0) return;
+
+    const fillPrice = price * (1 + Math.sign(qty) * this.slippage);
+    const commission = this.commission(qty, fillPrice);
+
+    // Average cost: reducing realizes PnL, extending averages the price,
+    // crossing zero opens the remainder at the fill price
+    let realizedPnl = 0;
+    const newPosition = this.position + qty;
+    if (this.position !== 0 && Math.sign(qty) !== Math.sign(this.position)) {
+      const closed = Math.min(Math.abs(qty), Math.abs(this.position));
+      realizedPnl =
+        closed * Math.sign(this.position) * (fillPrice - this.avgPrice);
+      if (Math.sign(newPosition) !== Math.sign(this.position)) {
+        this.avgPrice = newPosition === 0 ? 0 : fillPrice;
+      }
+    } else {
+      this.avgPrice =
+        (this.avgPrice * this.position + fillPrice * qty) / newPosition;
+    }
+
+    this.cash -= qty * fillPrice + commission;
+    this.position = newPosition;
+    this.totalCommission += commission;
+    this.trades.push({
+      index,
+      timestamp,
+      qty,
+      price: fillPrice,
+      commission,
+      position: newPosition,
+      realizedPnl,
+    });
+  }
+}
+
+/**
+ * Replay a stream through a graph and collect the result.
+ * @param graph Graph producing the signal node, should start from a fresh state
+ * @param data BarData or OHLCVTick records in time order
+ * @param opts Backtest options
+ */
+export function runBacktest(
+  graph: GraphExec,
+  data: Iterable<any>,
+  opts: BacktestOptions
+): BacktestResult {
+  const backtest = new Backtest(graph, opts);
+  for (const record of data) {
+    backtest.update(record);
+  }
+  return backtest.result();
+}
@@ -0,0 +1,10 @@
+export {
+  Backtest,
+  runBacktest,
+  type BacktestOptions,
+  type BacktestResult,
+  type BacktestTrade,
+  type EquityPoint,
+  type ExecutionTiming,
+  type PositionSizing,
+} from "./backtest.js";
@@ -0,0 +1,38 @@
+// Readers
+export {
+  readLines,
+  readCsv,
+  readJsonl,
+  parseCsv,
+  parseCsvLine,
+  parseJsonl,
+  type CsvOptions,
+  type LineSource,
+} from "./readers.js";
+
+// Timestamps
+export {
+  parseTimestamp,
+  zonedTimeToEpoch,
+  type TimestampOptions,
+  type TimestampUnit,
+} from "./timestamp.js";
+
+// Bars and ticks
+export {
+  readRecords,
+  readBars,
+  readTicks,
+  toBars,
+  toTicks,
+  type TimedBar,
+  type BarColumns,
+  type TickColumns,
+  type RecordSource,
+  type DataFormat,
+  type MarketDataOptions,
+  type MarketFileOptions,
+} from "./market.js";
+
+// Replay
+export { Replay, toColumns, type ReplayOptions } from "./replay.js";
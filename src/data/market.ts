@@ -0,0 +1,190 @@
+import type { BarData } from "../types/BarData.js";
+import type { OHLCVTick } from "../aggregation/OHLCV.js";
+import { parseCsv, parseJsonl, readLines, type CsvOptions } from "./readers.js";
+import { parseTimestamp, type TimestampOptions } from "./timestamp.js";
+
+/**
+ * Bar with epoch millisecond timestamp.
+ */
+export interface TimedBar extends BarData {
+  timestamp: number;
+}
+
+/** Source record field (CSV column or JSON key) of each bar field */
+export type BarColumns = Partial<Record<keyof TimedBar, string>>;
+
+/** Source record field (CSV column or JSON key) of each tick field */
+export type TickColumns = Partial<Record<keyof OHLCVTick, string>>;
+
+/** Records from parseCsv, parseJsonl or any other source */
+export type RecordSource =
+  | Iterable<Record<string, unknown>>
+  | AsyncIterable<Record<string, unknown>>;
+
+/**
+ * File format, inferred from the extension when omitted:
+ * ".jsonl" and ".ndjson" are JSON lines, anything else is CSV.
+ */
+export type DataFormat = "csv" | "jsonl";
+
+/**
+ * Market data mapping options.
+ */
+export interface MarketDataOptions<C> {
+  /** Source field of each output field (default: same name) */
+  columns?: C;
+  /** Timestamp unit, timezone or custom parser */
+  timestamp?: TimestampOptions;
+}
+
+/**
+ * Market data file options.
+ */
+export interface MarketFileOptions<C> extends MarketDataOptions<C> {
+  format?: DataFormat;
+  /** CSV options, ignored for JSON lines */
+  csv?: CsvOptions;
+}
+
+// Empty and missing values are absent, anything else must be numeric
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  return typeof value === "number" ? value : Number(value);
+}
+
+function field(
+  record: Record<string, unknown>,
+  columns: Partial<Record<string, string>>,
+  name: string,
+  index: number,
+  required: boolean
+): number | undefined {
+  const raw = record[columns[name] ?? name];
+  const value = toNumber(raw);
+  if (value === undefined && !required) return undefined;
+  if (value === undefined || Number.isNaN(value)) {
+    const got = JSON.stringify(raw);
+    throw new Error(
+      `Cannot read record ${index}: ${name} is not a number (got ${got})`
+    );
+  }
+  return value;
+}
+
+function timestampOf(
+  record: Record<string, unknown>,
+  columns: Partial<Record<string, string>>,
+  index: number,
+  opts: TimestampOptions
+): number {
+  const key = columns["timestamp"] ?? "timestamp";
+  let timestamp: number;
+  try {
+    timestamp = parseTimestamp(record[key], opts);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(`Cannot read record ${index}: ${reason}`);
+  }
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Cannot read record ${index}: timestamp is not a number`);
+  }
+  return timestamp;
+}
+
+/**
+ * Map records to bars. Timestamp and close are required; open, high, low and
+ * volume are copied when present.
+ * @param records Source records
+ * @param opts Column mapping and timestamp parsing
+ * @returns Bars in source order
+ */
+export async function* toBars(
+  records: RecordSource,
+  opts: MarketDataOptions<BarColumns> = {}
+): AsyncGenerator<TimedBar> {
+  const columns = opts.columns ?? {};
+  const tsOpts = opts.timestamp ?? {};
+  let index = 0;
+
+  for await (const record of records) {
+    const bar: TimedBar = {
+      timestamp: timestampOf(record, columns, index, tsOpts),
+      close: field(record, columns, "close", index, true)!,
+    };
+    for (const name of ["open", "high", "low", "volume"] as const) {
+      const value = field(record, columns, name, index, false);
+      if (value !== undefined) bar[name] = value;
+    }
+    index++;
+    yield bar;
+  }
+}
+
+/**
+ * Map records to ticks. Timestamp and price are required, volume defaults
+ * to 0.
+ * @param records Source records
+ * @param opts Column mapping and timestamp parsing
+ * @returns Ticks in source order
+ */
+export async function* toTicks(
+  records: RecordSource,
+  opts: MarketDataOptions<TickColumns> = {}
+): AsyncGenerator<OHLCVTick> {
+  const columns = opts.columns ?? {};
+  const tsOpts = opts.timestamp ?? {};
+  let index = 0;
+
+  for await (const record of records) {
+    const tick: OHLCVTick = {
+      timestamp: timestampOf(record, columns, index, tsOpts),
+      price: field(record, columns, "price", index, true)!,
+      volume: field(record, columns, "volume", index, false) ?? 0,
+    };
+    index++;
+    yield tick;
+  }
+}
+
+/**
+ * Stream records of a local CSV or JSON lines file.
+ * @param path File path
+ * @param format File format (default: inferred from the extension)
+ * @param csv CSV options
+ */
+export function readRecords(
+  path: string,
+  format: DataFormat = inferFormat(path),
+  csv: CsvOptions = {}
+): AsyncGenerator<Record<string, unknown>> {
+  const lines = readLines(path);
+  return format === "jsonl" ? parseJsonl(lines) : parseCsv(lines, csv);
+}
+
+/**
+ * Stream bars from a local CSV or JSON lines file.
+ * @param path File path
+ * @param opts Format, column mapping and timestamp parsing
+ */
+export function readBars(
+  path: string,
+  opts: MarketFileOptions<BarColumns> = {}
+): AsyncGenerator<TimedBar> {
+  return toBars(readRecords(path, opts.format, opts.csv), opts);
+}
+
+/**
+ * Stream ticks from a local CSV or JSON lines file.
+ * @param path File path
+ * @param opts Format, column mapping and timestamp parsing
+ */
+export function readTicks(
+  path: string,
+  opts: MarketFileOptions<TickColumns> = {}
+): AsyncGenerator<OHLCVTick> {
+  return toTicks(readRecords(path, opts.format, opts.csv), opts);
+}
+
+function inferFormat(path: string): DataFormat {
+  return /\.(jsonl|ndjson)$/i.test(path) ? "jsonl" : "csv";
+}
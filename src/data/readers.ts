@@ -0,0 +1,172 @@
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+
+/** Lines of text, e.g. from readLines or an in-memory array */
+export type LineSource = Iterable<string> | AsyncIterable<string>;
+
+/**
+ * CSV parsing options.
+ */
+export interface CsvOptions {
+  /** Field delimiter (default: ",") */
+  delimiter?: string;
+  /** Column names, when omitted the first line is the header */
+  columns?: string[];
+  /** Lines starting with this prefix are skipped, e.g. "#" */
+  comment?: string;
+}
+
+/**
+ * Stream the lines of a local text file.
+ * @param path File path
+ * @returns Lines without line terminators
+ */
+export function readLines(path: string): AsyncIterable<string> {
+  return createInterface({
+    input: createReadStream(path, { encoding: "utf8" }),
+    crlfDelay: Infinity,
+  });
+}
+
+/**
+ * Split one CSV line into fields.
+ * Fields may be quoted with ", a doubled "" is a literal quote.
+ * Quoted fields cannot span lines.
+ * @param line CSV line
+ * @param delimiter Field delimiter (default: ",")
+ * @returns Unquoted fields
+ */
+export function parseCsvLine(line: string, delimiter: string = ","): string[] {
+  const fields = splitCsv(line, delimiter);
+  if (fields === undefined) {
+    throw new Error("Cannot parse CSV line: unterminated quoted field");
+  }
+  return fields;
+}
+
+// Undefined when a quoted field is not terminated
+function splitCsv(line: string, delimiter: string): string[] | undefined {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  while (i < line.length) {
+    const ch = line[i]!;
+    if (quoted) {
+      if (ch !== '"') {
+        field += ch;
+        i++;
+      } else if (line[i + 1] === '"') {
+        field += '"';
+        i += 2;
+      } else {
+        quoted = false;
+        i++;
+      }
+    } else if (ch === '"' && field.length === 0) {
+      quoted = true;
+      i++;
+    } else if (line.startsWith(delimiter, i)) {
+      fields.push(field);
+      field = "";
+      i += delimiter.length;
+    } else {
+      field += ch;
+      i++;
+    }
+  }
+
+  if (quoted) return undefined;
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Parse CSV lines into records keyed by column name.
+ * Blank lines are skipped.
+ * @param lines CSV lines
+ * @param opts Delimiter, columns and comment prefix
+ * @returns Records with string values, in file order
+ */
+export async function* parseCsv(
+  lines: LineSource,
+  opts: CsvOptions = {}
+): AsyncGenerator<Record<string, string>> {
+  const delimiter = opts.delimiter ?? ",";
+  let columns = opts.columns;
+  let lineNo = 0;
+
+  for await (const raw of lines) {
+    lineNo++;
+    // Strip BOM and CR left by in-memory sources
+    let line = lineNo === 1 ? raw.replace(/^\uFEFF/, "") : raw;
+    if (line.endsWith("\r")) line = line.slice(0, -1);
+    if (line.trim() === "") continue;
+    if (opts.comment !== undefined && line.startsWith(opts.comment)) continue;
+
+    const fields = splitCsv(line, delimiter);
+    if (fields === undefined) {
+      throw new Error(
+        `Cannot parse CSV line ${lineNo}: unterminated quoted field`
+      );
+    }
+
+    if (columns === undefined) {
+      columns = fields.map((name) => name.trim());
+      continue;
+    }
+    if (fields.length !== columns.length) {
+      throw new Error(
+        `Cannot parse CSV line ${lineNo}: expected ${columns.length} fields, got ${fields.length}`
+      );
+    }
+
+    const record: Record<string, string> = {};
+    for (let i = 0; i < columns.length; i++) {
+      record[columns[i]!] = fields[i]!;
+    }
+    yield record;
+  }
+}
+
+/**
+ * Parse JSON lines into records. Blank lines are skipped.
+ * @param lines JSONL lines
+ * @returns Parsed values, in file order
+ */
+export async function* parseJsonl(lines: LineSource): AsyncGenerator<any> {
+  let lineNo = 0;
+  for await (const line of lines) {
+    lineNo++;
+    if (line.trim() === "") continue;
+    let value: any;
+    try {
+      value = JSON.parse(line);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new Error(`Cannot parse JSONL line ${lineNo}: ${reason}`);
+    }
+    yield value;
+  }
+}
+
+/**
+ * Stream records of a local CSV file.
+ * @param path File path
+ * @param opts Delimiter, columns and comment prefix
+ */
+export function readCsv(
+  path: string,
+  opts: CsvOptions = {}
+): AsyncGenerator<Record<string, string>> {
+  return parseCsv(readLines(path), opts);
+}
+
+/**
+ * Stream records of a local JSON lines file.
+ * @param path File path
+ */
+export function readJsonl(path: string): AsyncGenerator<any> {
+  return parseJsonl(readLines(path));
+}
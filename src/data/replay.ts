@@ -0,0 +1,114 @@
+import { setTimeout as sleep } from "node:timers/promises";
+
+/**
+ * Replay options.
+ */
+export interface ReplayOptions<T> {
+  /**
+   * Playback speed relative to record timestamps, e.g. 1 = real time,
+   * 60 = one minute per second (default: Infinity, no pacing)
+   */
+  speed?: number;
+  /** Record timestamp in epoch milliseconds (default: record.timestamp) */
+  timestamp?: (record: T) => number;
+}
+
+/**
+ * Replay source pacing recorded data by its timestamps.
+ * Iterate it, or pass a sink to run() to feed GraphExec, OHLCV, a Backtest
+ * or any other consumer. Sources such as readBars can be iterated once.
+ */
+export class Replay<T> implements AsyncIterable<T> {
+  private readonly source: Iterable<T> | AsyncIterable<T>;
+  private readonly speed: number;
+  private readonly timestampOf: (record: T) => number;
+
+  /**
+   * @param source Records in time order
+   * @param opts Speed and timestamp accessor
+   */
+  constructor(
+    source: Iterable<T> | AsyncIterable<T>,
+    opts: ReplayOptions<T> = {}
+  ) {
+    const speed = opts.speed ?? Infinity;
+    if (!(speed > 0)) {
+      throw new Error(`Replay speed must be positive, got ${speed}`);
+    }
+    this.source = source;
+    this.speed = speed;
+    this.timestampOf = opts.timestamp ?? ((record: any) => record.timestamp);
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    // Wall clock and record time of the first record, pacing is relative to
+    // them so delays do not accumulate drift
+    let wallStart = 0;
+    let dataStart: number | undefined;
+
+    for await (const record of this.source) {
+      if (this.speed !== Infinity) {
+        const timestamp = this.timestampOf(record);
+        if (dataStart === undefined) {
+          dataStart = timestamp;
+          wallStart = performance.now();
+        } else {
+          const due = wallStart + (timestamp - dataStart) / this.speed;
+          const wait = due - performance.now();
+          if (wait > 0) await sleep(wait);
+        }
+      }
+      yield record;
+    }
+  }
+
+  /**
+   * Feed every record to a sink, awaiting it when it returns a Promise
+   * (e.g. graph.updateAsync).
+   * @param sink Record consumer, e.g. (bar) => graph.update(bar)
+   * @returns Number of records replayed
+   */
+  async run(sink: (record: T) => unknown): Promise<number> {
+    let count = 0;
+    for await (const record of this) {
+      const result = sink(record);
+      if (result instanceof Promise) await result;
+      count++;
+    }
+    return count;
+  }
+}
+
+/**
+ * Collect records into Float64Array columns for the batch path, e.g.
+ * GraphExec.runBatch(await toColumns(readBars(path))).
+ * @param source Records
+ * @param fields Fields to collect (default: numeric fields of the first record)
+ * @returns Columns by field, NaN where a record lacks the field
+ */
+export async function toColumns(
+  source: Iterable<any> | AsyncIterable<any>,
+  fields?: readonly string[]
+): Promise<Record<string, Float64Array>> {
+  let names = fields;
+  let columns: number[][] = [];
+
+  for await (const record of source) {
+    if (names === undefined) {
+      names = Object.keys(record).filter(
+        (key) => typeof record[key] === "number"
+      );
+    }
+    if (columns.length === 0) columns = names.map(() => []);
+    for (let j = 0; j < names.length; j++) {
+      const value = record[names[j]!];
+      columns[j]!.push(typeof value === "number" ? value : NaN);
+    }
+  }
+
+  const out: Record<string, Float64Array> = {};
+  (names ?? []).forEach((name, j) => {
+    out[name] = Float64Array.from(columns[j] ?? []);
+  });
+  return out;
+}
@@ -0,0 +1,110 @@
+import { zonedTimeToEpoch } from "../aggregation/calendar.js";
+
+export { zonedTimeToEpoch };
+
+/**
+ * Unit of numeric timestamps.
+ * "us" and "ns" keep sub-millisecond precision as a fraction of a millisecond,
+ * they are not truncated.
+ */
+export type TimestampUnit = "s" | "ms" | "us" | "ns";
+
+/**
+ * Timestamp parsing options.
+ */
+export interface TimestampOptions {
+  /** Unit of numeric timestamps (default: "ms") */
+  unit?: TimestampUnit;
+  /** IANA timezone of date strings without offset (default: "UTC") */
+  timezone?: string;
+  /** Custom parser returning epoch milliseconds, overrides unit and timezone */
+  parse?: (value: unknown) => number;
+}
+
+// Decimal digits to shift a value in unit right to get milliseconds
+const DIGITS_PER_UNIT: Record<TimestampUnit, number> = {
+  s: -3,
+  ms: 0,
+  us: 3,
+  ns: 6,
+};
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+// YYYY-MM-DD or YYYYMMDD, optional HH:MM[:SS[.fff]] and Z / ±HH[:]MM offset
+const DATE_TIME =
+  /^(\d{4})[-/]?(\d{2})[-/]?(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+// Divide rather than multiply by 0.001, which is inexact in binary
+function scaleNumber(value: number, unit: TimestampUnit): number {
+  const digits = DIGITS_PER_UNIT[unit];
+  return digits < 0 ? value * 10 ** -digits : value / 10 ** digits;
+}
+
+// Move the decimal point within the string, so epochs beyond 2^53 (e.g. in
+// nanoseconds) keep whole milliseconds exact
+function scaleNumeric(text: string, unit: TimestampUnit): number {
+  const digits = DIGITS_PER_UNIT[unit];
+  if (digits <= 0) return scaleNumber(Number(text), unit);
+  const sign = text.startsWith("-") ? "-" : "";
+  const [int, frac = ""] = text.slice(sign.length).split(".");
+  const padded = int!.padStart(digits + 1, "0");
+  return Number(
+    `${sign}${padded.slice(0, -digits)}.${padded.slice(-digits)}${frac}`
+  );
+}
+
+function parseOffset(offset: string): number {
+  if (offset.toUpperCase() === "Z") return 0;
+  const sign = offset[0] === "-" ? -1 : 1;
+  const digits = offset.slice(1).replace(":", "");
+  const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2));
+  return sign * minutes * 60000;
+}
+
+/**
+ * Parse a timestamp to epoch milliseconds.
+ * Numbers and numeric strings are scaled by unit; pass nanosecond epochs as
+ * strings, they exceed Number precision. Date strings
+ * ("2025-03-10", "20250310", "2025-03-10 09:30:00.250", ISO 8601 with
+ * offset) without an offset are read in timezone.
+ * @param value Timestamp value
+ * @param opts Unit and timezone
+ * @returns Epoch milliseconds
+ */
+export function parseTimestamp(
+  value: unknown,
+  opts: TimestampOptions = {}
+): number {
+  if (opts.parse) return opts.parse(value);
+
+  if (typeof value === "number") {
+    return scaleNumber(value, opts.unit ?? "ms");
+  }
+  if (typeof value !== "string") {
+    throw new Error(`Cannot parse timestamp ${JSON.stringify(value)}`);
+  }
+
+  const text = value.trim();
+  // Eight digits are a YYYYMMDD date, not an epoch in January 1970
+  if (NUMERIC.test(text) && !/^\d{8}$/.test(text)) {
+    return scaleNumeric(text, opts.unit ?? "ms");
+  }
+
+  const match = DATE_TIME.exec(text);
+  if (match === null) {
+    throw new Error(`Cannot parse timestamp "${value}"`);
+  }
+  const [, year, month, day, hour, minute, second, fraction, offset] = match;
+  const local = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour ?? 0),
+    Number(minute ?? 0),
+    Number(second ?? 0),
+    Number((fraction ?? "0").padEnd(3, "0").slice(0, 3))
+  );
+
+  if (offset !== undefined) return local - parseOffset(offset);
+  return zonedTimeToEpoch(local, opts.timezone ?? "UTC");
+}
@@ -0,0 +1,131 @@
+/**
+ * Columnar output of a batch run.
+ * Numeric (or boolean) outputs become one column, object outputs one column
+ * per field. Rows where nothing was produced are NaN, booleans are 1/0.
+ */
+export type BatchOutput = Float64Array | Record<string, Float64Array>;
+
+function nanColumn(length: number): Float64Array {
+  return new Float64Array(length).fill(NaN);
+}
+
+function isScalar(value: unknown): value is number | boolean {
+  return typeof value === "number" || typeof value === "boolean";
+}
+
+/**
+ * Check that input columns line up.
+ * @returns Common column length
+ */
+export function batchLength(columns: ArrayLike<number>[]): number {
+  const length = columns[0]?.length ?? 0;
+  for (const column of columns) {
+    if (column.length !== length) {
+      throw new Error(
+        `Cannot run batch: column lengths differ (${column.length} vs ${length})`
+      );
+    }
+  }
+  return length;
+}
+
+/**
+ * Collects streaming outputs row by row into columns.
+ * The shape (number or object fields) is taken from the first output.
+ */
+export class BatchCollector {
+  private readonly length: number;
+  private readonly name: string;
+  private column: Float64Array | undefined;
+  private keys: string[] | undefined;
+  private fields: Float64Array[] = [];
+
+  /**
+   * @param length Number of rows
+   * @param name Output name for error messages
+   */
+  constructor(length: number, name: string) {
+    this.length = length;
+    this.name = name;
+  }
+
+  /** Record the output of row i, undefined leaves the row NaN. */
+  set(i: number, value: any): void {
+    if (value === undefined) return;
+
+    if (this.column !== undefined) {
+      this.column[i] = value;
+    } else if (this.keys !== undefined) {
+      const keys = this.keys;
+      for (let k = 0; k < keys.length; k++) {
+        this.fields[k]![i] = value[keys[k]!];
+      }
+    } else {
+      this.init(value);
+      this.set(i, value);
+    }
+  }
+
+  /** Collected columns, all NaN if nothing was produced. */
+  result(): BatchOutput {
+    if (this.keys !== undefined) {
+      const out: Record<string, Float64Array> = {};
+      this.keys.forEach((key, k) => {
+        out[key] = this.fields[k]!;
+      });
+      return out;
+    }
+    return this.column ?? nanColumn(this.length);
+  }
+
+  private init(value: unknown): void {
+    if (isScalar(value)) {
+      this.column = nanColumn(this.length);
+      return;
+    }
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      throw new Error(
+        `Cannot batch output of ${this.name}: expected numbers or objects of numbers`
+      );
+    }
+    for (const [key, field] of Object.entries(value)) {
+      if (field !== undefined && !isScalar(field)) {
+        throw new Error(
+          `Cannot batch output of ${this.name}: field '${key}' is not a number`
+        );
+      }
+    }
+    this.keys = Object.keys(value);
+    this.fields = this.keys.map(() => nanColumn(this.length));
+  }
+}
+
+/**
+ * Run an operator over columnar inputs, e.g. historical bars.
+ * Row i calls op.update(inputs[0][i], inputs[1][i], ...), so outputs match
+ * the streaming path exactly while skipping per-bar input objects. The loop
+ * is generated per call so the update call site only sees one operator.
+ * @param op Operator instance, its state advances as with update
+ * @param inputs Input columns in op.update parameter order
+ * @returns Output columns, NaN where the operator produced nothing
+ * @example
+ * const atr = computeBatch(new ATR({ period: 14 }), [high, low, close]);
+ * const macd = computeBatch(new MACD(opts), [close]); // {macd, signal, histogram}
+ */
+export function computeBatch(
+  op: { update(...args: any[]): unknown },
+  inputs: ArrayLike<number>[]
+): BatchOutput {
+  const length = batchLength(inputs);
+  const out = new BatchCollector(length, op.constructor.name);
+
+  const source = [
+    ...inputs.map((_, j) => `const x${j} = inputs[${j}];`),
+    "for (let i = 0; i < length; i++) {",
+    `  out.set(i, op.update(${inputs.map((_, j) => `x${j}[i]`).join(", ")}));`,
+    "}",
+  ].join("\n");
+  const run = new Function("op", "inputs", "out", "length", source);
+  run(op, inputs, out, length);
+  return out.result();
+}
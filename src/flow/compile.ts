@@ -0,0 +1,109 @@
+import type { GraphExec } from "./graph-exec.js";
+import { OpAdapter, type DagNode, type Op } from "./utils.js";
+import { applyWarmup } from "../primitive/warmup.js";
+
+/** Compiled graph update, returns the same state object as GraphExec.update */
+export type CompiledGraph = (data: any) => Record<string, any>;
+
+/**
+ * Compile a graph into a single straight-line update function.
+ * Topological order is fixed at compile time, node outputs are held in local
+ * variables and input paths become direct property access.
+ * The compiled function shares operator instances with the graph, so it
+ * continues from (and advances) the graph's state.
+ * Async nodes are not awaited, use GraphExec.updateAsync for those.
+ * Held nodes (GraphExecOptions.hold) share their last outputs with the graph.
+ * @param graph Graph to compile, must not be modified afterwards
+ * @returns Update function equivalent to graph.update
+ */
+export function compileGraph(graph: GraphExec): CompiledGraph {
+  const plan = graph.plan();
+  const index = new Map(plan.names.map((name, i) => [name, i]));
+  const key = (name: string) => JSON.stringify(name);
+  const holding = plan.hold.some(Boolean);
+
+  const ops: (Op | undefined)[] = [];
+  const nodes: (DagNode | undefined)[] = [];
+  const head: string[] = [];
+  const body: string[] = [];
+
+  body.push(`const state = { ${key(plan.root)}: data };`);
+  body.push(`const v0 = data;`);
+
+  for (const idx of plan.order) {
+    const node = plan.nodes[idx]!;
+
+    // A node runs only when every predecessor produced a value
+    const preds = plan.predecessors[idx]!;
+    const conds = preds
+      .filter((j) => j !== 0)
+      .map((j) => `v${j} !== undefined`);
+    // With held nodes, at least one value must be new
+    if (holding && !preds.includes(0)) {
+      conds.push(`(${preds.map((j) => `f${j}`).join(" || ")})`);
+    }
+    const guard = conds.join(" && ");
+
+    let call: string;
+    let ready: string;
+    if (node instanceof OpAdapter) {
+      ops[idx] = node.target;
+      head.push(`const op${idx} = ops[${idx}];`);
+      const args = node.inputPath.map((path) => {
+        if (!path) return `state[""]`;
+        const [first, ...rest] = path.split(".");
+        const src = index.get(first!)!;
+        // Null or missing parents give undefined, as in OpAdapter
+        let expr = src === 0 ? "v0" : `v${src}`;
+        for (const part of rest) expr += `?.[${key(part)}]`;
+        return expr;
+      });
+      call = `op${idx}.update(${args.join(", ")})`;
+      ready = `op${idx}.isReady`;
+    } else {
+      nodes[idx] = node;
+      head.push(`const node${idx} = nodes[${idx}];`);
+      call = `node${idx}.predSatisfied(state)`;
+      ready = `node${idx}.isReady`;
+    }
+
+    const lines = [`v${idx} = ${call};`];
+    if (plan.warmup !== "current") {
+      lines.push(
+        `if (${ready} === false) v${idx} = applyWarmup(v${idx}, ${key(
+          plan.warmup
+        )});`
+      );
+    }
+    if (holding) {
+      lines.push(`f${idx} = v${idx} !== undefined;`);
+      if (plan.hold[idx]) lines.push(`if (f${idx}) held[${idx}] = v${idx};`);
+    }
+
+    const store = `if (v${idx} !== undefined) state[${key(
+      plan.names[idx]!
+    )}] = v${idx};`;
+
+    body.push(`let v${idx};`);
+    if (holding) body.push(`let f${idx} = false;`);
+    if (guard) {
+      body.push(`if (${guard}) {`, ...lines.map((l) => "  " + l), `}`);
+    } else {
+      body.push(...lines);
+    }
+    if (plan.hold[idx]) body.push(`if (!f${idx}) v${idx} = held[${idx}];`);
+    body.push(store);
+  }
+
+  body.push("return state;");
+
+  const source = [
+    ...head,
+    "return function compiledUpdate(data) {",
+    ...body.map((l) => "  " + l),
+    "};",
+  ].join("\n");
+
+  const factory = new Function("ops", "nodes", "applyWarmup", "held", source);
+  return factory(ops, nodes, applyWarmup, plan.held) as CompiledGraph;
+}
@@ -7,13 +7,72 @@ import {
 } from "./validate.js";
 import { validateAdjList } from "./validate-topo.js";
 import { OpAdapter, type DagNode, type Op } from "./utils.js";
+import {
+  GRAPH_SNAPSHOT_VERSION,
+  restoreOp,
+  restoreValue,
+  snapshotOp,
+  snapshotValue,
+  type GraphSnapshot,
+  type OpState,
+} from "./snapshot.js";
+import { BatchCollector, batchLength, type BatchOutput } from "./batch.js";
+import { compileGraph } from "./compile.js";
+import { applyWarmup } from "../primitive/warmup.js";
+import type { WarmupPolicy } from "../types/Warmup.js";
+import type { OperatorDoc } from "../types/OpDoc.js";
+
+/** @internal Static execution plan of a GraphExec, see compileGraph */
+export interface GraphPlan {
+  root: string;
+  names: readonly string[];
+  nodes: readonly (DagNode | null)[];
+  predecessors: readonly (readonly number[])[];
+  /** Node indices in topological order, root excluded */
+  order: number[];
+  warmup: WarmupPolicy;
+  /** i -> whether node i holds its last output */
+  hold: readonly boolean[];
+  /** i -> last output of held node i, shared with the graph */
+  held: any[];
+}
+
+/** GraphExec options */
+export interface GraphExecOptions {
+  /** How outputs of nodes that are not ready are reported, default "current" */
+  warmup?: WarmupPolicy;
+  /**
+   * Nodes that hold their last output, true for every node.
+   * On updates where a held node produces nothing, successors still see its
+   * latest value. A node runs when every predecessor has a value and at
+   * least one produced a new one, so held values never re-run the nodes
+   * that consume only them.
+   */
+  hold?: boolean | readonly string[];
+}
+
+/** Per-update bookkeeping of a graph with held nodes */
+interface HeldRun {
+  order: readonly number[];
+  state: Record<string, any>;
+  // i -> output visible to successors, fresh or held
+  values: any[];
+  // i -> produced a new output this update
+  fresh: Uint8Array;
+}
+
+/** Registered type of an operator, its class name if it has no doc */
+function opType(op: object): string {
+  const doc = (op.constructor as { doc?: OperatorDoc }).doc;
+  return doc?.type ?? op.constructor.name;
+}
 
 class NodeBuilder {
   constructor(private graph: GraphExec, private name: string, private op: Op) {}
 
   depends(...inputPaths: string[]): GraphExec {
     const node = new OpAdapter(this.op, inputPaths);
-    return this.graph.addNode(this.name, node);
+    return this.graph.addNode(this.name, node, opType(this.op));
   }
 }
 
@@ -24,6 +83,9 @@ class NodeBuilder {
 export class GraphExec {
   private readonly rootNode: string;
   private readonly rootIndex = 0;
+  private readonly warmup: WarmupPolicy;
+  private readonly holdAll: boolean;
+  private readonly holdNames: ReadonlySet<string>;
 
   // Index based adjlist
 
@@ -33,12 +95,22 @@ export class GraphExec {
   private readonly nodeNames: string[] = [];
   // i -> instance
   private readonly nodes: (DagNode | null)[] = [];
+  // i -> operator type, recorded in snapshots
+  private readonly nodeTypes: string[] = [];
   // i -> pred[] -> j
   private readonly predecessors: number[][] = [];
   // j -> succ[] -> i
   private readonly successors: number[][] = [];
+  // i -> holds last output
+  private readonly hold: boolean[] = [];
+  // i -> last output of held node
+  private readonly held: any[] = [];
+  private holding = false;
+  // Topological order for held updates, reset when nodes are added
+  private order: number[] | undefined;
 
   private size = 1; // Root takes index 0
+  private pending = false; // updateAsync in flight
 
   get rootName(): string {
     return this.rootNode;
@@ -47,18 +119,28 @@ export class GraphExec {
   /**
    * Create a new GraphExec with a root node.
    * @param rootNode Name of the root node that receives external data
+   * @param opts Graph options
    */
-  constructor(rootNode: string) {
+  constructor(rootNode: string, opts: GraphExecOptions = {}) {
     this.rootNode = rootNode;
+    this.warmup = opts.warmup ?? "current";
+    this.holdAll = opts.hold === true;
+    this.holdNames = new Set(Array.isArray(opts.hold) ? opts.hold : []);
     this.nodeIndex.set(rootNode, this.rootIndex);
     this.nodeNames[this.rootIndex] = rootNode;
     this.nodes[this.rootIndex] = null; // Root has no DagNode
+    this.nodeTypes[this.rootIndex] = "";
     this.predecessors[this.rootIndex] = [];
     this.successors[this.rootIndex] = [];
+    this.hold[this.rootIndex] = false;
   }
 
   /** Construct a graph from JSON descriptor. */
-  static fromJSON(schema: FlowGraph, registry: OpRegistry): GraphExec {
+  static fromJSON(
+    schema: FlowGraph,
+    registry: OpRegistry,
+    opts: GraphExecOptions = {}
+  ): GraphExec {
     const validationResult = validateFlowGraph(schema, registry);
     if (!validationResult.valid) {
       const errorMessages = validationResult.errors
@@ -67,14 +149,24 @@ export class GraphExec {
       throw new Error(`Invalid graph schema: ${errorMessages}`);
     }
 
-    const graph = new GraphExec(schema.root);
+    const graph = new GraphExec(schema.root, opts);
 
     for (const nodeDesc of schema.nodes) {
       const ctor = registry.get(nodeDesc.type)!;
-      const instance = new ctor(nodeDesc.init ?? {});
+      // Validated above, parsing fills in defaults
+      const initSchema = registry.getInitSchema(nodeDesc.type);
+      const init = nodeDesc.init ?? {};
+      const instance = new ctor(initSchema ? initSchema.parse(init) : init);
       const sources = normalizeUpdateSource(nodeDesc.inputSrc);
       const node = new OpAdapter(instance, sources);
-      graph.addNode(nodeDesc.name, node);
+      graph.addNode(nodeDesc.name, node, nodeDesc.type);
+    }
+
+    const names = new Set(schema.nodes.map((node) => node.name));
+    for (const name of Array.isArray(opts.hold) ? opts.hold : []) {
+      if (!names.has(name)) {
+        throw new Error(`Cannot hold node '${name}': node does not exist`);
+      }
     }
 
     return graph;
@@ -100,12 +192,15 @@ export class GraphExec {
     this.predecessors.push([]);
     this.successors.push([]);
     this.nodes.push(null); // avoid sparse
+    this.nodeTypes.push("");
+    this.hold.push(false);
+    this.held.push(undefined);
 
     return idx;
   }
 
   /** @internal */
-  addNode(name: string, node: DagNode): this {
+  addNode(name: string, node: DagNode, type: string = opType(node)): this {
     if (node === null) {
       throw new Error(
         `Cannot add node with name '${name}': node is null instance`
@@ -128,6 +223,12 @@ export class GraphExec {
     }
     // Set node instance
     this.nodes[nodeIdx] = node;
+    this.nodeTypes[nodeIdx] = type;
+    this.order = undefined;
+    if (this.holdAll || this.holdNames.has(name)) {
+      this.hold[nodeIdx] = true;
+      this.holding = true;
+    }
 
     const preds = this.predecessors[nodeIdx]!;
 
@@ -179,8 +280,156 @@ export class GraphExec {
     };
   }
 
+  /** @internal */
+  plan(): GraphPlan {
+    const inDegree = this.predecessors.map((preds) => preds.length);
+    const order: number[] = [];
+    const queue = [this.rootIndex];
+    for (let readPtr = 0; readPtr < queue.length; readPtr++) {
+      const nodeIdx = queue[readPtr]!;
+      if (nodeIdx !== this.rootIndex) order.push(nodeIdx);
+      for (const succIdx of this.successors[nodeIdx]!) {
+        if (--inDegree[succIdx]! === 0) {
+          queue.push(succIdx);
+        }
+      }
+    }
+
+    return {
+      root: this.rootNode,
+      names: this.nodeNames,
+      nodes: this.nodes,
+      predecessors: this.predecessors,
+      order,
+      warmup: this.warmup,
+      hold: this.hold,
+      held: this.held,
+    };
+  }
+
+  /**
+   * Capture the state of every node, keyed by node name.
+   * The result is JSON-serializable.
+   */
+  snapshot(): GraphSnapshot {
+    const types: GraphSnapshot["types"] = {};
+    const nodes: GraphSnapshot["nodes"] = {};
+    for (let i = 1; i < this.size; i++) {
+      const node = this.nodes[i];
+      if (!node) continue;
+      types[this.nodeNames[i]!] = this.nodeTypes[i]!;
+      nodes[this.nodeNames[i]!] = node.snapshot
+        ? node.snapshot()
+        : snapshotOp(node);
+    }
+
+    const snapshot: GraphSnapshot = {
+      version: GRAPH_SNAPSHOT_VERSION,
+      root: this.rootNode,
+      types,
+      nodes,
+    };
+    if (this.holding) {
+      const held: Record<string, OpState> = {};
+      for (let i = 1; i < this.size; i++) {
+        if (this.held[i] !== undefined) {
+          held[this.nodeNames[i]!] = snapshotValue(this.held[i]);
+        }
+      }
+      snapshot.held = held;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Restore node states captured by snapshot().
+   * The graph must have the same structure as the one that was captured,
+   * e.g. built by fromJSON from the same FlowGraph.
+   */
+  restore(snapshot: GraphSnapshot): void {
+    if (this.pending) {
+      throw new Error(
+        "Cannot restore snapshot: an async update is still in progress"
+      );
+    }
+    if (snapshot.version !== GRAPH_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Cannot restore snapshot: unsupported version ${snapshot.version}`
+      );
+    }
+    if (snapshot.root !== this.rootNode) {
+      throw new Error(
+        `Cannot restore snapshot: root '${snapshot.root}' does not match '${this.rootNode}'`
+      );
+    }
+
+    for (const name of Object.keys(snapshot.nodes)) {
+      const idx = this.nodeIndex.get(name);
+      if (idx === undefined || !this.nodes[idx]) {
+        throw new Error(
+          `Cannot restore snapshot: node '${name}' does not exist in graph`
+        );
+      }
+    }
+
+    for (let i = 1; i < this.size; i++) {
+      const name = this.nodeNames[i]!;
+      if (!this.nodes[i]) continue;
+      if (snapshot.nodes[name] === undefined) {
+        throw new Error(
+          `Cannot restore snapshot: missing state for node '${name}'`
+        );
+      }
+      if (snapshot.types[name] !== this.nodeTypes[i]) {
+        throw new Error(
+          `Cannot restore snapshot: node '${name}' has type '${snapshot.types[name]}', expected '${this.nodeTypes[i]}'`
+        );
+      }
+    }
+
+    // Node states are restored in place, roll back if any of them fails
+    const saved = this.snapshot();
+    try {
+      this.apply(snapshot);
+    } catch (err) {
+      this.apply(saved);
+      throw err;
+    }
+  }
+
+  /** Restore node states and held values from a validated snapshot. */
+  private apply(snapshot: GraphSnapshot): void {
+    // Decode held values before touching any node
+    const held = this.hold.map((hold, i) => {
+      const state = hold ? snapshot.held?.[this.nodeNames[i]!] : undefined;
+      return state === undefined ? undefined : restoreValue(state);
+    });
+
+    for (let i = 1; i < this.size; i++) {
+      const node = this.nodes[i];
+      if (!node) continue;
+      const state = snapshot.nodes[this.nodeNames[i]!]!;
+      if (node.restore) {
+        node.restore(state);
+      } else {
+        restoreOp(node, state);
+      }
+    }
+
+    for (let i = 1; i < this.size; i++) {
+      this.held[i] = held[i];
+    }
+  }
+
   /** Execute the graph with new input data. */
   update(data: any): Record<string, any> {
+    if (this.pending) {
+      throw new Error(
+        "Cannot update graph: an async update is still in progress"
+      );
+    }
+    if (this.holding) return this.updateHeld(data);
+
     let state: Record<string, any> = { [this.rootNode]: data };
 
     // Initialize topological sort with integer indices
@@ -209,7 +458,10 @@ export class GraphExec {
     while (readPtr < writePtr) {
       const nodeIdx = queue[readPtr++]!;
       const node = this.nodes[nodeIdx]!;
-      const result = node.predSatisfied(state);
+      let result = node.predSatisfied(state);
+      if (this.warmup !== "current" && node.isReady === false) {
+        result = applyWarmup(result, this.warmup);
+      }
 
       if (result === undefined) {
         continue;
@@ -232,4 +484,230 @@ export class GraphExec {
 
     return state;
   }
+
+  private updateHeld(data: any): Record<string, any> {
+    const run = this.beginHeld(data);
+    for (const nodeIdx of run.order) {
+      const node = this.nodes[nodeIdx]!;
+      const result = this.shouldRun(nodeIdx, run)
+        ? node.predSatisfied(run.state)
+        : undefined;
+      this.settle(nodeIdx, result, run);
+    }
+    return run.state;
+  }
+
+  private async updateHeldAsync(data: any): Promise<Record<string, any>> {
+    const run = this.beginHeld(data);
+    for (const nodeIdx of run.order) {
+      const node = this.nodes[nodeIdx]!;
+      let result = this.shouldRun(nodeIdx, run)
+        ? node.predSatisfied(run.state)
+        : undefined;
+      if (result instanceof Promise) {
+        result = await result;
+      }
+      this.settle(nodeIdx, result, run);
+    }
+    return run.state;
+  }
+
+  private beginHeld(data: any): HeldRun {
+    const order = (this.order ??= this.plan().order);
+    const values = new Array(this.size);
+    const fresh = new Uint8Array(this.size);
+    values[this.rootIndex] = data;
+    fresh[this.rootIndex] = 1;
+    return { order, state: { [this.rootNode]: data }, values, fresh };
+  }
+
+  /** Every predecessor has a value, at least one of them a new one */
+  private shouldRun(nodeIdx: number, run: HeldRun): boolean {
+    let anyFresh = false;
+    for (const predIdx of this.predecessors[nodeIdx]!) {
+      if (run.values[predIdx] === undefined) return false;
+      if (run.fresh[predIdx]) anyFresh = true;
+    }
+    return anyFresh;
+  }
+
+  private settle(nodeIdx: number, result: any, run: HeldRun): void {
+    const node = this.nodes[nodeIdx]!;
+    if (this.warmup !== "current" && node.isReady === false) {
+      result = applyWarmup(result, this.warmup);
+    }
+
+    if (result !== undefined) {
+      run.fresh[nodeIdx] = 1;
+      if (this.hold[nodeIdx]) this.held[nodeIdx] = result;
+    } else if (this.hold[nodeIdx]) {
+      result = this.held[nodeIdx];
+      if (result === undefined) return;
+    } else {
+      return;
+    }
+
+    run.values[nodeIdx] = result;
+    run.state[this.nodeNames[nodeIdx]!] = result;
+  }
+
+  /**
+   * Execute the graph as if data were final without committing any state,
+   * e.g. on every revision of a bar still forming. Call update() with the
+   * final data once the bar closes.
+   * Snapshots and restores every node, so each call costs a snapshot().
+   */
+  peek(data: any): Record<string, any> {
+    if (this.pending) {
+      throw new Error(
+        "Cannot peek graph: an async update is still in progress"
+      );
+    }
+    const saved = this.snapshot();
+    try {
+      return this.update(data);
+    } finally {
+      this.apply(saved);
+    }
+  }
+
+  /**
+   * Async counterpart of peek(), awaiting nodes that return a Promise.
+   * Rejects if called before the previous update has settled; updates stay
+   * rejected until the peeked state has been rolled back.
+   */
+  async peekAsync(data: any): Promise<Record<string, any>> {
+    if (this.pending) {
+      throw new Error(
+        "Cannot peek graph: an async update is still in progress"
+      );
+    }
+    this.pending = true;
+
+    try {
+      const saved = this.snapshot();
+      try {
+        return await this.runAsync(data);
+      } finally {
+        this.apply(saved);
+      }
+    } finally {
+      this.pending = false;
+    }
+  }
+
+  /**
+   * Run the graph over columnar input, e.g. historical bars.
+   * Row i is passed as {[field]: columns[field][i]} to the graph compiled by
+   * compileGraph(), so outputs match update() exactly. Async nodes are not
+   * awaited.
+   * @param columns Root input columns by field, e.g. {open, high, low, close}
+   * @param nodes Nodes to collect (default: all)
+   * @returns Output columns by node name, see BatchOutput
+   */
+  runBatch(
+    columns: Record<string, ArrayLike<number>>,
+    nodes: readonly string[] = this.nodeNames.slice(1)
+  ): Record<string, BatchOutput> {
+    if (this.pending) {
+      throw new Error("Cannot run batch: an async update is still in progress");
+    }
+    for (const name of nodes) {
+      if (!this.nodeIndex.has(name) || name === this.rootNode) {
+        throw new Error(`Cannot collect node '${name}': node does not exist`);
+      }
+    }
+
+    const fields = Object.keys(columns);
+    const inputs = fields.map((field) => columns[field]!);
+    const length = batchLength(inputs);
+    const outputs = nodes.map((name) => new BatchCollector(length, name));
+    const update = compileGraph(this);
+
+    for (let i = 0; i < length; i++) {
+      const data: Record<string, number> = {};
+      for (let j = 0; j < fields.length; j++) {
+        data[fields[j]!] = inputs[j]![i]!;
+      }
+      const state = update(data);
+      for (let k = 0; k < nodes.length; k++) {
+        outputs[k]!.set(i, state[nodes[k]!]);
+      }
+    }
+
+    const result: Record<string, BatchOutput> = {};
+    nodes.forEach((name, k) => {
+      result[name] = outputs[k]!.result();
+    });
+    return result;
+  }
+
+  /**
+   * Execute the graph with new input data, awaiting nodes that return a Promise.
+   * Nodes run one at a time in the same topological order as update().
+   * Rejects if called before the previous update has settled.
+   */
+  async updateAsync(data: any): Promise<Record<string, any>> {
+    if (this.pending) {
+      throw new Error(
+        "Cannot update graph: an async update is still in progress"
+      );
+    }
+    this.pending = true;
+
+    try {
+      return await this.runAsync(data);
+    } finally {
+      this.pending = false;
+    }
+  }
+
+  // Body of updateAsync(), leaves pending to the caller
+  private async runAsync(data: any): Promise<Record<string, any>> {
+    if (this.holding) return await this.updateHeldAsync(data);
+
+    const state: Record<string, any> = { [this.rootNode]: data };
+
+    const inDegree = new Int32Array(this.size);
+    for (let i = 0; i < this.predecessors.length; i++) {
+      inDegree[i] = this.predecessors[i]!.length;
+    }
+
+    const queue = new Int32Array(this.size);
+    let readPtr = 0;
+    let writePtr = 0;
+
+    for (const succIdx of this.successors[this.rootIndex]!) {
+      if (--inDegree[succIdx]! === 0) {
+        queue[writePtr++] = succIdx;
+      }
+    }
+
+    while (readPtr < writePtr) {
+      const nodeIdx = queue[readPtr++]!;
+      const node = this.nodes[nodeIdx]!;
+      // Only suspend for async nodes, sync nodes keep their fast path
+      let result = node.predSatisfied(state);
+      if (result instanceof Promise) {
+        result = await result;
+      }
+      if (this.warmup !== "current" && node.isReady === false) {
+        result = applyWarmup(result, this.warmup);
+      }
+
+      if (result === undefined) {
+        continue;
+      }
+
+      state[this.nodeNames[nodeIdx]!] = result;
+
+      for (const succIdx of this.successors[nodeIdx]!) {
+        if (--inDegree[succIdx]! === 0) {
+          queue[writePtr++] = succIdx;
+        }
+      }
+    }
+
+    return state;
+  }
 }
@@ -0,0 +1,355 @@
+import type { OpRegistry } from "./registry.js";
+import type { FlowGraph } from "./schema.js";
+import { GraphExec, type GraphExecOptions } from "./graph-exec.js";
+import { OpAdapter, type Op } from "./utils.js";
+import {
+  GRAPH_SNAPSHOT_VERSION,
+  restoreOp,
+  restoreValue,
+  snapshotOp,
+  snapshotValue,
+  type GraphSnapshot,
+  type OpState,
+} from "./snapshot.js";
+import { applyWarmup, isReady } from "../primitive/warmup.js";
+import type { WarmupPolicy } from "../types/Warmup.js";
+
+/** GraphPool options */
+export interface GraphPoolOptions extends GraphExecOptions {
+  /** Time source for idle tracking, default Date.now */
+  clock?: () => number;
+}
+
+/** Input path resolved against node positions in execution order */
+interface PoolInput {
+  /** Position of source node, 0 for root, -1 for empty path */
+  src: number;
+  fields: string[];
+}
+
+/** Shared per-node plan, operators are created per key */
+interface PoolNode {
+  name: string;
+  /** FlowGraph node type, recorded in snapshots */
+  type: string;
+  create: () => Op;
+  /** Positions of predecessors, 0 for root, all must have a value */
+  preds: number[];
+  inputs: PoolInput[];
+  /** Holds its last output, see GraphExecOptions.hold */
+  hold: boolean;
+}
+
+interface PoolEntry {
+  ops: Op[];
+  /** Last outputs of held nodes by position in execution order */
+  held: any[];
+  lastUpdate: number;
+}
+
+/**
+ * Runs one FlowGraph over many keys (e.g. symbols).
+ * The graph is validated and planned once; each key owns only its operator
+ * instances, created on the first update for that key.
+ * Nodes run synchronously in topological order, async nodes are not awaited.
+ */
+export class GraphPool<K = string> {
+  private readonly rootNode: string;
+  private readonly warmup: WarmupPolicy;
+  private readonly clock: () => number;
+  private readonly nodes: PoolNode[];
+  private readonly entries: Map<K, PoolEntry> = new Map();
+  // Node outputs of the running update, position 0 is root
+  private readonly values: any[];
+  // Whether values of the running update are new, not held
+  private readonly fresh: Uint8Array;
+  private readonly holding: boolean;
+
+  private constructor(root: string, nodes: PoolNode[], opts: GraphPoolOptions) {
+    this.rootNode = root;
+    this.nodes = nodes;
+    this.warmup = opts.warmup ?? "current";
+    this.clock = opts.clock ?? Date.now;
+    this.values = new Array(nodes.length + 1);
+    this.fresh = new Uint8Array(nodes.length + 1);
+    this.holding = nodes.some((node) => node.hold);
+  }
+
+  /** Construct a pool from JSON descriptor, validated like GraphExec.fromJSON. */
+  static fromJSON<K = string>(
+    schema: FlowGraph,
+    registry: OpRegistry,
+    opts: GraphPoolOptions = {}
+  ): GraphPool<K> {
+    // Validates the schema and resolves topology, instances are discarded
+    const plan = GraphExec.fromJSON(schema, registry, opts).plan();
+
+    // Node index -> position in execution order, root stays at 0
+    const position = new Map<number, number>([[0, 0]]);
+    plan.order.forEach((idx, i) => position.set(idx, i + 1));
+    const byName = new Map(plan.names.map((name, i) => [name, i]));
+    const descs = new Map(schema.nodes.map((desc) => [desc.name, desc]));
+
+    const nodes = plan.order.map((idx): PoolNode => {
+      const name = plan.names[idx]!;
+      const desc = descs.get(name)!;
+      const ctor = registry.get(desc.type)!;
+      const initSchema = registry.getInitSchema(desc.type);
+      const init = desc.init ?? {};
+      // Parsed once, shared by every key's instance
+      const opts = initSchema ? initSchema.parse(init) : init;
+      const adapter = plan.nodes[idx] as OpAdapter;
+
+      return {
+        name,
+        type: desc.type,
+        create: () => new ctor(opts),
+        preds: plan.predecessors[idx]!.map((j) => position.get(j)!),
+        inputs: adapter.inputPath.map((path) => {
+          if (!path) return { src: -1, fields: [] };
+          const [first, ...fields] = path.split(".");
+          return { src: position.get(byName.get(first!)!)!, fields };
+        }),
+        hold: plan.hold[idx]!,
+      };
+    });
+
+    return new GraphPool<K>(schema.root, nodes, opts);
+  }
+
+  get rootName(): string {
+    return this.rootNode;
+  }
+
+  /** Number of keys holding state. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Check if a key holds state. */
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  /** Keys holding state, in order of first update. */
+  keys(): IterableIterator<K> {
+    return this.entries.keys();
+  }
+
+  /**
+   * Execute the graph for a key, creating its operators on first use.
+   * @returns State object, same shape as GraphExec.update
+   */
+  update(key: K, data: any): Record<string, any> {
+    let entry = this.entries.get(key);
+    if (entry === undefined) {
+      entry = {
+        ops: this.nodes.map((node) => node.create()),
+        held: [],
+        lastUpdate: 0,
+      };
+      this.entries.set(key, entry);
+    }
+    entry.lastUpdate = this.clock();
+
+    const state: Record<string, any> = { [this.rootNode]: data };
+    const values = this.values;
+    const fresh = this.fresh;
+    values[0] = data;
+    fresh[0] = 1;
+
+    for (let i = 0; i < this.nodes.length; i++) {
+      const node = this.nodes[i]!;
+      const pos = i + 1;
+      values[pos] = undefined;
+      fresh[pos] = 0;
+
+      // Same skip rule as GraphExec: a node whose predecessor has no value
+      // does not run, nor one whose predecessors only hold old values
+      let satisfied = true;
+      let anyFresh = !this.holding;
+      for (const pred of node.preds) {
+        if (values[pred] === undefined) {
+          satisfied = false;
+          break;
+        }
+        if (fresh[pred]) anyFresh = true;
+      }
+      if (!satisfied || !anyFresh) {
+        this.settleHeld(entry, node, i, state);
+        continue;
+      }
+
+      const args = node.inputs.map(({ src, fields }) => {
+        let value = src < 0 ? undefined : values[src];
+        for (let f = 0; f < fields.length; f++) {
+          // Null or missing parents resolve to undefined, as in OpAdapter
+          if (value == null) return undefined;
+          value = value[fields[f]!];
+        }
+        return value;
+      });
+
+      const op = entry.ops[i]!;
+      let result = op.update(...args);
+      if (this.warmup !== "current" && !isReady(op)) {
+        result = applyWarmup(result, this.warmup);
+      }
+
+      if (result === undefined) {
+        this.settleHeld(entry, node, i, state);
+        continue;
+      }
+      values[pos] = result;
+      fresh[pos] = 1;
+      state[node.name] = result;
+      if (node.hold) entry.held[i] = result;
+    }
+
+    // Do not keep the last key's outputs alive
+    values.fill(undefined);
+    return state;
+  }
+
+  /**
+   * Execute the graph for a key as if data were final without committing
+   * any state, see GraphExec.peek. A key without state is not created.
+   * @returns State object, same shape as GraphExec.update
+   */
+  peek(key: K, data: any): Record<string, any> {
+    const saved = this.snapshot(key);
+    try {
+      return this.update(key, data);
+    } finally {
+      if (saved === undefined) {
+        this.entries.delete(key);
+      } else {
+        this.restore(key, saved);
+      }
+    }
+  }
+
+  /** Expose the last output of a held node that produced nothing */
+  private settleHeld(
+    entry: PoolEntry,
+    node: PoolNode,
+    i: number,
+    state: Record<string, any>
+  ): void {
+    if (!node.hold || entry.held[i] === undefined) return;
+    this.values[i + 1] = entry.held[i];
+    state[node.name] = entry.held[i];
+  }
+
+  /**
+   * Drop the state of a key, it starts fresh on its next update.
+   * @returns True if the key held state
+   */
+  evict(key: K): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Drop the state of keys not updated within a period.
+   * @param maxIdle Idle period, in clock units (ms for the default clock)
+   * @returns Evicted keys
+   */
+  evictIdle(maxIdle: number): K[] {
+    const cutoff = this.clock() - maxIdle;
+    const evicted: K[] = [];
+    for (const [key, entry] of this.entries) {
+      if (entry.lastUpdate < cutoff) {
+        this.entries.delete(key);
+        evicted.push(key);
+      }
+    }
+    return evicted;
+  }
+
+  /** Drop the state of every key. */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Capture the state of a key, same format as GraphExec.snapshot.
+   * @returns Snapshot, undefined if the key holds no state
+   */
+  snapshot(key: K): GraphSnapshot | undefined {
+    const entry = this.entries.get(key);
+    if (entry === undefined) return undefined;
+
+    const types: GraphSnapshot["types"] = {};
+    const nodes: GraphSnapshot["nodes"] = {};
+    this.nodes.forEach((node, i) => {
+      types[node.name] = node.type;
+      nodes[node.name] = snapshotOp(entry.ops[i]!);
+    });
+    const snapshot: GraphSnapshot = {
+      version: GRAPH_SNAPSHOT_VERSION,
+      root: this.rootNode,
+      types,
+      nodes,
+    };
+    if (this.holding) {
+      const held: Record<string, OpState> = {};
+      this.nodes.forEach((node, i) => {
+        if (node.hold && entry.held[i] !== undefined) {
+          held[node.name] = snapshotValue(entry.held[i]);
+        }
+      });
+      snapshot.held = held;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Restore the state of a key, e.g. one evicted after snapshot().
+   * Snapshots taken from a GraphExec built from the same FlowGraph also work.
+   */
+  restore(key: K, snapshot: GraphSnapshot): void {
+    if (snapshot.version !== GRAPH_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Cannot restore snapshot: unsupported version ${snapshot.version}`
+      );
+    }
+    if (snapshot.root !== this.rootNode) {
+      throw new Error(
+        `Cannot restore snapshot: root '${snapshot.root}' does not match '${this.rootNode}'`
+      );
+    }
+
+    const names = new Set(this.nodes.map((node) => node.name));
+    for (const name of Object.keys(snapshot.nodes)) {
+      if (!names.has(name)) {
+        throw new Error(
+          `Cannot restore snapshot: node '${name}' does not exist in graph`
+        );
+      }
+    }
+    for (const { name, type } of this.nodes) {
+      if (snapshot.nodes[name] === undefined) {
+        throw new Error(
+          `Cannot restore snapshot: missing state for node '${name}'`
+        );
+      }
+      if (snapshot.types[name] !== type) {
+        throw new Error(
+          `Cannot restore snapshot: node '${name}' has type '${snapshot.types[name]}', expected '${type}'`
+        );
+      }
+    }
+
+    // Restored into fresh instances so a failure leaves the key untouched
+    const ops = this.nodes.map((node) => {
+      const op = node.create();
+      restoreOp(op, snapshot.nodes[node.name]!);
+      return op;
+    });
+    const held = this.nodes.map((node) => {
+      const state = node.hold ? snapshot.held?.[node.name] : undefined;
+      return state === undefined ? undefined : restoreValue(state);
+    });
+    this.entries.set(key, { ops, held, lastUpdate: this.clock() });
+  }
+}
@@ -1,4 +1,5 @@
-export { GraphExec } from "./graph-exec.js";
+export { GraphExec, type GraphExecOptions } from "./graph-exec.js";
+export { GraphPool, type GraphPoolOptions } from "./graph-pool.js";
 export { GraphNodeTracker, GraphTracker } from "./graph-tracker.js";
 export { OpRegistry } from "./registry.js";
 export {
@@ -8,12 +9,26 @@ export {
   type FlowGraph,
   type FlowGraphValidationResult,
   type FlowGraphError,
+  type FlowPortError,
   type FlowGraphDiff,
   type FlowGraphComplexity,
 } from "./schema.js";
 export { validateFlowGraph, formatFlowValidationError } from "./validate.js";
+export { getOperatorPorts, parsePortType, formatPortType } from "./ports.js";
 export {
   calculateFlowGraphComplexity,
   compareFlowGraphs,
 } from "./schema-utils.js";
 export { OpAdapter } from "./utils.js";
+export { compileGraph, type CompiledGraph } from "./compile.js";
+export { computeBatch, type BatchOutput } from "./batch.js";
+export {
+  snapshotOp,
+  registerStateClass,
+  restoreOp,
+  peekOp,
+  GRAPH_SNAPSHOT_VERSION,
+  type OpState,
+  type Snapshottable,
+  type GraphSnapshot,
+} from "./snapshot.js";
@@ -0,0 +1,133 @@
+import type {
+  OperatorDoc,
+  OperatorPorts,
+  PortSchema,
+  PortType,
+} from "../types/OpDoc.js";
+
+const PRIMITIVE_TYPES = new Set(["number", "boolean", "number[]", "any"]);
+
+/**
+ * Get machine-readable ports of an operator.
+ * Uses doc.ports if present, otherwise parses doc.input and doc.output:
+ * - "a, b, c": positional parameters, number unless annotated ("x: boolean")
+ * - "x?": optional trailing parameter
+ * - "...inputs: boolean[]": rest parameter, any if not annotated
+ * - "{a, b: {c}}": object output, fields are number unless annotated
+ * - "| undefined" and "| null" alternatives are dropped
+ * - anything else is "any"
+ * @param doc Operator doc
+ * @returns Operator ports, undefined if doc describes neither ports nor input/output
+ */
+export function getOperatorPorts(doc: OperatorDoc): OperatorPorts | undefined {
+  if (doc.ports) return doc.ports;
+  // Docs of untyped registrations may lack input/output
+  if (typeof doc.input !== "string" || typeof doc.output !== "string") {
+    return undefined;
+  }
+
+  const ports: OperatorPorts = {
+    input: [],
+    output: parsePortType(doc.output),
+  };
+  for (const part of splitTopLevel(doc.input)) {
+    if (part.startsWith("...")) {
+      // Rest parameter is annotated with its array type, port takes elements
+      ports.variadic = parseParam(part.slice(3).replace(/\[\]$/, ""), "any");
+    } else {
+      ports.input.push(parseParam(part, "number"));
+    }
+  }
+  return ports;
+}
+
+/**
+ * Parse a doc type string into a port type.
+ * @param text Type string, e.g. "number", "{upper, middle, lower} | undefined"
+ * @returns Port type, "any" if not recognised
+ */
+export function parsePortType(text: string): PortType {
+  const s = text.replace(/(\s*\|\s*(undefined|null))+\s*$/, "").trim();
+  if (s.startsWith("{") && s.endsWith("}")) {
+    const fields: { [field: string]: PortType } = {};
+    for (const part of splitTopLevel(s.slice(1, -1))) {
+      const field = parseParam(part, "number");
+      fields[field.name] = field.type;
+    }
+    return fields;
+  }
+  return PRIMITIVE_TYPES.has(s) ? (s as PortType) : "any";
+}
+
+/**
+ * Format port type in doc notation, number fields are shown bare.
+ * @param type Port type
+ * @returns Type string, e.g. "{macd, signal, histogram}"
+ */
+export function formatPortType(type: PortType): string {
+  if (typeof type === "string") return type;
+  const fields = Object.entries(type).map(([name, field]) =>
+    field === "number" ? name : `${name}: ${formatPortType(field)}`
+  );
+  return `{${fields.join(", ")}}`;
+}
+
+/**
+ * Get the type of a field of a port type.
+ * @param type Port type
+ * @param field Field name, or array index for number[]
+ * @returns Field type, undefined if type has no such field
+ */
+export function getFieldType(
+  type: PortType,
+  field: string
+): PortType | undefined {
+  if (type === "any") return "any";
+  if (type === "number[]") return /^\d+$/.test(field) ? "number" : undefined;
+  if (typeof type === "string") return undefined;
+  return Object.hasOwn(type, field) ? type[field] : undefined;
+}
+
+/**
+ * Check if a value of one port type can be fed into a port of another.
+ * Object types are only checked for being objects, fields are checked per path.
+ * @param actual Type produced upstream
+ * @param expected Type accepted by the port
+ */
+export function isPortAssignable(
+  actual: PortType,
+  expected: PortType
+): boolean {
+  if (actual === "any" || expected === "any") return true;
+  if (typeof actual === "string" || typeof expected === "string") {
+    return actual === expected;
+  }
+  return true;
+}
+
+function parseParam(text: string, fallback: PortType): PortSchema {
+  const colon = text.indexOf(":");
+  const name = (colon < 0 ? text : text.slice(0, colon)).trim();
+  const type = colon < 0 ? fallback : parsePortType(text.slice(colon + 1));
+  return name.endsWith("?")
+    ? { name: name.slice(0, -1), type, optional: true }
+    : { name, type };
+}
+
+/** Split on commas outside braces, dropping empty parts */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === "{") depth++;
+    else if (c === "}") depth--;
+    else if (c === "," && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((p) => p.trim()).filter((p) => p.length > 0);
+}
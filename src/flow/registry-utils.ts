@@ -3,16 +3,27 @@ import { OpRegistry } from "./registry.js";
 import { Const } from "../primitive/Const.js";
 import * as arith from "../primitive/arithmetic.js";
 import * as logical from "../primitive/logical.js";
+import { Lag, LagTime } from "../primitive/lag.js";
+import * as cross from "../primitive/cross-section.js";
 import * as core_online from "../primitive/core-ops/online.js";
 import * as core_rolling from "../primitive/core-ops/rolling.js";
 
+import * as indMovingAvg from "../indicators/MovingAvg.js";
 import * as indOscillators from "../indicators/Oscillators.js";
 import * as indVolatility from "../indicators/Volatility.js";
 import * as indMomentum from "../indicators/Momentum.js";
 import * as indTrend from "../indicators/Trend.js";
+import * as indStops from "../indicators/Stops.js";
+import * as indCycle from "../indicators/Cycle.js";
 import * as indStochastic from "../indicators/Stochastic.js";
 import * as indAggregate from "../aggregation/index.js";
 import * as indVolume from "../indicators/Volume.js";
+import * as indPerf from "../indicators/Performance.js";
+
+import * as patSingle from "../heuristics/pattern-single.js";
+import * as patTwo from "../heuristics/pattern-two.js";
+import * as patMulti from "../heuristics/pattern-multi.js";
+import { AverageBodyLength, SmoothedTrend } from "../heuristics/utils.js";
 
 /**
  * Register Const primitive.
@@ -86,6 +97,25 @@ export function regLogicalPrimitive(reg: OpRegistry): void {
     .register(logical.Coalesce, "logical");
 }
 
+/**
+ * Register lag primitives.
+ */
+export function regLags(reg: OpRegistry): void {
+  reg.register(Lag, "lag").register(LagTime, "lag");
+}
+
+/**
+ * Register cross-sectional primitives.
+ */
+export function regCrossSection(reg: OpRegistry): void {
+  reg
+    .register(cross.CsRank, "cross_section")
+    .register(cross.CsDemean, "cross_section")
+    .register(cross.CsZScore, "cross_section")
+    .register(cross.CsWinsorize, "cross_section")
+    .register(cross.CsQuantileBucket, "cross_section");
+}
+
 /**
  * Register core online operators.
  */
@@ -137,6 +167,27 @@ export function regCoreRolling(reg: OpRegistry): void {
     .register(core_rolling.RollingQuantile, "core.rolling");
 }
 
+/**
+ * Register moving average indicators.
+ */
+export function regMovingAvgIndicators(reg: OpRegistry): void {
+  const movingAvg = [
+    indMovingAvg.WMA,
+    indMovingAvg.DEMA,
+    indMovingAvg.TEMA,
+    indMovingAvg.HMA,
+    indMovingAvg.KAMA,
+    indMovingAvg.T3,
+    indMovingAvg.ZLEMA,
+    indMovingAvg.ALMA,
+    indMovingAvg.VIDYA,
+  ];
+
+  movingAvg.forEach((ma) => {
+    if (ma) reg.register(ma, "ti.ma");
+  });
+}
+
 /**
  * Register oscillator indicators.
  */
@@ -164,6 +215,16 @@ export function regOscillatorIndicators(reg: OpRegistry): void {
 export function regVolatilityIndicators(reg: OpRegistry): void {
   const volatility = [
     indVolatility.Volatility,
+    indVolatility.ParkinsonVol,
+    indVolatility.ParkinsonVolEW,
+    indVolatility.GarmanKlassVol,
+    indVolatility.GarmanKlassVolEW,
+    indVolatility.RogersSatchellVol,
+    indVolatility.RogersSatchellVolEW,
+    indVolatility.YangZhangVol,
+    indVolatility.YangZhangVolEW,
+    indVolatility.RealizedVol,
+    indVolatility.BipowerVol,
     indVolatility.CVI,
     indVolatility.MASS,
     indVolatility.TR,
@@ -226,6 +287,41 @@ export function regTrendIndicators(reg: OpRegistry): void {
   });
 }
 
+/**
+ * Register trailing stop indicators.
+ */
+export function regStopIndicators(reg: OpRegistry): void {
+  const stops = [
+    indStops.SuperTrend,
+    indStops.ChandelierExit,
+    indStops.ChandeKrollStop,
+  ];
+
+  stops.forEach((stop) => {
+    if (stop) reg.register(stop, "ti.stops");
+  });
+}
+
+/**
+ * Register Ehlers cycle indicators and adaptive-period operators.
+ */
+export function regCycleIndicators(reg: OpRegistry): void {
+  const cycles = [
+    indCycle.DominantCycle,
+    indCycle.HilbertTransform,
+    indCycle.MAMA,
+    indCycle.SuperSmoother,
+    indCycle.RoofingFilter,
+    indCycle.LaguerreRSI,
+    indCycle.AdaptiveEMA,
+    indCycle.AdaptiveRSI,
+  ];
+
+  cycles.forEach((cycle) => {
+    if (cycle) reg.register(cycle, "ti.cycle");
+  });
+}
+
 /**
  * Register stochastic indicators.
  */
@@ -245,7 +341,15 @@ export function regStochasticIndicators(reg: OpRegistry): void {
  * Register aggregate indicators.
  */
 export function regAggregateIndicators(reg: OpRegistry): void {
-  const aggregate = [indAggregate.OHLCV];
+  const aggregate = [
+    indAggregate.OHLCV,
+    indAggregate.CalendarOHLCV,
+    indAggregate.WatermarkOHLCV,
+    indAggregate.RangeBars,
+    indAggregate.Renko,
+    indAggregate.HeikinAshi,
+    indAggregate.Resample,
+  ];
 
   aggregate.forEach((agg) => {
     if (agg) reg.register(agg, "ti.aggr");
@@ -273,6 +377,10 @@ export function regVolumeIndicators(reg: OpRegistry): void {
     indVolume.FI,
     indVolume.VROC,
     indVolume.PVT,
+    indVolume.VWAP,
+    indVolume.AVWAP,
+    indVolume.RVWAP,
+    indVolume.VWMA,
   ];
 
   volume.forEach((vol) => {
@@ -280,29 +388,122 @@ export function regVolumeIndicators(reg: OpRegistry): void {
   });
 }
 
+/**
+ * Register performance and risk metrics.
+ */
+export function regPerf(reg: OpRegistry): void {
+  const perf = [
+    indPerf.MaxDrawdown,
+    indPerf.DrawdownDuration,
+    indPerf.CuSharpe,
+    indPerf.RollingSharpe,
+    indPerf.CuSortino,
+    indPerf.RollingSortino,
+    indPerf.Calmar,
+    indPerf.Omega,
+    indPerf.HitRate,
+    indPerf.ProfitFactor,
+  ];
+
+  perf.forEach((op) => {
+    if (op) reg.register(op, "perf");
+  });
+}
+
+/**
+ * Register candlestick patterns and their helpers.
+ */
+export function regHeuristics(reg: OpRegistry): void {
+  const single = [
+    patSingle.Doji,
+    patSingle.LongLeggedDoji,
+    patSingle.DragonflyDoji,
+    patSingle.GravestoneDoji,
+    patSingle.SpinningTop,
+    patSingle.MarubozuWhite,
+    patSingle.MarubozuBlack,
+    patSingle.Hammer,
+    patSingle.InvertedHammer,
+    patSingle.HighWave,
+  ];
+
+  const two = [
+    patTwo.BearishEngulfing,
+    patTwo.BullishHarami,
+    patTwo.BearishHarami,
+    patTwo.HaramiCross,
+    patTwo.PiercingPattern,
+    patTwo.DarkCloudCover,
+    patTwo.TweezerTops,
+    patTwo.TweezerBottoms,
+    patTwo.BullishDojiStar,
+    patTwo.BearishDojiStar,
+    patTwo.InsideBar,
+    patTwo.OutsideBar,
+    patTwo.RailroadTracks,
+    patTwo.RisingWindow,
+    patTwo.FallingWindow,
+  ];
+
+  const multi = [
+    patMulti.EveningStar,
+    patMulti.MorningDojiStar,
+    patMulti.EveningDojiStar,
+    patMulti.AbandonedBabyBullish,
+    patMulti.AbandonedBabyBearish,
+    patMulti.ThreeWhiteSoldiers,
+    patMulti.ThreeBlackCrows,
+    patMulti.ThreeInsideUp,
+    patMulti.ThreeInsideDown,
+    patMulti.ThreeOutsideUp,
+    patMulti.ThreeOutsideDown,
+    patMulti.FakeyPatternBullish,
+    patMulti.FakeyPatternBearish,
+    patMulti.RisingThreeMethods,
+    patMulti.FallingThreeMethods,
+    patMulti.ThreeBuddhaTop,
+    patMulti.InvertedThreeBuddha,
+  ];
+
+  single.forEach((pat) => reg.register(pat, "heuristics.single"));
+  two.forEach((pat) => reg.register(pat, "heuristics.two"));
+  multi.forEach((pat) => reg.register(pat, "heuristics.multi"));
+  reg
+    .register(AverageBodyLength, "heuristics.utils")
+    .register(SmoothedTrend, "heuristics.utils");
+}
+
 /**
  * Register all indicator groups.
  */
 export function regAllIndicators(reg: OpRegistry): void {
+  regMovingAvgIndicators(reg);
   regOscillatorIndicators(reg);
   regVolatilityIndicators(reg);
   regMomentumIndicators(reg);
   regTrendIndicators(reg);
+  regStopIndicators(reg);
+  regCycleIndicators(reg);
   regStochasticIndicators(reg);
   regAggregateIndicators(reg);
   regVolumeIndicators(reg);
 }
 
 /**
- * Register everything: primitives, core operators, and all indicators.
+ * Register everything: primitives, core operators, indicators, performance
+ * metrics and heuristics.
  */
 export function regAll(reg: OpRegistry): void {
   regConst(reg);
   regArithmeticPrimitive(reg);
   regLogicalPrimitive(reg);
+  regLags(reg);
+  regCrossSection(reg);
   regCoreOnline(reg);
   regCoreRolling(reg);
   regAllIndicators(reg);
+  regPerf(reg);
+  regHeuristics(reg);
 }
 
 /**
@@ -312,6 +513,8 @@ export function regPrimitive(reg: OpRegistry): void {
   regConst(reg);
   regArithmeticPrimitive(reg);
   regLogicalPrimitive(reg);
+  regLags(reg);
+  regCrossSection(reg);
 }
 
 /**
@@ -321,6 +524,8 @@ export function regCoreOps(reg: OpRegistry): void {
   regConst(reg);
   regArithmeticPrimitive(reg);
   regLogicalPrimitive(reg);
+  regLags(reg);
+  regCrossSection(reg);
   regCoreOnline(reg);
   regCoreRolling(reg);
 }
@@ -1,3 +1,4 @@
+import type { z } from "zod";
 import type { OperatorDoc } from "../types/OpDoc.js";
 
 /**
@@ -12,10 +13,12 @@ export type OpContext = OperatorDoc;
 export class OpRegistry {
   private types = new Map<string, new (opts: any) => any>();
   private groups = new Map<string, OpContext[]>();
+  private initSchemas = new Map<string, z.ZodType>();
 
   /**
    * Register a type with its constructor.
    * Type name is extracted from ctor.doc.type.
+   * Constructor options schema is taken from ctor.initSchema if present.
    * @param ctor Constructor function with static doc property
    * @param group Group name (default: "")
    */
@@ -26,6 +29,13 @@ export class OpRegistry {
     }
     this.types.set(doc.type, ctor);
 
+    const initSchema = (ctor as any).initSchema as z.ZodType | undefined;
+    if (initSchema) {
+      this.initSchemas.set(doc.type, initSchema);
+    } else {
+      this.initSchemas.delete(doc.type);
+    }
+
     // Add to group
     if (!this.groups.has(group)) {
       this.groups.set(group, []);
@@ -52,6 +62,16 @@ export class OpRegistry {
     return this.types.has(name);
   }
 
+  /**
+   * Get Zod schema of constructor options for a type name.
+   * Parsing init with the schema validates it and fills in defaults.
+   * @param name Type name
+   * @returns Init schema, undefined if not found or type declares none
+   */
+  getInitSchema(name: string): z.ZodType | undefined {
+    return this.initSchemas.get(name);
+  }
+
   /**
    * Generate OpContext from registered type's static doc.
    * @param name Type name
@@ -43,7 +43,48 @@ export type FlowGraphComplexity = z.infer<typeof FlowGraphComplexitySchema>;
 export type FlowGraphError =
   | { type: "structure"; path: string; message: string }
   | { type: "unknown_type"; node: string; opType: string }
-  | FlowTopoError;
+  | {
+      type: "invalid_init";
+      node: string;
+      opType: string;
+      path: string;
+      message: string;
+    }
+  | FlowTopoError
+  | FlowPortError;
+
+/**
+ * Port errors, checked against operator doc ports.
+ * - arity_mismatch: inputSrc count differs from update parameters, required
+ *   is set when trailing parameters are optional
+ * - unknown_field: inputSrc path selects a field upstream output does not have
+ * - type_mismatch: upstream output type does not fit the input port
+ */
+export type FlowPortError =
+  | {
+      type: "arity_mismatch";
+      node: string;
+      opType: string;
+      expected: number;
+      required?: number;
+      actual: number;
+      variadic: boolean;
+    }
+  | {
+      type: "unknown_field";
+      node: string;
+      path: string;
+      field: string;
+      available: string[];
+    }
+  | {
+      type: "type_mismatch";
+      node: string;
+      path: string;
+      port: string;
+      expected: string;
+      actual: string;
+    };
 
 /**
  * Result of graph validation.
@@ -0,0 +1,338 @@
+import {
+  CircularBuffer,
+  Deque,
+  Kahan,
+  SmoothedAccum,
+} from "@junduck/trading-core";
+
+/**
+ * JSON-serializable operator state.
+ */
+export type OpState =
+  | null
+  | boolean
+  | number
+  | string
+  | OpState[]
+  | { [key: string]: OpState };
+
+/**
+ * Operator with custom state capture.
+ * Operators without these methods are captured structurally by snapshotOp.
+ */
+export interface Snapshottable {
+  snapshot(): OpState;
+  restore(state: OpState): void;
+}
+
+/**
+ * Versioned snapshot of all node states in a GraphExec.
+ */
+export interface GraphSnapshot {
+  version: number;
+  root: string;
+  /** Node type by name, e.g. the FlowGraph node type */
+  types: Record<string, string>;
+  nodes: Record<string, OpState>;
+  /** Last outputs of held nodes, see GraphExecOptions.hold */
+  held?: Record<string, OpState>;
+}
+
+/** Current GraphSnapshot format version */
+export const GRAPH_SNAPSHOT_VERSION = 2;
+
+// Tagged encodings for values JSON cannot represent:
+//   {$n: "NaN" | "Infinity" | "-Infinity" | "-0"}  special numbers
+//   {$u: 1}                                        undefined / array hole
+//   {$d: ms}                                       Date
+//   {$m: [[k, v], ...]}                            Map
+//   {$s: [v, ...]}                                 Set
+//   {$ta: ctorName, v: [...]}                      typed array
+//   {$c: ctorName, v: {...}}                       nested class instance
+
+const UNDEFINED: OpState = { $u: 1 };
+
+type StateClass = abstract new (...args: any[]) => object;
+
+/**
+ * Classes that may be created lazily inside an operator (e.g. the
+ * SmoothedAccum behind EMA) and therefore cannot be restored in place.
+ */
+const stateClasses = new Map<string, StateClass>([
+  ["CircularBuffer", CircularBuffer],
+  ["Deque", Deque],
+  ["Kahan", Kahan],
+  ["SmoothedAccum", SmoothedAccum],
+]);
+
+/**
+ * Register a class that an operator creates lazily, so restoreOp can
+ * rebuild it when the target operator has not created it yet.
+ * @param ctor Class constructor, keyed by its name
+ */
+export function registerStateClass(ctor: StateClass): void {
+  stateClasses.set(ctor.name, ctor);
+}
+
+function isSnapshottable(op: any): op is Snapshottable {
+  return (
+    typeof op?.snapshot === "function" && typeof op?.restore === "function"
+  );
+}
+
+function encodeNumber(x: number): OpState {
+  if (Number.isNaN(x)) return { $n: "NaN" };
+  if (x === Infinity) return { $n: "Infinity" };
+  if (x === -Infinity) return { $n: "-Infinity" };
+  if (Object.is(x, -0)) return { $n: "-0" };
+  return x;
+}
+
+function encode(value: any, seen: Set<object>): OpState {
+  switch (typeof value) {
+    case "number":
+      return encodeNumber(value);
+    case "boolean":
+    case "string":
+      return value;
+    case "undefined":
+      return UNDEFINED;
+    case "object":
+      break;
+    default:
+      throw new Error(`Cannot snapshot value of type ${typeof value}`);
+  }
+
+  if (value === null) return null;
+  if (seen.has(value)) {
+    throw new Error("Cannot snapshot cyclic operator state");
+  }
+  seen.add(value);
+
+  let out: OpState;
+  if (Array.isArray(value)) {
+    out = [];
+    // Index loop keeps holes of preallocated buffers
+    for (let i = 0; i < value.length; i++) {
+      out.push(encode(value[i], seen));
+    }
+  } else if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    const arr = value as unknown as ArrayLike<number>;
+    const v: OpState[] = [];
+    for (let i = 0; i < arr.length; i++) v.push(encodeNumber(arr[i]!));
+    out = { $ta: value.constructor.name, v };
+  } else if (value instanceof Date) {
+    out = { $d: value.getTime() };
+  } else if (value instanceof Map) {
+    out = {
+      $m: Array.from(value, ([k, v]) => [encode(k, seen), encode(v, seen)]),
+    };
+  } else if (value instanceof Set) {
+    out = { $s: Array.from(value, (v) => encode(v, seen)) };
+  } else if (isSnapshottable(value)) {
+    out = value.snapshot();
+  } else {
+    const fields = encodeFields(value, seen);
+    const proto = Object.getPrototypeOf(value);
+    out =
+      proto === Object.prototype || proto === null
+        ? fields
+        : { $c: value.constructor.name, v: fields };
+  }
+
+  seen.delete(value);
+  return out;
+}
+
+function encodeFields(value: any, seen: Set<object>): OpState {
+  const obj: { [key: string]: OpState } = {};
+  for (const key of Object.keys(value)) {
+    const field = value[key];
+    // Functions are behaviour (comparators, callbacks), not state
+    if (typeof field === "function") continue;
+    obj[key] = encode(field, seen);
+  }
+  return obj;
+}
+
+function decodeTag(state: { [key: string]: OpState }): {
+  hit: boolean;
+  value?: any;
+} {
+  const keys = Object.keys(state);
+  if (keys.length === 0 || !keys[0]!.startsWith("$")) return { hit: false };
+
+  if ("$n" in state) return { hit: true, value: Number(state["$n"]) };
+  if ("$u" in state) return { hit: true, value: undefined };
+  if ("$d" in state) {
+    return { hit: true, value: new Date(state["$d"] as number) };
+  }
+  if ("$m" in state) {
+    const entries = state["$m"] as OpState[][];
+    return {
+      hit: true,
+      value: new Map(
+        entries.map(([k, v]) => [decode(undefined, k!), decode(undefined, v!)])
+      ),
+    };
+  }
+  if ("$s" in state) {
+    const items = state["$s"] as OpState[];
+    return {
+      hit: true,
+      value: new Set(items.map((v) => decode(undefined, v))),
+    };
+  }
+  if ("$ta" in state) {
+    const ctor = (globalThis as any)[state["$ta"] as string];
+    if (typeof ctor !== "function") {
+      throw new Error(`Cannot restore unknown typed array ${state["$ta"]}`);
+    }
+    const items = (state["v"] as OpState[]).map((v) => decode(undefined, v));
+    return { hit: true, value: ctor.from(items) };
+  }
+  if ("$c" in state) {
+    const name = state["$c"] as string;
+    const ctor = stateClasses.get(name);
+    if (ctor === undefined) {
+      throw new Error(
+        `Cannot restore unknown class ${name}, register it with registerStateClass`
+      );
+    }
+    const value = Object.create(ctor.prototype);
+    restoreOp(value, state["v"]!);
+    return { hit: true, value };
+  }
+  return { hit: false };
+}
+
+/**
+ * Decode state, reusing the current value when it is an object so that
+ * class instances (and their prototypes) survive the restore.
+ */
+function decode(current: any, state: OpState): any {
+  if (state === null || typeof state !== "object") {
+    return state;
+  }
+
+  if (Array.isArray(state)) {
+    const target: any[] = Array.isArray(current) ? current : [];
+    target.length = state.length;
+    for (let i = 0; i < state.length; i++) {
+      target[i] = decode(target[i], state[i]!);
+    }
+    return target;
+  }
+
+  // Class instances already present are restored in place
+  if ("$c" in state && current !== null && typeof current === "object") {
+    restoreOp(current, state["v"]!);
+    return current;
+  }
+
+  const tag = decodeTag(state);
+  if (tag.hit) {
+    const value = tag.value;
+    // Restore typed arrays in place to keep preallocated references valid
+    if (
+      ArrayBuffer.isView(current) &&
+      ArrayBuffer.isView(value) &&
+      (current as any).length === (value as any).length
+    ) {
+      (current as any).set(value);
+      return current;
+    }
+    return value;
+  }
+
+  if (current !== null && typeof current === "object") {
+    restoreOp(current, state);
+    return current;
+  }
+
+  const obj: Record<string, any> = {};
+  for (const key of Object.keys(state)) {
+    obj[key] = decode(undefined, state[key]!);
+  }
+  return obj;
+}
+
+/**
+ * Capture the internal state of an operator as JSON-serializable data.
+ * Uses op.snapshot() when implemented, otherwise walks own fields
+ * (nested operators, CircularBuffer, Kahan, ...) recursively.
+ * @param op Operator instance
+ * @returns Operator state
+ */
+export function snapshotOp(op: object): OpState {
+  if (isSnapshottable(op)) {
+    return op.snapshot();
+  }
+  // The operator itself is restored in place, so its class is not recorded
+  return encodeFields(op, new Set([op]));
+}
+
+/**
+ * Restore operator state captured by snapshotOp.
+ * The operator must be constructed with the same options as the original.
+ * @param op Operator instance to restore into
+ * @param state State from snapshotOp
+ */
+export function restoreOp(op: object, state: OpState): void {
+  if (isSnapshottable(op)) {
+    op.restore(state);
+    return;
+  }
+  if (state === null || typeof state !== "object" || Array.isArray(state)) {
+    throw new Error("Cannot restore operator from non-object state");
+  }
+
+  const target = op as Record<string, any>;
+  // Drop fields the original did not have (e.g. lazily created accumulators)
+  for (const key of Object.keys(target)) {
+    if (!(key in state) && typeof target[key] !== "function") {
+      delete target[key];
+    }
+  }
+  for (const key of Object.keys(state)) {
+    target[key] = decode(target[key], state[key]!);
+  }
+}
+
+/**
+ * Compute an operator's output as if the input were final, then roll its
+ * state back, e.g. on every revision of a bar still forming. Feed the final
+ * input to op.update once the bar closes to commit it.
+ * @param op Operator instance
+ * @param args Arguments of op.update
+ * @returns Output of op.update(...args)
+ */
+export function peekOp<A extends any[], R>(
+  op: { update(...args: A): R },
+  ...args: A
+): R {
+  const state = snapshotOp(op);
+  try {
+    return op.update(...args);
+  } finally {
+    restoreOp(op, state);
+  }
+}
+
+/**
+ * Capture a plain value (e.g. a node output) as JSON-serializable data.
+ * @param value Value to capture
+ * @returns Value state
+ */
+export function snapshotValue(value: unknown): OpState {
+  return encode(value, new Set());
+}
+
+/**
+ * Rebuild a value captured by snapshotValue.
+ * @param state State from snapshotValue
+ * @returns Restored value
+ */
+export function restoreValue(state: OpState): any {
+  return decode(undefined, state);
+}
@@ -1,3 +1,6 @@
+import { restoreOp, snapshotOp, type OpState } from "./snapshot.js";
+import { isReady } from "../primitive/warmup.js";
+
 export type MaybePromise<T> = T | Promise<T>;
 
 export interface DagNode {
@@ -5,6 +8,14 @@ export interface DagNode {
   readonly inputPath: string[];
 
   predSatisfied(state: Record<string, any>): MaybePromise<any>;
+
+  /** False while the node is warming up, undefined if not reported */
+  readonly isReady?: boolean;
+
+  /** Capture node state, defaults to structural capture of the node */
+  snapshot?(): OpState;
+  /** Restore node state captured by snapshot() */
+  restore?(state: OpState): void;
 }
 
 export interface Op {
@@ -40,10 +51,11 @@ export class OpAdapter implements DagNode {
         return state[parsed.key];
       }
 
-      // Nested path resolution
+      // Nested path resolution, null or missing parents give undefined
       const { parts } = parsed;
       let value = state[parts[0]!];
-      for (let i = 1; i < parts.length && value !== undefined; i++) {
+      for (let i = 1; i < parts.length; i++) {
+        if (value == null) return undefined;
         value = value[parts[i]!];
       }
       return value;
@@ -51,4 +63,21 @@ export class OpAdapter implements DagNode {
 
     return this.op.update(...args);
   }
+
+  /** @internal Wrapped operator, used by compileGraph */
+  get target(): Op {
+    return this.op;
+  }
+
+  get isReady(): boolean {
+    return isReady(this.op);
+  }
+
+  snapshot(): OpState {
+    return snapshotOp(this.op);
+  }
+
+  restore(state: OpState): void {
+    restoreOp(this.op, state);
+  }
 }
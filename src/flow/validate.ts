@@ -1,3 +1,10 @@
+import type { OperatorPorts, PortType } from "../types/OpDoc.js";
+import {
+  formatPortType,
+  getFieldType,
+  getOperatorPorts,
+  isPortAssignable,
+} from "./ports.js";
 import type { OpRegistry } from "./registry.js";
 import {
   FlowGraphSchema,
@@ -54,7 +61,9 @@ export function buildSuccessorMap(graph: FlowGraph): Map<string, string[]> {
  * Checks:
  * - GraphExec structure (via Zod)
  * - All types exist in registry
+ * - Node init matches the type's init schema
  * - GraphExec topology (cycles, reachability)
+ * - Ports (input arity, field paths, types) against operator docs
  * @param graph GraphExec
  * @param registry Type registry
  */
@@ -79,7 +88,7 @@ export function validateFlowGraph(
 
   const validSchema = parseResult.data;
 
-  // Check all types exist in registry
+  // Check all types exist in registry and init matches their schema
   for (const node of validSchema.nodes) {
     if (!registry.has(node.type)) {
       errors.push({
@@ -87,6 +96,21 @@ export function validateFlowGraph(
         node: node.name,
         opType: node.type,
       });
+      continue;
+    }
+
+    const initSchema = registry.getInitSchema(node.type);
+    const initResult = initSchema?.safeParse(node.init ?? {});
+    if (initResult && !initResult.success) {
+      for (const issue of initResult.error.issues) {
+        errors.push({
+          type: "invalid_init",
+          node: node.name,
+          opType: node.type,
+          path: ["init", ...issue.path].join("."),
+          message: issue.message,
+        });
+      }
     }
   }
 
@@ -97,9 +121,92 @@ export function validateFlowGraph(
     errors.push(...FlowTopoErrors);
   }
 
+  // Check ports once every node and dependency is known
+  if (errors.length === 0) {
+    errors.push(...validatePorts(validSchema, registry));
+  }
+
   return { valid: errors.length === 0, errors };
 }
 
+/**
+ * Check inputSrc of every node against operator ports.
+ * Root data is untyped, paths into root are not checked.
+ */
+function validatePorts(
+  graph: FlowGraph,
+  registry: OpRegistry
+): FlowGraphError[] {
+  const errors: FlowGraphError[] = [];
+
+  const ports = new Map<string, OperatorPorts>();
+  for (const node of graph.nodes) {
+    const doc = registry.getContext(node.type);
+    const sig = doc && getOperatorPorts(doc);
+    if (sig) ports.set(node.name, sig);
+  }
+
+  for (const node of graph.nodes) {
+    const sig = ports.get(node.name);
+    if (!sig) continue;
+
+    const sources = normalizeUpdateSource(node.inputSrc);
+    const expected = sig.input.length;
+    const required = sig.input.filter((port) => !port.optional).length;
+    const arityOk = sig.variadic
+      ? sources.length >= required
+      : sources.length >= required && sources.length <= expected;
+    if (!arityOk) {
+      errors.push({
+        type: "arity_mismatch",
+        node: node.name,
+        opType: node.type,
+        expected,
+        ...(required < expected ? { required } : {}),
+        actual: sources.length,
+        variadic: sig.variadic !== undefined,
+      });
+      continue;
+    }
+
+    sources.forEach((path, i) => {
+      const [src, ...fields] = path.split(".");
+      const upstream = src === graph.root ? undefined : ports.get(src!);
+      if (!upstream) return;
+
+      let actual: PortType = upstream.output;
+      for (const field of fields) {
+        const next = getFieldType(actual, field);
+        if (next === undefined) {
+          errors.push({
+            type: "unknown_field",
+            node: node.name,
+            path,
+            field,
+            available: typeof actual === "object" ? Object.keys(actual) : [],
+          });
+          return;
+        }
+        actual = next;
+      }
+
+      const port = sig.input[i] ?? sig.variadic!;
+      if (!isPortAssignable(actual, port.type)) {
+        errors.push({
+          type: "type_mismatch",
+          node: node.name,
+          path,
+          port: port.name,
+          expected: formatPortType(port.type),
+          actual: formatPortType(actual),
+        });
+      }
+    });
+  }
+
+  return errors;
+}
+
 /**
  * Format validation error as human-readable string.
  */
@@ -109,9 +216,27 @@ export function formatFlowValidationError(error: FlowGraphError): string {
       return `${error.path}: ${error.message}`;
     case "unknown_type":
       return `Unknown type "${error.opType}" for node "${error.node}"`;
+    case "invalid_init":
+      return `Invalid init for node "${error.node}" (${error.opType}) at ${error.path}: ${error.message}`;
     case "cycle":
       return `GraphExec contains a cycle: ${error.nodes.join(" → ")}`;
     case "unreachable":
       return `Unreachable nodes from root: ${error.nodes.join(", ")}`;
+    case "arity_mismatch": {
+      const expected = error.variadic
+        ? `at least ${error.required ?? error.expected}`
+        : error.required !== undefined
+        ? `${error.required} to ${error.expected}`
+        : `${error.expected}`;
+      return `Node "${error.node}" (${error.opType}) expects ${expected} input(s), got ${error.actual}`;
+    }
+    case "unknown_field": {
+      const hint = error.available.length
+        ? ` (available: ${error.available.join(", ")})`
+        : "";
+      return `Unknown field "${error.field}" in input "${error.path}" of node "${error.node}"${hint}`;
+    }
+    case "type_mismatch":
+      return `Type mismatch in input "${error.path}" of node "${error.node}": port "${error.port}" expects ${error.expected}, got ${error.actual}`;
   }
 }
@@ -1,3 +1,9 @@
 export * from "./pattern-single.js";
 export * from "./pattern-two.js";
 export * from "./pattern-multi.js";
+export {
+  AverageBodyLength,
+  useAverageBodyLength,
+  SmoothedTrend,
+  useSmoothedTrend,
+} from "./utils.js";
@@ -2,19 +2,23 @@ import type { BarWith } from "../types/BarData.js";
 import type { PeriodWith } from "../types/PeriodOptions.js";
 import {
   AverageBodyLength,
+  AvgBodyPeriodSchema,
   bodyLength,
   isBearish,
   isBullish,
 } from "./utils.js";
 import { isDoji } from "./pattern-single.js";
 import type { OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
 
 /**
  * Evening Star - bearish reversal pattern
  * Detects a three-candle pattern where a large bullish candle is followed by a small body candle
  * that gaps up, and then a large bearish candle that closes below the midpoint of the first candle.
  */
-export class EveningStar {
+export class EveningStar implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "EveningStar",
     init: "{period: 10}",
@@ -34,6 +38,14 @@ export class EveningStar {
     this.avgBodyLength = new AverageBodyLength(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod + 2;
+  }
+
+  get isReady(): boolean {
+    return this.bars.length >= 3 && this.avgBodyLength.isReady;
+  }
+
   /**
    * Updates the pattern detector with new OHLCV data
    * @param open - Opening price
@@ -99,7 +111,9 @@ export function useEveningStar(
  * Detects a three-candle pattern where a large bearish candle is followed by a doji
  * that gaps down, and then a large bullish candle that closes above the midpoint of the first candle.
  */
-export class MorningDojiStar {
+export class MorningDojiStar implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "MorningDojiStar",
     init: "{period: 10}",
@@ -119,6 +133,14 @@ export class MorningDojiStar {
     this.avgBodyLength = new AverageBodyLength(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod + 2;
+  }
+
+  get isReady(): boolean {
+    return this.bars.length >= 3 && this.avgBodyLength.isReady;
+  }
+
   /**
    * Updates the pattern detector with new OHLCV data
    * @param open - Opening price
@@ -184,7 +206,9 @@ export function useMorningDojiStar(
  * Detects a three-candle pattern where a large bullish candle is followed by a doji
  * that gaps up, and then a large bearish candle that closes below the midpoint of the first candle.
  */
-export class EveningDojiStar {
+export class EveningDojiStar implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "EveningDojiStar",
     init: "{period: 10}",
@@ -204,6 +228,14 @@ export class EveningDojiStar {
     this.avgBodyLength = new AverageBodyLength(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod + 2;
+  }
+
+  get isReady(): boolean {
+    return this.bars.length >= 3 && this.avgBodyLength.isReady;
+  }
+
   /**
    * Updates the pattern detector with new OHLCV data
    * @param open - Opening price
@@ -269,7 +301,7 @@ export function useEveningDojiStar(
  * Detects a three-candle pattern where a bearish candle is followed by a doji that gaps down,
  * and then a bullish candle that gaps up from the doji.
  */
-export class AbandonedBabyBullish {
+export class AbandonedBabyBullish implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "AbandonedBabyBullish",
     input: "open, close, high, low",
@@ -277,6 +309,11 @@ export class AbandonedBabyBullish {
   };
 
   private bars: BarWith<"open" | "close" | "high" | "low">[] = [];
+  readonly warmupPeriod = 3;
+
+  get isReady(): boolean {
+    return this.bars.length >= this.warmupPeriod;
+  }
 
   /**
    * Updates the pattern detector with new OHLCV data
@@ -342,7 +379,7 @@ export function useAbandonedBabyBullish(): (
  * Detects a three-candle pattern where a bullish candle is followed by a doji that gaps up,
  * and then a bearish candle that gaps down from the doji.
  */
-export class AbandonedBabyBearish {
+export class AbandonedBabyBearish implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "AbandonedBabyBearish",
     input: "open, close, high, low",
@@ -350,6 +387,11 @@ export class AbandonedBabyBearish {
   };
 
   private bars: BarWith<"open" | "close" | "high" | "low">[] = [];
+  readonly warmupPeriod = 3;
+
+  get isReady(): boolean {
+    return this.bars.length >= this.warmupPeriod;
+  }
 
   /**
    * Updates the pattern detector with new OHLCV data
@@ -414,7 +456,9 @@ export function useAbandonedBabyBearish(): (
  * Three White Soldiers - bullish continuation pattern
  * Detects three consecutive long bullish candles with specific opening and closing relationships.
  */
-export class ThreeWhiteSoldiers {
+export class ThreeWhiteSoldiers implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "ThreeWhiteSoldiers",
     init: "{period: 10}",
@@ -434,6 +478,14 @@ export class ThreeWhiteSoldiers {
     this.avgBodyLength = new AverageBodyLength(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod + 2;
+  }
+
+  get isReady(): boolean {
+    return this.bars.length >= 3 && this.avgBodyLength.isReady;
+  }
+
   /**
    * Updates the pattern detector with new OHLCV data
    * @param open - Opening price
@@ -515,7 +567,9 @@ export function useThreeWhiteSoldiers(
  * Three Black Crows - bearish continuation pattern
  * Detects three consecutive long bearish candles with specific opening and closing relationships.
  */
-export class ThreeBlackCrows {
+export class ThreeBlackCrows implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "ThreeBlackCrows",
     init: "{period: 10}",
@@ -535,6 +589,14 @@ export class ThreeBlackCrows {
     this.avgBodyLength = new AverageBodyLength(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod + 2;
+  }
+
+  get isReady(): boolean {
+    return this.bars.length >= 3 && this.avgBodyLength.isReady;
+  }
+
   /**
    * Updates the pattern detector with new OHLCV data
    * @param open - Opening price
@@ -617,7 +679,7 @@ export function useThreeBlackCrows(
  * Detects a three-candle pattern where the first two bars form a bullish harami,
  * and the third bar confirms with a higher close.
  */
-export class ThreeInsideUp {
+export class ThreeInsideUp implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "ThreeInsideUp",
     input: "open, close, high, low",
@@ -625,6 +687,11 @@ export class ThreeInsideUp {
   };
 
   private bars: BarWith<"open" | "close" | "high" | "low">[] = [];
+  readonly warmupPeriod = 3;
+
+  get isReady(): boolean {
+    return this.bars.length >= this.warmupPeriod;
+  }
 
   /**
    * Updates the pattern detector with new OHLCV data
@@ -688,7 +755,7 @@ export function useThreeInsideUp(): (
  * Detects a three-candle pattern where the first two bars form a bearish harami,
  * and the third bar confirms with a lower close.
  */
-export class ThreeInsideDown {
+export class ThreeInsideDown implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "ThreeInsideDown",
     input: "open, close, high, low",
@@ -696,6 +763,11 @@ export class ThreeInsideDown {
   };
 
   private bars: BarWith<"open" | "close" | "high" | "low">[] = [];
+  readonly warmupPeriod = 3;
+
+  get isReady(): boolean {
+    return this.bars.length >= this.warmupPeriod;
+  }
 
   /**
    * Updates the pattern detector with new OHLCV data
@@ -759,7 +831,7 @@ export function useThreeInsideDown(): (
  * Detects a three-candle pattern where the first two bars form a bullish engulfing,
  * and the third bar confirms with a higher close and higher high.
  */
-export class ThreeOutsideUp {
+export class ThreeOutsideUp implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "ThreeOutsideUp",
     input: "open, close, high, low",
@@ -767,6 +839,11 @@ export class ThreeOutsideUp {
   };
 
   private bars: BarWith<"open" | "close" | "high" | "low">[] = [];
+  readonly warmupPeriod = 3;
+
+  get isReady(): boolean {
+    return this.bars.length >= this.warmupPeriod;
+  }
 
   /**
    * Updates the pattern detector with new OHLCV data
@@ -834,7 +911,7 @@ export function useThreeOutsideUp(): (
  * Detects a three-candle pattern where the first two bars form a bearish engulfing,
  * and the third bar confirms with a lower close and lower low.
  */
-export class ThreeOutsideDown {
+export class ThreeOutsideDown implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "ThreeOutsideDown",
     input: "open, close, high, low",
@@ -842,6 +919,11 @@ export class ThreeOutsideDown {
   };
 
   private bars: BarWith<"open" | "close" | "high" | "low">[] = [];
+  readonly warmupPeriod = 3;
+
+  get isReady(): boolean {
+    return this.bars.length >= this.warmupPeriod;
+  }
 
   /**
    * Updates the pattern detector with new OHLCV data
@@ -909,7 +991,9 @@ export function useThreeOutsideDown(): (
  * Detects a three-candle pattern where a strong bearish move is followed by an inside bar,
  * and then a false breakout below followed by a reversal above the first bar's high.
  */
-export class FakeyPatternBullish {
+export class FakeyPatternBullish implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "FakeyPatternBullish",
     init: "{period: 10}",
@@ -929,6 +1013,14 @@ export class FakeyPatternBullish {
     this.avgBodyLength = new AverageBodyLength(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod + 2;
+  }
+
+  get isReady(): boolean {
+    return this.bars.length >= 3 && this.avgBodyLength.isReady;
+  }
+
   /**
    * Updates the pattern detector with new OHLCV data
    * @param open - Opening price
@@ -994,7 +1086,9 @@ export function useFakeyPatternBullish(
  * Detects a three-candle pattern where a strong bullish move is followed by an inside bar,
  * and then a false breakout above followed by a reversal below the first bar's low.
  */
-export class FakeyPatternBearish {
+export class FakeyPatternBearish implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "FakeyPatternBearish",
     init: "{period: 10}",
@@ -1014,6 +1108,14 @@ export class FakeyPatternBearish {
     this.avgBodyLength = new AverageBodyLength(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod + 2;
+  }
+
+  get isReady(): boolean {
+    return this.bars.length >= 3 && this.avgBodyLength.isReady;
+  }
+
   /**
    * Updates the pattern detector with new OHLCV data
    * @param open - Opening price
@@ -1081,7 +1183,9 @@ export function useFakeyPatternBearish(
  * Detects a five-candle pattern where a long bullish candle is followed by three small bearish candles
  * within its range, and then another bullish candle that closes above the first candle's high.
  */
-export class RisingThreeMethods {
+export class RisingThreeMethods implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RisingThreeMethods",
     init: "{period: 10}",
@@ -1101,6 +1205,14 @@ export class RisingThreeMethods {
     this.avgBodyLength = new AverageBodyLength(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod + 4;
+  }
+
+  get isReady(): boolean {
+    return this.bars.length >= 5 && this.avgBodyLength.isReady;
+  }
+
   /**
    * Updates the pattern detector with new OHLCV data
    * @param open - Opening price
@@ -1176,7 +1288,9 @@ export function useRisingThreeMethods(
  * Detects a five-candle pattern where a long bearish candle is followed by three small bullish candles
  * within its range, and then another bearish candle that closes below the first candle's low.
  */
-export class FallingThreeMethods {
+export class FallingThreeMethods implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "FallingThreeMethods",
     init: "{period: 10}",
@@ -1196,6 +1310,14 @@ export class FallingThreeMethods {
     this.avgBodyLength = new AverageBodyLength(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod + 4;
+  }
+
+  get isReady(): boolean {
+    return this.bars.length >= 5 && this.avgBodyLength.isReady;
+  }
+
   /**
    * Updates the pattern detector with new OHLCV data
    * @param open - Opening price
@@ -1273,7 +1395,7 @@ export function useFallingThreeMethods(
  * Detects a head and shoulders topping pattern with three peaks and two valleys.
  * Uses an improved detection algorithm with a larger window for proper pattern identification.
  */
-export class ThreeBuddhaTop {
+export class ThreeBuddhaTop implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "ThreeBuddhaTop",
     input: "open, close, high, low",
@@ -1283,6 +1405,11 @@ export class ThreeBuddhaTop {
   private bars: BarWith<"open" | "close" | "high" | "low">[] = [];
   private peaks: { high: number; index: number }[] = [];
   private valleys: { low: number; index: number }[] = [];
+  readonly warmupPeriod = 8;
+
+  get isReady(): boolean {
+    return this.bars.length >= this.warmupPeriod;
+  }
 
   /**
    * Updates the pattern detector with new OHLCV data
@@ -1388,7 +1515,7 @@ export function useThreeBuddhaTop(): (
  * Detects an inverse head and shoulders bottoming pattern with three valleys and two peaks.
  * Uses an improved detection algorithm with a larger window for proper pattern identification.
  */
-export class InvertedThreeBuddha {
+export class InvertedThreeBuddha implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "InvertedThreeBuddha",
     input: "open, close, high, low",
@@ -1398,6 +1525,11 @@ export class InvertedThreeBuddha {
   private bars: BarWith<"open" | "close" | "high" | "low">[] = [];
   private peaks: { high: number; index: number }[] = [];
   private valleys: { low: number; index: number }[] = [];
+  readonly warmupPeriod = 8;
+
+  get isReady(): boolean {
+    return this.bars.length >= this.warmupPeriod;
+  }
 
   /**
    * Updates the pattern detector with new OHLCV data
@@ -1,7 +1,12 @@
 import type { BarWith } from "../types/BarData.js";
 import type { PeriodWith } from "../types/PeriodOptions.js";
-import { AverageBodyLength } from "./utils.js";
+import { z } from "zod";
+import { AverageBodyLength, AvgBodyPeriodSchema } from "./utils.js";
 import type { OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
+
+/** Shadow/body threshold relative to range or average body */
+const RatioSchema = z.number().nonnegative();
 
 /** @internal */
 export function isDoji(
@@ -16,6 +21,10 @@ export function isDoji(
  * Doji - open and close at nearly the same price
  */
 export class Doji {
+  static readonly initSchema = z.object({
+    dojiThres: RatioSchema.default(0.02),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "Doji",
     init: "{dojiThres: 0.02}",
@@ -64,7 +73,9 @@ export function useDoji(
 /**
  * Long-Legged Doji - doji with very long shadows
  */
-export class LongLeggedDoji {
+export class LongLeggedDoji implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "LongLeggedDoji",
     init: "{period: 10}",
@@ -82,6 +93,14 @@ export class LongLeggedDoji {
     this.avgBodyLength = new AverageBodyLength(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod;
+  }
+
+  get isReady(): boolean {
+    return this.avgBodyLength.isReady;
+  }
+
   /**
    * Check if the OHLC values form a Long-Legged Doji pattern
    * @param open - Opening price
@@ -118,6 +137,11 @@ export function useLongLeggedDoji(
  * Dragonfly Doji - doji with long lower shadow and no upper shadow
  */
 export class DragonflyDoji {
+  static readonly initSchema = z.object({
+    lowerShadowThres: RatioSchema.default(0.6),
+    upperShadowThres: RatioSchema.default(0.05),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "DragonflyDoji",
     init: "{lowerShadowThres: 0.6, upperShadowThres: 0.05}",
@@ -177,6 +201,11 @@ export function useDragonflyDoji(
  * Gravestone Doji - doji with long upper shadow and no lower shadow
  */
 export class GravestoneDoji {
+  static readonly initSchema = z.object({
+    upperShadowThres: RatioSchema.default(0.6),
+    lowerShadowThres: RatioSchema.default(0.05),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "GravestoneDoji",
     init: "{upperShadowThres: 0.6, lowerShadowThres: 0.05}",
@@ -235,7 +264,12 @@ export function useGravestoneDoji(
 /**
  * Spinning Top - small body with long upper and lower shadows
  */
-export class SpinningTop {
+export class SpinningTop implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema.extend({
+    rangeMultiplier: RatioSchema.default(1.5),
+    bodyThres: RatioSchema.default(0.3),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "SpinningTop",
     init: "{period: 10, rangeMultiplier: 1.5, bodyThres: 0.3}",
@@ -268,6 +302,14 @@ export class SpinningTop {
     this.bodyThres = opts.bodyThres ?? 0.3;
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod;
+  }
+
+  get isReady(): boolean {
+    return this.avgBodyLength.isReady;
+  }
+
   /**
    * Check if the OHLC values form a Spinning Top pattern
    * @param open - Opening price
@@ -306,7 +348,11 @@ export function useSpinningTop(
 /**
  * Marubozu White - long white candle with minimal shadows
  */
-export class MarubozuWhite {
+export class MarubozuWhite implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema.extend({
+    shadowThres: RatioSchema.default(0.05),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "MarubozuWhite",
     init: "{period: 10, shadowThres: 0.05}",
@@ -332,6 +378,14 @@ export class MarubozuWhite {
     this.shadowThres = opts.shadowThres ?? 0.05;
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod;
+  }
+
+  get isReady(): boolean {
+    return this.avgBodyLength.isReady;
+  }
+
   /**
    * Check if the OHLC values form a Marubozu White pattern
    * @param open - Opening price
@@ -373,7 +427,11 @@ export function useMarubozuWhite(
 /**
  * Marubozu Black - long black candle with minimal shadows
  */
-export class MarubozuBlack {
+export class MarubozuBlack implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema.extend({
+    shadowThres: RatioSchema.default(0.05),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "MarubozuBlack",
     init: "{period: 10, shadowThres: 0.05}",
@@ -399,6 +457,14 @@ export class MarubozuBlack {
     this.shadowThres = opts.shadowThres ?? 0.05;
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod;
+  }
+
+  get isReady(): boolean {
+    return this.avgBodyLength.isReady;
+  }
+
   /**
    * Check if the OHLC values form a Marubozu Black pattern
    * @param open - Opening price
@@ -442,6 +508,12 @@ export function useMarubozuBlack(
  * Also represents Bullish Pin Bar and Hanging Man patterns (identical implementations)
  */
 export class Hammer {
+  static readonly initSchema = z.object({
+    bodyThres: RatioSchema.default(0.3),
+    lowerShadowThres: RatioSchema.default(0.6),
+    upperShadowThres: RatioSchema.default(0.1),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "Hammer",
     init: "{bodyThres: 0.3, lowerShadowThres: 0.6, upperShadowThres: 0.1}",
@@ -515,6 +587,12 @@ export function useHammer(
  * Also represents Bearish Pin Bar and Shooting Star patterns (identical implementations)
  */
 export class InvertedHammer {
+  static readonly initSchema = z.object({
+    bodyThres: RatioSchema.default(0.3),
+    upperShadowThres: RatioSchema.default(0.6),
+    lowerShadowThres: RatioSchema.default(0.1),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "InvertedHammer",
     init: "{bodyThres: 0.3, upperShadowThres: 0.6, lowerShadowThres: 0.1}",
@@ -586,7 +664,13 @@ export function useInvertedHammer(
 /**
  * High Wave - very long shadows in both directions with small body
  */
-export class HighWave {
+export class HighWave implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema.extend({
+    rangeMultiplier: RatioSchema.default(2),
+    bodyThres: RatioSchema.default(0.2),
+    shadowThres: RatioSchema.default(0.3),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "HighWave",
     init: "{period: 10, rangeMultiplier: 2, bodyThres: 0.2, shadowThres: 0.3}",
@@ -624,6 +708,14 @@ export class HighWave {
     this.shadowThres = opts.shadowThres ?? 0.3;
   }
 
+  get warmupPeriod(): number {
+    return this.avgBodyLength.warmupPeriod;
+  }
+
+  get isReady(): boolean {
+    return this.avgBodyLength.isReady;
+  }
+
   /**
    * Check if the OHLC values form a High Wave pattern
    * @param open - Opening price
@@ -1,13 +1,19 @@
 import type { BarWith } from "../types/BarData.js";
 import type { PeriodWith } from "../types/PeriodOptions.js";
-import { isBearish, isBullish, SmoothedTrend } from "./utils.js";
+import {
+  AvgBodyPeriodSchema,
+  isBearish,
+  isBullish,
+  SmoothedTrend,
+} from "./utils.js";
 import type { OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
 import { isDoji } from "./pattern-single.js";
 
 /**
  * Bearish Engulfing - bearish candle engulfs previous bullish candle
  */
-export class BearishEngulfing {
+export class BearishEngulfing implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "BearishEngulfing",
     input: "open, close",
@@ -15,6 +21,12 @@ export class BearishEngulfing {
   };
 
   private prev?: BarWith<"open" | "close">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the OHLC values form a Bearish Engulfing pattern
@@ -23,6 +35,7 @@ export class BearishEngulfing {
    * @returns True if the pattern is detected
    */
   update(open: number, close: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { open, close };
       return false;
@@ -58,7 +71,7 @@ export function useBearishEngulfing(): (
 /**
  * Bullish Harami - small bullish candle contained within previous bearish candle
  */
-export class BullishHarami {
+export class BullishHarami implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "BullishHarami",
     input: "open, close",
@@ -66,6 +79,12 @@ export class BullishHarami {
   };
 
   private prev?: BarWith<"open" | "close">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the OHLC values form a Bullish Harami pattern
@@ -74,6 +93,7 @@ export class BullishHarami {
    * @returns True if the pattern is detected
    */
   update(open: number, close: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { open, close };
       return false;
@@ -109,7 +129,7 @@ export function useBullishHarami(): (
 /**
  * Bearish Harami - small bearish candle contained within previous bullish candle
  */
-export class BearishHarami {
+export class BearishHarami implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "BearishHarami",
     input: "open, close",
@@ -117,6 +137,12 @@ export class BearishHarami {
   };
 
   private prev?: BarWith<"open" | "close">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the OHLC values form a Bearish Harami pattern
@@ -125,6 +151,7 @@ export class BearishHarami {
    * @returns True if the pattern is detected
    */
   update(open: number, close: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { open, close };
       return false;
@@ -160,7 +187,7 @@ export function useBearishHarami(): (
 /**
  * Harami Cross - doji contained within previous candle's body
  */
-export class HaramiCross {
+export class HaramiCross implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "HaramiCross",
     input: "open, close, high, low",
@@ -168,6 +195,12 @@ export class HaramiCross {
   };
 
   private prev?: BarWith<"open" | "close">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the OHLC values form a Harami Cross pattern
@@ -178,6 +211,7 @@ export class HaramiCross {
    * @returns True if the pattern is detected
    */
   update(open: number, close: number, high: number, low: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { open, close };
       return false;
@@ -212,7 +246,7 @@ export function useHaramiCross(): (
 /**
  * Piercing Pattern - bullish candle opens below previous close but closes above midpoint of previous body
  */
-export class PiercingPattern {
+export class PiercingPattern implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "PiercingPattern",
     input: "open, close",
@@ -220,6 +254,12 @@ export class PiercingPattern {
   };
 
   private prev?: BarWith<"open" | "close">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the OHLC values form a Piercing Pattern
@@ -228,6 +268,7 @@ export class PiercingPattern {
    * @returns True if the pattern is detected
    */
   update(open: number, close: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { open, close };
       return false;
@@ -266,7 +307,7 @@ export function usePiercingPattern(): (
 /**
  * Dark Cloud Cover - bearish candle opens above previous close but closes below midpoint of previous body
  */
-export class DarkCloudCover {
+export class DarkCloudCover implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "DarkCloudCover",
     input: "open, close",
@@ -274,6 +315,12 @@ export class DarkCloudCover {
   };
 
   private prev?: BarWith<"open" | "close">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the OHLC values form a Dark Cloud Cover pattern
@@ -282,6 +329,7 @@ export class DarkCloudCover {
    * @returns True if the pattern is detected
    */
   update(open: number, close: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { open, close };
       return false;
@@ -320,7 +368,7 @@ export function useDarkCloudCover(): (
 /**
  * Tweezer Tops - two candles with matching highs, first bullish then bearish
  */
-export class TweezerTops {
+export class TweezerTops implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "TweezerTops",
     input: "open, close, high, low",
@@ -328,6 +376,12 @@ export class TweezerTops {
   };
 
   private prev?: BarWith<"open" | "close" | "high" | "low">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the OHLC values form a Tweezer Tops pattern
@@ -338,6 +392,7 @@ export class TweezerTops {
    * @returns True if the pattern is detected
    */
   update(open: number, close: number, high: number, low: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { open, close, high, low };
       return false;
@@ -373,7 +428,7 @@ export function useTweezerTops(): (
 /**
  * Tweezer Bottoms - two candles with matching lows, first bearish then bullish
  */
-export class TweezerBottoms {
+export class TweezerBottoms implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "TweezerBottoms",
     input: "open, close, high, low",
@@ -381,6 +436,12 @@ export class TweezerBottoms {
   };
 
   private prev?: BarWith<"open" | "close" | "high" | "low">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the OHLC values form a Tweezer Bottoms pattern
@@ -391,6 +452,7 @@ export class TweezerBottoms {
    * @returns True if the pattern is detected
    */
   update(open: number, close: number, high: number, low: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { open, close, high, low };
       return false;
@@ -425,7 +487,7 @@ export function useTweezerBottoms(): (
 /**
  * Bullish Doji Star - doji gaps below previous bearish candle
  */
-export class BullishDojiStar {
+export class BullishDojiStar implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "BullishDojiStar",
     input: "open, close, high, low",
@@ -433,6 +495,12 @@ export class BullishDojiStar {
   };
 
   private prev?: BarWith<"open" | "close">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the OHLC values form a Bullish Doji Star pattern
@@ -443,6 +511,7 @@ export class BullishDojiStar {
    * @returns True if the pattern is detected
    */
   update(open: number, close: number, high: number, low: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { open, close };
       return false;
@@ -477,7 +546,7 @@ export function useBullishDojiStar(): (
 /**
  * Bearish Doji Star - doji gaps above previous bullish candle
  */
-export class BearishDojiStar {
+export class BearishDojiStar implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "BearishDojiStar",
     input: "open, close, high, low",
@@ -485,6 +554,12 @@ export class BearishDojiStar {
   };
 
   private prev?: BarWith<"open" | "close">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the OHLC values form a Bearish Doji Star pattern
@@ -495,6 +570,7 @@ export class BearishDojiStar {
    * @returns True if the pattern is detected
    */
   update(open: number, close: number, high: number, low: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { open, close };
       return false;
@@ -529,7 +605,7 @@ export function useBearishDojiStar(): (
 /**
  * Inside Bar - current bar's range is within previous bar's range
  */
-export class InsideBar {
+export class InsideBar implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "InsideBar",
     input: "high, low",
@@ -537,6 +613,12 @@ export class InsideBar {
   };
 
   private prev?: BarWith<"high" | "low">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the HL values form an Inside Bar pattern
@@ -545,6 +627,7 @@ export class InsideBar {
    * @returns True if the pattern is detected
    */
   update(high: number, low: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { high, low };
       return false;
@@ -576,7 +659,7 @@ export function useInsideBar(): (
 /**
  * Outside Bar (Engulfing) - current bar's range engulfs previous bar's range
  */
-export class OutsideBar {
+export class OutsideBar implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "OutsideBar",
     input: "high, low",
@@ -584,6 +667,12 @@ export class OutsideBar {
   };
 
   private prev?: BarWith<"high" | "low">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the HL values form an Outside Bar pattern
@@ -592,6 +681,7 @@ export class OutsideBar {
    * @returns True if the pattern is detected
    */
   update(high: number, low: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { high, low };
       return false;
@@ -623,7 +713,7 @@ export function useOutsideBar(): (
 /**
  * Railroad Tracks - two candles with equal highs and lows but opposite colors
  */
-export class RailroadTracks {
+export class RailroadTracks implements Warmup {
   static readonly doc: OperatorDoc = {
     type: "RailroadTracks",
     input: "open, close, high, low",
@@ -631,6 +721,12 @@ export class RailroadTracks {
   };
 
   private prev?: BarWith<"open" | "close" | "high" | "low">;
+  private count = 0;
+  readonly warmupPeriod = 2;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   /**
    * Check if the OHLC values form a Railroad Tracks pattern
@@ -641,6 +737,7 @@ export class RailroadTracks {
    * @returns True if the pattern is detected
    */
   update(open: number, close: number, high: number, low: number): boolean {
+    this.count++;
     if (this.prev === undefined) {
       this.prev = { open, close, high, low };
       return false;
@@ -677,7 +774,9 @@ export function useRailroadTracks(): (
 /**
  * Rising Window - bullish gap continuation pattern
  */
-export class RisingWindow {
+export class RisingWindow implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RisingWindow",
     init: "{period: 10}",
@@ -696,6 +795,14 @@ export class RisingWindow {
     this.trend = new SmoothedTrend(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.trend.warmupPeriod + 1;
+  }
+
+  get isReady(): boolean {
+    return this.trend.isReady;
+  }
+
   /**
    * Check if the OHLC values form a Rising Window pattern
    * @param open - Opening price
@@ -737,7 +844,9 @@ export function useRisingWindow(
 /**
  * Falling Window - bearish gap continuation pattern
  */
-export class FallingWindow {
+export class FallingWindow implements Warmup {
+  static readonly initSchema = AvgBodyPeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "FallingWindow",
     init: "{period: 10}",
@@ -756,6 +865,14 @@ export class FallingWindow {
     this.trend = new SmoothedTrend(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.trend.warmupPeriod + 1;
+  }
+
+  get isReady(): boolean {
+    return this.trend.isReady;
+  }
+
   /**
    * Check if the OHLC values form a Falling Window pattern
    * @param open - Opening price
@@ -1,6 +1,13 @@
 import { SMA, RollingBetaEW, EMA } from "@junduck/trading-core";
 import type { BarWith } from "../types/BarData.js";
-import type { PeriodWith } from "../types/PeriodOptions.js";
+import { z } from "zod";
+import {
+  PeriodSchema,
+  PeriodValueSchema,
+  type PeriodWith,
+} from "../types/PeriodOptions.js";
+import type { OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
 
 export function bodyLength(bar: BarWith<"open" | "close">): number {
   return Math.abs(bar.close - bar.open);
@@ -28,16 +35,41 @@ export function isBearish(bar: BarWith<"open" | "close">): boolean {
   return bar.close < bar.open;
 }
 
+/**
+ * Init schema for patterns comparing against average body length
+ */
+export const AvgBodyPeriodSchema = z.object({
+  period: PeriodValueSchema.default(10),
+});
+
 /**
  * Average body length calculator for pattern recognition
  */
-export class AverageBodyLength {
+export class AverageBodyLength implements Warmup {
+  static readonly initSchema = PeriodSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "AverageBodyLength",
+    desc: "Average candle body length |close - open|",
+    init: "{period: number}",
+    input: "open, close",
+    output: "number",
+  };
+
   private sma: SMA;
 
   constructor(opts: PeriodWith<"period">) {
     this.sma = new SMA(opts);
   }
 
+  get warmupPeriod(): number {
+    return this.sma.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.sma.buffer.full();
+  }
+
   update(open: number, close: number): number {
     const body = bodyLength({ open, close });
     const avg = this.sma.update(body);
@@ -62,14 +94,30 @@ export function useAverageBodyLength(
 /**
  * Trend of smoothed close price
  */
-export class SmoothedTrend {
+export class SmoothedTrend implements Warmup {
+  static readonly initSchema = PeriodSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "SmoothedTrend",
+    desc: "EMA of close and its exponentially weighted slope",
+    init: "{period: number}",
+    input: "close",
+    output: "{ema, beta}",
+  };
+
   private ema: EMA;
   private beta: RollingBetaEW;
   private n: number = 0;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.ema = new EMA(opts);
     this.beta = new RollingBetaEW(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.n >= this.warmupPeriod;
   }
 
   update(close: number): { ema: number; beta: number } {
@@ -4,7 +4,13 @@
 
 export type { PeriodOptions, PeriodWith } from "./types/PeriodOptions.js";
 export type { BarData, BarWith } from "./types/BarData.js";
-export type { OperatorDoc } from "./types/OpDoc.js";
+export type {
+  OperatorDoc,
+  OperatorPorts,
+  PortSchema,
+  PortType,
+} from "./types/OpDoc.js";
+export type { Warmup, WarmupPolicy } from "./types/Warmup.js";
 
 // ============================================================================
 // Primitives - Constants
@@ -18,6 +24,26 @@ export { Const } from "./primitive/Const.js";
 
 export { Lag, LagTime } from "./primitive/lag.js";
 
+// ============================================================================
+// Primitives - Cross-Sectional
+// ============================================================================
+
+export {
+  CrossSectional,
+  CsRank,
+  CsDemean,
+  CsZScore,
+  CsWinsorize,
+  CsQuantileBucket,
+} from "./primitive/cross-section.js";
+export type { CrossSection } from "./primitive/cross-section.js";
+
+// ============================================================================
+// Primitives - Warm-up
+// ============================================================================
+
+export { isReady, applyWarmup, withWarmup } from "./primitive/warmup.js";
+
 // ============================================================================
 // Primitives - Arithmetic Operators
 // ============================================================================
@@ -139,7 +165,29 @@ export {
 // Indicators - Moving Averages
 // ============================================================================
 
-export { useSMA, useEMA, useEWMA } from "./indicators/MovingAvg.js";
+export {
+  useSMA,
+  useEMA,
+  useEWMA,
+  WMA,
+  useWMA,
+  DEMA,
+  useDEMA,
+  TEMA,
+  useTEMA,
+  HMA,
+  useHMA,
+  KAMA,
+  useKAMA,
+  T3,
+  useT3,
+  ZLEMA,
+  useZLEMA,
+  ALMA,
+  useALMA,
+  VIDYA,
+  useVIDYA,
+} from "./indicators/MovingAvg.js";
 
 // ============================================================================
 // Indicators - Volatility
@@ -148,6 +196,27 @@ export { useSMA, useEMA, useEWMA } from "./indicators/MovingAvg.js";
 export {
   Volatility,
   useVolatility,
+  ParkinsonVol,
+  useParkinsonVol,
+  ParkinsonVolEW,
+  useParkinsonVolEW,
+  GarmanKlassVol,
+  useGarmanKlassVol,
+  GarmanKlassVolEW,
+  useGarmanKlassVolEW,
+  RogersSatchellVol,
+  useRogersSatchellVol,
+  RogersSatchellVolEW,
+  useRogersSatchellVolEW,
+  YangZhangVol,
+  useYangZhangVol,
+  YangZhangVolEW,
+  useYangZhangVolEW,
+  RealizedVol,
+  useRealizedVol,
+  BipowerVol,
+  useBipowerVol,
+  type VolatilityEWOptions,
   CVI,
   useCVI,
   MASS,
@@ -166,6 +235,7 @@ export {
   useKC,
   DC,
   useDC,
+  type ATRSmoothing,
 } from "./indicators/Volatility.js";
 
 // ============================================================================
@@ -237,6 +307,40 @@ export {
   useICHIMOKU,
 } from "./indicators/Trend.js";
 
+// ============================================================================
+// Indicators - Stops
+// ============================================================================
+
+export {
+  SuperTrend,
+  useSuperTrend,
+  ChandelierExit,
+  useChandelierExit,
+  ChandeKrollStop,
+  useChandeKrollStop,
+} from "./indicators/Stops.js";
+
+// ============================================================================
+// Indicators - Cycle
+// ============================================================================
+
+export {
+  DominantCycle,
+  useDominantCycle,
+  HilbertTransform,
+  useHilbertTransform,
+  MAMA,
+  useMAMA,
+  SuperSmoother,
+  useSuperSmoother,
+  RoofingFilter,
+  useRoofingFilter,
+  LaguerreRSI,
+  useLaguerreRSI,
+  AdaptiveEMA,
+  AdaptiveRSI,
+} from "./indicators/Cycle.js";
+
 // ============================================================================
 // Indicators - Volume
 // ============================================================================
@@ -274,6 +378,14 @@ export {
   useVROC,
   PVT,
   usePVT,
+  VWAP,
+  useVWAP,
+  AVWAP,
+  useAVWAP,
+  RVWAP,
+  useRVWAP,
+  VWMA,
+  useVWMA,
 } from "./indicators/Volume.js";
 
 // ============================================================================
@@ -303,24 +415,95 @@ export {
   useBBPOWER,
 } from "./indicators/Momentum.js";
 
+// ============================================================================
+// Indicators - Performance
+// ============================================================================
+
+export {
+  MaxDrawdown,
+  useMaxDrawdown,
+  DrawdownDuration,
+  useDrawdownDuration,
+  CuSharpe,
+  useCuSharpe,
+  RollingSharpe,
+  useRollingSharpe,
+  CuSortino,
+  useCuSortino,
+  RollingSortino,
+  useRollingSortino,
+  Calmar,
+  useCalmar,
+  Omega,
+  useOmega,
+  HitRate,
+  useHitRate,
+  ProfitFactor,
+  useProfitFactor,
+} from "./indicators/Performance.js";
+
 // ============================================================================
 // Indicators - Aggregation
 // ============================================================================
 
-export type { OHLCVBar, OHLCVTick } from "./aggregation/index.js";
-export { OHLCV, useOHLCV } from "./aggregation/index.js";
+export type {
+  OHLCVBar,
+  OHLCVTick,
+  RenkoBar,
+  LatePolicy,
+  WatermarkOHLCVOptions,
+  WatermarkOHLCVOutput,
+  ResampleOptions,
+} from "./aggregation/index.js";
+export {
+  OHLCV,
+  useOHLCV,
+  CalendarOHLCV,
+  useCalendarOHLCV,
+  WatermarkOHLCV,
+  useWatermarkOHLCV,
+  RangeBars,
+  useRangeBars,
+  Renko,
+  useRenko,
+  HeikinAshi,
+  useHeikinAshi,
+  Resample,
+  useResample,
+} from "./aggregation/index.js";
 
 // ============================================================================
 // Aggregation - Windows & Processors
 // ============================================================================
 
-export type { TumblingSpec } from "./aggregation/index.js";
+export type {
+  TumblingSpec,
+  HoppingSpec,
+  SlidingSpec,
+  WindowOutput,
+  FlowWindowOptions,
+  CalendarSpec,
+  TradingSegment,
+} from "./aggregation/index.js";
 export {
   TumblingWindow,
   CounterWindow,
   SessionWindow,
+  CalendarWindow,
+  HoppingWindow,
+  SlidingWindow,
+  VolumeWindow,
+  DollarWindow,
+  TickImbalanceWindow,
+  VolumeImbalanceWindow,
+  TickRunWindow,
+  VolumeRunWindow,
   OHLCVProcessor,
   StreamingAdapter,
+  ExchangeCalendar,
+  getCalendar,
+  CALENDARS,
+  CalendarSpecSchema,
 } from "./aggregation/index.js";
 
 // ============================================================================
@@ -368,7 +551,9 @@ export {
   DarkCloudCover,
   useDarkCloudCover,
   TweezerTops,
+  useTweezerTops,
   TweezerBottoms,
+  useTweezerBottoms,
   BullishDojiStar,
   useBullishDojiStar,
   BearishDojiStar,
@@ -385,8 +570,6 @@ export {
   useFallingWindow,
 } from "./heuristics/pattern-two.js";
 
-// Note: TweezerTops and TweezerBottoms don't have use functions
-
 // ============================================================================
 // Heuristics - Multi Bar Patterns
 // ============================================================================
@@ -403,7 +586,9 @@ export {
   AbandonedBabyBearish,
   useAbandonedBabyBearish,
   ThreeWhiteSoldiers,
+  useThreeWhiteSoldiers,
   ThreeBlackCrows,
+  useThreeBlackCrows,
   ThreeInsideUp,
   useThreeInsideUp,
   ThreeInsideDown,
@@ -421,23 +606,41 @@ export {
   FallingThreeMethods,
   useFallingThreeMethods,
   ThreeBuddhaTop,
+  useThreeBuddhaTop,
   InvertedThreeBuddha,
   useInvertedThreeBuddha,
 } from "./heuristics/pattern-multi.js";
 
-// Note: ThreeWhiteSoldiers, ThreeBlackCrows, and ThreeBuddhaTop don't have use functions
+// ============================================================================
+// Heuristics - Helpers
+// ============================================================================
+
+export {
+  AverageBodyLength,
+  useAverageBodyLength,
+  SmoothedTrend,
+  useSmoothedTrend,
+} from "./heuristics/utils.js";
 
 // ============================================================================
 // Flow - GraphExec & Registry
 // ============================================================================
 
 export { GraphExec } from "./flow/graph-exec.js";
+export type { GraphExecOptions } from "./flow/graph-exec.js";
+export { GraphPool } from "./flow/graph-pool.js";
+export type { GraphPoolOptions } from "./flow/graph-pool.js";
+export { compileGraph } from "./flow/compile.js";
+export type { CompiledGraph } from "./flow/compile.js";
+export { computeBatch } from "./flow/batch.js";
+export type { BatchOutput } from "./flow/batch.js";
 export { OpRegistry } from "./flow/registry.js";
 export type {
   FlowNode,
   FlowGraph,
   FlowGraphValidationResult,
   FlowGraphError,
+  FlowPortError,
   FlowGraphDiff,
   FlowGraphComplexity,
 } from "./flow/schema.js";
@@ -450,6 +653,28 @@ export {
   validateFlowGraph,
   formatFlowValidationError,
 } from "./flow/validate.js";
+export { getOperatorPorts, formatPortType } from "./flow/ports.js";
+export {
+  snapshotOp,
+  restoreOp,
+  peekOp,
+  registerStateClass,
+} from "./flow/snapshot.js";
+export type { OpState, Snapshottable, GraphSnapshot } from "./flow/snapshot.js";
+
+// ============================================================================
+// Backtest
+// ============================================================================
+
+export { Backtest, runBacktest } from "./backtest/index.js";
+export type {
+  BacktestOptions,
+  BacktestResult,
+  BacktestTrade,
+  EquityPoint,
+  ExecutionTiming,
+  PositionSizing,
+} from "./backtest/index.js";
 
 // ============================================================================
 // Namespace Exports
@@ -459,6 +684,7 @@ import * as _primitives from "./primitive/index.js";
 import * as _indicators from "./indicators/index.js";
 import * as _heuristics from "./heuristics/index.js";
 import * as _flow from "./flow/index.js";
+import * as _backtest from "./backtest/index.js";
 
 /**
  * Primitive operators: arithmetic, logical, rolling windows, and online statistics
@@ -479,3 +705,8 @@ export const heuristics = _heuristics;
  * Flow control: graph execution and operator registry
  */
 export const flow = _flow;
+
+/**
+ * Backtesting: replay streams through a graph and simulate fills
+ */
+export const backtest = _backtest;
@@ -0,0 +1,690 @@
+import { z } from "zod";
+import { CircularBuffer, SmoothedAccum } from "@junduck/trading-core";
+import type { BarWith } from "../types/BarData.js";
+import { PeriodValueSchema, type PeriodWith } from "../types/PeriodOptions.js";
+import { type OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
+
+const RAD2DEG = 180 / Math.PI;
+const DEG2RAD = Math.PI / 180;
+
+/**
+ * Ehlers' Hilbert transform core (Rocket Science for Traders), shared by the
+ * Hilbert transform family and MAMA. Tracks in-phase/quadrature components of
+ * the WMA(4) smoothed price and the measured dominant cycle period.
+ */
+class HilbertCore {
+  /** Raw prices, newest last */
+  readonly prices = new CircularBuffer<number>(50);
+  /** WMA(4) smoothed prices, newest last */
+  readonly smooth = new CircularBuffer<number>(50);
+  private detrender = new CircularBuffer<number>(7);
+  private q1s = new CircularBuffer<number>(7);
+  private i1s = new CircularBuffer<number>(7);
+  private i2: number = 0;
+  private q2: number = 0;
+  private re: number = 0;
+  private im: number = 0;
+  /** In-phase component */
+  i1: number = 0;
+  /** Quadrature component */
+  q1: number = 0;
+  /** Measured dominant cycle period */
+  period: number = 0;
+  /** Smoothed dominant cycle period */
+  smoothPeriod: number = 0;
+
+  update(price: number): void {
+    this.prices.push(price);
+    const p = this.prices;
+    this.smooth.push(
+      (4 * price + 3 * lag(p, 1) + 2 * lag(p, 2) + lag(p, 3)) / 10
+    );
+
+    const adjust = 0.075 * this.period + 0.54;
+    this.detrender.push(hilbert(this.smooth, adjust));
+    this.q1s.push(hilbert(this.detrender, adjust));
+    this.i1s.push(lag(this.detrender, 3));
+    this.q1 = lag(this.q1s, 0);
+    this.i1 = lag(this.i1s, 0);
+
+    // Advance the phase of I1 and Q1 by 90 degrees
+    const jI = hilbert(this.i1s, adjust);
+    const jQ = hilbert(this.q1s, adjust);
+
+    // Phasor addition for 3 bar averaging, then homodyne discriminator
+    const i2 = 0.2 * (this.i1 - jQ) + 0.8 * this.i2;
+    const q2 = 0.2 * (this.q1 + jI) + 0.8 * this.q2;
+    this.re = 0.2 * (i2 * this.i2 + q2 * this.q2) + 0.8 * this.re;
+    this.im = 0.2 * (i2 * this.q2 - q2 * this.i2) + 0.8 * this.im;
+    this.i2 = i2;
+    this.q2 = q2;
+
+    const prevPeriod = this.period;
+    let period = prevPeriod;
+    if (this.im !== 0 && this.re !== 0) {
+      period = 360 / (Math.atan(this.im / this.re) * RAD2DEG);
+    }
+    period = Math.min(period, 1.5 * prevPeriod);
+    period = Math.max(period, 0.67 * prevPeriod);
+    period = Math.min(Math.max(period, 6), 50);
+    this.period = 0.2 * period + 0.8 * prevPeriod;
+    this.smoothPeriod = 0.33 * this.period + 0.67 * this.smoothPeriod;
+  }
+}
+
+/** Value k bars back, 0 before the buffer reaches it */
+function lag(buffer: CircularBuffer<number>, k: number): number {
+  return k < buffer.size() ? buffer.at(-1 - k)! : 0;
+}
+
+/** Ehlers' 7 tap Hilbert transform FIR on the newest values of buffer */
+function hilbert(buffer: CircularBuffer<number>, adjust: number): number {
+  return (
+    (0.0962 * lag(buffer, 0) +
+      0.5769 * lag(buffer, 2) -
+      0.5769 * lag(buffer, 4) -
+      0.0962 * lag(buffer, 6)) *
+    adjust
+  );
+}
+
+/**
+ * Dominant Cycle - stateful indicator.
+ * Smoothed dominant cycle period measured by the Hilbert transform
+ * homodyne discriminator, within [6, 50] bars.
+ */
+export class DominantCycle implements Warmup {
+  private core = new HilbertCore();
+  readonly warmupPeriod = 33;
+  private count: number = 0;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number): number {
+    this.count++;
+    this.core.update(close);
+    return this.core.smoothPeriod;
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly doc: OperatorDoc = {
+    type: "DominantCycle",
+    desc: "Hilbert transform dominant cycle period in bars",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates DominantCycle closure for functional usage.
+ * @returns Function that processes bar data and returns dominant cycle period
+ */
+export function useDominantCycle(): (bar: BarWith<"close">) => number {
+  const instance = new DominantCycle();
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Hilbert Transform - stateful indicator.
+ * Dominant cycle period and phase, sine/lead sine wave, instantaneous
+ * trendline and trend mode (true: trending, false: cycling).
+ */
+export class HilbertTransform implements Warmup {
+  private core = new HilbertCore();
+  private phase: number = 0;
+  private sine: number = 0;
+  private leadSine: number = 0;
+  private trends = new CircularBuffer<number>(3);
+  private daysInTrend: number = 0;
+  readonly warmupPeriod = 64;
+  private count: number = 0;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number): {
+    period: number;
+    phase: number;
+    sine: number;
+    leadSine: number;
+    trendline: number;
+    trend: boolean;
+  } {
+    this.count++;
+    const core = this.core;
+    core.update(close);
+    const period = core.smoothPeriod;
+    const n = Math.min(Math.floor(period + 0.5), core.smooth.size());
+
+    // Phase from the DFT of smoothed prices over one dominant cycle
+    let real = 0;
+    let imag = 0;
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      const angle = (2 * Math.PI * i) / n;
+      real += Math.sin(angle) * lag(core.smooth, i);
+      imag += Math.cos(angle) * lag(core.smooth, i);
+      sum += lag(core.prices, i);
+    }
+
+    const prevPhase = this.phase;
+    if (Math.abs(imag) > 0) {
+      this.phase = Math.atan(real / imag) * RAD2DEG;
+    } else if (real < 0) {
+      this.phase -= 90;
+    } else if (real > 0) {
+      this.phase += 90;
+    }
+    this.phase += 90;
+    // Compensate one bar lag of the WMA smoothing
+    if (period > 0) this.phase += 360 / period;
+    if (imag < 0) this.phase += 180;
+    if (this.phase > 315) this.phase -= 360;
+
+    const prevSine = this.sine;
+    const prevLeadSine = this.leadSine;
+    this.sine = Math.sin(this.phase * DEG2RAD);
+    this.leadSine = Math.sin((this.phase + 45) * DEG2RAD);
+
+    // Instantaneous trendline: WMA(4) of the cycle averaged price
+    const average = n > 0 ? sum / n : close;
+    const trendline =
+      (4 * average +
+        3 * lag(this.trends, 0) +
+        2 * lag(this.trends, 1) +
+        lag(this.trends, 2)) /
+      10;
+    this.trends.push(average);
+
+    // Cycle mode after a sine/lead sine cross, for half a cycle, or while
+    // the phase advances at the cycle rate; trend mode when price departs
+    // 1.5% from the trendline
+    let trend = true;
+    if (
+      (this.sine > this.leadSine && prevSine <= prevLeadSine) ||
+      (this.sine < this.leadSine && prevSine >= prevLeadSine)
+    ) {
+      this.daysInTrend = 0;
+      trend = false;
+    }
+    this.daysInTrend++;
+    if (this.daysInTrend < 0.5 * period) trend = false;
+    const deltaPhase = this.phase - prevPhase;
+    if (
+      period !== 0 &&
+      deltaPhase > (0.67 * 360) / period &&
+      deltaPhase < (1.5 * 360) / period
+    ) {
+      trend = false;
+    }
+    const smoothPrice = lag(core.smooth, 0);
+    if (
+      trendline !== 0 &&
+      Math.abs((smoothPrice - trendline) / trendline) >= 0.015
+    ) {
+      trend = true;
+    }
+
+    return {
+      period,
+      phase: this.phase,
+      sine: this.sine,
+      leadSine: this.leadSine,
+      trendline,
+      trend,
+    };
+  }
+
+  onData(bar: BarWith<"close">): {
+    period: number;
+    phase: number;
+    sine: number;
+    leadSine: number;
+    trendline: number;
+    trend: boolean;
+  } {
+    return this.update(bar.close);
+  }
+
+  static readonly doc: OperatorDoc = {
+    type: "HilbertTransform",
+    desc: "Hilbert transform cycle period, phase (degrees), sine wave, trendline and trend mode",
+    input: "close",
+    output: "{period, phase, sine, leadSine, trendline, trend: boolean}",
+  };
+}
+
+/**
+ * Creates HilbertTransform closure for functional usage.
+ * @returns Function that processes bar data and returns cycle measurements
+ */
+export function useHilbertTransform(): (bar: BarWith<"close">) => {
+  period: number;
+  phase: number;
+  sine: number;
+  leadSine: number;
+  trendline: number;
+  trend: boolean;
+} {
+  const instance = new HilbertTransform();
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * MESA Adaptive Moving Average - stateful indicator.
+ * EMA whose alpha is fast_limit / phase rate of change, clamped to
+ * [slow_limit, fast_limit]; FAMA follows MAMA with half the alpha.
+ */
+export class MAMA implements Warmup {
+  private core = new HilbertCore();
+  private fastLimit: number;
+  private slowLimit: number;
+  private phase: number = 0;
+  private mama?: number;
+  private fama: number = 0;
+  readonly warmupPeriod = 33;
+  private count: number = 0;
+
+  constructor(opts: { fast_limit?: number; slow_limit?: number } = {}) {
+    this.fastLimit = opts.fast_limit ?? 0.5;
+    this.slowLimit = opts.slow_limit ?? 0.05;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number): { mama: number; fama: number } {
+    this.count++;
+    this.core.update(close);
+    const { i1, q1 } = this.core;
+
+    const phase = i1 !== 0 ? Math.atan(q1 / i1) * RAD2DEG : 0;
+    const deltaPhase = Math.max(this.phase - phase, 1);
+    this.phase = phase;
+    const alpha = Math.max(this.fastLimit / deltaPhase, this.slowLimit);
+
+    // Seeded with the first close
+    if (this.mama === undefined) {
+      this.mama = close;
+      this.fama = close;
+    } else {
+      this.mama += alpha * (close - this.mama);
+      this.fama += 0.5 * alpha * (this.mama - this.fama);
+    }
+    return { mama: this.mama, fama: this.fama };
+  }
+
+  onData(bar: BarWith<"close">): { mama: number; fama: number } {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = z
+    .object({
+      fast_limit: z.number().gt(0).lte(1).default(0.5),
+      slow_limit: z.number().gt(0).lte(1).default(0.05),
+    })
+    .refine((opts) => opts.slow_limit <= opts.fast_limit, {
+      message: "slow_limit must not exceed fast_limit",
+    });
+
+  static readonly doc: OperatorDoc = {
+    type: "MAMA",
+    desc: "MESA adaptive moving average and following adaptive average",
+    init: "{fast_limit: 0.5, slow_limit: 0.05}",
+    input: "close",
+    output: "{mama, fama}",
+  };
+}
+
+/**
+ * Creates MAMA closure for functional usage.
+ * @param opts Fast and slow alpha limits (typically 0.5, 0.05)
+ * @returns Function that processes bar data and returns MAMA and FAMA
+ */
+export function useMAMA(
+  opts: { fast_limit?: number; slow_limit?: number } = {}
+): (bar: BarWith<"close">) => { mama: number; fama: number } {
+  const instance = new MAMA(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Two pole Super Smoother filter (Ehlers) on a two bar average input.
+ * Output follows the input for the first two bars.
+ */
+class SuperSmootherFilter {
+  private c1: number;
+  private c2: number;
+  private c3: number;
+  private prevInput?: number;
+  private filt1: number = 0;
+  private filt2: number = 0;
+  private count: number = 0;
+
+  constructor(period: number) {
+    const a1 = Math.exp((-Math.SQRT2 * Math.PI) / period);
+    this.c2 = 2 * a1 * Math.cos((Math.SQRT2 * Math.PI) / period);
+    this.c3 = -a1 * a1;
+    this.c1 = 1 - this.c2 - this.c3;
+  }
+
+  update(x: number): number {
+    this.count++;
+    const filt =
+      this.count <= 2
+        ? x
+        : (this.c1 * (x + this.prevInput!)) / 2 +
+          this.c2 * this.filt1 +
+          this.c3 * this.filt2;
+    this.prevInput = x;
+    this.filt2 = this.filt1;
+    this.filt1 = filt;
+    return filt;
+  }
+}
+
+/**
+ * SuperSmoother - stateful indicator.
+ * Ehlers' two pole Butterworth style low-pass filter, attenuating cycles
+ * shorter than period with less lag than a moving average.
+ */
+export class SuperSmoother implements Warmup {
+  private filter: SuperSmootherFilter;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(opts: PeriodWith<"period"> = { period: 10 }) {
+    this.filter = new SuperSmootherFilter(opts.period);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number): number {
+    this.count++;
+    return this.filter.update(close);
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = z.object({
+    period: PeriodValueSchema.default(10),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "SuperSmoother",
+    desc: "Ehlers two pole low-pass filter",
+    init: "{period: 10}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates SuperSmoother closure for functional usage.
+ * @param opts Critical period (typically 10)
+ * @returns Function that processes bar data and returns filtered price
+ */
+export function useSuperSmoother(
+  opts: PeriodWith<"period"> = { period: 10 }
+): (bar: BarWith<"close">) => number {
+  const instance = new SuperSmoother(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Roofing Filter - stateful indicator.
+ * Two pole high-pass filter removing cycles longer than hp_period, then
+ * SuperSmoother removing cycles shorter than ss_period. Output oscillates
+ * around zero.
+ */
+export class RoofingFilter implements Warmup {
+  private smoother: SuperSmootherFilter;
+  private a: number;
+  private b: number;
+  private c: number;
+  private x1: number = 0;
+  private x2: number = 0;
+  private hp1: number = 0;
+  private hp2: number = 0;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(opts: { hp_period?: number; ss_period?: number } = {}) {
+    const hpPeriod = opts.hp_period ?? 48;
+    const angle = (Math.SQRT1_2 * 2 * Math.PI) / hpPeriod;
+    const alpha = (Math.cos(angle) + Math.sin(angle) - 1) / Math.cos(angle);
+    this.a = (1 - alpha / 2) ** 2;
+    this.b = 2 * (1 - alpha);
+    this.c = -((1 - alpha) ** 2);
+    this.smoother = new SuperSmootherFilter(opts.ss_period ?? 10);
+    this.warmupPeriod = hpPeriod;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number): number {
+    this.count++;
+    // High-pass needs two prior inputs, zero until then
+    const hp =
+      this.count <= 2
+        ? 0
+        : this.a * (close - 2 * this.x1 + this.x2) +
+          this.b * this.hp1 +
+          this.c * this.hp2;
+    this.x2 = this.x1;
+    this.x1 = close;
+    this.hp2 = this.hp1;
+    this.hp1 = hp;
+    return this.smoother.update(hp);
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = z.object({
+    hp_period: PeriodValueSchema.default(48),
+    ss_period: PeriodValueSchema.default(10),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "RoofingFilter",
+    desc: "High-pass then SuperSmoother band-pass filter",
+    init: "{hp_period: 48, ss_period: 10}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates RoofingFilter closure for functional usage.
+ * @param opts High-pass and SuperSmoother periods (typically 48, 10)
+ * @returns Function that processes bar data and returns filtered price
+ */
+export function useRoofingFilter(
+  opts: { hp_period?: number; ss_period?: number } = {}
+): (bar: BarWith<"close">) => number {
+  const instance = new RoofingFilter(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Laguerre RSI - stateful indicator.
+ * RSI over the four stage Laguerre filter of close, 0 to 100. Larger gamma
+ * smooths more and lags more.
+ */
+export class LaguerreRSI implements Warmup {
+  private gamma: number;
+  private l0?: number;
+  private l1: number = 0;
+  private l2: number = 0;
+  private l3: number = 0;
+  private rsi: number = 50;
+  readonly warmupPeriod = 4;
+  private count: number = 0;
+
+  constructor(opts: { gamma?: number } = {}) {
+    this.gamma = opts.gamma ?? 0.5;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number): number {
+    this.count++;
+    const g = this.gamma;
+
+    // Every stage seeded with the first close
+    if (this.l0 === undefined) {
+      this.l0 = this.l1 = this.l2 = this.l3 = close;
+      return this.rsi;
+    }
+
+    const l0 = (1 - g) * close + g * this.l0;
+    const l1 = -g * l0 + this.l0 + g * this.l1;
+    const l2 = -g * l1 + this.l1 + g * this.l2;
+    const l3 = -g * l2 + this.l2 + g * this.l3;
+    this.l0 = l0;
+    this.l1 = l1;
+    this.l2 = l2;
+    this.l3 = l3;
+
+    let up = 0;
+    let down = 0;
+    for (const diff of [l0 - l1, l1 - l2, l2 - l3]) {
+      if (diff > 0) up += diff;
+      else down -= diff;
+    }
+    // Unchanged while the filter is flat
+    if (up + down !== 0) this.rsi = (100 * up) / (up + down);
+    return this.rsi;
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = z.object({
+    gamma: z.number().min(0).lt(1).default(0.5),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "LaguerreRSI",
+    desc: "RSI of a four stage Laguerre filter, 0 to 100",
+    init: "{gamma: 0.5}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates LaguerreRSI closure for functional usage.
+ * @param opts Laguerre damping factor (typically 0.5)
+ * @returns Function that processes bar data and returns Laguerre RSI
+ */
+export function useLaguerreRSI(
+  opts: { gamma?: number } = {}
+): (bar: BarWith<"close">) => number {
+  const instance = new LaguerreRSI(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Adaptive EMA - stateful operator.
+ * EMA with alpha = 2 / (period + 1) from the period given on each update,
+ * e.g. a dominant cycle. Seeded with the first value.
+ */
+export class AdaptiveEMA implements Warmup {
+  private ema?: number;
+  readonly warmupPeriod = 1;
+
+  get isReady(): boolean {
+    return this.ema !== undefined;
+  }
+
+  update(x: number, period: number): number {
+    if (this.ema === undefined) {
+      this.ema = x;
+    } else {
+      this.ema += (2 / (Math.max(period, 1) + 1)) * (x - this.ema);
+    }
+    return this.ema;
+  }
+
+  static readonly doc: OperatorDoc = {
+    type: "AdaptiveEMA",
+    desc: "EMA with the period taken from the second input on every update",
+    input: "x, period",
+    output: "number",
+  };
+}
+
+/**
+ * Adaptive RSI - stateful operator.
+ * RSI with Wilder's smoothing 1 / period from the period given on each
+ * update. Ehlers feeds it half the dominant cycle.
+ */
+export class AdaptiveRSI implements Warmup {
+  private avgGain?: SmoothedAccum;
+  private avgLoss?: SmoothedAccum;
+  private prevClose?: number;
+  readonly warmupPeriod = 2;
+  private count: number = 0;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number, period: number): number {
+    this.count++;
+    if (this.prevClose === undefined) {
+      this.prevClose = close;
+      return 50;
+    }
+
+    const change = close - this.prevClose;
+    this.prevClose = close;
+
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    const alpha = 1 / Math.max(period, 1);
+
+    if (this.avgGain === undefined) {
+      this.avgGain = new SmoothedAccum(gain);
+      this.avgLoss = new SmoothedAccum(loss);
+    } else {
+      this.avgGain.accum(gain, alpha);
+      this.avgLoss!.accum(loss, alpha);
+    }
+
+    if (this.avgLoss!.val === 0) {
+      return 100;
+    }
+
+    const rs = this.avgGain.val / this.avgLoss!.val;
+    return 100 - 100 / (1 + rs);
+  }
+
+  static readonly doc: OperatorDoc = {
+    type: "AdaptiveRSI",
+    desc: "RSI with the period taken from the second input on every update",
+    input: "close, period",
+    output: "number",
+  };
+}
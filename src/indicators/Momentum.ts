@@ -1,4 +1,9 @@
-import type { PeriodWith } from "../types/PeriodOptions.js";
+import { z } from "zod";
+import {
+  PeriodSchema,
+  PeriodValueSchema,
+  type PeriodWith,
+} from "../types/PeriodOptions.js";
 import type { BarWith } from "../types/BarData.js";
 import {
   CircularBuffer,
@@ -9,12 +14,16 @@ import {
 } from "@junduck/trading-core";
 
 import { type OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
 
 /**
  * Balance of Power - measures buying vs selling pressure.
  * Calculates (close - open) / (high - low) ratio.
  */
-export class BOP {
+export class BOP implements Warmup {
+  readonly warmupPeriod = 1;
+  readonly isReady = true;
+
   update(open: number, high: number, low: number, close: number): number {
     const range = high - low;
     return range !== 0 ? (close - open) / range : 0;
@@ -46,11 +55,17 @@ export function useBOP(): (
  * Momentum - stateful indicator.
  * Measures rate of price change over period.
  */
-export class MOM {
+export class MOM implements Warmup {
   private buffer: CircularBuffer<number>;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.buffer = new CircularBuffer(opts.period + 1);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
   }
 
   update(close: number): number {
@@ -65,6 +80,8 @@ export class MOM {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "MOM",
     init: "{period: number}",
@@ -89,11 +106,17 @@ export function useMOM(
  * Rate of Change - stateful indicator.
  * Calculates percentage price change over period.
  */
-export class ROC {
+export class ROC implements Warmup {
   private buffer: CircularBuffer<number>;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.buffer = new CircularBuffer(opts.period + 1);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
   }
 
   update(close: number): number {
@@ -109,6 +132,8 @@ export class ROC {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "ROC",
     desc: "Rate of Change",
@@ -134,11 +159,17 @@ export function useROC(
  * Rate of Change Ratio - stateful indicator.
  * Calculates price change ratio over period.
  */
-export class ROCR {
+export class ROCR implements Warmup {
   private buffer: CircularBuffer<number>;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.buffer = new CircularBuffer(opts.period + 1);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
   }
 
   update(close: number): number {
@@ -154,6 +185,8 @@ export class ROCR {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "ROCR",
     init: "{period: number}",
@@ -178,17 +211,25 @@ export function useROCR(
  * Relative Strength Index - stateful indicator.
  * Uses Wilder's smoothing to measure overbought/oversold conditions.
  */
-export class RSI {
+export class RSI implements Warmup {
   private alpha: number;
   private avgGain?: SmoothedAccum;
   private avgLoss?: SmoothedAccum;
   private prevClose?: number;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period">) {
     this.alpha = wilders_factor(opts.period);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(close: number): number {
+    this.count++;
     if (this.prevClose === undefined) {
       this.prevClose = close;
       return 50;
@@ -220,6 +261,8 @@ export class RSI {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RSI",
     init: "{period: number}",
@@ -244,14 +287,20 @@ export function useRSI(
  * Chande Momentum Oscillator - stateful indicator.
  * Measures momentum using sum of gains vs losses over period.
  */
-export class CMO {
+export class CMO implements Warmup {
   private buffer: CircularBuffer<number>;
   private upSum: number = 0;
   private downSum: number = 0;
   private prevClose?: number;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.buffer = new CircularBuffer(opts.period);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
   }
 
   update(close: number): number {
@@ -291,6 +340,8 @@ export class CMO {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "CMO",
     init: "{period: number}",
@@ -315,9 +366,11 @@ export function useCMO(
  * Williams Accumulation/Distribution - stateful indicator.
  * Cumulative indicator measuring buying and selling pressure.
  */
-export class WAD {
+export class WAD implements Warmup {
   private wad: number = 0;
   private prevClose?: number;
+  readonly warmupPeriod = 1;
+  readonly isReady = true;
 
   update(high: number, low: number, close: number): number {
     if (this.prevClose === undefined) {
@@ -359,15 +412,22 @@ export function useWAD(): (bar: BarWith<"high" | "low" | "close">) => number {
  * Relative Vigor Index - measures trend conviction.
  * Compares close relative to open with range.
  */
-export class RVI {
+export class RVI implements Warmup {
   private numeratorSma: CoreSMA;
   private denominatorSma: CoreSMA;
   private signalSma: CoreSMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period">) {
     this.numeratorSma = new CoreSMA(opts);
     this.denominatorSma = new CoreSMA(opts);
     this.signalSma = new CoreSMA({ period: 4 });
+    this.warmupPeriod = opts.period + 3;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(
@@ -376,6 +436,7 @@ export class RVI {
     low: number,
     close: number
   ): { rvi: number; signal: number } {
+    this.count++;
     const numerator = close - open;
     const denominator = high - low;
 
@@ -395,6 +456,8 @@ export class RVI {
     return this.update(bar.open, bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RVI",
     init: "{period: number}",
@@ -422,13 +485,15 @@ export function useRVI(opts: PeriodWith<"period">): (
  * Trend Strength Index - momentum indicator.
  * Double-smoothed momentum oscillator.
  */
-export class TSI {
+export class TSI implements Warmup {
   private emsSlow1: CoreEMA;
   private emsFast1: CoreEMA;
   private emsSlow2: CoreEMA;
   private emsFast2: CoreEMA;
   private emaSignal: CoreEMA;
   private prevClose?: number;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(
     opts: PeriodWith<"period_fast" | "period_slow" | "period_signal"> = {
@@ -442,9 +507,16 @@ export class TSI {
     this.emsSlow2 = new CoreEMA({ period: opts.period_slow });
     this.emsFast2 = new CoreEMA({ period: opts.period_fast });
     this.emaSignal = new CoreEMA({ period: opts.period_signal });
+    this.warmupPeriod =
+      opts.period_slow + opts.period_fast + opts.period_signal - 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(close: number): { tsi: number; signal: number } {
+    this.count++;
     if (this.prevClose === undefined) {
       this.prevClose = close;
       this.emsSlow1.update(0);
@@ -475,6 +547,12 @@ export class TSI {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = z.object({
+    period_fast: PeriodValueSchema.default(13),
+    period_slow: PeriodValueSchema.default(25),
+    period_signal: PeriodValueSchema.default(13),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "TSI",
     desc: "Trend Strength Index", // Agent: mistakes for True Strength Index
@@ -504,11 +582,18 @@ export function useTSI(
  * Elder's Bull/Bear Power - measures buying and selling pressure.
  * Compares highs and lows to EMA.
  */
-export class BBPOWER {
+export class BBPOWER implements Warmup {
   private ema: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period">) {
     this.ema = new CoreEMA(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(
@@ -516,6 +601,7 @@ export class BBPOWER {
     low: number,
     close: number
   ): { bull_power: number; bear_power: number } {
+    this.count++;
     const emaValue = this.ema.update(close);
     return {
       bull_power: high - emaValue,
@@ -530,6 +616,8 @@ export class BBPOWER {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "BBPOWER",
     desc: "Elder's Bull/Bear Power", // Agent: mistakes for Bollinger Bands Power
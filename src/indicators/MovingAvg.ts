@@ -1,5 +1,15 @@
+import { z } from "zod";
+import { CircularBuffer, EMA as CoreEMA } from "@junduck/trading-core";
 import { SMA, EMA, EWMA } from "../primitive/core-ops/rolling.js";
 import type { BarWith } from "../types/BarData.js";
+import {
+  PeriodSchema,
+  PeriodValueSchema,
+  type PeriodWith,
+} from "../types/PeriodOptions.js";
+import { type OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
+import { CMO } from "./Momentum.js";
 
 /**
  * Creates SMA closure for functional usage.
@@ -36,3 +46,579 @@ export function useEWMA(opts: {
   const instance = new EWMA(opts);
   return (bar) => instance.onData(bar);
 }
+
+/**
+ * Weighted Moving Average - stateful operator.
+ * Linearly weighted mean, newest close has weight period.
+ */
+export class WMA implements Warmup {
+  private buffer: CircularBuffer<number>;
+  private sum: number = 0;
+  private weightedSum: number = 0;
+  readonly warmupPeriod: number;
+
+  constructor(opts: PeriodWith<"period">) {
+    this.buffer = new CircularBuffer(opts.period);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  update(close: number): number {
+    if (this.buffer.full()) {
+      // Every weight drops by one, the oldest falls out of the window
+      this.weightedSum -= this.sum;
+      this.sum -= this.buffer.front()!;
+    }
+    this.buffer.push(close);
+    const n = this.buffer.size();
+    this.weightedSum += n * close;
+    this.sum += close;
+    return this.weightedSum / ((n * (n + 1)) / 2);
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = PeriodSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "WMA",
+    desc: "Linearly weighted moving average",
+    init: "{period: number}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates WMA closure for functional usage.
+ * @param opts Period configuration
+ * @returns Function that processes bar data and returns WMA
+ */
+export function useWMA(
+  opts: PeriodWith<"period">
+): (bar: BarWith<"close">) => number {
+  const instance = new WMA(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Double Exponential Moving Average - stateful operator.
+ * Calculates 2 * EMA - EMA(EMA) to reduce lag.
+ */
+export class DEMA implements Warmup {
+  private ema1: CoreEMA;
+  private ema2: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(opts: PeriodWith<"period">) {
+    this.ema1 = new CoreEMA({ period: opts.period });
+    this.ema2 = new CoreEMA({ period: opts.period });
+    this.warmupPeriod = 2 * opts.period - 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number): number {
+    this.count++;
+    const e1 = this.ema1.update(close);
+    const e2 = this.ema2.update(e1);
+    return 2 * e1 - e2;
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = PeriodSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "DEMA",
+    init: "{period: number}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates DEMA closure for functional usage.
+ * @param opts Period configuration
+ * @returns Function that processes bar data and returns DEMA
+ */
+export function useDEMA(
+  opts: PeriodWith<"period">
+): (bar: BarWith<"close">) => number {
+  const instance = new DEMA(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Triple Exponential Moving Average - stateful operator.
+ * Calculates 3 * EMA - 3 * EMA(EMA) + EMA(EMA(EMA)).
+ */
+export class TEMA implements Warmup {
+  private ema1: CoreEMA;
+  private ema2: CoreEMA;
+  private ema3: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(opts: PeriodWith<"period">) {
+    this.ema1 = new CoreEMA({ period: opts.period });
+    this.ema2 = new CoreEMA({ period: opts.period });
+    this.ema3 = new CoreEMA({ period: opts.period });
+    this.warmupPeriod = 3 * opts.period - 2;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number): number {
+    this.count++;
+    const e1 = this.ema1.update(close);
+    const e2 = this.ema2.update(e1);
+    const e3 = this.ema3.update(e2);
+    return 3 * e1 - 3 * e2 + e3;
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = PeriodSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "TEMA",
+    init: "{period: number}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates TEMA closure for functional usage.
+ * @param opts Period configuration
+ * @returns Function that processes bar data and returns TEMA
+ */
+export function useTEMA(
+  opts: PeriodWith<"period">
+): (bar: BarWith<"close">) => number {
+  const instance = new TEMA(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Hull Moving Average - stateful operator.
+ * Calculates WMA(2 * WMA(period/2) - WMA(period), sqrt(period)).
+ */
+export class HMA implements Warmup {
+  private wmaHalf: WMA;
+  private wmaFull: WMA;
+  private wmaSqrt: WMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(opts: PeriodWith<"period">) {
+    const sqrtPeriod = Math.max(1, Math.floor(Math.sqrt(opts.period)));
+    this.wmaHalf = new WMA({
+      period: Math.max(1, Math.floor(opts.period / 2)),
+    });
+    this.wmaFull = new WMA(opts);
+    this.wmaSqrt = new WMA({ period: sqrtPeriod });
+    this.warmupPeriod = opts.period + sqrtPeriod - 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number): number {
+    this.count++;
+    const raw = 2 * this.wmaHalf.update(close) - this.wmaFull.update(close);
+    return this.wmaSqrt.update(raw);
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = PeriodSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "HMA",
+    desc: "Hull moving average",
+    init: "{period: number}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates HMA closure for functional usage.
+ * @param opts Period configuration
+ * @returns Function that processes bar data and returns HMA
+ */
+export function useHMA(
+  opts: PeriodWith<"period">
+): (bar: BarWith<"close">) => number {
+  const instance = new HMA(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Kaufman Adaptive Moving Average - stateful operator.
+ * Smoothing moves between the fast and slow EMA constants with the
+ * efficiency ratio |change| / volatility over period.
+ */
+export class KAMA implements Warmup {
+  private closes: CircularBuffer<number>;
+  private changes: CircularBuffer<number>;
+  private volatility: number = 0;
+  private fastSC: number;
+  private slowSC: number;
+  private kama: number = 0;
+  readonly warmupPeriod: number;
+
+  constructor(
+    opts: PeriodWith<"period" | "period_fast" | "period_slow"> = {
+      period: 10,
+      period_fast: 2,
+      period_slow: 30,
+    }
+  ) {
+    this.closes = new CircularBuffer(opts.period + 1);
+    this.changes = new CircularBuffer(opts.period);
+    this.fastSC = 2 / (opts.period_fast + 1);
+    this.slowSC = 2 / (opts.period_slow + 1);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.closes.full();
+  }
+
+  update(close: number): number {
+    if (!this.closes.empty()) {
+      const change = Math.abs(close - this.closes.back()!);
+      if (this.changes.full()) {
+        this.volatility -= this.changes.front()!;
+      }
+      this.changes.push(change);
+      this.volatility += change;
+    }
+    this.closes.push(close);
+
+    // Seeded with the close before the first full window
+    if (!this.closes.full()) {
+      this.kama = close;
+      return this.kama;
+    }
+
+    const direction = Math.abs(close - this.closes.front()!);
+    const er =
+      this.volatility > 0 ? Math.min(direction / this.volatility, 1) : 0;
+    const sc = (er * (this.fastSC - this.slowSC) + this.slowSC) ** 2;
+    this.kama += sc * (close - this.kama);
+    return this.kama;
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = z.object({
+    period: PeriodValueSchema.default(10),
+    period_fast: PeriodValueSchema.default(2),
+    period_slow: PeriodValueSchema.default(30),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "KAMA",
+    desc: "Kaufman adaptive moving average",
+    init: "{period: 10, period_fast: 2, period_slow: 30}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates KAMA closure for functional usage.
+ * @param opts Efficiency ratio period and fast/slow EMA periods (typically 10, 2, 30)
+ * @returns Function that processes bar data and returns KAMA
+ */
+export function useKAMA(
+  opts: PeriodWith<"period" | "period_fast" | "period_slow"> = {
+    period: 10,
+    period_fast: 2,
+    period_slow: 30,
+  }
+): (bar: BarWith<"close">) => number {
+  const instance = new KAMA(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Tillson T3 Moving Average - stateful operator.
+ * Generalized DEMA applied three times over a six EMA cascade.
+ */
+export class T3 implements Warmup {
+  private emas: CoreEMA[];
+  private c1: number;
+  private c2: number;
+  private c3: number;
+  private c4: number;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(opts: PeriodWith<"period"> & { vfactor?: number }) {
+    const a = opts.vfactor ?? 0.7;
+    this.emas = Array.from(
+      { length: 6 },
+      () => new CoreEMA({ period: opts.period })
+    );
+    this.c1 = -(a ** 3);
+    this.c2 = 3 * a ** 2 + 3 * a ** 3;
+    this.c3 = -6 * a ** 2 - 3 * a - 3 * a ** 3;
+    this.c4 = 1 + 3 * a + a ** 3 + 3 * a ** 2;
+    this.warmupPeriod = 6 * opts.period - 5;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number): number {
+    this.count++;
+    const e1 = this.emas[0]!.update(close);
+    const e2 = this.emas[1]!.update(e1);
+    const e3 = this.emas[2]!.update(e2);
+    const e4 = this.emas[3]!.update(e3);
+    const e5 = this.emas[4]!.update(e4);
+    const e6 = this.emas[5]!.update(e5);
+    return this.c1 * e6 + this.c2 * e5 + this.c3 * e4 + this.c4 * e3;
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = PeriodSchema.extend({
+    vfactor: z.number().min(0).max(1).default(0.7),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "T3",
+    desc: "Tillson T3 moving average",
+    init: "{period: number, vfactor: 0.7}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates T3 closure for functional usage.
+ * @param opts Period and volume factor (typically 5, 0.7)
+ * @returns Function that processes bar data and returns T3
+ */
+export function useT3(
+  opts: PeriodWith<"period"> & { vfactor?: number }
+): (bar: BarWith<"close">) => number {
+  const instance = new T3(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Zero-Lag Exponential Moving Average - stateful operator.
+ * EMA of close + (close - close[lag]), lag = (period - 1) / 2.
+ */
+export class ZLEMA implements Warmup {
+  private buffer: CircularBuffer<number>;
+  private ema: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(opts: PeriodWith<"period">) {
+    const lag = Math.floor((opts.period - 1) / 2);
+    this.buffer = new CircularBuffer(lag + 1);
+    this.ema = new CoreEMA({ period: opts.period });
+    this.warmupPeriod = opts.period + lag;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(close: number): number {
+    this.count++;
+    this.buffer.push(close);
+    // Plain close until the lagged close is available
+    const x = this.buffer.full() ? 2 * close - this.buffer.front()! : close;
+    return this.ema.update(x);
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = PeriodSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "ZLEMA",
+    desc: "Zero-lag exponential moving average",
+    init: "{period: number}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates ZLEMA closure for functional usage.
+ * @param opts Period configuration
+ * @returns Function that processes bar data and returns ZLEMA
+ */
+export function useZLEMA(
+  opts: PeriodWith<"period">
+): (bar: BarWith<"close">) => number {
+  const instance = new ZLEMA(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Arnaud Legoux Moving Average - stateful operator.
+ * Gaussian weighted mean centred at offset * (period - 1) with
+ * width period / sigma. Partial windows use the newest weights.
+ */
+export class ALMA implements Warmup {
+  private buffer: CircularBuffer<number>;
+  private weights: Float64Array;
+  readonly warmupPeriod: number;
+
+  constructor(
+    opts: PeriodWith<"period"> & { offset?: number; sigma?: number }
+  ) {
+    const m = (opts.offset ?? 0.85) * (opts.period - 1);
+    const s = opts.period / (opts.sigma ?? 6);
+    this.buffer = new CircularBuffer(opts.period);
+    this.weights = new Float64Array(opts.period);
+    for (let i = 0; i < opts.period; i++) {
+      this.weights[i] = Math.exp(-((i - m) ** 2) / (2 * s * s));
+    }
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  update(close: number): number {
+    this.buffer.push(close);
+    const n = this.buffer.size();
+    const first = this.weights.length - n;
+    let sum = 0;
+    let norm = 0;
+    for (let i = 0; i < n; i++) {
+      const w = this.weights[first + i]!;
+      sum += w * this.buffer.at(i)!;
+      norm += w;
+    }
+    return sum / norm;
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = PeriodSchema.extend({
+    offset: z.number().min(0).max(1).default(0.85),
+    sigma: z.number().positive().default(6),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "ALMA",
+    desc: "Arnaud Legoux moving average",
+    init: "{period: number, offset: 0.85, sigma: 6}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates ALMA closure for functional usage.
+ * @param opts Period, offset and sigma (typically 9, 0.85, 6)
+ * @returns Function that processes bar data and returns ALMA
+ */
+export function useALMA(
+  opts: PeriodWith<"period"> & { offset?: number; sigma?: number }
+): (bar: BarWith<"close">) => number {
+  const instance = new ALMA(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Variable Index Dynamic Average - stateful operator.
+ * EMA whose alpha is scaled by |CMO| / 100, so it follows the close
+ * in trends and flattens in ranges.
+ */
+export class VIDYA implements Warmup {
+  private cmo: CMO;
+  private alpha: number;
+  private vidya?: number;
+  readonly warmupPeriod: number;
+
+  constructor(opts: PeriodWith<"period"> & { cmo_period?: number }) {
+    const cmoPeriod = opts.cmo_period ?? 9;
+    this.cmo = new CMO({ period: cmoPeriod });
+    this.alpha = 2 / (opts.period + 1);
+    this.warmupPeriod = cmoPeriod + 1;
+  }
+
+  get isReady(): boolean {
+    return this.cmo.isReady;
+  }
+
+  update(close: number): number {
+    const k = (this.alpha * Math.abs(this.cmo.update(close))) / 100;
+    if (this.vidya === undefined) {
+      this.vidya = close;
+    } else {
+      this.vidya += k * (close - this.vidya);
+    }
+    return this.vidya;
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = PeriodSchema.extend({
+    cmo_period: PeriodValueSchema.default(9),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "VIDYA",
+    desc: "Chande variable index dynamic average",
+    init: "{period: number, cmo_period: 9}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates VIDYA closure for functional usage.
+ * @param opts Smoothing period and CMO period (typically 9)
+ * @returns Function that processes bar data and returns VIDYA
+ */
+export function useVIDYA(
+  opts: PeriodWith<"period"> & { cmo_period?: number }
+): (bar: BarWith<"close">) => number {
+  const instance = new VIDYA(opts);
+  return (bar) => instance.onData(bar);
+}
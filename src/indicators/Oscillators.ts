@@ -1,5 +1,11 @@
+import { z } from "zod";
 import type { BarWith } from "../types/BarData.js";
-import type { PeriodWith } from "../types/PeriodOptions.js";
+import {
+  FastSlowSchema,
+  PeriodSchema,
+  PeriodValueSchema,
+  type PeriodWith,
+} from "../types/PeriodOptions.js";
 import {
   EMA as CoreEMA,
   RollingMinMax,
@@ -8,14 +14,20 @@ import {
   clamp,
 } from "@junduck/trading-core";
 import { type OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
 
 /**
  * Awesome Oscillator - stateful indicator.
  * Measures momentum using median price with 5/34 period SMAs.
  */
-export class AO {
+export class AO implements Warmup {
   private smaShort = new CoreSMA({ period: 5 });
   private smaLong = new CoreSMA({ period: 34 });
+  readonly warmupPeriod = 34;
+
+  get isReady(): boolean {
+    return this.smaLong.buffer.full();
+  }
 
   update(high: number, low: number): number {
     const midpoint = (high + low) / 2;
@@ -46,16 +58,24 @@ export function useAO(): (bar: BarWith<"high" | "low">) => number {
  * Absolute Price Oscillator - stateful indicator.
  * Calculates difference between short and long period EMAs.
  */
-export class APO {
+export class APO implements Warmup {
   private emsFast: CoreEMA;
   private emsSlow: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period_fast" | "period_slow">) {
     this.emsFast = new CoreEMA({ period: opts.period_fast });
     this.emsSlow = new CoreEMA({ period: opts.period_slow });
+    this.warmupPeriod = Math.max(opts.period_fast, opts.period_slow);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(close: number): number {
+    this.count++;
     return this.emsFast.update(close) - this.emsSlow.update(close);
   }
 
@@ -63,6 +83,8 @@ export class APO {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = FastSlowSchema;
+
   static readonly doc: OperatorDoc = {
     type: "APO",
     init: "{period_fast, period_slow}",
@@ -87,13 +109,19 @@ export function useAPO(
  * Detrended Price Oscillator - stateful indicator.
  * Removes trend to identify cycles using displaced SMA.
  */
-export class DPO {
+export class DPO implements Warmup {
   private sma: CoreSMA;
   private lookback: number;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.sma = new CoreSMA({ period: opts.period });
     this.lookback = Math.floor(opts.period / 2) + 1;
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.sma.buffer.full();
   }
 
   update(close: number): number {
@@ -112,6 +140,8 @@ export class DPO {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "DPO",
     init: "{period: number}",
@@ -136,13 +166,19 @@ export function useDPO(
  * Fisher Transform - stateful indicator.
  * Transforms prices to Gaussian distribution for identifying turning points.
  */
-export class Fisher {
+export class Fisher implements Warmup {
   private minmax: RollingMinMax;
   private val: number = 0;
   private fisher: number = 0;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.minmax = new RollingMinMax(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.minmax.buffer.full();
   }
 
   update(high: number, low: number): number {
@@ -168,6 +204,8 @@ export class Fisher {
     return this.update(bar.high, bar.low);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "Fisher",
     init: "{period: number}",
@@ -192,10 +230,12 @@ export function useFisher(
  * Moving Average Convergence/Divergence - stateful indicator.
  * Trend-following momentum indicator using EMAs.
  */
-export class MACD {
+export class MACD implements Warmup {
   private emsFast: CoreEMA;
   private emsSlow: CoreEMA;
   private emaSignal: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(
     opts: PeriodWith<"period_fast" | "period_slow" | "period_signal">
@@ -203,9 +243,16 @@ export class MACD {
     this.emsFast = new CoreEMA({ period: opts.period_fast });
     this.emsSlow = new CoreEMA({ period: opts.period_slow });
     this.emaSignal = new CoreEMA({ period: opts.period_signal });
+    this.warmupPeriod =
+      Math.max(opts.period_fast, opts.period_slow) + opts.period_signal - 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(close: number): { macd: number; signal: number; histogram: number } {
+    this.count++;
     const macd = this.emsFast.update(close) - this.emsSlow.update(close);
     const signal = this.emaSignal.update(macd);
     const histogram = macd - signal;
@@ -220,6 +267,10 @@ export class MACD {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = FastSlowSchema.extend({
+    period_signal: PeriodValueSchema,
+  });
+
   static readonly doc: OperatorDoc = {
     type: "MACD",
     init: "{period_fast, period_slow, period_signal}",
@@ -248,16 +299,24 @@ export function useMACD(
  * Percentage Price Oscillator - stateful indicator.
  * Calculates percentage difference between short and long period EMAs.
  */
-export class PPO {
+export class PPO implements Warmup {
   private emsFast: CoreEMA;
   private emsSlow: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period_fast" | "period_slow">) {
     this.emsFast = new CoreEMA({ period: opts.period_fast });
     this.emsSlow = new CoreEMA({ period: opts.period_slow });
+    this.warmupPeriod = Math.max(opts.period_fast, opts.period_slow);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(close: number): number {
+    this.count++;
     const emsFastVal = this.emsFast.update(close);
     const emsSlowVal = this.emsSlow.update(close);
     return emsSlowVal !== 0
@@ -269,6 +328,8 @@ export class PPO {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = FastSlowSchema;
+
   static readonly doc: OperatorDoc = {
     type: "PPO",
     init: "{period_fast, period_slow}",
@@ -293,11 +354,17 @@ export function usePPO(
  * Qstick - stateful indicator.
  * Measures average difference between close and open prices.
  */
-export class QSTICK {
+export class QSTICK implements Warmup {
   private sma: CoreSMA;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.sma = new CoreSMA({ period: opts.period });
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.sma.buffer.full();
   }
 
   update(open: number, close: number): number {
@@ -309,6 +376,8 @@ export class QSTICK {
     return this.update(bar.open, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "QSTICK",
     init: "{period: number}",
@@ -333,19 +402,27 @@ export function useQSTICK(
  * Trix - stateful indicator.
  * Rate of change of triple exponential moving average.
  */
-export class TRIX {
+export class TRIX implements Warmup {
   private ema1: CoreEMA;
   private ema2: CoreEMA;
   private ema3: CoreEMA;
   private prevEma3?: number;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period">) {
     this.ema1 = new CoreEMA({ period: opts.period });
     this.ema2 = new CoreEMA({ period: opts.period });
     this.ema3 = new CoreEMA({ period: opts.period });
+    this.warmupPeriod = 3 * opts.period - 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(close: number): number {
+    this.count++;
     const ema1Val = this.ema1.update(close);
     const ema2Val = this.ema2.update(ema1Val);
     const ema3Val = this.ema3.update(ema2Val);
@@ -364,6 +441,8 @@ export class TRIX {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "TRIX",
     init: "{period: number}",
@@ -388,7 +467,7 @@ export function useTRIX(
  * Ultimate Oscillator - stateful indicator.
  * Momentum oscillator using weighted average of buying pressure across three timeframes.
  */
-export class ULTOSC {
+export class ULTOSC implements Warmup {
   private prevClose?: number;
   private sumBpFast: RollingSum;
   private sumBpMed: RollingSum;
@@ -396,6 +475,8 @@ export class ULTOSC {
   private sumTrFast: RollingSum;
   private sumTrMed: RollingSum;
   private sumTrSlow: RollingSum;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period_fast" | "period_med" | "period_slow">) {
     this.sumBpFast = new RollingSum({ period: opts.period_fast });
@@ -404,9 +485,16 @@ export class ULTOSC {
     this.sumTrFast = new RollingSum({ period: opts.period_fast });
     this.sumTrMed = new RollingSum({ period: opts.period_med });
     this.sumTrSlow = new RollingSum({ period: opts.period_slow });
+    this.warmupPeriod =
+      Math.max(opts.period_fast, opts.period_med, opts.period_slow) + 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(high: number, low: number, close: number): number {
+    this.count++;
     if (this.prevClose === undefined) {
       this.prevClose = close;
       return 50;
@@ -437,6 +525,12 @@ export class ULTOSC {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = z.object({
+    period_fast: PeriodValueSchema,
+    period_med: PeriodValueSchema,
+    period_slow: PeriodValueSchema,
+  });
+
   static readonly doc: OperatorDoc = {
     type: "ULTOSC",
     init: "{period_fast, period_med, period_slow}",
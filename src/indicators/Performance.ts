@@ -0,0 +1,455 @@
+import { z } from "zod";
+import {
+  CircularBuffer,
+  RollingStddev,
+  RunningLongestDrawdown,
+  RunningProfitFactor,
+  RunningRelDrawdown,
+  RunningSharpe,
+  RunningSortino,
+  RunningWinRate,
+  Kahan,
+} from "@junduck/trading-core";
+import {
+  PeriodSchema,
+  PeriodValueSchema,
+  type PeriodWith,
+} from "../types/PeriodOptions.js";
+import { type OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
+
+const RiskfreeSchema = z.object({ riskfree: z.number().default(0) });
+const ThresholdSchema = z.object({ threshold: z.number().default(0) });
+
+/**
+ * Running Maximum Drawdown - relative drawdown of an equity series.
+ * Drawdown is (peak - equity) / peak, max is the largest seen so far.
+ */
+export class MaxDrawdown {
+  private readonly dd = new RunningRelDrawdown<number>();
+  private index = 0;
+
+  update(equity: number): { drawdown: number; max: number } {
+    const { value, max } = this.dd.update(equity, this.index++);
+    return { drawdown: value, max };
+  }
+
+  static readonly doc: OperatorDoc = {
+    type: "MaxDrawdown",
+    desc: "Relative drawdown from peak equity and its running maximum",
+    input: "equity",
+    output: "{drawdown, max}",
+  };
+}
+
+/**
+ * Creates MaxDrawdown closure for functional usage.
+ * @returns Function that processes equity and returns drawdown
+ */
+export function useMaxDrawdown(): (equity: number) => {
+  drawdown: number;
+  max: number;
+} {
+  const instance = new MaxDrawdown();
+  return (equity) => instance.update(equity);
+}
+
+/**
+ * Drawdown Duration - number of updates spent below peak equity.
+ * Duration is the current streak, longest is the longest so far.
+ */
+export class DrawdownDuration {
+  private readonly dd = new RunningLongestDrawdown<number>(
+    (from, to) => to - from
+  );
+  private index = 0;
+
+  update(equity: number): { duration: number; longest: number } {
+    const { duration, longest } = this.dd.update(equity, this.index++);
+    return { duration, longest };
+  }
+
+  static readonly doc: OperatorDoc = {
+    type: "DrawdownDuration",
+    desc: "Updates since peak equity, and the longest such streak",
+    input: "equity",
+    output: "{duration, longest}",
+  };
+}
+
+/**
+ * Creates DrawdownDuration closure for functional usage.
+ * @returns Function that processes equity and returns drawdown duration
+ */
+export function useDrawdownDuration(): (equity: number) => {
+  duration: number;
+  longest: number;
+} {
+  const instance = new DrawdownDuration();
+  return (equity) => instance.update(equity);
+}
+
+/**
+ * Cumulative Sharpe Ratio - (mean return - riskfree) / stddev of all returns.
+ * Per-period, sample stddev; 0 while stddev is 0, ready after 2 returns.
+ */
+export class CuSharpe extends RunningSharpe implements Warmup {
+  readonly warmupPeriod = 2;
+  private count = 0;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  override update(ret: number): number {
+    this.count++;
+    return super.update(ret);
+  }
+
+  override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
+  static readonly initSchema = RiskfreeSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "CuSharpe",
+    desc: "Cumulative per-period Sharpe ratio",
+    init: "{riskfree: 0}",
+    input: "ret",
+    output: "number",
+  };
+}
+
+/**
+ * Creates CuSharpe closure for functional usage.
+ * @param opts Risk-free rate per period
+ * @returns Function that processes returns and returns Sharpe ratio
+ */
+export function useCuSharpe(opts?: {
+  riskfree?: number;
+}): (ret: number) => number {
+  const instance = new CuSharpe(opts);
+  return (ret) => instance.update(ret);
+}
+
+/**
+ * Rolling Sharpe Ratio - (mean return - riskfree) / stddev over a window.
+ * Per-period, sample stddev; 0 while stddev is 0.
+ */
+export class RollingSharpe implements Warmup {
+  private readonly stddev: RollingStddev;
+  private readonly riskfree: number;
+  private count = 0;
+  readonly warmupPeriod: number;
+
+  constructor(opts: PeriodWith<"period"> & { riskfree?: number }) {
+    this.stddev = new RollingStddev({ period: opts.period, ddof: 1 });
+    this.riskfree = opts.riskfree ?? 0;
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(ret: number): number {
+    this.count++;
+    const { mean, stddev } = this.stddev.update(ret);
+    if (!(stddev > 0)) return 0;
+    return (mean - this.riskfree) / stddev;
+  }
+
+  static readonly initSchema = PeriodSchema.extend(RiskfreeSchema.shape);
+
+  static readonly doc: OperatorDoc = {
+    type: "RollingSharpe",
+    desc: "Rolling per-period Sharpe ratio",
+    init: "{period, riskfree: 0}",
+    input: "ret",
+    output: "number",
+  };
+}
+
+/**
+ * Creates RollingSharpe closure for functional usage.
+ * @param opts Period and risk-free rate configuration
+ * @returns Function that processes returns and returns Sharpe ratio
+ */
+export function useRollingSharpe(
+  opts: PeriodWith<"period"> & { riskfree?: number }
+): (ret: number) => number {
+  const instance = new RollingSharpe(opts);
+  return (ret) => instance.update(ret);
+}
+
+/**
+ * Cumulative Sortino Ratio - (mean return - riskfree) / downside stddev.
+ * Per-period; 0 until downside stddev is defined, ready after 2 returns.
+ */
+export class CuSortino extends RunningSortino implements Warmup {
+  readonly warmupPeriod = 2;
+  private count = 0;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  override update(ret: number): number {
+    this.count++;
+    return super.update(ret);
+  }
+
+  override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
+  static readonly initSchema = RiskfreeSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "CuSortino",
+    desc: "Cumulative per-period Sortino ratio",
+    init: "{riskfree: 0}",
+    input: "ret",
+    output: "number",
+  };
+}
+
+/**
+ * Creates CuSortino closure for functional usage.
+ * @param opts Risk-free rate per period
+ * @returns Function that processes returns and returns Sortino ratio
+ */
+export function useCuSortino(opts?: {
+  riskfree?: number;
+}): (ret: number) => number {
+  const instance = new CuSortino(opts);
+  return (ret) => instance.update(ret);
+}
+
+/**
+ * Rolling Sortino Ratio - (mean return - riskfree) / downside stddev over a
+ * window. Per-period, sample stddev of returns below riskfree; 0 while fewer
+ * than 2 returns in the window are below riskfree.
+ */
+export class RollingSortino implements Warmup {
+  private readonly returns: CircularBuffer<number>;
+  private readonly riskfree: number;
+  private readonly sum = new Kahan();
+  // Count, sum and sum of squares of shortfalls (ret - riskfree) below 0
+  private downCount = 0;
+  private readonly downSum = new Kahan();
+  private readonly downSumSq = new Kahan();
+  private count = 0;
+  readonly warmupPeriod: number;
+
+  constructor(opts: PeriodWith<"period"> & { riskfree?: number }) {
+    this.returns = new CircularBuffer<number>(opts.period);
+    this.riskfree = opts.riskfree ?? 0;
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(ret: number): number {
+    this.count++;
+    if (this.returns.full()) this.accum(this.returns.front()!, -1);
+    this.returns.push(ret);
+    this.accum(ret, 1);
+
+    const n = this.downCount;
+    if (n < 2) return 0;
+    const mean = this.downSum.val / n;
+    const variance = (this.downSumSq.val - n * mean * mean) / (n - 1);
+    if (!(variance > 0)) return 0;
+    const avgReturn = this.sum.val / this.returns.size();
+    return (avgReturn - this.riskfree) / Math.sqrt(variance);
+  }
+
+  private accum(ret: number, sign: 1 | -1): void {
+    this.sum.accum(sign * ret);
+    const shortfall = ret - this.riskfree;
+    if (shortfall < 0) {
+      this.downCount += sign;
+      this.downSum.accum(sign * shortfall);
+      this.downSumSq.accum(sign * shortfall * shortfall);
+    }
+  }
+
+  static readonly initSchema = PeriodSchema.extend(RiskfreeSchema.shape);
+
+  static readonly doc: OperatorDoc = {
+    type: "RollingSortino",
+    desc: "Rolling per-period Sortino ratio",
+    init: "{period, riskfree: 0}",
+    input: "ret",
+    output: "number",
+  };
+}
+
+/**
+ * Creates RollingSortino closure for functional usage.
+ * @param opts Period and risk-free rate configuration
+ * @returns Function that processes returns and returns Sortino ratio
+ */
+export function useRollingSortino(
+  opts: PeriodWith<"period"> & { riskfree?: number }
+): (ret: number) => number {
+  const instance = new RollingSortino(opts);
+  return (ret) => instance.update(ret);
+}
+
+/**
+ * Calmar Ratio - annualized mean return / max relative drawdown.
+ * Equity is compounded from returns; 0 while there is no drawdown.
+ */
+export class Calmar {
+  private readonly dd = new RunningRelDrawdown<number>(1, 0);
+  private readonly sum = new Kahan();
+  private readonly periodsPerYear: number;
+  private equity = 1;
+  private count = 0;
+
+  constructor(opts: { periodsPerYear?: number } = {}) {
+    this.periodsPerYear = opts.periodsPerYear ?? 250;
+  }
+
+  update(ret: number): number {
+    this.count++;
+    this.sum.accum(ret);
+    this.equity *= 1 + ret;
+    const { max } = this.dd.update(this.equity, this.count);
+    if (max === 0) return 0;
+    return ((this.sum.val / this.count) * this.periodsPerYear) / max;
+  }
+
+  static readonly initSchema = z.object({
+    periodsPerYear: PeriodValueSchema.default(250),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "Calmar",
+    desc: "Annualized mean return over max drawdown of compounded returns",
+    init: "{periodsPerYear: 250}",
+    input: "ret",
+    output: "number",
+  };
+}
+
+/**
+ * Creates Calmar closure for functional usage.
+ * @param opts Periods per year for annualization
+ * @returns Function that processes returns and returns Calmar ratio
+ */
+export function useCalmar(opts?: {
+  periodsPerYear?: number;
+}): (ret: number) => number {
+  const instance = new Calmar(opts);
+  return (ret) => instance.update(ret);
+}
+
+/**
+ * Omega Ratio - sum of returns above threshold / sum of shortfalls below it.
+ * 0 until the first return below threshold.
+ */
+export class Omega {
+  private readonly gains = new Kahan();
+  private readonly losses = new Kahan();
+  private readonly threshold: number;
+
+  constructor(opts: { threshold?: number } = {}) {
+    this.threshold = opts.threshold ?? 0;
+  }
+
+  update(ret: number): number {
+    const excess = ret - this.threshold;
+    if (excess > 0) {
+      this.gains.accum(excess);
+    } else if (excess < 0) {
+      this.losses.accum(-excess);
+    }
+    if (this.losses.val === 0) return 0;
+    return this.gains.val / this.losses.val;
+  }
+
+  static readonly initSchema = ThresholdSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "Omega",
+    desc: "Gains above threshold over losses below threshold",
+    init: "{threshold: 0}",
+    input: "ret",
+    output: "number",
+  };
+}
+
+/**
+ * Creates Omega closure for functional usage.
+ * @param opts Threshold return
+ * @returns Function that processes returns and returns Omega ratio
+ */
+export function useOmega(opts?: {
+  threshold?: number;
+}): (ret: number) => number {
+  const instance = new Omega(opts);
+  return (ret) => instance.update(ret);
+}
+
+/**
+ * Hit Rate - fraction of returns (or trade PnLs) above threshold.
+ */
+export class HitRate extends RunningWinRate {
+  static readonly initSchema = ThresholdSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "HitRate",
+    desc: "Fraction of returns above threshold",
+    init: "{threshold: 0}",
+    input: "ret",
+    output: "number",
+  };
+}
+
+/**
+ * Creates HitRate closure for functional usage.
+ * @param opts Threshold return
+ * @returns Function that processes returns and returns hit rate
+ */
+export function useHitRate(opts?: {
+  threshold?: number;
+}): (ret: number) => number {
+  const instance = new HitRate(opts);
+  return (ret) => instance.update(ret);
+}
+
+/**
+ * Profit Factor - sum of gains / sum of losses of returns (or trade PnLs).
+ * 0 until the first loss.
+ */
+export class ProfitFactor extends RunningProfitFactor {
+  static readonly initSchema = ThresholdSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "ProfitFactor",
+    desc: "Sum of gains over sum of losses",
+    init: "{threshold: 0}",
+    input: "ret",
+    output: "number",
+  };
+}
+
+/**
+ * Creates ProfitFactor closure for functional usage.
+ * @param opts Threshold return
+ * @returns Function that processes returns and returns profit factor
+ */
+export function useProfitFactor(opts?: {
+  threshold?: number;
+}): (ret: number) => number {
+  const instance = new ProfitFactor(opts);
+  return (ret) => instance.update(ret);
+}
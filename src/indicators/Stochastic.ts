@@ -1,5 +1,11 @@
+import { z } from "zod";
 import type { BarWith } from "../types/BarData.js";
-import type { PeriodOptions, PeriodWith } from "../types/PeriodOptions.js";
+import {
+  PeriodSchema,
+  PeriodValueSchema,
+  type PeriodOptions,
+  type PeriodWith,
+} from "../types/PeriodOptions.js";
 import {
   RollingMax,
   RollingMin,
@@ -8,17 +14,20 @@ import {
 } from "@junduck/trading-core";
 import { RSI } from "./Momentum.js";
 import { type OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
 
 /**
  * Stochastic Oscillator - stateful indicator.
  * Measures price position relative to high-low range over k_period.
  * Returns smoothed %K and %D lines.
  */
-export class STOCH {
+export class STOCH implements Warmup {
   private highest: RollingMax;
   private lowest: RollingMin;
   private smaK: CoreSMA;
   private smaD: CoreSMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(
     opts: PeriodOptions & {
@@ -39,9 +48,15 @@ export class STOCH {
     this.lowest = new RollingMin({ period: kPeriod });
     this.smaK = new CoreSMA({ period: kSlowing });
     this.smaD = new CoreSMA({ period: dPeriod });
+    this.warmupPeriod = kPeriod + kSlowing + dPeriod - 2;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(high: number, low: number, close: number): { k: number; d: number } {
+    this.count++;
     const highest = this.highest.update(high);
     const lowest = this.lowest.update(low);
 
@@ -60,6 +75,13 @@ export class STOCH {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = z.object({
+    period: PeriodValueSchema.optional(),
+    k_period: PeriodValueSchema.optional(),
+    k_slowing: PeriodValueSchema.default(3),
+    d_period: PeriodValueSchema.default(3),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "STOCH",
     init: "{k_period: 14, k_slowing: 3, d_period: 3}",
@@ -91,16 +113,24 @@ export function useSTOCH(
  * Stochastic RSI - stateful indicator.
  * Applies stochastic formula to RSI values over specified period.
  */
-export class STOCHRSI {
+export class STOCHRSI implements Warmup {
   private rsi: RSI;
   private minmax: RollingMinMax;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period">) {
     this.rsi = new RSI(opts);
     this.minmax = new RollingMinMax(opts);
+    this.warmupPeriod = 2 * opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(close: number): number {
+    this.count++;
     const rsi = this.rsi.update(close);
     const { min, max } = this.minmax.update(rsi);
 
@@ -116,6 +146,8 @@ export class STOCHRSI {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "STOCHRSI",
     init: "{period: number}",
@@ -140,13 +172,19 @@ export function useSTOCHRSI(
  * Williams %R - stateful indicator.
  * Measures overbought/oversold levels over specified period.
  */
-export class WILLR {
+export class WILLR implements Warmup {
   private highest: RollingMax;
   private lowest: RollingMin;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.highest = new RollingMax(opts);
     this.lowest = new RollingMin(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.highest.buffer.full();
   }
 
   update(high: number, low: number, close: number): number {
@@ -165,6 +203,8 @@ export class WILLR {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "WILLR",
     desc: "Williams %R",
@@ -0,0 +1,336 @@
+import { z } from "zod";
+import { RollingMax, RollingMin } from "@junduck/trading-core";
+import type { BarWith } from "../types/BarData.js";
+import { PeriodValueSchema, type PeriodWith } from "../types/PeriodOptions.js";
+import { ATR, type ATRSmoothing } from "./Volatility.js";
+import { type OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
+
+const MultiplierSchema = z.number().positive();
+const SmoothingSchema = z.enum(["wilder", "ema"]).default("wilder");
+
+/**
+ * SuperTrend - ATR band trailing stop.
+ * Bands at (high + low) / 2 ± multiplier * ATR only tighten until the close
+ * breaks through; direction flips when the close crosses the active band.
+ * Stop is the lower band in an uptrend, the upper band in a downtrend.
+ */
+export class SuperTrend implements Warmup {
+  private atr: ATR;
+  private multiplier: number;
+  private upper: number = 0;
+  private lower: number = 0;
+  private prevClose?: number;
+  private direction: number = 1;
+  readonly warmupPeriod: number;
+
+  constructor(
+    opts: PeriodWith<"period"> & {
+      multiplier?: number;
+      smoothing?: ATRSmoothing;
+    } = { period: 10 }
+  ) {
+    this.atr = new ATR(opts);
+    this.multiplier = opts.multiplier ?? 3;
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.atr.isReady;
+  }
+
+  update(
+    high: number,
+    low: number,
+    close: number
+  ): { stop: number; direction: number } {
+    const offset = this.multiplier * this.atr.update(high, low, close);
+    const mid = (high + low) / 2;
+    let upper = mid + offset;
+    let lower = mid - offset;
+
+    if (this.prevClose !== undefined) {
+      if (upper > this.upper && this.prevClose <= this.upper) {
+        upper = this.upper;
+      }
+      if (lower < this.lower && this.prevClose >= this.lower) {
+        lower = this.lower;
+      }
+      if (this.direction > 0 && close < lower) {
+        this.direction = -1;
+      } else if (this.direction < 0 && close > upper) {
+        this.direction = 1;
+      }
+    }
+
+    this.upper = upper;
+    this.lower = lower;
+    this.prevClose = close;
+    return {
+      stop: this.direction > 0 ? lower : upper,
+      direction: this.direction,
+    };
+  }
+
+  onData(bar: BarWith<"high" | "low" | "close">): {
+    stop: number;
+    direction: number;
+  } {
+    return this.update(bar.high, bar.low, bar.close);
+  }
+
+  static readonly initSchema = z.object({
+    period: PeriodValueSchema.default(10),
+    multiplier: MultiplierSchema.default(3),
+    smoothing: SmoothingSchema,
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "SuperTrend",
+    desc: "ATR band trailing stop, direction 1 up / -1 down",
+    init: "{period: 10, multiplier: 3, smoothing: wilder}",
+    input: "high, low, close",
+    output: "{stop, direction}",
+  };
+}
+
+/**
+ * Creates SuperTrend closure for functional usage.
+ * @param opts ATR period, band multiplier and ATR smoothing (typically 10, 3)
+ * @returns Function that processes bar data and returns stop and direction
+ */
+export function useSuperTrend(
+  opts: PeriodWith<"period"> & {
+    multiplier?: number;
+    smoothing?: ATRSmoothing;
+  } = { period: 10 }
+): (bar: BarWith<"high" | "low" | "close">) => {
+  stop: number;
+  direction: number;
+} {
+  const instance = new SuperTrend(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Chandelier Exit - ATR trailing stop hung from the period extremes.
+ * Long stop = highest high - multiplier * ATR, short stop = lowest low +
+ * multiplier * ATR, each ratcheting while the close stays on its side.
+ * Direction flips when the close crosses the opposite stop.
+ */
+export class ChandelierExit implements Warmup {
+  private atr: ATR;
+  private highest: RollingMax;
+  private lowest: RollingMin;
+  private multiplier: number;
+  private long: number = 0;
+  private short: number = 0;
+  private prevClose?: number;
+  private direction: number = 1;
+  readonly warmupPeriod: number;
+
+  constructor(
+    opts: PeriodWith<"period"> & {
+      multiplier?: number;
+      smoothing?: ATRSmoothing;
+    } = { period: 22 }
+  ) {
+    this.atr = new ATR(opts);
+    this.highest = new RollingMax(opts);
+    this.lowest = new RollingMin(opts);
+    this.multiplier = opts.multiplier ?? 3;
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.highest.buffer.full();
+  }
+
+  update(
+    high: number,
+    low: number,
+    close: number
+  ): { long: number; short: number; stop: number; direction: number } {
+    const offset = this.multiplier * this.atr.update(high, low, close);
+    let long = this.highest.update(high) - offset;
+    let short = this.lowest.update(low) + offset;
+
+    if (this.prevClose !== undefined) {
+      if (this.prevClose > this.long) long = Math.max(long, this.long);
+      if (this.prevClose < this.short) short = Math.min(short, this.short);
+      if (close > this.short) {
+        this.direction = 1;
+      } else if (close < this.long) {
+        this.direction = -1;
+      }
+    }
+
+    this.long = long;
+    this.short = short;
+    this.prevClose = close;
+    return {
+      long,
+      short,
+      stop: this.direction > 0 ? long : short,
+      direction: this.direction,
+    };
+  }
+
+  onData(bar: BarWith<"high" | "low" | "close">): {
+    long: number;
+    short: number;
+    stop: number;
+    direction: number;
+  } {
+    return this.update(bar.high, bar.low, bar.close);
+  }
+
+  static readonly initSchema = z.object({
+    period: PeriodValueSchema.default(22),
+    multiplier: MultiplierSchema.default(3),
+    smoothing: SmoothingSchema,
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "ChandelierExit",
+    desc: "ATR trailing stops from period extremes, direction 1 long / -1 short",
+    init: "{period: 22, multiplier: 3, smoothing: wilder}",
+    input: "high, low, close",
+    output: "{long, short, stop, direction}",
+  };
+}
+
+/**
+ * Creates ChandelierExit closure for functional usage.
+ * @param opts Lookback/ATR period, ATR multiplier and ATR smoothing (typically 22, 3)
+ * @returns Function that processes bar data and returns stops and direction
+ */
+export function useChandelierExit(
+  opts: PeriodWith<"period"> & {
+    multiplier?: number;
+    smoothing?: ATRSmoothing;
+  } = { period: 22 }
+): (bar: BarWith<"high" | "low" | "close">) => {
+  long: number;
+  short: number;
+  stop: number;
+  direction: number;
+} {
+  const instance = new ChandelierExit(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Chande Kroll Stop - two-stage ATR stop.
+ * First stops: highest high - multiplier * ATR and lowest low + multiplier *
+ * ATR over period. Long stop is the highest first long stop over
+ * stop_period, short stop the lowest first short stop.
+ * Direction flips when the close crosses the opposite stop.
+ */
+export class ChandeKrollStop implements Warmup {
+  private atr: ATR;
+  private highest: RollingMax;
+  private lowest: RollingMin;
+  private longStop: RollingMax;
+  private shortStop: RollingMin;
+  private multiplier: number;
+  private long?: number;
+  private short?: number;
+  private direction: number = 1;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(
+    opts: PeriodWith<"period"> & {
+      multiplier?: number;
+      stop_period?: number;
+      smoothing?: ATRSmoothing;
+    } = { period: 10 }
+  ) {
+    const stopPeriod = opts.stop_period ?? 9;
+    this.atr = new ATR(opts);
+    this.highest = new RollingMax(opts);
+    this.lowest = new RollingMin(opts);
+    this.longStop = new RollingMax({ period: stopPeriod });
+    this.shortStop = new RollingMin({ period: stopPeriod });
+    this.multiplier = opts.multiplier ?? 1;
+    this.warmupPeriod = opts.period + stopPeriod - 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(
+    high: number,
+    low: number,
+    close: number
+  ): { long: number; short: number; stop: number; direction: number } {
+    this.count++;
+    const offset = this.multiplier * this.atr.update(high, low, close);
+    const long = this.longStop.update(this.highest.update(high) - offset);
+    const short = this.shortStop.update(this.lowest.update(low) + offset);
+
+    if (this.long !== undefined && this.short !== undefined) {
+      if (close > this.short) {
+        this.direction = 1;
+      } else if (close < this.long) {
+        this.direction = -1;
+      }
+    }
+
+    this.long = long;
+    this.short = short;
+    return {
+      long,
+      short,
+      stop: this.direction > 0 ? long : short,
+      direction: this.direction,
+    };
+  }
+
+  onData(bar: BarWith<"high" | "low" | "close">): {
+    long: number;
+    short: number;
+    stop: number;
+    direction: number;
+  } {
+    return this.update(bar.high, bar.low, bar.close);
+  }
+
+  static readonly initSchema = z.object({
+    period: PeriodValueSchema.default(10),
+    multiplier: MultiplierSchema.default(1),
+    stop_period: PeriodValueSchema.default(9),
+    smoothing: SmoothingSchema,
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "ChandeKrollStop",
+    desc: "Two-stage ATR stops, direction 1 long / -1 short",
+    init: "{period: 10, multiplier: 1, stop_period: 9, smoothing: wilder}",
+    input: "high, low, close",
+    output: "{long, short, stop, direction}",
+  };
+}
+
+/**
+ * Creates ChandeKrollStop closure for functional usage.
+ * @param opts ATR period, ATR multiplier, stop period and ATR smoothing (typically 10, 1, 9)
+ * @returns Function that processes bar data and returns stops and direction
+ */
+export function useChandeKrollStop(
+  opts: PeriodWith<"period"> & {
+    multiplier?: number;
+    stop_period?: number;
+    smoothing?: ATRSmoothing;
+  } = { period: 10 }
+): (bar: BarWith<"high" | "low" | "close">) => {
+  long: number;
+  short: number;
+  stop: number;
+  direction: number;
+} {
+  const instance = new ChandeKrollStop(opts);
+  return (bar) => instance.onData(bar);
+}
@@ -1,5 +1,10 @@
+import { z } from "zod";
 import type { BarWith } from "../types/BarData.js";
-import type { PeriodWith } from "../types/PeriodOptions.js";
+import {
+  PeriodSchema,
+  PeriodValueSchema,
+  type PeriodWith,
+} from "../types/PeriodOptions.js";
 import {
   CircularBuffer,
   MeanAbsDeviation,
@@ -12,20 +17,27 @@ import {
 } from "@junduck/trading-core";
 import { ATR, PriceChannel } from "./Volatility.js";
 import { type OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
 
 /**
  * Aroon Indicator - identifies trend changes and strength.
  * Measures time elapsed since highest high and lowest low.
  */
-export class AROON {
+export class AROON implements Warmup {
   private highest: RollingArgMax;
   private lowest: RollingArgMin;
   private period: number;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.period = opts.period;
     this.highest = new RollingArgMax(opts);
     this.lowest = new RollingArgMin(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.highest.buffer.full();
   }
 
   update(high: number, low: number): { up: number; down: number } {
@@ -45,6 +57,8 @@ export class AROON {
     return this.update(bar.high, bar.low);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "AROON",
     init: "{period: number}",
@@ -72,11 +86,17 @@ export function useAROON(opts: PeriodWith<"period">): (
  * Aroon Oscillator - difference between Aroon Up and Aroon Down.
  * Ranges from -100 to +100, indicating trend direction and strength.
  */
-export class AROONOSC {
+export class AROONOSC implements Warmup {
   private aroon: AROON;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.aroon = new AROON(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.aroon.isReady;
   }
 
   update(high: number, low: number): number {
@@ -88,6 +108,8 @@ export class AROONOSC {
     return this.update(bar.high, bar.low);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "AROONOSC",
     init: "{period: number}",
@@ -112,11 +134,17 @@ export function useAROONOSC(
  * Commodity Channel Index - measures deviation from average price.
  * Calculates (TP - SMA(TP)) / (0.015 * mean_deviation).
  */
-export class CCI {
+export class CCI implements Warmup {
   private mad: MeanAbsDeviation;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.mad = new MeanAbsDeviation(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.mad.buffer.full();
   }
 
   update(high: number, low: number, close: number): number {
@@ -135,6 +163,8 @@ export class CCI {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "CCI",
     init: "{period: number}",
@@ -159,14 +189,20 @@ export function useCCI(
  * Vertical Horizontal Filter - distinguishes trending from ranging markets.
  * Calculates ratio of price range to sum of price changes.
  */
-export class VHF {
+export class VHF implements Warmup {
   private minmax: RollingMinMax;
   private sum: RollingSum;
   private preClose?: number;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.minmax = new RollingMinMax(opts);
     this.sum = new RollingSum(opts);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.sum.buffer.full();
   }
 
   update(close: number): number {
@@ -190,6 +226,8 @@ export class VHF {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "VHF",
     init: "{period: number}",
@@ -214,18 +252,26 @@ export function useVHF(
  * Directional Movement - measures directional price movement strength.
  * Calculates smoothed +DM (upward) and -DM (downward) movements.
  */
-export class DM {
+export class DM implements Warmup {
   private emaPlus: CoreEMA;
   private emaMinus: CoreEMA;
   private prevHigh?: number;
   private prevLow?: number;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period">) {
     this.emaPlus = new CoreEMA({ alpha: wilders_factor(opts.period) });
     this.emaMinus = new CoreEMA({ alpha: wilders_factor(opts.period) });
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(high: number, low: number): { plus: number; minus: number } {
+    this.count++;
     if (this.prevHigh === undefined || this.prevLow === undefined) {
       this.prevHigh = high;
       this.prevLow = low;
@@ -260,6 +306,8 @@ export class DM {
     return this.update(bar.high, bar.low);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "DM",
     init: "{period: number}",
@@ -284,13 +332,19 @@ export function useDM(
  * Directional Indicator - normalized directional movement strength.
  * Calculates DI+ and DI- by dividing directional movements by ATR.
  */
-export class DI {
+export class DI implements Warmup {
   private dm: DM;
   private atr: ATR;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.dm = new DM(opts);
     this.atr = new ATR(opts);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.dm.isReady && this.atr.isReady;
   }
 
   update(
@@ -318,6 +372,8 @@ export class DI {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "DI",
     init: "{period: number}",
@@ -345,11 +401,17 @@ export function useDI(opts: PeriodWith<"period">): (
  * Directional Index - measures trend strength regardless of direction.
  * Calculated as the ratio of difference to sum of DI+ and DI-.
  */
-export class DX {
+export class DX implements Warmup {
   private di: DI;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.di = new DI(opts);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.di.isReady;
   }
 
   update(high: number, low: number, close: number): number {
@@ -368,6 +430,8 @@ export class DX {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "DX",
     init: "{period: number}",
@@ -392,16 +456,24 @@ export function useDX(
  * Average Directional Index - smoothed trend strength indicator.
  * Applies EMA smoothing to DX values to measure trend strength.
  */
-export class ADX {
+export class ADX implements Warmup {
   private dx: DX;
   private ema: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period">) {
     this.dx = new DX(opts);
     this.ema = new CoreEMA({ alpha: wilders_factor(opts.period) });
+    this.warmupPeriod = 2 * opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(high: number, low: number, close: number): number {
+    this.count++;
     const dxValue = this.dx.update(high, low, close);
     return this.ema.update(dxValue);
   }
@@ -410,6 +482,8 @@ export class ADX {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "ADX",
     init: "{period: number}",
@@ -434,16 +508,24 @@ export function useADX(
  * Average Directional Index Rating - measures trend strength with lag smoothing.
  * Averages current ADX with ADX from n-1 periods ago for additional smoothing.
  */
-export class ADXR {
+export class ADXR implements Warmup {
   private adx: ADX;
   private buffer: CircularBuffer<number>;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period">) {
     this.adx = new ADX(opts);
     this.buffer = new CircularBuffer<number>(opts.period);
+    this.warmupPeriod = 3 * opts.period - 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(high: number, low: number, close: number): number {
+    this.count++;
     const adxValue = this.adx.update(high, low, close);
     this.buffer.push(adxValue);
 
@@ -459,6 +541,8 @@ export class ADXR {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "ADXR",
     init: "{period: number}",
@@ -483,7 +567,7 @@ export function useADXR(
  * Parabolic SAR - stop and reverse indicator.
  * Pure heuristic trailing stop.
  */
-export class SAR {
+export class SAR implements Warmup {
   private af: number;
   private maxAf: number;
   private isLong: boolean = true;
@@ -494,6 +578,8 @@ export class SAR {
   private prevPrevHigh?: number | undefined;
   private prevPrevLow?: number | undefined;
   private afIncrement: number;
+  readonly warmupPeriod = 2;
+  private count: number = 0;
 
   constructor(
     opts: { acceleration?: number; maximum?: number } = {
@@ -506,7 +592,12 @@ export class SAR {
     this.maxAf = opts?.maximum ?? 0.2;
   }
 
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
   update(high: number, low: number): number {
+    this.count++;
     if (this.sar === undefined) {
       this.sar = low;
       this.ep = high;
@@ -573,6 +664,11 @@ export class SAR {
     return this.update(bar.high, bar.low);
   }
 
+  static readonly initSchema = z.object({
+    acceleration: z.number().positive().default(0.02),
+    maximum: z.number().positive().default(0.2),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "SAR",
     init: "{acceleration: 0.02, maximum: 0.2}",
@@ -598,18 +694,24 @@ export function useSAR(opts?: {
  * Vortex Indicator - identifies trend start and end.
  * Measures positive and negative vortex movement.
  */
-export class VI {
+export class VI implements Warmup {
   private prevLow?: number;
   private prevHigh?: number;
   private preClose?: number;
   private vm_minus_sum: RollingSum;
   private vm_plus_sum: RollingSum;
   private tr_sum: RollingSum;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.vm_minus_sum = new RollingSum(opts);
     this.vm_plus_sum = new RollingSum(opts);
     this.tr_sum = new RollingSum(opts);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.tr_sum.buffer.full();
   }
 
   update(
@@ -653,6 +755,8 @@ export class VI {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "VI",
     init: "{period: number}",
@@ -680,11 +784,13 @@ export function useVI(opts: PeriodWith<"period">): (
  * Ichimoku Cloud - comprehensive trend indicator.
  * Provides multiple components for support/resistance and trend analysis.
  */
-export class ICHIMOKU {
+export class ICHIMOKU implements Warmup {
   private tenkanChannel: PriceChannel;
   private kijunChannel: PriceChannel;
   private senkouChannel: PriceChannel;
   private chikouBuffer: CircularBuffer<number>;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(
     opts: {
@@ -708,6 +814,16 @@ export class ICHIMOKU {
     this.kijunChannel = new PriceChannel({ period: kijunPeriod });
     this.senkouChannel = new PriceChannel({ period: senkouPeriod });
     this.chikouBuffer = new CircularBuffer(displacement);
+    this.warmupPeriod = Math.max(
+      tenkanPeriod,
+      kijunPeriod,
+      senkouPeriod,
+      displacement
+    );
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(
@@ -721,6 +837,7 @@ export class ICHIMOKU {
     senkou_b: number;
     chikou: number;
   } {
+    this.count++;
     const tenkanHL = this.tenkanChannel.update(high, low);
     const kijunHL = this.kijunChannel.update(high, low);
     const senkouHL = this.senkouChannel.update(high, low);
@@ -747,6 +864,13 @@ export class ICHIMOKU {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = z.object({
+    tenkan_period: PeriodValueSchema.default(9),
+    kijun_period: PeriodValueSchema.default(26),
+    senkou_b_period: PeriodValueSchema.default(52),
+    displacement: PeriodValueSchema.default(26),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "ICHIMOKU",
     init: "{tenkan_period: 9, kijun_period: 26, senkou_b_period: 52, displacement: 26}",
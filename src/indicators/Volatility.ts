@@ -1,3 +1,4 @@
+import { z } from "zod";
 import {
   EMA as CoreEMA,
   RollingMax,
@@ -5,29 +6,43 @@ import {
   SMA as CoreSMA,
   RollingSum,
   RollingVar,
+  RollingVarEW,
   RollingStddev,
   CircularBuffer,
   wilders_factor,
 } from "@junduck/trading-core";
 import type { BarWith } from "../types/BarData.js";
-import type { PeriodWith } from "../types/PeriodOptions.js";
+import {
+  PeriodSchema,
+  PeriodValueSchema,
+  type PeriodWith,
+} from "../types/PeriodOptions.js";
 import { type OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
 
 /**
  * Historical Volatility - stateful indicator.
  * Calculates annualized volatility using log returns and sample variance.
  */
-export class Volatility {
+export class Volatility implements Warmup {
   private prevClose?: number;
   private variance: RollingVar;
   private annualizedDays: number;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period"> & { annualizedDays?: number }) {
     this.variance = new RollingVar({ period: opts.period, ddof: 1 });
     this.annualizedDays = opts.annualizedDays ?? 250;
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(close: number): number {
+    this.count++;
     if (this.prevClose === undefined || this.prevClose === 0) {
       this.prevClose = close;
       return 0;
@@ -43,6 +58,10 @@ export class Volatility {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema.extend({
+    annualizedDays: z.number().positive().default(250),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "Volatility",
     init: "{period, annualizedDays: 250}",
@@ -63,19 +82,720 @@ export function useVolatility(
   return (bar) => instance.onData(bar);
 }
 
+const AnnualizedDaysSchema = z.number().positive().default(250);
+
+const PeriodOrAlphaAnnualizedSchema = z
+  .object({
+    period: PeriodValueSchema.optional(),
+    alpha: z.number().gt(0).lte(1).optional(),
+    annualizedDays: AnnualizedDaysSchema,
+  })
+  .refine((opts) => opts.period !== undefined || opts.alpha !== undefined, {
+    message: "Either period or alpha is required",
+  });
+
+/**
+ * Options of exponentially weighted volatility estimators.
+ */
+export type VolatilityEWOptions = ({ period: number } | { alpha: number }) & {
+  annualizedDays?: number;
+};
+
+// Per-bar variance estimates from log prices
+
+function parkinsonVar(high: number, low: number): number {
+  const hl = Math.log(high / low);
+  return (hl * hl) / (4 * Math.LN2);
+}
+
+function garmanKlassVar(
+  open: number,
+  high: number,
+  low: number,
+  close: number
+): number {
+  const hl = Math.log(high / low);
+  const co = Math.log(close / open);
+  return 0.5 * hl * hl - (2 * Math.LN2 - 1) * co * co;
+}
+
+function rogersSatchellVar(
+  open: number,
+  high: number,
+  low: number,
+  close: number
+): number {
+  return (
+    Math.log(high / close) * Math.log(high / open) +
+    Math.log(low / close) * Math.log(low / open)
+  );
+}
+
+// Yang-Zhang weight of the open-to-close variance for a window of n bars
+function yangZhangK(n: number): number {
+  const m = Math.max(n, 2);
+  return 0.34 / (1.34 + (m + 1) / (m - 1));
+}
+
+// Per-bar variance to annualized volatility in percent
+function annualizedVol(variance: number, annualizedDays: number): number {
+  return Math.sqrt(Math.max(0, variance) * annualizedDays) * 100;
+}
+
+// Bars an EW estimator needs, from period or the period equivalent of alpha
+function ewWarmup(opts: VolatilityEWOptions): number {
+  return "period" in opts ? opts.period : Math.ceil(2 / opts.alpha - 1);
+}
+
+/**
+ * Parkinson Volatility - high-low range estimator.
+ * Mean of ln(high/low)^2 / (4 ln 2) over period, annualized.
+ */
+export class ParkinsonVol implements Warmup {
+  private sma: CoreSMA;
+  private annualizedDays: number;
+  readonly warmupPeriod: number;
+
+  constructor(opts: PeriodWith<"period"> & { annualizedDays?: number }) {
+    this.sma = new CoreSMA(opts);
+    this.annualizedDays = opts.annualizedDays ?? 250;
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.sma.buffer.full();
+  }
+
+  update(high: number, low: number): number {
+    const variance = this.sma.update(parkinsonVar(high, low));
+    return annualizedVol(variance, this.annualizedDays);
+  }
+
+  onData(bar: BarWith<"high" | "low">): number {
+    return this.update(bar.high, bar.low);
+  }
+
+  static readonly initSchema = PeriodSchema.extend({
+    annualizedDays: AnnualizedDaysSchema,
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "ParkinsonVol",
+    desc: "Parkinson high-low volatility, annualized percent",
+    init: "{period, annualizedDays: 250}",
+    input: "high, low",
+    output: "number",
+  };
+}
+
+/**
+ * Creates ParkinsonVol closure for functional usage.
+ * @param opts Period and annualized days configuration
+ * @returns Function that processes bar data and returns volatility
+ */
+export function useParkinsonVol(
+  opts: PeriodWith<"period"> & { annualizedDays?: number }
+): (bar: BarWith<"high" | "low">) => number {
+  const instance = new ParkinsonVol(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Exponentially weighted Parkinson Volatility.
+ */
+export class ParkinsonVolEW implements Warmup {
+  private ema: CoreEMA;
+  private annualizedDays: number;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(opts: VolatilityEWOptions) {
+    this.ema = new CoreEMA(opts);
+    this.annualizedDays = opts.annualizedDays ?? 250;
+    this.warmupPeriod = ewWarmup(opts);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(high: number, low: number): number {
+    this.count++;
+    const variance = this.ema.update(parkinsonVar(high, low));
+    return annualizedVol(variance, this.annualizedDays);
+  }
+
+  onData(bar: BarWith<"high" | "low">): number {
+    return this.update(bar.high, bar.low);
+  }
+
+  static readonly initSchema = PeriodOrAlphaAnnualizedSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "ParkinsonVolEW",
+    desc: "Exponentially weighted Parkinson volatility, annualized percent",
+    init: "{period?: number, alpha?: number, annualizedDays: 250}",
+    input: "high, low",
+    output: "number",
+  };
+}
+
+/**
+ * Creates ParkinsonVolEW closure for functional usage.
+ * @param opts Period or alpha and annualized days configuration
+ * @returns Function that processes bar data and returns volatility
+ */
+export function useParkinsonVolEW(
+  opts: VolatilityEWOptions
+): (bar: BarWith<"high" | "low">) => number {
+  const instance = new ParkinsonVolEW(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Garman-Klass Volatility - OHLC estimator.
+ * Mean of 0.5 ln(high/low)^2 - (2 ln 2 - 1) ln(close/open)^2 over period,
+ * annualized. Assumes no drift and no opening gaps.
+ */
+export class GarmanKlassVol implements Warmup {
+  private sma: CoreSMA;
+  private annualizedDays: number;
+  readonly warmupPeriod: number;
+
+  constructor(opts: PeriodWith<"period"> & { annualizedDays?: number }) {
+    this.sma = new CoreSMA(opts);
+    this.annualizedDays = opts.annualizedDays ?? 250;
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.sma.buffer.full();
+  }
+
+  update(open: number, high: number, low: number, close: number): number {
+    const variance = this.sma.update(garmanKlassVar(open, high, low, close));
+    return annualizedVol(variance, this.annualizedDays);
+  }
+
+  onData(bar: BarWith<"open" | "high" | "low" | "close">): number {
+    return this.update(bar.open, bar.high, bar.low, bar.close);
+  }
+
+  static readonly initSchema = PeriodSchema.extend({
+    annualizedDays: AnnualizedDaysSchema,
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "GarmanKlassVol",
+    desc: "Garman-Klass OHLC volatility, annualized percent",
+    init: "{period, annualizedDays: 250}",
+    input: "open, high, low, close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates GarmanKlassVol closure for functional usage.
+ * @param opts Period and annualized days configuration
+ * @returns Function that processes bar data and returns volatility
+ */
+export function useGarmanKlassVol(
+  opts: PeriodWith<"period"> & { annualizedDays?: number }
+): (bar: BarWith<"open" | "high" | "low" | "close">) => number {
+  const instance = new GarmanKlassVol(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Exponentially weighted Garman-Klass Volatility.
+ */
+export class GarmanKlassVolEW implements Warmup {
+  private ema: CoreEMA;
+  private annualizedDays: number;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(opts: VolatilityEWOptions) {
+    this.ema = new CoreEMA(opts);
+    this.annualizedDays = opts.annualizedDays ?? 250;
+    this.warmupPeriod = ewWarmup(opts);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(open: number, high: number, low: number, close: number): number {
+    this.count++;
+    const variance = this.ema.update(garmanKlassVar(open, high, low, close));
+    return annualizedVol(variance, this.annualizedDays);
+  }
+
+  onData(bar: BarWith<"open" | "high" | "low" | "close">): number {
+    return this.update(bar.open, bar.high, bar.low, bar.close);
+  }
+
+  static readonly initSchema = PeriodOrAlphaAnnualizedSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "GarmanKlassVolEW",
+    desc: "Exponentially weighted Garman-Klass volatility, annualized percent",
+    init: "{period?: number, alpha?: number, annualizedDays: 250}",
+    input: "open, high, low, close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates GarmanKlassVolEW closure for functional usage.
+ * @param opts Period or alpha and annualized days configuration
+ * @returns Function that processes bar data and returns volatility
+ */
+export function useGarmanKlassVolEW(
+  opts: VolatilityEWOptions
+): (bar: BarWith<"open" | "high" | "low" | "close">) => number {
+  const instance = new GarmanKlassVolEW(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Rogers-Satchell Volatility - drift-independent OHLC estimator.
+ * Mean of ln(high/close) ln(high/open) + ln(low/close) ln(low/open) over
+ * period, annualized.
+ */
+export class RogersSatchellVol implements Warmup {
+  private sma: CoreSMA;
+  private annualizedDays: number;
+  readonly warmupPeriod: number;
+
+  constructor(opts: PeriodWith<"period"> & { annualizedDays?: number }) {
+    this.sma = new CoreSMA(opts);
+    this.annualizedDays = opts.annualizedDays ?? 250;
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.sma.buffer.full();
+  }
+
+  update(open: number, high: number, low: number, close: number): number {
+    const variance = this.sma.update(rogersSatchellVar(open, high, low, close));
+    return annualizedVol(variance, this.annualizedDays);
+  }
+
+  onData(bar: BarWith<"open" | "high" | "low" | "close">): number {
+    return this.update(bar.open, bar.high, bar.low, bar.close);
+  }
+
+  static readonly initSchema = PeriodSchema.extend({
+    annualizedDays: AnnualizedDaysSchema,
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "RogersSatchellVol",
+    desc: "Rogers-Satchell OHLC volatility, annualized percent",
+    init: "{period, annualizedDays: 250}",
+    input: "open, high, low, close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates RogersSatchellVol closure for functional usage.
+ * @param opts Period and annualized days configuration
+ * @returns Function that processes bar data and returns volatility
+ */
+export function useRogersSatchellVol(
+  opts: PeriodWith<"period"> & { annualizedDays?: number }
+): (bar: BarWith<"open" | "high" | "low" | "close">) => number {
+  const instance = new RogersSatchellVol(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Exponentially weighted Rogers-Satchell Volatility.
+ */
+export class RogersSatchellVolEW implements Warmup {
+  private ema: CoreEMA;
+  private annualizedDays: number;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(opts: VolatilityEWOptions) {
+    this.ema = new CoreEMA(opts);
+    this.annualizedDays = opts.annualizedDays ?? 250;
+    this.warmupPeriod = ewWarmup(opts);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(open: number, high: number, low: number, close: number): number {
+    this.count++;
+    const variance = this.ema.update(rogersSatchellVar(open, high, low, close));
+    return annualizedVol(variance, this.annualizedDays);
+  }
+
+  onData(bar: BarWith<"open" | "high" | "low" | "close">): number {
+    return this.update(bar.open, bar.high, bar.low, bar.close);
+  }
+
+  static readonly initSchema = PeriodOrAlphaAnnualizedSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "RogersSatchellVolEW",
+    desc: "Exponentially weighted Rogers-Satchell volatility, annualized percent",
+    init: "{period?: number, alpha?: number, annualizedDays: 250}",
+    input: "open, high, low, close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates RogersSatchellVolEW closure for functional usage.
+ * @param opts Period or alpha and annualized days configuration
+ * @returns Function that processes bar data and returns volatility
+ */
+export function useRogersSatchellVolEW(
+  opts: VolatilityEWOptions
+): (bar: BarWith<"open" | "high" | "low" | "close">) => number {
+  const instance = new RogersSatchellVolEW(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Yang-Zhang Volatility - OHLC estimator robust to drift and opening gaps.
+ * Overnight variance + k * open-to-close variance + (1 - k) * Rogers-Satchell
+ * over period, k = 0.34 / (1.34 + (period + 1) / (period - 1)), annualized.
+ * The first bar only provides the previous close.
+ */
+export class YangZhangVol implements Warmup {
+  private overnight: RollingVar;
+  private openClose: RollingVar;
+  private rs: CoreSMA;
+  private k: number;
+  private prevClose?: number;
+  private annualizedDays: number;
+  readonly warmupPeriod: number;
+
+  constructor(opts: PeriodWith<"period"> & { annualizedDays?: number }) {
+    this.overnight = new RollingVar({ period: opts.period, ddof: 1 });
+    this.openClose = new RollingVar({ period: opts.period, ddof: 1 });
+    this.rs = new CoreSMA(opts);
+    this.k = yangZhangK(opts.period);
+    this.annualizedDays = opts.annualizedDays ?? 250;
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.rs.buffer.full();
+  }
+
+  update(open: number, high: number, low: number, close: number): number {
+    if (this.prevClose === undefined) {
+      this.prevClose = close;
+      return 0;
+    }
+
+    const { variance: varOvernight } = this.overnight.update(
+      Math.log(open / this.prevClose)
+    );
+    const { variance: varOpenClose } = this.openClose.update(
+      Math.log(close / open)
+    );
+    const varRS = this.rs.update(rogersSatchellVar(open, high, low, close));
+    this.prevClose = close;
+
+    const variance =
+      varOvernight + this.k * varOpenClose + (1 - this.k) * varRS;
+    return annualizedVol(variance, this.annualizedDays);
+  }
+
+  onData(bar: BarWith<"open" | "high" | "low" | "close">): number {
+    return this.update(bar.open, bar.high, bar.low, bar.close);
+  }
+
+  static readonly initSchema = z.object({
+    period: PeriodValueSchema.min(2),
+    annualizedDays: AnnualizedDaysSchema,
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "YangZhangVol",
+    desc: "Yang-Zhang OHLC volatility with opening gaps, annualized percent",
+    init: "{period, annualizedDays: 250}",
+    input: "open, high, low, close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates YangZhangVol closure for functional usage.
+ * @param opts Period (at least 2) and annualized days configuration
+ * @returns Function that processes bar data and returns volatility
+ */
+export function useYangZhangVol(
+  opts: PeriodWith<"period"> & { annualizedDays?: number }
+): (bar: BarWith<"open" | "high" | "low" | "close">) => number {
+  const instance = new YangZhangVol(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Exponentially weighted Yang-Zhang Volatility.
+ * k uses the period equivalent of alpha.
+ */
+export class YangZhangVolEW implements Warmup {
+  private overnight: RollingVarEW;
+  private openClose: RollingVarEW;
+  private rs: CoreEMA;
+  private k: number;
+  private prevClose?: number;
+  private annualizedDays: number;
+  readonly warmupPeriod: number;
+  private count: number = 0;
+
+  constructor(opts: VolatilityEWOptions) {
+    const period = ewWarmup(opts);
+    this.overnight = new RollingVarEW(opts);
+    this.openClose = new RollingVarEW(opts);
+    this.rs = new CoreEMA(opts);
+    this.k = yangZhangK(period);
+    this.annualizedDays = opts.annualizedDays ?? 250;
+    this.warmupPeriod = period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  update(open: number, high: number, low: number, close: number): number {
+    this.count++;
+    if (this.prevClose === undefined) {
+      this.prevClose = close;
+      return 0;
+    }
+
+    const { variance: varOvernight } = this.overnight.update(
+      Math.log(open / this.prevClose)
+    );
+    const { variance: varOpenClose } = this.openClose.update(
+      Math.log(close / open)
+    );
+    const varRS = this.rs.update(rogersSatchellVar(open, high, low, close));
+    this.prevClose = close;
+
+    const variance =
+      varOvernight + this.k * varOpenClose + (1 - this.k) * varRS;
+    return annualizedVol(variance, this.annualizedDays);
+  }
+
+  onData(bar: BarWith<"open" | "high" | "low" | "close">): number {
+    return this.update(bar.open, bar.high, bar.low, bar.close);
+  }
+
+  static readonly initSchema = PeriodOrAlphaAnnualizedSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "YangZhangVolEW",
+    desc: "Exponentially weighted Yang-Zhang volatility, annualized percent",
+    init: "{period?: number, alpha?: number, annualizedDays: 250}",
+    input: "open, high, low, close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates YangZhangVolEW closure for functional usage.
+ * @param opts Period or alpha and annualized days configuration
+ * @returns Function that processes bar data and returns volatility
+ */
+export function useYangZhangVolEW(
+  opts: VolatilityEWOptions
+): (bar: BarWith<"open" | "high" | "low" | "close">) => number {
+  const instance = new YangZhangVolEW(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Realized Volatility - from intraday log returns.
+ * Sum of squared returns over the last period returns, scaled to a day of
+ * periodsPerDay returns (default: period, one day per window), annualized.
+ */
+export class RealizedVol implements Warmup {
+  private prevClose?: number;
+  private sum: RollingSum;
+  private scale: number;
+  readonly warmupPeriod: number;
+
+  constructor(
+    opts: PeriodWith<"period"> & {
+      periodsPerDay?: number;
+      annualizedDays?: number;
+    }
+  ) {
+    this.sum = new RollingSum(opts);
+    this.scale =
+      ((opts.periodsPerDay ?? opts.period) / opts.period) *
+      (opts.annualizedDays ?? 250);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.sum.buffer.full();
+  }
+
+  update(close: number): number {
+    if (this.prevClose === undefined || this.prevClose === 0) {
+      this.prevClose = close;
+      return 0;
+    }
+
+    const r = Math.log(close / this.prevClose);
+    this.prevClose = close;
+    return Math.sqrt(this.sum.update(r * r) * this.scale) * 100;
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = PeriodSchema.extend({
+    periodsPerDay: PeriodValueSchema.optional(),
+    annualizedDays: AnnualizedDaysSchema,
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "RealizedVol",
+    desc: "Realized volatility of intraday returns, annualized percent",
+    init: "{period, periodsPerDay?: number, annualizedDays: 250}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates RealizedVol closure for functional usage.
+ * @param opts Return window, returns per day and annualized days configuration
+ * @returns Function that processes bar data and returns realized volatility
+ */
+export function useRealizedVol(
+  opts: PeriodWith<"period"> & {
+    periodsPerDay?: number;
+    annualizedDays?: number;
+  }
+): (bar: BarWith<"close">) => number {
+  const instance = new RealizedVol(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Bipower Volatility - realized bipower variation of intraday returns.
+ * (pi / 2) * n / (n - 1) * sum |r_i| |r_i-1| over the last period returns,
+ * scaled like RealizedVol. Robust to jumps: RealizedVol well above it
+ * signals a jump in the window.
+ */
+export class BipowerVol implements Warmup {
+  private prevClose?: number;
+  private prevAbsReturn?: number;
+  private sum: RollingSum;
+  private scale: number;
+  readonly warmupPeriod: number;
+
+  constructor(
+    opts: PeriodWith<"period"> & {
+      periodsPerDay?: number;
+      annualizedDays?: number;
+    }
+  ) {
+    // Products of adjacent returns, one fewer than returns in the window
+    this.sum = new RollingSum({ period: opts.period - 1 });
+    this.scale =
+      (Math.PI / 2) *
+      (1 / (opts.period - 1)) *
+      (opts.periodsPerDay ?? opts.period) *
+      (opts.annualizedDays ?? 250);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.sum.buffer.full();
+  }
+
+  update(close: number): number {
+    if (this.prevClose === undefined || this.prevClose === 0) {
+      this.prevClose = close;
+      return 0;
+    }
+
+    const absReturn = Math.abs(Math.log(close / this.prevClose));
+    this.prevClose = close;
+    if (this.prevAbsReturn === undefined) {
+      this.prevAbsReturn = absReturn;
+      return 0;
+    }
+
+    const sum = this.sum.update(absReturn * this.prevAbsReturn);
+    this.prevAbsReturn = absReturn;
+    return Math.sqrt(Math.max(0, sum) * this.scale) * 100;
+  }
+
+  onData(bar: BarWith<"close">): number {
+    return this.update(bar.close);
+  }
+
+  static readonly initSchema = z.object({
+    period: PeriodValueSchema.min(2),
+    periodsPerDay: PeriodValueSchema.optional(),
+    annualizedDays: AnnualizedDaysSchema,
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "BipowerVol",
+    desc: "Realized bipower variation as volatility, robust to jumps, annualized percent",
+    init: "{period, periodsPerDay?: number, annualizedDays: 250}",
+    input: "close",
+    output: "number",
+  };
+}
+
+/**
+ * Creates BipowerVol closure for functional usage.
+ * @param opts Return window (at least 2), returns per day and annualized days configuration
+ * @returns Function that processes bar data and returns bipower volatility
+ */
+export function useBipowerVol(
+  opts: PeriodWith<"period"> & {
+    periodsPerDay?: number;
+    annualizedDays?: number;
+  }
+): (bar: BarWith<"close">) => number {
+  const instance = new BipowerVol(opts);
+  return (bar) => instance.onData(bar);
+}
+
 /**
  * Chaikins Volatility - measures rate of change in trading range.
  */
-export class CVI {
+export class CVI implements Warmup {
   private ema: CoreEMA;
   private buffer: CircularBuffer<number>;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period">) {
     this.ema = new CoreEMA({ period: 10 });
     this.buffer = new CircularBuffer(opts.period + 1);
+    this.warmupPeriod = opts.period + 10;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(high: number, low: number): number {
+    this.count++;
     const emaVal = this.ema.update(high - low);
     this.buffer.push(emaVal);
 
@@ -91,6 +811,8 @@ export class CVI {
     return this.update(bar.high, bar.low);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "CVI",
     init: "{period: number}",
@@ -114,10 +836,12 @@ export function useCVI(
 /**
  * Mass Index - identifies trend reversals by analyzing range expansion.
  */
-export class MASS {
+export class MASS implements Warmup {
   private ema1: CoreEMA;
   private ema2: CoreEMA;
   private sum: RollingSum;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(
     opts: PeriodWith<"period"> = {
@@ -127,9 +851,15 @@ export class MASS {
     this.ema1 = new CoreEMA(opts);
     this.ema2 = new CoreEMA(opts);
     this.sum = new RollingSum(opts);
+    this.warmupPeriod = 3 * opts.period - 2;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(high: number, low: number): number {
+    this.count++;
     const range = high - low;
     const ema1Val = this.ema1.update(range);
     const ema2Val = this.ema2.update(ema1Val);
@@ -147,6 +877,10 @@ export class MASS {
     return this.update(bar.high, bar.low);
   }
 
+  static readonly initSchema = z.object({
+    period: PeriodValueSchema.default(9),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "MASS",
     init: "{period: 9}",
@@ -170,8 +904,10 @@ export function useMASS(
 /**
  * True Range - measures price volatility range.
  */
-export class TR {
+export class TR implements Warmup {
   private prevClose?: number;
+  readonly warmupPeriod = 1;
+  readonly isReady = true;
 
   update(high: number, low: number, close: number): number {
     const tr =
@@ -207,19 +943,35 @@ export function useTR(): (bar: BarWith<"high" | "low" | "close">) => number {
   return (bar) => instance.onData(bar);
 }
 
+/**
+ * ATR smoothing: Wilder's (alpha = 1/period) or EMA (alpha = 2/(period+1)).
+ */
+export type ATRSmoothing = "wilder" | "ema";
+
 /**
  * Average True Range - measures market volatility.
  */
-export class ATR {
+export class ATR implements Warmup {
   private tr: TR;
   private ema: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
-  constructor(opts: PeriodWith<"period">) {
+  constructor(opts: PeriodWith<"period"> & { smoothing?: ATRSmoothing }) {
     this.tr = new TR();
-    this.ema = new CoreEMA({ alpha: wilders_factor(opts.period) });
+    this.ema =
+      opts.smoothing === "ema"
+        ? new CoreEMA({ period: opts.period })
+        : new CoreEMA({ alpha: wilders_factor(opts.period) });
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(high: number, low: number, close: number): number {
+    this.count++;
     const trValue = this.tr.update(high, low, close);
     return this.ema.update(trValue);
   }
@@ -228,9 +980,13 @@ export class ATR {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema.extend({
+    smoothing: z.enum(["wilder", "ema"]).default("wilder"),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "ATR",
-    init: "{period: number}",
+    init: "{period: number, smoothing: wilder}",
     input: "high, low, close",
     output: "number",
   };
@@ -238,11 +994,11 @@ export class ATR {
 
 /**
  * Creates ATR closure for functional usage.
- * @param opts Period configuration
+ * @param opts Period and smoothing configuration
  * @returns Function that processes bar data and returns ATR
  */
 export function useATR(
-  opts: PeriodWith<"period">
+  opts: PeriodWith<"period"> & { smoothing?: ATRSmoothing }
 ): (bar: BarWith<"high" | "low" | "close">) => number {
   const instance = new ATR(opts);
   return (bar) => instance.onData(bar);
@@ -251,11 +1007,17 @@ export function useATR(
 /**
  * Normalized Average True Range - ATR as percentage of close price.
  */
-export class NATR {
+export class NATR implements Warmup {
   private atr: ATR;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.atr = new ATR(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.atr.isReady;
   }
 
   update(high: number, low: number, close: number): number {
@@ -267,6 +1029,8 @@ export class NATR {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "NATR",
     init: "{period: number}",
@@ -291,13 +1055,19 @@ export function useNATR(
  * Price Channel - simple channel based on highest high and lowest low.
  * Similar to Donchian Channels but without middle line.
  */
-export class PriceChannel {
+export class PriceChannel implements Warmup {
   private highMax: RollingMax;
   private lowMin: RollingMin;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.highMax = new RollingMax(opts);
     this.lowMin = new RollingMin(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.highMax.buffer.full();
   }
 
   update(high: number, low: number): { upper: number; lower: number } {
@@ -310,6 +1080,8 @@ export class PriceChannel {
     return this.update(bar.high, bar.low);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "PriceChannel",
     init: "{period: number}",
@@ -337,13 +1109,19 @@ export function usePriceChannel(opts: PeriodWith<"period">): (
  * Bollinger Bands - volatility bands around SMA.
  * Uses standard deviation to measure price volatility.
  */
-export class BBANDS {
+export class BBANDS implements Warmup {
   private std: RollingStddev;
   private multiplier: number;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period"> & { Nstddev?: number }) {
     this.std = new RollingStddev({ period: opts.period, ddof: 1 });
     this.multiplier = opts.Nstddev ?? 2;
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.std.buffer.full();
   }
 
   update(close: number): { upper: number; middle: number; lower: number } {
@@ -365,6 +1143,10 @@ export class BBANDS {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema.extend({
+    Nstddev: z.number().positive().default(2),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "BBANDS",
     init: "{period, Nstddev: 2}",
@@ -393,17 +1175,23 @@ export function useBBANDS(opts: PeriodWith<"period"> & { stddev?: number }): (
  * Keltner Channels - volatility bands around EMA using ATR.
  * Measures volatility relative to ATR instead of standard deviation.
  */
-export class KC {
+export class KC implements Warmup {
   private sma: CoreSMA;
   private tr: TR;
   private sma_tr: CoreSMA;
   private multiplier: number;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period"> & { multiplier?: number }) {
     this.sma = new CoreSMA(opts);
     this.tr = new TR();
     this.sma_tr = new CoreSMA(opts);
     this.multiplier = opts.multiplier ?? 2;
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.sma.buffer.full();
   }
 
   update(
@@ -431,6 +1219,10 @@ export class KC {
     return this.update(bar.high, bar.low, bar.close);
   }
 
+  static readonly initSchema = PeriodSchema.extend({
+    multiplier: z.number().positive().default(2),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "KC",
     init: "{period, multiplier: 2}",
@@ -459,13 +1251,19 @@ export function useKC(opts: PeriodWith<"period"> & { multiplier?: number }): (
  * Donchian Channels - price channels based on highest high and lowest low.
  * Classic breakout indicator using price extremes.
  */
-export class DC {
+export class DC implements Warmup {
   private min: RollingMin;
   private max: RollingMax;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.min = new RollingMin(opts);
     this.max = new RollingMax(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.max.buffer.full();
   }
 
   update(
@@ -490,6 +1288,8 @@ export class DC {
     return this.update(bar.high, bar.low);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "DC",
     init: "{period: number}",
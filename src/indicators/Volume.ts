@@ -1,19 +1,24 @@
+import { z } from "zod";
 import type { BarWith } from "../types/BarData.js";
-import type { PeriodWith } from "../types/PeriodOptions.js";
 import {
-  Kahan,
-  CircularBuffer,
-  EMA as CoreEMA,
-  RollingSum,
-} from "@junduck/trading-core";
+  FastSlowSchema,
+  PeriodSchema,
+  PeriodValueSchema,
+  type PeriodWith,
+} from "../types/PeriodOptions.js";
+import { Kahan, CircularBuffer, EMA as CoreEMA } from "@junduck/trading-core";
+import { RollingSum } from "../primitive/core-ops/rolling.js";
 import { type OperatorDoc } from "../types/OpDoc.js";
+import type { Warmup } from "../types/Warmup.js";
 
 /**
  * Accumulation/Distribution - stateful indicator.
  * Cumulative measure of money flow based on close location value.
  */
-export class AD {
+export class AD implements Warmup {
   private ad: Kahan = new Kahan();
+  readonly warmupPeriod = 1;
+  readonly isReady = true;
 
   update(high: number, low: number, close: number, volume: number): number {
     const clv =
@@ -50,17 +55,25 @@ export function useAD(): (
  * Accumulation/Distribution Oscillator - stateful indicator.
  * Measures difference between short and long EMAs of AD values.
  */
-export class ADOSC {
+export class ADOSC implements Warmup {
   private ad = new AD();
   private emsFast: CoreEMA;
   private emsSlow: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period_fast" | "period_slow">) {
     this.emsFast = new CoreEMA({ period: opts.period_fast });
     this.emsSlow = new CoreEMA({ period: opts.period_slow });
+    this.warmupPeriod = Math.max(opts.period_fast, opts.period_slow);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(high: number, low: number, close: number, volume: number): number {
+    this.count++;
     const adVal = this.ad.update(high, low, close, volume);
     return this.emsFast.update(adVal) - this.emsSlow.update(adVal);
   }
@@ -69,6 +82,8 @@ export class ADOSC {
     return this.update(bar.high, bar.low, bar.close, bar.volume);
   }
 
+  static readonly initSchema = FastSlowSchema;
+
   static readonly doc: OperatorDoc = {
     type: "ADOSC",
     init: "{period_fast, period_slow}",
@@ -93,19 +108,27 @@ export function useADOSC(
  * Klinger Volume Oscillator - stateful indicator.
  * Combines price movement trends with volume to detect money flow.
  */
-export class KVO {
+export class KVO implements Warmup {
   private fastEMA: CoreEMA;
   private slowEMA: CoreEMA;
   private prevHLC?: number;
   private trend: number = 1;
   private cm: number = 0;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period_fast" | "period_slow">) {
     this.fastEMA = new CoreEMA({ period: opts.period_fast });
     this.slowEMA = new CoreEMA({ period: opts.period_slow });
+    this.warmupPeriod = Math.max(opts.period_fast, opts.period_slow) + 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(high: number, low: number, close: number, volume: number): number {
+    this.count++;
     const hlc = high + low + close;
     const dm = high - low;
 
@@ -142,6 +165,8 @@ export class KVO {
     return this.update(bar.high, bar.low, bar.close, bar.volume);
   }
 
+  static readonly initSchema = FastSlowSchema;
+
   static readonly doc: OperatorDoc = {
     type: "KVO",
     init: "{period_fast, period_slow}",
@@ -166,10 +191,12 @@ export function useKVO(
  * Negative Volume Index - stateful indicator.
  * Tracks price changes on decreasing volume days.
  */
-export class NVI {
+export class NVI implements Warmup {
   private nvi: number = 1000;
   private prevVolume?: number;
   private prevClose?: number;
+  readonly warmupPeriod = 1;
+  readonly isReady = true;
 
   update(close: number, volume: number): number {
     if (this.prevVolume === undefined) {
@@ -212,9 +239,11 @@ export function useNVI(): (bar: BarWith<"close" | "volume">) => number {
  * On Balance Volume - stateful indicator.
  * Cumulative volume indicator based on price direction.
  */
-export class OBV {
+export class OBV implements Warmup {
   private obv: number = 0;
   private prevClose?: number;
+  readonly warmupPeriod = 1;
+  readonly isReady = true;
 
   update(close: number, volume: number): number {
     if (this.prevClose === undefined) {
@@ -256,10 +285,12 @@ export function useOBV(): (bar: BarWith<"close" | "volume">) => number {
  * Positive Volume Index - stateful indicator.
  * Tracks price changes on increasing volume days.
  */
-export class PVI {
+export class PVI implements Warmup {
   private pvi: number = 1000;
   private prevVolume?: number;
   private prevClose?: number;
+  readonly warmupPeriod = 1;
+  readonly isReady = true;
 
   update(close: number, volume: number): number {
     if (this.prevVolume === undefined) {
@@ -302,14 +333,20 @@ export function usePVI(): (bar: BarWith<"close" | "volume">) => number {
  * Money Flow Index - stateful indicator.
  * Volume-weighted momentum indicator using typical price.
  */
-export class MFI {
+export class MFI implements Warmup {
   private buffer: CircularBuffer<number>;
   private prevTypical?: number;
   private posFlow: number = 0;
   private negFlow: number = 0;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.buffer = new CircularBuffer(opts.period);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
   }
 
   update(high: number, low: number, close: number, volume: number): number {
@@ -357,6 +394,8 @@ export class MFI {
     return this.update(bar.high, bar.low, bar.close, bar.volume);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "MFI",
     init: "{period: number}",
@@ -381,10 +420,17 @@ export function useMFI(
  * Ease of Movement - stateful indicator.
  * Relates price change to volume for trend strength analysis.
  */
-export class EMV {
+export class EMV implements Warmup {
   private prevMid?: number;
+  readonly warmupPeriod = 2;
+  private count: number = 0;
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
 
   update(high: number, low: number, volume: number): number {
+    this.count++;
     const mid = (high + low) / 2;
     if (this.prevMid === undefined) {
       this.prevMid = mid;
@@ -422,7 +468,10 @@ export function useEMV(): (bar: BarWith<"high" | "low" | "volume">) => number {
  * Market Facilitation Index - stateless indicator.
  * Measures price movement efficiency per volume unit.
  */
-export class MarketFI {
+export class MarketFI implements Warmup {
+  readonly warmupPeriod = 1;
+  readonly isReady = true;
+
   update(high: number, low: number, volume: number): number {
     return volume !== 0 ? (high - low) / volume : 0;
   }
@@ -454,16 +503,24 @@ export function useMarketFI(): (
  * Volume Oscillator - stateful indicator.
  * Percentage difference between two volume EMAs.
  */
-export class VOSC {
+export class VOSC implements Warmup {
   private emsFast: CoreEMA;
   private emsSlow: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period_fast" | "period_slow">) {
     this.emsFast = new CoreEMA({ period: opts.period_fast });
     this.emsSlow = new CoreEMA({ period: opts.period_slow });
+    this.warmupPeriod = Math.max(opts.period_fast, opts.period_slow);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(volume: number): number {
+    this.count++;
     const emsFastVal = this.emsFast.update(volume);
     const emsSlowVal = this.emsSlow.update(volume);
     return emsSlowVal !== 0
@@ -475,6 +532,8 @@ export class VOSC {
     return this.update(bar.volume);
   }
 
+  static readonly initSchema = FastSlowSchema;
+
   static readonly doc: OperatorDoc = {
     type: "VOSC",
     init: "{period_fast, period_slow}",
@@ -499,13 +558,19 @@ export function useVOSC(
  * Chaikin Money Flow - volume-weighted accumulation/distribution.
  * Measures buying/selling pressure over a period.
  */
-export class CMF {
+export class CMF implements Warmup {
   private mfvSum: RollingSum;
   private volSum: RollingSum;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.mfvSum = new RollingSum(opts);
     this.volSum = new RollingSum(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.mfvSum.buffer.full();
   }
 
   update(high: number, low: number, close: number, volume: number): number {
@@ -523,6 +588,8 @@ export class CMF {
     return this.update(bar.high, bar.low, bar.close, bar.volume);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "CMF",
     init: "{period: number}",
@@ -547,18 +614,26 @@ export function useCMF(
  * Chaikin Oscillator - momentum of accumulation/distribution.
  * Difference between short and long EMAs of A/D line.
  */
-export class CHO {
+export class CHO implements Warmup {
   private ad: AD;
   private emsFast: CoreEMA;
   private emsSlow: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period_fast" | "period_slow">) {
     this.ad = new AD();
     this.emsFast = new CoreEMA({ period: opts.period_fast });
     this.emsSlow = new CoreEMA({ period: opts.period_slow });
+    this.warmupPeriod = Math.max(opts.period_fast, opts.period_slow);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(high: number, low: number, close: number, volume: number): number {
+    this.count++;
     const adValue = this.ad.update(high, low, close, volume);
     return this.emsFast.update(adValue) - this.emsSlow.update(adValue);
   }
@@ -567,6 +642,8 @@ export class CHO {
     return this.update(bar.high, bar.low, bar.close, bar.volume);
   }
 
+  static readonly initSchema = FastSlowSchema;
+
   static readonly doc: OperatorDoc = {
     type: "CHO",
     init: "{period_fast, period_slow}",
@@ -591,10 +668,12 @@ export function useCHO(
  * Percentage Volume Oscillator - volume momentum indicator.
  * Percentage difference between short and long volume EMAs.
  */
-export class PVO {
+export class PVO implements Warmup {
   private emsFast: CoreEMA;
   private emsSlow: CoreEMA;
   private emaSignal: CoreEMA;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(
     opts: PeriodWith<"period_fast" | "period_slow"> & {
@@ -604,9 +683,18 @@ export class PVO {
     this.emsFast = new CoreEMA({ period: opts.period_fast });
     this.emsSlow = new CoreEMA({ period: opts.period_slow });
     this.emaSignal = new CoreEMA({ period: opts.period_signal ?? 9 });
+    this.warmupPeriod =
+      Math.max(opts.period_fast, opts.period_slow) +
+      (opts.period_signal ?? 9) -
+      1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(volume: number): { pvo: number; signal: number; histogram: number } {
+    this.count++;
     const emsFastVal = this.emsFast.update(volume);
     const emsSlowVal = this.emsSlow.update(volume);
     const pvo =
@@ -625,6 +713,10 @@ export class PVO {
     return this.update(bar.volume);
   }
 
+  static readonly initSchema = FastSlowSchema.extend({
+    period_signal: PeriodValueSchema.default(9),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "PVO",
     init: "{period_fast, period_slow, period_signal?}",
@@ -653,15 +745,23 @@ export function usePVO(
  * Elder's Force Index - measures power behind price movements.
  * Combines price change with volume.
  */
-export class FI {
+export class FI implements Warmup {
   private ema: CoreEMA;
   private prevClose?: number;
+  readonly warmupPeriod: number;
+  private count: number = 0;
 
   constructor(opts: PeriodWith<"period">) {
     this.ema = new CoreEMA({ period: opts.period });
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
   }
 
   update(close: number, volume: number): number {
+    this.count++;
     if (this.prevClose === undefined) {
       this.prevClose = close;
       return this.ema.update(0);
@@ -676,6 +776,8 @@ export class FI {
     return this.update(bar.close, bar.volume);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "FI",
     init: "{period: number}",
@@ -700,11 +802,17 @@ export function useFI(
  * Volume Rate of Change - measures volume momentum.
  * Percentage change in volume over period.
  */
-export class VROC {
+export class VROC implements Warmup {
   private buffer: CircularBuffer<number>;
+  readonly warmupPeriod: number;
 
   constructor(opts: PeriodWith<"period">) {
     this.buffer = new CircularBuffer(opts.period + 1);
+    this.warmupPeriod = opts.period + 1;
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
   }
 
   update(volume: number): number {
@@ -722,6 +830,8 @@ export class VROC {
     return this.update(bar.volume);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "VROC",
     init: "{period: number}",
@@ -746,9 +856,11 @@ export function useVROC(
  * Price Volume Trend - cumulative volume based on price changes.
  * Similar to OBV but uses percentage price change.
  */
-export class PVT {
+export class PVT implements Warmup {
   private pvt: Kahan = new Kahan();
   private prevClose?: number;
+  readonly warmupPeriod = 1;
+  readonly isReady = true;
 
   update(close: number, volume: number): number {
     if (this.prevClose === undefined || this.prevClose === 0) {
@@ -782,3 +894,410 @@ export function usePVT(): (bar: BarWith<"close" | "volume">) => number {
   const instance = new PVT();
   return (bar) => instance.onData(bar);
 }
+
+/**
+ * Volume-weighted mean and variance of prices (West's algorithm).
+ * Supports removal for rolling windows.
+ */
+class WeightedMoments {
+  weight: number = 0;
+  mean: number = 0;
+  private m2: number = 0;
+  /** Entries with positive volume, weight is exactly 0 when none remain */
+  private count: number = 0;
+
+  get variance(): number {
+    return this.weight > 0 ? Math.max(0, this.m2 / this.weight) : 0;
+  }
+
+  add(price: number, volume: number): void {
+    if (!(volume > 0)) return;
+    this.count++;
+    this.weight += volume;
+    const delta = price - this.mean;
+    this.mean += (volume / this.weight) * delta;
+    this.m2 += volume * delta * (price - this.mean);
+  }
+
+  remove(price: number, volume: number): void {
+    if (!(volume > 0)) return;
+    this.count--;
+    const weight = this.weight - volume;
+    // Rounding leaves weight slightly off 0 once the last volume is removed
+    if (this.count <= 0 || weight <= 0) {
+      this.reset();
+      return;
+    }
+    const delta = price - this.mean;
+    this.mean -= (volume / weight) * delta;
+    this.m2 -= volume * delta * (price - this.mean);
+    this.weight = weight;
+  }
+
+  reset(): void {
+    this.weight = 0;
+    this.mean = 0;
+    this.m2 = 0;
+    this.count = 0;
+  }
+}
+
+/** Bar price for VWAP: turnover / volume when tracked, else typical price */
+function vwapPrice(
+  high: number,
+  low: number,
+  close: number,
+  volume: number,
+  turnover: number | undefined
+): number {
+  if (turnover !== undefined && volume > 0) {
+    return turnover / volume;
+  }
+  return (high + low + close) / 3;
+}
+
+/**
+ * VWAP with standard deviation bands, price alone while no volume is seen.
+ */
+function vwapBands(
+  moments: WeightedMoments,
+  price: number,
+  multiplier: number
+): { vwap: number; upper: number; lower: number } {
+  if (moments.weight === 0) {
+    return { vwap: price, upper: price, lower: price };
+  }
+  const offset = multiplier * Math.sqrt(moments.variance);
+  return {
+    vwap: moments.mean,
+    upper: moments.mean + offset,
+    lower: moments.mean - offset,
+  };
+}
+
+/**
+ * Volume Weighted Average Price - session VWAP with bands.
+ * Accumulates typical price (or turnover / volume when turnover is given)
+ * weighted by volume, restarting on bars where reset is true (first bar of
+ * a new session).
+ * Bands are VWAP ± multiplier * volume-weighted standard deviation.
+ */
+export class VWAP implements Warmup {
+  private moments = new WeightedMoments();
+  private multiplier: number;
+  readonly warmupPeriod = 1;
+  readonly isReady = true;
+
+  constructor(opts: { multiplier?: number } = {}) {
+    this.multiplier = opts.multiplier ?? 1;
+  }
+
+  update(
+    high: number,
+    low: number,
+    close: number,
+    volume: number,
+    reset: boolean = false,
+    turnover?: number
+  ): { vwap: number; upper: number; lower: number } {
+    const price = vwapPrice(high, low, close, volume, turnover);
+    if (reset) this.moments.reset();
+    this.moments.add(price, volume);
+    return vwapBands(this.moments, price, this.multiplier);
+  }
+
+  /**
+   * Take a bar back out of the session, e.g. to slide VWAP over the last N
+   * minutes with StreamingAdapter and SlidingWindow. reset is ignored, so
+   * do not reset sessions inside a sliding window.
+   */
+  remove(
+    high: number,
+    low: number,
+    close: number,
+    volume: number,
+    _reset: boolean = false,
+    turnover?: number
+  ): void {
+    this.moments.remove(vwapPrice(high, low, close, volume, turnover), volume);
+  }
+
+  onData(
+    bar: BarWith<"high" | "low" | "close" | "volume"> & { turnover?: number },
+    reset: boolean = false
+  ): { vwap: number; upper: number; lower: number } {
+    return this.update(
+      bar.high,
+      bar.low,
+      bar.close,
+      bar.volume,
+      reset,
+      bar.turnover
+    );
+  }
+
+  static readonly initSchema = z.object({
+    multiplier: z.number().positive().default(1),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "VWAP",
+    desc: "Session VWAP, reset starts a new session at this bar",
+    init: "{multiplier: 1}",
+    input: "high, low, close, volume, reset: boolean, turnover?",
+    output: "{vwap, upper, lower}",
+  };
+}
+
+/**
+ * Creates VWAP closure for functional usage.
+ * @param opts Band multiplier configuration
+ * @returns Function that processes bar data and session reset flag, returns VWAP and bands
+ */
+export function useVWAP(opts: { multiplier?: number } = {}): (
+  bar: BarWith<"high" | "low" | "close" | "volume"> & { turnover?: number },
+  reset?: boolean
+) => {
+  vwap: number;
+  upper: number;
+  lower: number;
+} {
+  const instance = new VWAP(opts);
+  return (bar, reset) => instance.onData(bar, reset);
+}
+
+/**
+ * Anchored VWAP - VWAP with bands from an anchor bar.
+ * Anchors when the anchor signal turns true (rising edge), so both one-bar
+ * events and conditions such as timestamp >= t0 work. NaN before anchoring.
+ */
+export class AVWAP implements Warmup {
+  private moments = new WeightedMoments();
+  private multiplier: number;
+  private anchored: boolean = false;
+  private prevAnchor: boolean = false;
+  readonly warmupPeriod = 1;
+
+  constructor(opts: { multiplier?: number } = {}) {
+    this.multiplier = opts.multiplier ?? 1;
+  }
+
+  get isReady(): boolean {
+    return this.anchored;
+  }
+
+  update(
+    high: number,
+    low: number,
+    close: number,
+    volume: number,
+    anchor: boolean,
+    turnover?: number
+  ): { vwap: number; upper: number; lower: number } {
+    if (anchor && !this.prevAnchor) {
+      this.moments.reset();
+      this.anchored = true;
+    }
+    this.prevAnchor = anchor;
+
+    if (!this.anchored) {
+      return { vwap: NaN, upper: NaN, lower: NaN };
+    }
+    const price = vwapPrice(high, low, close, volume, turnover);
+    this.moments.add(price, volume);
+    return vwapBands(this.moments, price, this.multiplier);
+  }
+
+  onData(
+    bar: BarWith<"high" | "low" | "close" | "volume"> & { turnover?: number },
+    anchor: boolean
+  ): { vwap: number; upper: number; lower: number } {
+    return this.update(
+      bar.high,
+      bar.low,
+      bar.close,
+      bar.volume,
+      anchor,
+      bar.turnover
+    );
+  }
+
+  static readonly initSchema = z.object({
+    multiplier: z.number().positive().default(1),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "AVWAP",
+    desc: "Anchored VWAP, starts when anchor turns true",
+    init: "{multiplier: 1}",
+    input: "high, low, close, volume, anchor: boolean, turnover?",
+    output: "{vwap, upper, lower}",
+  };
+}
+
+/**
+ * Creates AVWAP closure for functional usage.
+ * @param opts Band multiplier configuration
+ * @returns Function that processes bar data and anchor flag, returns VWAP and bands
+ */
+export function useAVWAP(opts: { multiplier?: number } = {}): (
+  bar: BarWith<"high" | "low" | "close" | "volume"> & { turnover?: number },
+  anchor: boolean
+) => {
+  vwap: number;
+  upper: number;
+  lower: number;
+} {
+  const instance = new AVWAP(opts);
+  return (bar, anchor) => instance.onData(bar, anchor);
+}
+
+/**
+ * Rolling VWAP - VWAP with bands over the last period bars.
+ */
+export class RVWAP implements Warmup {
+  private prices: CircularBuffer<number>;
+  private volumes: CircularBuffer<number>;
+  private moments = new WeightedMoments();
+  private multiplier: number;
+  private updates = 0;
+  private removals = 0;
+  readonly warmupPeriod: number;
+
+  constructor(opts: PeriodWith<"period"> & { multiplier?: number }) {
+    this.prices = new CircularBuffer(opts.period);
+    this.volumes = new CircularBuffer(opts.period);
+    this.multiplier = opts.multiplier ?? 1;
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.prices.full();
+  }
+
+  update(
+    high: number,
+    low: number,
+    close: number,
+    volume: number,
+    turnover?: number
+  ): { vwap: number; upper: number; lower: number } {
+    const price = vwapPrice(high, low, close, volume, turnover);
+    this.updates++;
+    if (this.prices.full()) {
+      this.moments.remove(this.prices.front()!, this.volumes.front()!);
+    }
+    this.prices.push(price);
+    this.volumes.push(volume);
+    this.moments.add(price, volume);
+    return vwapBands(this.moments, price, this.multiplier);
+  }
+
+  /**
+   * Take the oldest bar back out for StreamingAdapter sliding windows.
+   * A no-op once the period has already dropped that bar.
+   */
+  remove(
+    _high: number,
+    _low: number,
+    _close: number,
+    _volume: number,
+    _turnover?: number
+  ): void {
+    if (this.removals++ < this.updates - this.prices.size()) return;
+    this.moments.remove(this.prices.pop_front()!, this.volumes.pop_front()!);
+  }
+
+  onData(
+    bar: BarWith<"high" | "low" | "close" | "volume"> & { turnover?: number }
+  ): { vwap: number; upper: number; lower: number } {
+    return this.update(bar.high, bar.low, bar.close, bar.volume, bar.turnover);
+  }
+
+  static readonly initSchema = PeriodSchema.extend({
+    multiplier: z.number().positive().default(1),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "RVWAP",
+    desc: "Rolling VWAP over period bars",
+    init: "{period: number, multiplier: 1}",
+    input: "high, low, close, volume, turnover?",
+    output: "{vwap, upper, lower}",
+  };
+}
+
+/**
+ * Creates RVWAP closure for functional usage.
+ * @param opts Period and band multiplier configuration
+ * @returns Function that processes bar data and returns rolling VWAP and bands
+ */
+export function useRVWAP(
+  opts: PeriodWith<"period"> & { multiplier?: number }
+): (
+  bar: BarWith<"high" | "low" | "close" | "volume"> & { turnover?: number }
+) => {
+  vwap: number;
+  upper: number;
+  lower: number;
+} {
+  const instance = new RVWAP(opts);
+  return (bar) => instance.onData(bar);
+}
+
+/**
+ * Volume Weighted Moving Average - stateful indicator.
+ * Calculates sum(close * volume) / sum(volume) over period.
+ */
+export class VWMA implements Warmup {
+  private pvSum: RollingSum;
+  private volSum: RollingSum;
+  readonly warmupPeriod: number;
+
+  constructor(opts: PeriodWith<"period">) {
+    this.pvSum = new RollingSum(opts);
+    this.volSum = new RollingSum(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.volSum.buffer.full();
+  }
+
+  update(close: number, volume: number): number {
+    const pv = this.pvSum.update(close * volume);
+    const vol = this.volSum.update(volume);
+    return vol > 0 ? pv / vol : close;
+  }
+
+  /** Take the oldest bar back out, see RollingSum.remove */
+  remove(close: number, volume: number): void {
+    this.pvSum.remove(close * volume);
+    this.volSum.remove(volume);
+  }
+
+  onData(bar: BarWith<"close" | "volume">): number {
+    return this.update(bar.close, bar.volume);
+  }
+
+  static readonly initSchema = PeriodSchema;
+
+  static readonly doc: OperatorDoc = {
+    type: "VWMA",
+    init: "{period: number}",
+    input: "close, volume",
+    output: "number",
+  };
+}
+
+/**
+ * Creates VWMA closure for functional usage.
+ * @param opts Period configuration
+ * @returns Function that processes bar data and returns VWMA
+ */
+export function useVWMA(
+  opts: PeriodWith<"period">
+): (bar: BarWith<"close" | "volume">) => number {
+  const instance = new VWMA(opts);
+  return (bar) => instance.onData(bar);
+}
@@ -3,8 +3,11 @@ export * from "./Volatility.js";
 export * from "./Oscillators.js";
 export * from "./Stochastic.js";
 export * from "./Trend.js";
+export * from "./Stops.js";
+export * from "./Cycle.js";
 export * from "./Volume.js";
 export * from "./Momentum.js";
+export * from "./Performance.js";
 
 // re-export SMA, EMA, EWMA from primitive (already adapted onData interface)
 export { SMA, EMA, EWMA } from "../primitive/core-ops/rolling.js";
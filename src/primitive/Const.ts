@@ -1,3 +1,4 @@
+import { z } from "zod";
 import { type OperatorDoc } from "../types/OpDoc.js";
 
 /**
@@ -15,6 +16,8 @@ export class Const {
     return this.val;
   }
 
+  static readonly initSchema = z.object({ value: z.number() });
+
   static readonly doc: OperatorDoc = {
     type: "Const",
     desc: "Constant value source (no input required)",
@@ -1,5 +1,5 @@
 import {
-  CMA as CoreCMA,
+  Kahan,
   CuSkew as CoreCuSkew,
   CuKurt as CoreCuKurt,
   CuVar as CoreCuVar,
@@ -9,9 +9,43 @@ import {
   CuBeta as CoreCuBeta,
 } from "@junduck/trading-core";
 
+import { z } from "zod";
 import type { OperatorDoc } from "../../types/OpDoc.js";
 
-export class CMA extends CoreCMA {
+const DdofSchema = z.object({ ddof: z.number().int().min(0).default(0) });
+
+/**
+ * Cumulative moving average.
+ * remove() takes a value back out, so StreamingAdapter slides it over
+ * sliding windows as a window mean.
+ */
+export class CMA {
+  private readonly cma = new Kahan();
+  private n = 0;
+
+  get value(): number {
+    return this.cma.val;
+  }
+
+  update(x: number): number {
+    this.n++;
+    return this.cma.accum((x - this.cma.val) / this.n);
+  }
+
+  remove(x: number): void {
+    if (this.n <= 1) {
+      this.reset();
+      return;
+    }
+    this.n--;
+    this.cma.accum((this.cma.val - x) / this.n);
+  }
+
+  reset(): void {
+    this.cma.reset();
+    this.n = 0;
+  }
+
   static readonly doc: OperatorDoc = {
     type: "CMA",
     input: "x",
@@ -20,6 +54,8 @@ export class CMA extends CoreCMA {
 }
 
 export class CuVar extends CoreCuVar {
+  static readonly initSchema = DdofSchema;
+
   static readonly doc: OperatorDoc = {
     type: "CuVar",
     init: "{ddof: 0}",
@@ -29,6 +65,8 @@ export class CuVar extends CoreCuVar {
 }
 
 export class CuStddev extends CoreCuStddev {
+  static readonly initSchema = DdofSchema;
+
   static readonly doc: OperatorDoc = {
     type: "CuStddev",
     init: "{ddof: 0}",
@@ -54,6 +92,8 @@ export class CuKurt extends CoreCuKurt {
 }
 
 export class CuCov extends CoreCuCov {
+  static readonly initSchema = DdofSchema;
+
   static readonly doc: OperatorDoc = {
     type: "CuCov",
     init: "{ddof: 0}",
@@ -63,6 +103,8 @@ export class CuCov extends CoreCuCov {
 }
 
 export class CuCorr extends CoreCuCorr {
+  static readonly initSchema = DdofSchema;
+
   static readonly doc: OperatorDoc = {
     type: "CuCorr",
     init: "{ddof: 0}",
@@ -72,6 +114,8 @@ export class CuCorr extends CoreCuCorr {
 }
 
 export class CuBeta extends CoreCuBeta {
+  static readonly initSchema = DdofSchema;
+
   static readonly doc: OperatorDoc = {
     type: "CuBeta",
     init: "{ddof: 0}",
@@ -1,8 +1,8 @@
 import {
-  SMA as CoreSMA,
+  CircularBuffer,
+  Kahan,
   EMA as CoreEMA,
   EWMA as CoreEWMA,
-  RollingSum as CoreRollingSum,
   RollingVar as CoreRollingVar,
   RollingVarEW as CoreRollingVarEW,
   RollingStddev as CoreRollingStddev,
@@ -30,11 +30,79 @@ import {
   IQR as CoreIQR,
 } from "@junduck/trading-core";
 
+import { z } from "zod";
 import type { OperatorDoc } from "../../types/OpDoc.js";
+import type { Warmup } from "../../types/Warmup.js";
+import {
+  PeriodOrAlphaSchema,
+  PeriodSchema,
+} from "../../types/PeriodOptions.js";
+
+const PeriodDdofSchema = PeriodSchema.extend({
+  ddof: z.number().int().min(0).default(0),
+});
+
+/** Updates until an exponential average spans its period, 2 / alpha - 1 */
+function ewWarmup(opts: { period: number } | { alpha: number }): number {
+  return "period" in opts ? opts.period : Math.ceil(2 / opts.alpha - 1);
+}
 
 // Rolling Averages
 
-export class RollingSum extends CoreRollingSum {
+/**
+ * Rolling sum over period values with Kahan summation.
+ * remove() takes the oldest value back out for StreamingAdapter sliding
+ * windows; it is a no-op once the period has already dropped that value.
+ */
+export class RollingSum implements Warmup {
+  readonly buffer: CircularBuffer<number>;
+  private readonly sum = new Kahan();
+  private updates = 0;
+  private removals = 0;
+
+  constructor(opts: { period: number }) {
+    this.buffer = new CircularBuffer(opts.period);
+  }
+
+  get value(): number {
+    return this.sum.val;
+  }
+
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  update(x: number): number {
+    this.updates++;
+    if (this.buffer.full()) {
+      const old = this.buffer.front()!;
+      this.buffer.push(x);
+      return this.sum.accum(x - old);
+    }
+    this.buffer.push(x);
+    return this.sum.accum(x);
+  }
+
+  remove(_x: number): void {
+    // Oldest update not removed yet is still buffered unless pushed out
+    if (this.removals++ < this.updates - this.buffer.size()) return;
+    this.sum.accum(-this.buffer.pop_front()!);
+    if (this.buffer.empty()) this.sum.reset();
+  }
+
+  reset(): void {
+    this.buffer.clear();
+    this.sum.reset();
+    this.updates = 0;
+    this.removals = 0;
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingSum",
     init: "{period: number}",
@@ -45,13 +113,52 @@ export class RollingSum extends CoreRollingSum {
 
 /**
  * Simple Moving Average - stateful operator.
- * Calculates arithmetic mean of close prices over period.
+ * Calculates arithmetic mean of close prices over period, or of the values
+ * seen so far before the period fills. Removable like RollingSum.
  */
-export class SMA extends CoreSMA {
+export class SMA implements Warmup {
+  private readonly sum: RollingSum;
+
+  constructor(opts: { period: number }) {
+    this.sum = new RollingSum(opts);
+  }
+
+  get buffer(): CircularBuffer<number> {
+    return this.sum.buffer;
+  }
+
+  get value(): number {
+    const size = this.sum.buffer.size();
+    return size > 0 ? this.sum.value / size : 0;
+  }
+
+  get warmupPeriod(): number {
+    return this.sum.warmupPeriod;
+  }
+
+  get isReady(): boolean {
+    return this.sum.isReady;
+  }
+
+  update(x: number): number {
+    this.sum.update(x);
+    return this.value;
+  }
+
+  remove(x: number): void {
+    this.sum.remove(x);
+  }
+
+  reset(): void {
+    this.sum.reset();
+  }
+
   onData(bar: { close: number }): number {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "SMA",
     init: "{period: number}",
@@ -64,11 +171,35 @@ export class SMA extends CoreSMA {
  * Exponential Moving Average - stateful operator.
  * Applies exponential smoothing with alpha = 2/(period+1).
  */
-export class EMA extends CoreEMA {
+export class EMA extends CoreEMA implements Warmup {
+  readonly warmupPeriod: number;
+  private count = 0;
+
+  constructor(opts: { period: number } | { alpha: number }) {
+    super(opts);
+    this.warmupPeriod = ewWarmup(opts);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  override update(x: number): number {
+    this.count++;
+    return super.update(x);
+  }
+
+  override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
   onData(bar: { close: number }): number {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodOrAlphaSchema;
+
   static readonly doc: OperatorDoc = {
     type: "EMA",
     init: "{period?: number, alpha?: number}",
@@ -81,11 +212,21 @@ export class EMA extends CoreEMA {
  * Exponentially Weighted Moving Average - stateful operator.
  * Maintains sliding window with exponentially decaying weights.
  */
-export class EWMA extends CoreEWMA {
+export class EWMA extends CoreEWMA implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
   onData(bar: { close: number }): number {
     return this.update(bar.close);
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "EWMA",
     desc: "Sliding window average with exponential weighting",
@@ -97,7 +238,17 @@ export class EWMA extends CoreEWMA {
 
 // Rolling Variance & Standard Deviation
 
-export class RollingVar extends CoreRollingVar {
+export class RollingVar extends CoreRollingVar implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodDdofSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingVar",
     init: "{period: number, ddof?: number}",
@@ -106,7 +257,31 @@ export class RollingVar extends CoreRollingVar {
   };
 }
 
-export class RollingVarEW extends CoreRollingVarEW {
+export class RollingVarEW extends CoreRollingVarEW implements Warmup {
+  readonly warmupPeriod: number;
+  private count = 0;
+
+  constructor(opts: { period: number } | { alpha: number }) {
+    super(opts);
+    this.warmupPeriod = ewWarmup(opts);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  override update(x: number): ReturnType<CoreRollingVarEW["update"]> {
+    this.count++;
+    return super.update(x);
+  }
+
+  override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
+  static readonly initSchema = PeriodOrAlphaSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingVarEW",
     init: "{period?: number, alpha?: number}",
@@ -115,7 +290,17 @@ export class RollingVarEW extends CoreRollingVarEW {
   };
 }
 
-export class RollingStddev extends CoreRollingStddev {
+export class RollingStddev extends CoreRollingStddev implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodDdofSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingStddev",
     init: "{period: number, ddof?: number}",
@@ -124,7 +309,31 @@ export class RollingStddev extends CoreRollingStddev {
   };
 }
 
-export class RollingStddevEW extends CoreRollingStddevEW {
+export class RollingStddevEW extends CoreRollingStddevEW implements Warmup {
+  readonly warmupPeriod: number;
+  private count = 0;
+
+  constructor(opts: { period: number } | { alpha: number }) {
+    super(opts);
+    this.warmupPeriod = ewWarmup(opts);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  override update(x: number): ReturnType<CoreRollingStddevEW["update"]> {
+    this.count++;
+    return super.update(x);
+  }
+
+  override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
+  static readonly initSchema = PeriodOrAlphaSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingStddevEW",
     init: "{period?: number, alpha?: number}",
@@ -133,7 +342,17 @@ export class RollingStddevEW extends CoreRollingStddevEW {
   };
 }
 
-export class RollingZScore extends CoreRollingZScore {
+export class RollingZScore extends CoreRollingZScore implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingZScore",
     init: "{period: number}",
@@ -142,7 +361,31 @@ export class RollingZScore extends CoreRollingZScore {
   };
 }
 
-export class RollingZScoreEW extends CoreRollingZScoreEW {
+export class RollingZScoreEW extends CoreRollingZScoreEW implements Warmup {
+  readonly warmupPeriod: number;
+  private count = 0;
+
+  constructor(opts: { period: number } | { alpha: number }) {
+    super(opts);
+    this.warmupPeriod = ewWarmup(opts);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  override update(x: number): ReturnType<CoreRollingZScoreEW["update"]> {
+    this.count++;
+    return super.update(x);
+  }
+
+  override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
+  static readonly initSchema = PeriodOrAlphaSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingZScoreEW",
     init: "{period?: number, alpha?: number}",
@@ -153,7 +396,17 @@ export class RollingZScoreEW extends CoreRollingZScoreEW {
 
 // Rolling Covariance, Correlation, Beta
 
-export class RollingCov extends CoreRollingCov {
+export class RollingCov extends CoreRollingCov implements Warmup {
+  get warmupPeriod(): number {
+    return this.bufferX.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.bufferX.full();
+  }
+
+  static readonly initSchema = PeriodDdofSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingCov",
     init: "{period: number, ddof?: number}",
@@ -162,7 +415,34 @@ export class RollingCov extends CoreRollingCov {
   };
 }
 
-export class RollingCovEW extends CoreRollingCovEW {
+export class RollingCovEW extends CoreRollingCovEW implements Warmup {
+  readonly warmupPeriod: number;
+  private count = 0;
+
+  constructor(opts: { period: number } | { alpha: number }) {
+    super(opts);
+    this.warmupPeriod = ewWarmup(opts);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  override update(
+    x: number,
+    y: number
+  ): ReturnType<CoreRollingCovEW["update"]> {
+    this.count++;
+    return super.update(x, y);
+  }
+
+  override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
+  static readonly initSchema = PeriodOrAlphaSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingCovEW",
     init: "{period?: number, alpha?: number}",
@@ -171,7 +451,17 @@ export class RollingCovEW extends CoreRollingCovEW {
   };
 }
 
-export class RollingCorr extends CoreRollingCorr {
+export class RollingCorr extends CoreRollingCorr implements Warmup {
+  get warmupPeriod(): number {
+    return this.bufferX.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.bufferX.full();
+  }
+
+  static readonly initSchema = PeriodDdofSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingCorr",
     init: "{period: number, ddof?: number}",
@@ -180,7 +470,34 @@ export class RollingCorr extends CoreRollingCorr {
   };
 }
 
-export class RollingCorrEW extends CoreRollingCorrEW {
+export class RollingCorrEW extends CoreRollingCorrEW implements Warmup {
+  readonly warmupPeriod: number;
+  private count = 0;
+
+  constructor(opts: { period: number } | { alpha: number }) {
+    super(opts);
+    this.warmupPeriod = ewWarmup(opts);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  override update(
+    x: number,
+    y: number
+  ): ReturnType<CoreRollingCorrEW["update"]> {
+    this.count++;
+    return super.update(x, y);
+  }
+
+  override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
+  static readonly initSchema = PeriodOrAlphaSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingCorrEW",
     init: "{period?: number, alpha?: number}",
@@ -189,7 +506,17 @@ export class RollingCorrEW extends CoreRollingCorrEW {
   };
 }
 
-export class RollingBeta extends CoreRollingBeta {
+export class RollingBeta extends CoreRollingBeta implements Warmup {
+  get warmupPeriod(): number {
+    return this.bufferX.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.bufferX.full();
+  }
+
+  static readonly initSchema = PeriodDdofSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingBeta",
     init: "{period: number, ddof?: number}",
@@ -198,7 +525,34 @@ export class RollingBeta extends CoreRollingBeta {
   };
 }
 
-export class RollingBetaEW extends CoreRollingBetaEW {
+export class RollingBetaEW extends CoreRollingBetaEW implements Warmup {
+  readonly warmupPeriod: number;
+  private count = 0;
+
+  constructor(opts: { period: number } | { alpha: number }) {
+    super(opts);
+    this.warmupPeriod = ewWarmup(opts);
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  override update(
+    x: number,
+    y: number
+  ): ReturnType<CoreRollingBetaEW["update"]> {
+    this.count++;
+    return super.update(x, y);
+  }
+
+  override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
+  static readonly initSchema = PeriodOrAlphaSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingBetaEW",
     init: "{period?: number, alpha?: number}",
@@ -209,7 +563,17 @@ export class RollingBetaEW extends CoreRollingBetaEW {
 
 // Rolling Min/Max
 
-export class RollingMin extends CoreRollingMin {
+export class RollingMin extends CoreRollingMin implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingMin",
     init: "{period: number}",
@@ -218,7 +582,17 @@ export class RollingMin extends CoreRollingMin {
   };
 }
 
-export class RollingMax extends CoreRollingMax {
+export class RollingMax extends CoreRollingMax implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingMax",
     init: "{period: number}",
@@ -227,7 +601,17 @@ export class RollingMax extends CoreRollingMax {
   };
 }
 
-export class RollingMinMax extends CoreRollingMinMax {
+export class RollingMinMax extends CoreRollingMinMax implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingMinMax",
     init: "{period: number}",
@@ -236,7 +620,17 @@ export class RollingMinMax extends CoreRollingMinMax {
   };
 }
 
-export class RollingArgMin extends CoreRollingArgMin {
+export class RollingArgMin extends CoreRollingArgMin implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingArgMin",
     init: "{period: number}",
@@ -245,7 +639,17 @@ export class RollingArgMin extends CoreRollingArgMin {
   };
 }
 
-export class RollingArgMax extends CoreRollingArgMax {
+export class RollingArgMax extends CoreRollingArgMax implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingArgMax",
     init: "{period: number}",
@@ -254,7 +658,17 @@ export class RollingArgMax extends CoreRollingArgMax {
   };
 }
 
-export class RollingArgMinMax extends CoreRollingArgMinMax {
+export class RollingArgMinMax extends CoreRollingArgMinMax implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingArgMinMax",
     init: "{period: number}",
@@ -265,7 +679,31 @@ export class RollingArgMinMax extends CoreRollingArgMinMax {
 
 // Rolling Higher Moments
 
-export class RollingSkew extends CoreRollingSkew {
+export class RollingSkew extends CoreRollingSkew implements Warmup {
+  readonly warmupPeriod: number;
+  private count = 0;
+
+  constructor(opts: { period: number }) {
+    super(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  override update(x: number): ReturnType<CoreRollingSkew["update"]> {
+    this.count++;
+    return super.update(x);
+  }
+
+  override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingSkew",
     init: "{period: number}",
@@ -274,7 +712,31 @@ export class RollingSkew extends CoreRollingSkew {
   };
 }
 
-export class RollingKurt extends CoreRollingKurt {
+export class RollingKurt extends CoreRollingKurt implements Warmup {
+  readonly warmupPeriod: number;
+  private count = 0;
+
+  constructor(opts: { period: number }) {
+    super(opts);
+    this.warmupPeriod = opts.period;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.warmupPeriod;
+  }
+
+  override update(x: number): ReturnType<CoreRollingKurt["update"]> {
+    this.count++;
+    return super.update(x);
+  }
+
+  override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingKurt",
     init: "{period: number}",
@@ -285,7 +747,17 @@ export class RollingKurt extends CoreRollingKurt {
 
 // Rolling Deviation Measures
 
-export class MeanAbsDeviation extends CoreMeanAbsDeviation {
+export class MeanAbsDeviation extends CoreMeanAbsDeviation implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "MeanAbsDeviation",
     init: "{period: number}",
@@ -294,7 +766,20 @@ export class MeanAbsDeviation extends CoreMeanAbsDeviation {
   };
 }
 
-export class MedianAbsDeviation extends CoreMedianAbsDeviation {
+export class MedianAbsDeviation
+  extends CoreMedianAbsDeviation
+  implements Warmup
+{
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "MedianAbsDeviation",
     init: "{period: number}",
@@ -303,7 +788,17 @@ export class MedianAbsDeviation extends CoreMedianAbsDeviation {
   };
 }
 
-export class IQR extends CoreIQR {
+export class IQR extends CoreIQR implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "IQR",
     desc: "Interquartile Range",
@@ -315,7 +810,17 @@ export class IQR extends CoreIQR {
 
 // Rolling Rank Statistics
 
-export class RollingMedian extends CoreRollingMedian {
+export class RollingMedian extends CoreRollingMedian implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "RollingMedian",
     init: "{period: number}",
@@ -324,7 +829,19 @@ export class RollingMedian extends CoreRollingMedian {
   };
 }
 
-export class RollingQuantile extends CoreRollingQuantile {
+export class RollingQuantile extends CoreRollingQuantile implements Warmup {
+  get warmupPeriod(): number {
+    return this.buffer.capacity();
+  }
+
+  get isReady(): boolean {
+    return this.buffer.full();
+  }
+
+  static readonly initSchema = PeriodSchema.extend({
+    quantiles: z.array(z.number().min(0).max(1)).min(1),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "RollingQuantile",
     init: "{period: number, quantiles: number[]}",
@@ -0,0 +1,258 @@
+import { z } from "zod";
+import type { OperatorDoc, OperatorPorts } from "../types/OpDoc.js";
+
+/**
+ * Values of a universe at one timestamp, aligned by position or keyed by symbol.
+ */
+export type CrossSection = readonly number[] | Record<string, number>;
+
+// Inputs are either n numbers or a single cross-section, output has the same
+// shape. Shape depends on the graph, so ports are not checked.
+const CROSS_SECTION_PORTS: OperatorPorts = {
+  input: [],
+  variadic: { name: "inputs", type: "any" },
+  output: "any",
+};
+
+/**
+ * Base of cross-sectional operators, transforming all values of a tick at once.
+ * Accepts variadic numbers (like SumOf), an aligned array or a
+ * Record<symbol, number>, and returns the same shape.
+ * Non-finite values (missing symbols as NaN) are left out of the statistics
+ * and map to NaN.
+ */
+export abstract class CrossSectional {
+  update(values: Record<string, number>): Record<string, number>;
+  update(values: readonly number[]): number[];
+  update(...inputs: number[]): number[];
+  update(...inputs: (number | CrossSection)[]): CrossSection {
+    const first = inputs[0];
+    if (inputs.length !== 1 || typeof first === "number") {
+      return this.transform(inputs as number[]);
+    }
+    if (Array.isArray(first)) {
+      return this.transform(first);
+    }
+
+    const record = first as Record<string, number>;
+    const keys = Object.keys(record);
+    const out = this.transform(keys.map((key) => record[key]!));
+    const result: Record<string, number> = {};
+    keys.forEach((key, i) => {
+      result[key] = out[i]!;
+    });
+    return result;
+  }
+
+  /** Transform aligned values, output[i] corresponds to values[i] */
+  protected abstract transform(values: readonly number[]): number[];
+}
+
+/** Indices of finite values, sorted by value */
+function sortedFinite(values: readonly number[]): number[] {
+  const idx: number[] = [];
+  values.forEach((x, i) => {
+    if (Number.isFinite(x)) idx.push(i);
+  });
+  return idx.sort((a, b) => values[a]! - values[b]!);
+}
+
+/** 1-based ascending ranks, ties share their average rank */
+function ranks(values: readonly number[]): { rank: number[]; count: number } {
+  const rank = new Array<number>(values.length).fill(NaN);
+  const idx = sortedFinite(values);
+  for (let i = 0; i < idx.length; ) {
+    let j = i + 1;
+    while (j < idx.length && values[idx[j]!] === values[idx[i]!]) j++;
+    const avg = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) rank[idx[k]!] = avg;
+    i = j;
+  }
+  return { rank, count: idx.length };
+}
+
+/** Mean and sum of squared deviations of finite values */
+function moments(values: readonly number[]): {
+  mean: number;
+  m2: number;
+  count: number;
+} {
+  let count = 0;
+  let sum = 0;
+  for (const x of values) {
+    if (!Number.isFinite(x)) continue;
+    count++;
+    sum += x;
+  }
+  const mean = count > 0 ? sum / count : NaN;
+  let m2 = 0;
+  for (const x of values) {
+    if (Number.isFinite(x)) m2 += (x - mean) * (x - mean);
+  }
+  return { mean, m2, count };
+}
+
+/** Quantile of sorted values with linear interpolation */
+function quantileSorted(sorted: readonly number[], q: number): number {
+  const pos = q * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo]! + (sorted[hi]! - sorted[lo]!) * (pos - lo);
+}
+
+/**
+ * Cross-sectional rank.
+ * Ascending 1-based ranks with ties averaged, or rank / count when pct is set.
+ */
+export class CsRank extends CrossSectional {
+  private readonly pct: boolean;
+
+  constructor(opts: { pct?: boolean } = {}) {
+    super();
+    this.pct = opts.pct ?? false;
+  }
+
+  protected transform(values: readonly number[]): number[] {
+    const { rank, count } = ranks(values);
+    return this.pct ? rank.map((r) => r / count) : rank;
+  }
+
+  static readonly initSchema = z.object({ pct: z.boolean().default(false) });
+
+  static readonly doc: OperatorDoc = {
+    type: "CsRank",
+    desc: "Cross-sectional rank, ties averaged, pct scales to (0, 1]",
+    init: "{pct: false}",
+    input: "...inputs: number[] | {[symbol]: number}",
+    output: "ranks, same shape as input",
+    ports: CROSS_SECTION_PORTS,
+  };
+}
+
+/**
+ * Cross-sectional demean: value minus cross-sectional mean.
+ */
+export class CsDemean extends CrossSectional {
+  protected transform(values: readonly number[]): number[] {
+    const { mean } = moments(values);
+    return values.map((x) => (Number.isFinite(x) ? x - mean : NaN));
+  }
+
+  static readonly doc: OperatorDoc = {
+    type: "CsDemean",
+    desc: "Value minus cross-sectional mean",
+    input: "...inputs: number[] | {[symbol]: number}",
+    output: "demeaned values, same shape as input",
+    ports: CROSS_SECTION_PORTS,
+  };
+}
+
+/**
+ * Cross-sectional z-score: (value - mean) / stddev.
+ * Returns 0 when all values are equal, NaN when count <= ddof.
+ */
+export class CsZScore extends CrossSectional {
+  private readonly ddof: number;
+
+  constructor(opts: { ddof?: number } = {}) {
+    super();
+    this.ddof = opts.ddof ?? 0;
+  }
+
+  protected transform(values: readonly number[]): number[] {
+    const { mean, m2, count } = moments(values);
+    const std = count > this.ddof ? Math.sqrt(m2 / (count - this.ddof)) : NaN;
+    return values.map((x) => {
+      if (!Number.isFinite(x)) return NaN;
+      return std === 0 ? 0 : (x - mean) / std;
+    });
+  }
+
+  static readonly initSchema = z.object({
+    ddof: z.number().int().min(0).default(0),
+  });
+
+  static readonly doc: OperatorDoc = {
+    type: "CsZScore",
+    desc: "Cross-sectional z-score",
+    init: "{ddof: 0}",
+    input: "...inputs: number[] | {[symbol]: number}",
+    output: "z-scores, same shape as input",
+    ports: CROSS_SECTION_PORTS,
+  };
+}
+
+/**
+ * Cross-sectional winsorize: clip values to the lower and upper quantiles.
+ * Quantiles are linearly interpolated.
+ */
+export class CsWinsorize extends CrossSectional {
+  private readonly lower: number;
+  private readonly upper: number;
+
+  constructor(opts: { lower?: number; upper?: number } = {}) {
+    super();
+    this.lower = opts.lower ?? 0.05;
+    this.upper = opts.upper ?? 0.95;
+  }
+
+  protected transform(values: readonly number[]): number[] {
+    const sorted = sortedFinite(values).map((i) => values[i]!);
+    if (sorted.length === 0) return values.map(() => NaN);
+    const lo = quantileSorted(sorted, this.lower);
+    const hi = quantileSorted(sorted, this.upper);
+    return values.map((x) =>
+      Number.isFinite(x) ? Math.min(Math.max(x, lo), hi) : NaN
+    );
+  }
+
+  static readonly initSchema = z
+    .object({
+      lower: z.number().min(0).max(1).default(0.05),
+      upper: z.number().min(0).max(1).default(0.95),
+    })
+    .refine((opts) => opts.lower <= opts.upper, {
+      message: "lower must not exceed upper",
+      path: ["lower"],
+    });
+
+  static readonly doc: OperatorDoc = {
+    type: "CsWinsorize",
+    desc: "Clip values to cross-sectional quantiles",
+    init: "{lower: 0.05, upper: 0.95}",
+    input: "...inputs: number[] | {[symbol]: number}",
+    output: "clipped values, same shape as input",
+    ports: CROSS_SECTION_PORTS,
+  };
+}
+
+/**
+ * Cross-sectional quantile bucket: 0 for the lowest bucket to buckets - 1
+ * for the highest, by rank.
+ */
+export class CsQuantileBucket extends CrossSectional {
+  private readonly buckets: number;
+
+  constructor(opts: { buckets: number }) {
+    super();
+    this.buckets = opts.buckets;
+  }
+
+  protected transform(values: readonly number[]): number[] {
+    const { rank, count } = ranks(values);
+    return rank.map((r) =>
+      Number.isNaN(r) ? NaN : Math.floor(((r - 1) / count) * this.buckets)
+    );
+  }
+
+  static readonly initSchema = z.object({ buckets: z.number().int().min(2) });
+
+  static readonly doc: OperatorDoc = {
+    type: "CsQuantileBucket",
+    desc: "Cross-sectional quantile bucket by rank, 0 = lowest",
+    init: "{buckets: number}",
+    input: "...inputs: number[] | {[symbol]: number}",
+    output: "bucket indices, same shape as input",
+    ports: CROSS_SECTION_PORTS,
+  };
+}
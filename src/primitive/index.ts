@@ -2,5 +2,7 @@ export * from "./Const.js";
 export * from "./arithmetic.js";
 export * from "./logical.js";
 export * from "./lag.js";
+export * from "./cross-section.js";
+export * from "./warmup.js";
 export * from "./core-ops/rolling.js";
 export * from "./core-ops/online.js";
@@ -1,5 +1,7 @@
 import { CircularBuffer } from "@junduck/trading-core";
+import { z } from "zod";
 import type { OperatorDoc } from "../types/OpDoc.js";
+import { PeriodSchema } from "../types/PeriodOptions.js";
 
 export class Lag<T = any> {
   private buffer: CircularBuffer<T>;
@@ -17,12 +19,18 @@ export class Lag<T = any> {
     }
   }
 
+  static readonly initSchema = PeriodSchema;
+
   static readonly doc: OperatorDoc = {
     type: "Lag",
     desc: "Value delayed by a fixed number of updates",
     init: "{period: number}",
     input: "x",
     output: "lagged_x",
+    ports: {
+      input: [{ name: "x", type: "any" }],
+      output: "any",
+    },
   };
 }
 
@@ -34,7 +42,9 @@ export class LagTime<T = any> {
     this.dTms = opts.lag_time_ms;
   }
 
-  update(timestamp: Date, value: T): T | undefined {
+  update(timestamp: Date | number, value: T): T | undefined {
+    // Epoch milliseconds, as found in JSON data
+    if (typeof timestamp === "number") timestamp = new Date(timestamp);
     this.buffer.push({ timestamp, value });
 
     // Remove old entries (strictly older than cutoff)
@@ -54,11 +64,22 @@ export class LagTime<T = any> {
     }
   }
 
+  static readonly initSchema = z.object({
+    lag_time_ms: z.number().nonnegative(),
+  });
+
   static readonly doc: OperatorDoc = {
     type: "LagTime",
     desc: "Approximate time-based lag: returns oldest sample >= cutoff time",
     init: "{lag_time_ms: number}",
     input: "timestamp, x",
     output: "lagged_x",
+    ports: {
+      input: [
+        { name: "timestamp", type: "any" },
+        { name: "x", type: "any" },
+      ],
+      output: "any",
+    },
   };
 }
@@ -117,7 +117,7 @@ export class And {
 
   static readonly doc: OperatorDoc = {
     type: "And",
-    input: "lhs, rhs",
+    input: "lhs: boolean, rhs: boolean",
     output: "boolean",
   };
 }
@@ -129,7 +129,7 @@ export class Or {
 
   static readonly doc: OperatorDoc = {
     type: "Or",
-    input: "lhs, rhs",
+    input: "lhs: boolean, rhs: boolean",
     output: "boolean",
   };
 }
@@ -141,7 +141,7 @@ export class Not {
 
   static readonly doc: OperatorDoc = {
     type: "Not",
-    input: "x",
+    input: "x: boolean",
     output: "boolean",
   };
 }
@@ -153,7 +153,7 @@ export class Xor {
 
   static readonly doc: OperatorDoc = {
     type: "Xor",
-    input: "lhs, rhs",
+    input: "lhs: boolean, rhs: boolean",
     output: "boolean",
   };
 }
@@ -276,7 +276,7 @@ export class IfThenElse {
 
   static readonly doc: OperatorDoc = {
     type: "IfThenElse",
-    input: "cond, thenVal, elseVal",
+    input: "cond: boolean, thenVal: any, elseVal: any",
     output: "thenVal | elseVal",
   };
 }
@@ -288,7 +288,7 @@ export class Gate {
 
   static readonly doc: OperatorDoc = {
     type: "Gate",
-    input: "cond, val",
+    input: "cond: boolean, val: any",
     output: "val | undefined",
   };
 }
@@ -0,0 +1,60 @@
+import type { Warmup, WarmupPolicy } from "../types/Warmup.js";
+
+/**
+ * Check operator readiness.
+ * @param op Operator instance
+ * @returns op.isReady, or true if the operator does not report readiness
+ */
+export function isReady(op: object): boolean {
+  return (op as Partial<Warmup>).isReady ?? true;
+}
+
+/**
+ * Apply warm-up policy to an output produced before the operator is ready.
+ * @param value Operator output
+ * @param policy Warm-up policy
+ * @returns Output as reported under the policy
+ */
+export function applyWarmup<T>(value: T, policy: WarmupPolicy): T | undefined {
+  switch (policy) {
+    case "current":
+      return value;
+    case "undefined":
+      return undefined;
+    case "NaN":
+      return toNaN(value);
+  }
+}
+
+function toNaN<T>(value: T): T {
+  if (typeof value === "number") {
+    return NaN as T;
+  }
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    const out: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      out[key] = typeof field === "number" ? NaN : field;
+    }
+    return out as T;
+  }
+  return value;
+}
+
+/**
+ * Creates closure that applies warm-up policy to operator output.
+ * @param op Operator instance
+ * @param policy Warm-up policy
+ * @returns Function that updates op and reports output under the policy
+ * @example
+ * const rsi = withWarmup(new RSI({ period: 14 }), "undefined");
+ * rsi(close); // undefined until 15 closes received
+ */
+export function withWarmup<Args extends any[], R>(
+  op: { update(...args: Args): R },
+  policy: WarmupPolicy
+): (...args: Args) => R | undefined {
+  return (...args) => {
+    const value = op.update(...args);
+    return isReady(op) ? value : applyWarmup(value, policy);
+  };
+}
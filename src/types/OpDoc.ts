@@ -8,4 +8,38 @@ export interface OperatorDoc {
   init?: string; // Constructor parameters, undefined if default construct, default values are included
   input: string; // update's parameters
   output: string; // What it produces
+  ports?: OperatorPorts; // Machine-readable input/output, only needed when input/output strings can't be parsed
+}
+
+/**
+ * Value type carried by a port.
+ * Object types map field names to field types, "any" disables checking.
+ */
+export type PortType =
+  | "number"
+  | "boolean"
+  | "number[]"
+  | "any"
+  | { [field: string]: PortType };
+
+/**
+ * Named update parameter.
+ */
+export interface PortSchema {
+  name: string;
+  type: PortType;
+  /** Trailing parameter that may be left out */
+  optional?: boolean;
+}
+
+/**
+ * Machine-readable operator signature.
+ */
+export interface OperatorPorts {
+  /** Positional update parameters */
+  input: PortSchema[];
+  /** Rest parameter accepting any number of trailing inputs */
+  variadic?: PortSchema;
+  /** Value produced by update, undefined/null outputs are not propagated */
+  output: PortType;
 }
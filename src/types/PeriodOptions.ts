@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 /**
  * Period configuration for indicators.
  * Provides flexible period options for various indicator types.
@@ -17,3 +19,33 @@ export interface PeriodOptions {
 export type PeriodWith<K extends keyof PeriodOptions> = Required<
   Pick<PeriodOptions, K>
 >;
+
+/**
+ * Zod schema for a single period field: positive integer.
+ */
+export const PeriodValueSchema = z.number().int().positive();
+
+/**
+ * Init schema for PeriodWith<"period">.
+ */
+export const PeriodSchema = z.object({ period: PeriodValueSchema });
+
+/**
+ * Init schema for PeriodWith<"period_fast" | "period_slow">.
+ */
+export const FastSlowSchema = z.object({
+  period_fast: PeriodValueSchema,
+  period_slow: PeriodValueSchema,
+});
+
+/**
+ * Init schema for exponentially weighted operators taking period or alpha.
+ */
+export const PeriodOrAlphaSchema = z
+  .object({
+    period: PeriodValueSchema.optional(),
+    alpha: z.number().gt(0).lte(1).optional(),
+  })
+  .refine((opts) => opts.period !== undefined || opts.alpha !== undefined, {
+    message: "Either period or alpha is required",
+  });
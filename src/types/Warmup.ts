@@ -0,0 +1,18 @@
+/**
+ * How an operator reports output before it is ready.
+ * - "current": emit whatever the operator computes during warm-up
+ * - "undefined": emit undefined, so graph successors are skipped
+ * - "NaN": emit NaN, object outputs have every numeric field set to NaN
+ */
+export type WarmupPolicy = "current" | "undefined" | "NaN";
+
+/**
+ * Readiness signalling for stateful operators.
+ * Operators without these properties are treated as always ready.
+ */
+export interface Warmup {
+  /** Number of updates required before output is valid */
+  readonly warmupPeriod: number;
+  /** True once output is valid */
+  readonly isReady: boolean;
+}
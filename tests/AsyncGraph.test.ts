@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { GraphExec } from "../src/flow/graph-exec.js";
+import { EMA } from "../src/primitive/core-ops/rolling.js";
+
+function delay<T>(ms: number, value: T): Promise<T> {
+  return new Promise((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+describe("GraphExec updateAsync", () => {
+  it("should await async nodes before running successors", async () => {
+    const g = new GraphExec("tick");
+    g.add("lookup", { update: (x: number) => delay(5, x * 10) })
+      .depends("tick")
+      .add("plus", { update: (x: number) => x + 1 })
+      .depends("lookup");
+
+    const out = await g.updateAsync(2);
+    expect(out["lookup"]).toBe(20);
+    expect(out["plus"]).toBe(21);
+  });
+
+  it("should execute nodes in deterministic topological order", async () => {
+    const order: string[] = [];
+    const g = new GraphExec("tick");
+    g.add("slow", {
+      update: async (x: number) => {
+        await delay(10, 0);
+        order.push("slow");
+        return x;
+      },
+    })
+      .depends("tick")
+      .add("fast", {
+        update: async (x: number) => {
+          order.push("fast");
+          return x;
+        },
+      })
+      .depends("tick")
+      .add("sync", {
+        update: (a: number, b: number) => {
+          order.push("sync");
+          return a + b;
+        },
+      })
+      .depends("slow", "fast");
+
+    await g.updateAsync(1);
+    await g.updateAsync(2);
+    expect(order).toEqual(["slow", "fast", "sync", "slow", "fast", "sync"]);
+  });
+
+  it("should match sync update for sync-only graphs", async () => {
+    const build = () => {
+      const g = new GraphExec("tick");
+      g.add("ema", new EMA({ period: 3 }))
+        .depends("tick")
+        .add("diff", { update: (x: number, e: number) => x - e })
+        .depends("tick", "ema");
+      return g;
+    };
+
+    const sync = build();
+    const async = build();
+    for (const x of [1, 4, 2, 8, 5]) {
+      expect(await async.updateAsync(x)).toEqual(sync.update(x));
+    }
+  });
+
+  it("should reject overlapping updates", async () => {
+    const g = new GraphExec("tick");
+    g.add("lookup", { update: (x: number) => delay(5, x) }).depends("tick");
+
+    const first = g.updateAsync(1);
+    await expect(g.updateAsync(2)).rejects.toThrow(/in progress/);
+    expect(() => g.update(3)).toThrow(/in progress/);
+    expect(() => g.restore(g.snapshot())).toThrow(/in progress/);
+
+    expect((await first)["lookup"]).toBe(1);
+    expect((await g.updateAsync(4))["lookup"]).toBe(4);
+  });
+
+  it("should release the graph when a node rejects", async () => {
+    let fail = true;
+    const g = new GraphExec("tick");
+    g.add("flaky", {
+      update: async (x: number) => {
+        if (fail) throw new Error("lookup failed");
+        return x;
+      },
+    }).depends("tick");
+
+    await expect(g.updateAsync(1)).rejects.toThrow("lookup failed");
+    fail = false;
+    expect((await g.updateAsync(2))["flaky"]).toBe(2);
+  });
+
+  it("should skip successors of async nodes resolving to undefined", async () => {
+    const g = new GraphExec("tick");
+    g.add("maybe", {
+      update: async (x: number) => (x > 0 ? x : undefined),
+    })
+      .depends("tick")
+      .add("double", { update: (x: number) => x * 2 })
+      .depends("maybe");
+
+    const out1 = await g.updateAsync(-1);
+    expect(out1["maybe"]).toBeUndefined();
+    expect(out1["double"]).toBeUndefined();
+
+    const out2 = await g.updateAsync(3);
+    expect(out2["double"]).toBe(6);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { Backtest, runBacktest } from "../src/backtest/index.js";
+import { GraphExec, OpRegistry, type FlowGraph } from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import { generateBars } from "./testUtils.js";
+
+const registry = new OpRegistry();
+regAll(registry);
+
+/** Long when close is above its SMA, flat otherwise */
+const schema: FlowGraph = {
+  root: "bar",
+  nodes: [
+    { name: "sma", type: "SMA", init: { period: 5 }, inputSrc: "bar.close" },
+    { name: "signal", type: "GT", inputSrc: ["bar.close", "sma"] },
+  ],
+};
+
+/** Graph passing the bar's target field through as signal */
+function passthrough(): GraphExec {
+  const graph = new GraphExec("bar");
+  graph.add("signal", { update: (x: any) => x }).depends("bar.target");
+  return graph;
+}
+
+const bars = [
+  { open: 10, close: 11, target: 2 },
+  { open: 12, close: 13, target: 2 },
+  { open: 14, close: 15, target: -1 },
+  { open: 16, close: 17, target: undefined },
+  { open: 18, close: 19, target: 0 },
+];
+
+describe("Backtest", () => {
+  it("should fill at next open", () => {
+    const result = runBacktest(passthrough(), bars, {
+      signal: "signal",
+      initialCash: 1000,
+    });
+
+    expect(result.trades).toEqual([
+      {
+        index: 1,
+        timestamp: 1,
+        qty: 2,
+        price: 12,
+        commission: 0,
+        position: 2,
+        realizedPnl: 0,
+      },
+      {
+        index: 3,
+        timestamp: 3,
+        qty: -3,
+        price: 16,
+        commission: 0,
+        position: -1,
+        realizedPnl: 8,
+      },
+    ]);
+    expect(result.equity.map((p) => p.position)).toEqual([0, 2, 2, -1, -1]);
+    // 1000 - 24 + 48 = 1024 cash, short 1 at 19
+    expect(result.finalEquity).toBe(1024 - 19);
+    expect(result.totalReturn).toBeCloseTo(0.005);
+  });
+
+  it("should fill at close with slippage and commission", () => {
+    const result = runBacktest(passthrough(), bars.slice(0, 3), {
+      signal: "signal",
+      execution: "close",
+      initialCash: 1000,
+      slippage: 0.1,
+      commission: 0.01,
+    });
+
+    const [buy, sell] = result.trades;
+    expect(buy).toMatchObject({ index: 0, qty: 2, price: 11 * 1.1 });
+    expect(buy!.commission).toBeCloseTo(2 * 12.1 * 0.01);
+    expect(sell).toMatchObject({ index: 2, qty: -3, price: 15 * 0.9 });
+    expect(sell!.realizedPnl).toBeCloseTo(2 * (13.5 - 12.1));
+    expect(result.totalCommission).toBeCloseTo(0.242 + 3 * 13.5 * 0.01);
+
+    const last = result.equity[2]!;
+    expect(last.cash).toBeCloseTo(1000 - 2 * 12.1 - 0.242 + 3 * 13.5 - 0.405);
+    expect(last.equity).toBeCloseTo(last.cash - 15);
+  });
+
+  it("should accept a commission function", () => {
+    const result = runBacktest(passthrough(), bars.slice(0, 3), {
+      signal: "signal",
+      execution: "close",
+      commission: () => 1,
+    });
+    expect(result.totalCommission).toBe(2);
+  });
+
+  it("should size by fraction of equity", () => {
+    const graph = new GraphExec("bar");
+    graph.add("signal", { update: () => true }).depends("bar");
+
+    const result = runBacktest(
+      graph,
+      [
+        { open: 10, close: 10 },
+        { open: 20, close: 25 },
+      ],
+      { signal: "signal", sizing: "equity", initialCash: 1000 }
+    );
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ qty: 50, price: 20 });
+    expect(result.finalEquity).toBe(1250);
+  });
+
+  it("should replay ticks with timestamps", () => {
+    const graph = new GraphExec("tick");
+    graph
+      .add("signal", { update: (p: number) => (p > 100 ? 1 : 0) })
+      .depends("tick.price");
+
+    const backtest = new Backtest(graph, {
+      signal: "signal",
+      execution: "close",
+    });
+    backtest.update({ timestamp: 1000, price: 99, volume: 1 });
+    const point = backtest.update({ timestamp: 2000, price: 101, volume: 1 });
+    expect(point).toMatchObject({ timestamp: 2000, position: 1 });
+    expect(backtest.result().trades[0]!.timestamp).toBe(2000);
+  });
+
+  it("should be deterministic for a FlowGraph strategy", () => {
+    const data = generateBars({ count: 200, basePrice: 100, volatility: 2 });
+    const run = () =>
+      runBacktest(GraphExec.fromJSON(schema, registry), data, {
+        signal: "signal",
+        slippage: 0.001,
+        commission: 0.0005,
+      });
+
+    const first = run();
+    expect(first.trades.length).toBeGreaterThan(0);
+    expect(run()).toEqual(first);
+    for (const trade of first.trades) {
+      expect(Math.abs(trade.position)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("should reject unknown signal nodes and bad signals", () => {
+    expect(() => new Backtest(passthrough(), { signal: "missing" })).toThrow(
+      /Unknown signal node 'missing'/
+    );
+    const backtest = new Backtest(passthrough(), { signal: "signal" });
+    expect(() => backtest.update({ close: 1, target: "long" })).toThrow(
+      /produced string/
+    );
+    expect(() => backtest.update({ open: 1 })).toThrow(/close or price/);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeBatch,
+  GraphExec,
+  OpRegistry,
+  type FlowGraph,
+} from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import { RSI } from "../src/indicators/Momentum.js";
+import { MACD } from "../src/indicators/Oscillators.js";
+import { ATR } from "../src/indicators/Volatility.js";
+import { generateBars } from "./testUtils.js";
+
+const bars = generateBars({ count: 300, basePrice: 100, volatility: 5 });
+const columns = {
+  open: Float64Array.from(bars, (b) => b.open),
+  high: Float64Array.from(bars, (b) => b.high!),
+  low: Float64Array.from(bars, (b) => b.low!),
+  close: Float64Array.from(bars, (b) => b.close),
+  volume: Float64Array.from(bars, (b) => b.volume!),
+};
+
+describe("computeBatch", () => {
+  it("should match streaming numeric outputs", () => {
+    const streaming = new ATR({ period: 14 });
+    const expected = Float64Array.from(bars, (b) =>
+      streaming.update(b.high!, b.low!, b.close)
+    );
+    const { high, low, close } = columns;
+
+    expect(computeBatch(new ATR({ period: 14 }), [high, low, close])).toEqual(
+      expected
+    );
+  });
+
+  it("should split object outputs into columns", () => {
+    const opts = { period_fast: 12, period_slow: 26, period_signal: 9 };
+    const streaming = new MACD(opts);
+    const expected = bars.map((b) => streaming.update(b.close));
+    const out = computeBatch(new MACD(opts), [columns.close]);
+
+    expect(Object.keys(out)).toEqual(["macd", "signal", "histogram"]);
+    const histogram = (out as Record<string, Float64Array>)["histogram"]!;
+    expected.forEach((row, i) => expect(histogram[i]).toBe(row.histogram));
+  });
+
+  it("should reject misaligned columns", () => {
+    expect(() =>
+      computeBatch(new RSI({ period: 14 }), [
+        columns.close,
+        columns.close.subarray(1),
+      ])
+    ).toThrow("Cannot run batch: column lengths differ");
+  });
+});
+
+const registry = new OpRegistry();
+regAll(registry);
+
+const schema: FlowGraph = {
+  root: "bar",
+  nodes: [
+    { name: "rsi", type: "RSI", init: { period: 14 }, inputSrc: "bar.close" },
+    {
+      name: "stoch",
+      type: "STOCH",
+      init: { k_period: 9, k_slowing: 3, d_period: 3 },
+      inputSrc: ["bar.high", "bar.low", "bar.close"],
+    },
+    { name: "kd", type: "Sub", inputSrc: ["stoch.k", "stoch.d"] },
+    { name: "lo", type: "Const", init: { value: 30 } },
+    { name: "oversold", type: "LT", inputSrc: ["rsi", "lo"] },
+  ],
+};
+
+describe("GraphExec.runBatch", () => {
+  it("should match update row by row", () => {
+    const streaming = GraphExec.fromJSON(schema, registry, {
+      warmup: "undefined",
+    });
+    const batch = GraphExec.fromJSON(schema, registry, { warmup: "undefined" });
+    const out = batch.runBatch(columns);
+
+    bars.forEach((bar, i) => {
+      const state = streaming.update(bar);
+      const rsi = out["rsi"] as Float64Array;
+      expect(rsi[i]).toBe(state["rsi"] ?? NaN);
+      const stoch = out["stoch"] as Record<string, Float64Array>;
+      expect(stoch["d"]![i]).toBe(state["stoch"]?.d ?? NaN);
+      const oversold = out["oversold"] as Float64Array;
+      const expected = state["oversold"];
+      expect(oversold[i]).toBe(expected === undefined ? NaN : +expected);
+    });
+  });
+
+  it("should collect selected nodes only", () => {
+    const graph = GraphExec.fromJSON(schema, registry);
+    const out = graph.runBatch({ close: columns.close }, ["rsi"]);
+    expect(Object.keys(out)).toEqual(["rsi"]);
+    expect(() => graph.runBatch({ close: columns.close }, ["bar"])).toThrow(
+      "Cannot collect node 'bar': node does not exist"
+    );
+  });
+
+  it("should reject non-numeric outputs", () => {
+    const graph = new GraphExec("bar");
+    graph.add("label", { update: (x: number) => `x=${x}` }).depends("bar");
+    expect(() => graph.runBatch({ x: columns.close })).toThrow(
+      "Cannot batch output of label"
+    );
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+import {
+  CalendarOHLCV,
+  CalendarWindow,
+  ExchangeCalendar,
+  StreamingAdapter,
+  getCalendar,
+} from "../src/aggregation/index.js";
+import { GraphExec, OpRegistry } from "../src/flow/index.js";
+import { regAggregateIndicators } from "../src/flow/registry-utils.js";
+import { CMA } from "../src/primitive/core-ops/online.js";
+
+const HOUR = 3600000;
+
+/** Epoch ms of a UTC wall-clock time */
+function utc(date: string, time: string): number {
+  return Date.parse(`${date}T${time}:00Z`);
+}
+
+/** Epoch ms of a Hong Kong wall-clock time (UTC+8, no DST) */
+function hk(date: string, time: string): number {
+  return Date.parse(`${date}T${time}:00+08:00`);
+}
+
+describe("ExchangeCalendar", () => {
+  const nyse = getCalendar("XNYS");
+
+  it("should resolve sessions across DST", () => {
+    // EST before 2025-03-09, EDT after
+    expect(nyse.segmentsOn("2025-03-07")).toEqual([
+      { open: utc("2025-03-07", "14:30"), close: utc("2025-03-07", "21:00") },
+    ]);
+    expect(nyse.segmentsOn("2025-03-10")).toEqual([
+      { open: utc("2025-03-10", "13:30"), close: utc("2025-03-10", "20:00") },
+    ]);
+    expect(nyse.localDate(utc("2025-03-11", "02:00"))).toBe("2025-03-10");
+  });
+
+  it("should close on weekends and holidays, early on half days", () => {
+    expect(nyse.segmentsOn("2025-03-08")).toEqual([]);
+    expect(nyse.segmentsOn("2025-07-04")).toEqual([]);
+    expect(nyse.isTradingDay("2025-07-03")).toBe(true);
+    expect(nyse.segmentsOn("2025-11-28")[0]!.close).toBe(
+      utc("2025-11-28", "18:00")
+    );
+  });
+
+  it("should model lunch breaks", () => {
+    const hkex = getCalendar("XHKG");
+    expect(hkex.segmentsOn("2025-03-03")).toEqual([
+      { open: hk("2025-03-03", "09:30"), close: hk("2025-03-03", "12:00") },
+      { open: hk("2025-03-03", "13:00"), close: hk("2025-03-03", "16:00") },
+    ]);
+    expect(hkex.isOpen(hk("2025-03-03", "12:30"))).toBe(false);
+    expect(hkex.isOpen(hk("2025-03-03", "13:00"))).toBe(true);
+    // Half day keeps the morning only
+    expect(hkex.segmentsOn("2025-12-24")).toHaveLength(1);
+  });
+
+  it("should close on 2026 holidays", () => {
+    const hkex = getCalendar("XHKG");
+    expect(hkex.isTradingDay("2026-02-17")).toBe(false);
+    expect(hkex.isTradingDay("2026-04-07")).toBe(false);
+    expect(hkex.segmentsOn("2026-02-16")).toHaveLength(1);
+    const sse = getCalendar("XSHG");
+    expect(sse.isTradingDay("2026-02-23")).toBe(false);
+    expect(sse.isTradingDay("2026-10-07")).toBe(false);
+    expect(sse.isTradingDay("2026-10-08")).toBe(true);
+  });
+
+  it("should reject dates outside the covered years", () => {
+    expect(nyse.years).toEqual({ from: 2025, to: 2026 });
+    expect(nyse.covers("2026-12-31")).toBe(true);
+    expect(nyse.covers("2027-01-04")).toBe(false);
+    expect(() => nyse.isTradingDay("2027-01-04")).toThrow("no holiday data");
+    expect(() => nyse.segmentsOn("2024-12-31")).toThrow("no holiday data");
+
+    // Specs without years are unbounded
+    const spec = {
+      name: "ANY",
+      timezone: "UTC",
+      sessions: [{ open: "09:00", close: "17:00" }],
+    };
+    expect(new ExchangeCalendar(spec).isTradingDay("2030-01-02")).toBe(true);
+    expect(
+      () => new ExchangeCalendar({ ...spec, years: { from: 2026, to: 2025 } })
+    ).toThrow("years");
+  });
+
+  it("should reject invalid calendars", () => {
+    expect(() => getCalendar("XXXX")).toThrow("Unknown calendar");
+    const spec = {
+      name: "BAD",
+      timezone: "UTC",
+      sessions: [{ open: "10:00", close: "09:00" }],
+    };
+    expect(() => new ExchangeCalendar(spec)).toThrow();
+    expect(
+      () => new ExchangeCalendar({ ...spec, timezone: "Mars/Olympus" })
+    ).toThrow();
+  });
+});
+
+describe("CalendarWindow", () => {
+  it("should align bars in trading time across the lunch break", () => {
+    const window = new CalendarWindow({ calendar: "XHKG", interval: HOUR });
+    const day = "2025-03-03";
+
+    expect(window.update(hk(day, "09:31"))).toEqual({ include: false });
+    expect(window.update(hk(day, "11:45"))).toEqual({
+      timestamp: hk(day, "09:30"),
+      include: false,
+    });
+    // 11:30-12:00 and 13:00-13:30 form one bar
+    expect(window.update(hk(day, "13:10"))).toEqual({ include: false });
+    expect(window.update(hk(day, "13:40"))).toEqual({
+      timestamp: hk(day, "11:30"),
+      include: false,
+    });
+  });
+
+  it("should skip data outside trading hours", () => {
+    const window = new CalendarWindow({ calendar: "XHKG", interval: HOUR });
+    const day = "2025-03-03";
+
+    expect(window.update(hk(day, "09:00"))).toEqual({
+      timestamp: undefined,
+      include: false,
+      skip: true,
+    });
+    window.update(hk(day, "11:10"));
+    // Lunch break emits the bar in progress
+    expect(window.update(hk(day, "12:00"))).toEqual({
+      timestamp: hk(day, "10:30"),
+      include: false,
+      skip: true,
+    });
+    expect(window.update(hk(day, "12:30")).timestamp).toBeUndefined();
+  });
+
+  it("should keep a bar spanning the lunch break open", () => {
+    const window = new CalendarWindow({ calendar: "XHKG", interval: HOUR });
+    const day = "2025-03-03";
+
+    window.update(hk(day, "11:40"));
+    expect(window.update(hk(day, "12:30"))).toEqual({
+      include: false,
+      skip: true,
+    });
+    expect(window.update(hk(day, "13:10"))).toEqual({ include: false });
+    expect(window.update(hk(day, "13:30")).timestamp).toBe(hk(day, "11:30"));
+  });
+
+  it("should throw past the calendar's covered years", () => {
+    const window = new CalendarWindow({ calendar: "XHKG", interval: HOUR });
+    window.update(hk("2026-12-31", "10:00"));
+    expect(() => window.update(hk("2027-01-04", "10:00"))).toThrow(
+      "Calendar XHKG has no holiday data for 2027-01-04"
+    );
+  });
+
+  it("should emit one bar per day without interval", () => {
+    const window = new CalendarWindow({ calendar: "XNYS" });
+    window.update(utc("2025-03-07", "15:00"));
+    window.update(utc("2025-03-07", "20:59"));
+    expect(window.update(utc("2025-03-10", "13:30"))).toEqual({
+      timestamp: utc("2025-03-07", "14:30"),
+      include: false,
+    });
+  });
+});
+
+describe("CalendarOHLCV", () => {
+  it("should emit the partial bar at the close", () => {
+    const ohlcv = new CalendarOHLCV({ calendar: "XNYS", intervalMs: 4 * HOUR });
+    const day = "2025-03-10";
+    const bars = [
+      ohlcv.update(utc(day, "13:30"), 10, 1),
+      ohlcv.update(utc(day, "17:29"), 12, 1),
+      ohlcv.update(utc(day, "17:30"), 11, 2),
+      ohlcv.update(utc(day, "19:59"), 13, 1),
+      // Timer tick at the close
+      ohlcv.update(utc(day, "20:00"), 0, 0),
+    ];
+
+    expect(bars[2]).toMatchObject({
+      timestamp: utc(day, "13:30"),
+      open: 10,
+      close: 12,
+      volume: 2,
+    });
+    expect(bars[4]).toEqual({
+      timestamp: utc(day, "17:30"),
+      open: 11,
+      high: 13,
+      low: 11,
+      close: 13,
+      volume: 3,
+      turnover: 22 + 13,
+    });
+    // After-hours ticks do not open a bar
+    expect(ohlcv.update(utc(day, "21:00"), 99, 1)).toBeUndefined();
+    expect(ohlcv.update(utc("2025-03-11", "13:30"), 14, 1)).toBeUndefined();
+  });
+
+  it("should run in GraphExec with a named calendar", () => {
+    const registry = new OpRegistry();
+    regAggregateIndicators(registry);
+    const graph = GraphExec.fromJSON(
+      {
+        root: "tick",
+        nodes: [
+          {
+            name: "bar",
+            type: "CalendarOHLCV",
+            init: { calendar: "XSHG", intervalMs: HOUR },
+            inputSrc: ["tick.timestamp", "tick.price", "tick.volume"],
+          },
+        ],
+      },
+      registry
+    );
+
+    const cn = (time: string) => Date.parse(`2025-03-03T${time}:00+08:00`);
+    graph.update({ timestamp: cn("10:00"), price: 1, volume: 1 });
+    const out = graph.update({ timestamp: cn("10:30"), price: 2, volume: 1 });
+    expect(out["bar"]).toMatchObject({ timestamp: cn("09:30"), close: 1 });
+  });
+});
+
+describe("StreamingAdapter with skipped data", () => {
+  it("should discard skipped data", () => {
+    const SessionCMA = StreamingAdapter(CMA, "SessionCMA");
+    const cma = new SessionCMA({});
+    const window = new CalendarWindow({ calendar: "XHKG" });
+    const day = "2025-03-03";
+
+    cma.update(window.update(hk(day, "10:00")), 1);
+    cma.update(window.update(hk(day, "12:30")), 100);
+    cma.update(window.update(hk(day, "15:00")), 3);
+    expect(cma.update(window.update(hk(day, "16:00")), 100)).toBeCloseTo(2);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+  compileGraph,
+  GraphExec,
+  OpAdapter,
+  OpRegistry,
+  type FlowGraph,
+  type GraphExecOptions,
+} from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import { generateBars } from "./testUtils.js";
+
+const bars = generateBars({ count: 150, basePrice: 100, volatility: 5 });
+
+const schema: FlowGraph = {
+  root: "bar",
+  nodes: [
+    { name: "two", type: "Const", init: { value: 2 } },
+    { name: "rsi", type: "RSI", init: { period: 14 }, inputSrc: "bar.close" },
+    {
+      name: "stoch",
+      type: "STOCH",
+      init: { k_period: 9, k_slowing: 3, d_period: 3 },
+      inputSrc: ["bar.high", "bar.low", "bar.close"],
+    },
+    {
+      name: "macd",
+      type: "MACD",
+      init: { period_fast: 12, period_slow: 26, period_signal: 9 },
+      inputSrc: "bar.close",
+    },
+    { name: "kd", type: "Sub", inputSrc: ["stoch.k", "stoch.d"] },
+    { name: "scaled", type: "Mul", inputSrc: ["kd", "two"] },
+    { name: "hist", type: "Mul", inputSrc: ["macd.histogram", "two"] },
+    { name: "mix", type: "AvgOf", inputSrc: ["rsi", "scaled", "hist"] },
+  ],
+};
+
+function build(opts?: GraphExecOptions): GraphExec {
+  const registry = new OpRegistry();
+  regAll(registry);
+  return GraphExec.fromJSON(schema, registry, opts);
+}
+
+describe("compileGraph", () => {
+  it("should match GraphExec.update tick by tick", () => {
+    const interpreted = build();
+    const compiled = compileGraph(build());
+
+    for (const bar of bars) {
+      expect(compiled(bar)).toEqual(interpreted.update(bar));
+    }
+  });
+
+  it("should match skipped nodes under warm-up policy", () => {
+    const interpreted = build({ warmup: "undefined" });
+    const compiled = compileGraph(build({ warmup: "undefined" }));
+
+    for (const bar of bars) {
+      expect(compiled(bar)).toEqual(interpreted.update(bar));
+    }
+  });
+
+  it("should share operator state with the graph", () => {
+    const reference = build();
+    const expected = bars.map((bar) => reference.update(bar));
+
+    const g = build();
+    const compiled = compileGraph(g);
+    for (let i = 0; i < bars.length; i++) {
+      const out = i % 2 === 0 ? g.update(bars[i]) : compiled(bars[i]);
+      expect(out).toEqual(expected[i]);
+    }
+  });
+
+  it("should support custom DAG nodes and missing nested fields", () => {
+    const build = () => {
+      const g = new GraphExec("tick");
+      g.add("maybe", {
+        update: (x: number) => (x % 2 === 0 ? { inner: { v: x } } : {}),
+      })
+        .depends("tick")
+        .add("deep", { update: (v?: number) => v ?? -1 })
+        .depends("maybe.inner.v");
+      g.add("custom", {
+        __isDagNode: true,
+        inputPath: ["deep"],
+        predSatisfied: (state: Record<string, any>) => state["deep"] * 10,
+      } as const);
+      g.add(
+        "wrapped",
+        new OpAdapter({ update: (x: number) => x + 1 }, ["tick"])
+      );
+      return g;
+    };
+
+    const interpreted = build();
+    const compiled = compileGraph(build());
+    for (let x = 0; x < 6; x++) {
+      expect(compiled(x)).toEqual(interpreted.update(x));
+    }
+  });
+
+  it("should resolve fields under null like update", () => {
+    const build = () => {
+      const g = new GraphExec("tick");
+      g.add("maybe", {
+        update: (n?: number) => {
+          if (n === undefined) return null;
+          return n % 3 === 0 ? { inner: null } : { inner: { v: n } };
+        },
+      })
+        .depends("tick.n")
+        .add("deep", { update: (v?: number) => v ?? -1 })
+        .depends("maybe.inner.v")
+        .add("leaf", { update: (inner: unknown) => inner === null })
+        .depends("maybe.inner");
+      return g;
+    };
+
+    const interpreted = build();
+    const compiled = compileGraph(build());
+    for (const data of [{ n: 1 }, { n: 3 }, null, { n: 4 }]) {
+      const state = interpreted.update(data);
+      expect(compiled(data)).toEqual(state);
+      // Null parents give undefined, a null leaf stays null
+      if (data === null) expect(state["deep"]).toBe(-1);
+      if (data?.n === 3) expect(state["leaf"]).toBe(true);
+    }
+  });
+
+  it("should not run nodes depending on missing nodes", () => {
+    const g = new GraphExec("tick");
+    g.add("a", { update: (x: number) => x }).depends("missing");
+    g.add("b", { update: (x: number) => x + 1 }).depends("tick");
+    expect(compileGraph(g)(1)).toEqual(g.update(1));
+  });
+});
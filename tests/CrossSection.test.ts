@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { GraphExec, OpRegistry } from "../src/flow/index.js";
+import { regCrossSection, regPrimitive } from "../src/flow/registry-utils.js";
+import {
+  CsDemean,
+  CsQuantileBucket,
+  CsRank,
+  CsWinsorize,
+  CsZScore,
+} from "../src/primitive/index.js";
+
+describe("Cross-sectional operators", () => {
+  it("should rank with ties averaged", () => {
+    const rank = new CsRank();
+    expect(rank.update(3, 1, 2, 1)).toEqual([4, 1.5, 3, 1.5]);
+    expect(new CsRank({ pct: true }).update(30, 10, 20, 40)).toEqual([
+      0.75, 0.25, 0.5, 1,
+    ]);
+  });
+
+  it("should accept arrays and records", () => {
+    const rank = new CsRank();
+    expect(rank.update([5, 9, 7])).toEqual([1, 3, 2]);
+    expect(rank.update({ AAA: 5, BBB: 9, CCC: 7 })).toEqual({
+      AAA: 1,
+      BBB: 3,
+      CCC: 2,
+    });
+  });
+
+  it("should skip non-finite values", () => {
+    expect(new CsRank().update(2, NaN, 1)).toEqual([2, NaN, 1]);
+    expect(new CsDemean().update(1, NaN, 3)).toEqual([-1, NaN, 1]);
+    expect(new CsZScore().update({ A: 1, B: NaN })).toEqual({
+      A: 0,
+      B: NaN,
+    });
+  });
+
+  it("should demean and z-score", () => {
+    const xs = [2, 4, 4, 4, 5, 5, 7, 9];
+    expect(new CsDemean().update(xs)).toEqual([-3, -1, -1, -1, 0, 0, 2, 4]);
+    // mean 5, population stddev 2
+    expect(new CsZScore().update(xs)).toEqual([
+      -1.5, -0.5, -0.5, -0.5, 0, 0, 1, 2,
+    ]);
+    const sample = new CsZScore({ ddof: 1 }).update(xs);
+    expect(sample[7]).toBeCloseTo(4 / Math.sqrt(32 / 7));
+    expect(new CsZScore().update(3, 3, 3)).toEqual([0, 0, 0]);
+  });
+
+  it("should winsorize to quantiles", () => {
+    const xs = Array.from({ length: 11 }, (_, i) => i * 10);
+    const out = new CsWinsorize({ lower: 0.1, upper: 0.8 }).update(xs);
+    expect(out).toEqual([10, 10, 20, 30, 40, 50, 60, 70, 80, 80, 80]);
+    // Linear interpolation between 0 and 100
+    expect(
+      new CsWinsorize({ lower: 0.25, upper: 0.75 }).update(0, 100)
+    ).toEqual([25, 75]);
+  });
+
+  it("should assign quantile buckets", () => {
+    const bucket = new CsQuantileBucket({ buckets: 5 });
+    expect(bucket.update(10, 50, 20, 40, 30)).toEqual([0, 4, 1, 3, 2]);
+    expect(
+      new CsQuantileBucket({ buckets: 2 }).update(1, 2, 3, 4, 5, 6)
+    ).toEqual([0, 0, 0, 1, 1, 1]);
+  });
+
+  it("should validate init", () => {
+    expect(
+      CsWinsorize.initSchema.safeParse({ lower: 0.9, upper: 0.1 }).success
+    ).toBe(false);
+    expect(CsQuantileBucket.initSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe("Cross-sectional operators in GraphExec", () => {
+  const registry = new OpRegistry();
+  regPrimitive(registry);
+  regCrossSection(registry);
+
+  it("should take variadic inputs like SumOf", () => {
+    const graph = GraphExec.fromJSON(
+      {
+        root: "tick",
+        nodes: [
+          {
+            name: "rank",
+            type: "CsRank",
+            inputSrc: ["tick.AAA", "tick.BBB", "tick.CCC"],
+          },
+          { name: "top", type: "EQ", inputSrc: ["rank.0", "rank.2"] },
+        ],
+      },
+      registry
+    );
+
+    const out = graph.update({ AAA: 3, BBB: 1, CCC: 2 });
+    expect(out["rank"]).toEqual([3, 1, 2]);
+    expect(out["top"]).toBe(false);
+  });
+
+  it("should take a record of symbols", () => {
+    const graph = GraphExec.fromJSON(
+      {
+        root: "tick",
+        nodes: [
+          { name: "z", type: "CsZScore", inputSrc: "tick.returns" },
+          {
+            name: "bucket",
+            type: "CsQuantileBucket",
+            init: { buckets: 2 },
+            inputSrc: "z",
+          },
+        ],
+      },
+      registry
+    );
+
+    const out = graph.update({ returns: { AAA: 0.01, BBB: -0.01 } });
+    expect(out["z"]).toEqual({ AAA: 1, BBB: -1 });
+    expect(out["bucket"]).toEqual({ AAA: 1, BBB: 0 });
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, expect, it } from "vitest";
+import {
+  AdaptiveEMA,
+  AdaptiveRSI,
+  DominantCycle,
+  HilbertTransform,
+  LaguerreRSI,
+  MAMA,
+  RoofingFilter,
+  RSI,
+  SuperSmoother,
+  useHilbertTransform,
+} from "../src/indicators/index.js";
+import { GraphExec, OpRegistry, type FlowGraph } from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import { sequence } from "./testUtils.js";
+
+const wave = (period: number, amplitude = 1, length = 300) =>
+  sequence(0, length).map(
+    (i) => 100 + amplitude * Math.sin((2 * Math.PI * i) / period)
+  );
+
+const closes = sequence(0, 200).map(
+  (i) => 100 + 0.3 * i + 6 * Math.sin(i / 4) + 2 * Math.sin(i * 1.9)
+);
+
+function run(op: { update(x: number): number }, xs: number[]): number[] {
+  return xs.map((x) => op.update(x));
+}
+
+// Reference SuperSmoother recursion, following the input for two bars
+function superSmootherRef(xs: number[], period: number): number[] {
+  const a1 = Math.exp((-Math.SQRT2 * Math.PI) / period);
+  const c2 = 2 * a1 * Math.cos((Math.SQRT2 * Math.PI) / period);
+  const c3 = -a1 * a1;
+  const c1 = 1 - c2 - c3;
+  const out: number[] = [];
+  xs.forEach((x, i) =>
+    out.push(
+      i < 2
+        ? x
+        : (c1 * (x + xs[i - 1]!)) / 2 + c2 * out[i - 1]! + c3 * out[i - 2]!
+    )
+  );
+  return out;
+}
+
+describe("Hilbert transform", () => {
+  it("should measure the period of a sine wave", () => {
+    for (const period of [10, 20, 35]) {
+      const ht = new HilbertTransform();
+      const dc = new DominantCycle();
+      wave(period).forEach((x, i) => {
+        const out = ht.update(x);
+        expect(dc.update(x)).toBe(out.period);
+        if (i >= 150) expect(out.period).toBeCloseTo(period, 0);
+      });
+    }
+  });
+
+  it("should track the phase of a sine wave in cycle mode", () => {
+    const period = 20;
+    const getHT = useHilbertTransform();
+    let prevPhase = 0;
+    let trending = 0;
+    wave(period).forEach((close, i) => {
+      const out = getHT({ close });
+      if (i >= 150) {
+        expect(out.sine).toBeCloseTo(Math.sin((2 * Math.PI * i) / period), 1);
+        expect(out.leadSine).toBeCloseTo(
+          Math.sin((2 * Math.PI * i) / period + Math.PI / 4),
+          1
+        );
+        const delta = (out.phase - prevPhase + 360) % 360;
+        expect(delta).toBeCloseTo(360 / period, -1);
+        expect(out.trendline).toBeCloseTo(100, 1);
+        if (out.trend) trending++;
+      }
+      prevPhase = out.phase;
+    });
+    expect(trending).toBe(0);
+  });
+
+  it("should switch to trend mode when price leaves the trendline", () => {
+    const ht = new HilbertTransform();
+    const out = run(
+      { update: (x) => (ht.update(x).trend ? 1 : 0) },
+      sequence(0, 200).map((i) => 100 + i)
+    );
+    expect(out.slice(100).every((trend) => trend === 1)).toBe(true);
+    expect(ht.isReady).toBe(true);
+  });
+});
+
+describe("MAMA", () => {
+  it("should adapt alpha within the limits", () => {
+    const mama = new MAMA();
+    expect(mama.update(100)).toEqual({ mama: 100, fama: 100 });
+    let prev = { mama: 100, fama: 100 };
+    for (const close of closes.slice(1)) {
+      const out = mama.update(close);
+      const alpha = (out.mama - prev.mama) / (close - prev.mama);
+      expect(alpha).toBeGreaterThanOrEqual(0.05 - 1e-9);
+      expect(alpha).toBeLessThanOrEqual(0.5 + 1e-9);
+      expect(out.fama - prev.fama).toBeCloseTo(
+        0.5 * alpha * (out.mama - prev.fama),
+        9
+      );
+      prev = out;
+    }
+  });
+
+  it("should lag FAMA behind MAMA in a trend", () => {
+    const mama = new MAMA({ fast_limit: 0.5, slow_limit: 0.05 });
+    let out = { mama: 0, fama: 0 };
+    for (let i = 0; i < 100; i++) out = mama.update(100 + i);
+    expect(out.mama).toBeLessThan(199);
+    expect(out.fama).toBeLessThan(out.mama);
+    expect(mama.isReady).toBe(true);
+  });
+});
+
+describe("Ehlers filters", () => {
+  it("SuperSmoother should match the two pole recursion", () => {
+    const out = run(new SuperSmoother({ period: 10 }), closes);
+    const expected = superSmootherRef(closes, 10);
+    out.forEach((x, i) => expect(x).toBeCloseTo(expected[i]!, 9));
+  });
+
+  it("SuperSmoother should pass long cycles and attenuate short ones", () => {
+    const amplitude = (xs: number[]) =>
+      (Math.max(...xs.slice(200)) - Math.min(...xs.slice(200))) / 2;
+    expect(amplitude(run(new SuperSmoother(), wave(60)))).toBeGreaterThan(0.9);
+    expect(amplitude(run(new SuperSmoother(), wave(4)))).toBeLessThan(0.2);
+  });
+
+  it("RoofingFilter should remove trend and keep mid cycles", () => {
+    const roof = new RoofingFilter();
+    const trend = run(roof, sequence(100, 300, 0.5));
+    expect(Math.abs(trend[299]!)).toBeLessThan(1e-3);
+    expect(roof.isReady).toBe(true);
+
+    const cycle = run(
+      new RoofingFilter({ hp_period: 48, ss_period: 10 }),
+      wave(24)
+    );
+    const tail = cycle.slice(200);
+    expect(Math.max(...tail)).toBeGreaterThan(0.5);
+    expect(Math.min(...tail)).toBeLessThan(-0.5);
+  });
+
+  it("LaguerreRSI should match the four stage filter", () => {
+    const gamma = 0.6;
+    let l = [closes[0]!, closes[0]!, closes[0]!, closes[0]!];
+    const lrsi = new LaguerreRSI({ gamma });
+    expect(lrsi.update(closes[0]!)).toBe(50);
+    for (const close of closes.slice(1)) {
+      const l0 = (1 - gamma) * close + gamma * l[0]!;
+      const l1 = -gamma * l0 + l[0]! + gamma * l[1]!;
+      const l2 = -gamma * l1 + l[1]! + gamma * l[2]!;
+      const l3 = -gamma * l2 + l[2]! + gamma * l[3]!;
+      l = [l0, l1, l2, l3];
+      const diffs = [l0 - l1, l1 - l2, l2 - l3];
+      const up = diffs.filter((d) => d > 0).reduce((a, b) => a + b, 0);
+      const down = -diffs.filter((d) => d < 0).reduce((a, b) => a + b, 0);
+      expect(lrsi.update(close)).toBeCloseTo((100 * up) / (up + down), 9);
+    }
+  });
+
+  it("LaguerreRSI should saturate on monotone moves", () => {
+    const lrsi = new LaguerreRSI();
+    const rally = sequence(100, 10);
+    const selloff = sequence(110, 30, -1);
+    expect(run(lrsi, rally)[9]).toBe(100);
+    expect(run(lrsi, selloff)[29]).toBe(0);
+  });
+});
+
+describe("Adaptive-period operators", () => {
+  it("should match fixed-period EMA and RSI for a constant period", () => {
+    const ema = new AdaptiveEMA();
+    const rsi = new AdaptiveRSI();
+    const fixedRSI = new RSI({ period: 14 });
+    let expected = closes[0]!;
+    closes.forEach((close, i) => {
+      if (i > 0) expected += (2 / 11) * (close - expected);
+      expect(ema.update(close, 10)).toBeCloseTo(expected, 9);
+      expect(rsi.update(close, 14)).toBeCloseTo(fixedRSI.update(close), 9);
+    });
+    expect(ema.isReady && rsi.isReady).toBe(true);
+  });
+
+  it("should take the period from the dominant cycle in a graph", () => {
+    const registry = new OpRegistry();
+    regAll(registry);
+    expect(
+      registry
+        .getAllContexts()
+        .get("ti.cycle")!
+        .map((doc) => doc.type)
+    ).toEqual([
+      "DominantCycle",
+      "HilbertTransform",
+      "MAMA",
+      "SuperSmoother",
+      "RoofingFilter",
+      "LaguerreRSI",
+      "AdaptiveEMA",
+      "AdaptiveRSI",
+    ]);
+    expect(registry.getInitSchema("RoofingFilter")!.parse({})).toEqual({
+      hp_period: 48,
+      ss_period: 10,
+    });
+    expect(() =>
+      registry
+        .getInitSchema("MAMA")!
+        .parse({ fast_limit: 0.1, slow_limit: 0.2 })
+    ).toThrow();
+
+    const schema: FlowGraph = {
+      root: "bar",
+      nodes: [
+        { name: "ht", type: "HilbertTransform", inputSrc: ["bar.close"] },
+        { name: "k", type: "Const", init: { value: 0.5 } },
+        { name: "half", type: "Mul", inputSrc: ["ht.period", "k"] },
+        {
+          name: "rsi",
+          type: "AdaptiveRSI",
+          inputSrc: ["bar.close", "half"],
+        },
+        {
+          name: "ema",
+          type: "AdaptiveEMA",
+          inputSrc: ["bar.close", "ht.period"],
+        },
+      ],
+    };
+    const graph = GraphExec.fromJSON(schema, registry);
+    const ht = new HilbertTransform();
+    const rsi = new AdaptiveRSI();
+    for (const close of closes) {
+      const period = ht.update(close).period;
+      const out = graph.update({ close });
+      expect(out["rsi"]).toBeCloseTo(rsi.update(close, 0.5 * period), 9);
+      expect(typeof out["ema"]).toBe("number");
+    }
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, expect, it } from "vitest";
+import { fileURLToPath } from "node:url";
+import {
+  parseCsv,
+  parseCsvLine,
+  parseTimestamp,
+  readBars,
+  readTicks,
+  Replay,
+  toBars,
+  toColumns,
+} from "../src/data/index.js";
+import { OHLCV } from "../src/aggregation/index.js";
+import { GraphExec, OpRegistry, type FlowGraph } from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+
+const fixture = (name: string) =>
+  fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const x of source) out.push(x);
+  return out;
+}
+
+const barOptions = {
+  columns: {
+    timestamp: "Date",
+    open: "Open",
+    high: "High",
+    low: "Low",
+    close: "Close",
+    volume: "Volume",
+  },
+  timestamp: { timezone: "America/New_York" },
+  csv: { comment: "#" },
+};
+
+describe("CSV parsing", () => {
+  it("should split quoted fields", () => {
+    expect(parseCsvLine('a,"b,c","say ""hi""",')).toEqual([
+      "a",
+      "b,c",
+      'say "hi"',
+      "",
+    ]);
+    expect(parseCsvLine("1;2", ";")).toEqual(["1", "2"]);
+    expect(() => parseCsvLine('"open')).toThrow("unterminated quoted field");
+  });
+
+  it("should map header columns and report bad lines", async () => {
+    const rows = await collect(parseCsv(["\uFEFFa,b\r", "", "1,2", "3,4"]));
+    expect(rows).toEqual([
+      { a: "1", b: "2" },
+      { a: "3", b: "4" },
+    ]);
+    await expect(collect(parseCsv(["a,b", "1,2,3"]))).rejects.toThrow(
+      "Cannot parse CSV line 2: expected 2 fields, got 3"
+    );
+  });
+});
+
+describe("parseTimestamp", () => {
+  it("should scale numeric timestamps", () => {
+    expect(parseTimestamp(1741613400, { unit: "s" })).toBe(1741613400000);
+    expect(parseTimestamp("1741613400000")).toBe(1741613400000);
+    expect(parseTimestamp(1741613400000000, { unit: "us" })).toBe(
+      1741613400000
+    );
+  });
+
+  it("should keep sub-millisecond units exact without truncating", () => {
+    // Multiplying by 0.001 gives 1741600800000.0352
+    expect(parseTimestamp(1741600800000035, { unit: "us" })).toBe(
+      1741600800000.035
+    );
+    // Beyond 2^53, only the string keeps every digit
+    expect(parseTimestamp("1741600800021000000", { unit: "ns" })).toBe(
+      1741600800021
+    );
+    expect(parseTimestamp("1741600800021123000", { unit: "ns" })).toBe(
+      1741600800021.123
+    );
+    expect(parseTimestamp("-1500", { unit: "us" })).toBe(-1.5);
+    expect(parseTimestamp("25", { unit: "ns" })).toBe(0.000025);
+  });
+
+  it("should read date strings in a timezone across DST", () => {
+    const ny = { timezone: "America/New_York" };
+    // EST before 2025-03-09, EDT after
+    expect(parseTimestamp("2025-03-07 09:30", ny)).toBe(
+      Date.parse("2025-03-07T14:30:00Z")
+    );
+    expect(parseTimestamp("2025-03-10T09:30:00.250", ny)).toBe(
+      Date.parse("2025-03-10T13:30:00.250Z")
+    );
+    expect(parseTimestamp("20250310", ny)).toBe(
+      Date.parse("2025-03-10T04:00:00Z")
+    );
+    // Explicit offsets win over the timezone
+    expect(parseTimestamp("2025-03-10T09:30:00+08:00", ny)).toBe(
+      Date.parse("2025-03-10T01:30:00Z")
+    );
+    expect(parseTimestamp("2025-03-10 09:30")).toBe(
+      Date.parse("2025-03-10T09:30:00Z")
+    );
+    expect(() => parseTimestamp("10/03/2025")).toThrow("Cannot parse");
+  });
+});
+
+describe("readBars", () => {
+  it("should map CSV columns to bars", async () => {
+    const bars = await collect(readBars(fixture("bars.csv"), barOptions));
+
+    expect(bars).toHaveLength(4);
+    expect(bars[0]).toEqual({
+      timestamp: Date.parse("2025-03-06T14:30:00Z"),
+      open: 100,
+      high: 101.5,
+      low: 99,
+      close: 101,
+      volume: 1200,
+    });
+    expect(bars[2]!.timestamp).toBe(Date.parse("2025-03-10T13:30:00Z"));
+    // Empty volume is left out
+    expect(bars[3]).not.toHaveProperty("volume");
+  });
+
+  it("should reject records without close", async () => {
+    await expect(
+      collect(toBars([{ timestamp: 1, close: 2 }, { timestamp: 2 }]))
+    ).rejects.toThrow("Cannot read record 1: close is not a number");
+  });
+
+  it("should feed GraphExec through Replay", async () => {
+    const registry = new OpRegistry();
+    regAll(registry);
+    const schema: FlowGraph = {
+      root: "bar",
+      nodes: [
+        {
+          name: "range",
+          type: "Sub",
+          inputSrc: ["bar.high", "bar.low"],
+        },
+      ],
+    };
+    const graph = GraphExec.fromJSON(schema, registry);
+    const ranges: number[] = [];
+
+    const count = await new Replay(
+      readBars(fixture("bars.csv"), barOptions)
+    ).run((bar) => ranges.push(graph.update(bar)["range"]));
+
+    expect(count).toBe(4);
+    expect(ranges[0]).toBeCloseTo(2.5);
+  });
+
+  it("should feed the batch path", async () => {
+    const registry = new OpRegistry();
+    regAll(registry);
+    const schema: FlowGraph = {
+      root: "bar",
+      nodes: [
+        {
+          name: "ema",
+          type: "EMA",
+          init: { period: 2 },
+          inputSrc: "bar.close",
+        },
+      ],
+    };
+
+    const columns = await toColumns(readBars(fixture("bars.csv"), barOptions));
+    expect(Object.keys(columns)).toEqual([
+      "timestamp",
+      "close",
+      "open",
+      "high",
+      "low",
+      "volume",
+    ]);
+    expect(columns["volume"]![3]).toBeNaN();
+
+    const batch = GraphExec.fromJSON(schema, registry).runBatch(columns);
+    const graph = GraphExec.fromJSON(schema, registry);
+    const bars = await collect(readBars(fixture("bars.csv"), barOptions));
+    bars.forEach((bar, i) => {
+      expect((batch["ema"] as Float64Array)[i]).toBe(graph.update(bar)["ema"]);
+    });
+  });
+});
+
+describe("readTicks", () => {
+  it("should read JSON lines into OHLCV", async () => {
+    const ticks = readTicks(fixture("trades.jsonl"), {
+      columns: { timestamp: "t", price: "px", volume: "qty" },
+      timestamp: { unit: "s" },
+    });
+    const ohlcv = new OHLCV({ intervalMs: 60000 });
+    const bars: unknown[] = [];
+
+    await new Replay(ticks).run((tick) => {
+      const bar = ohlcv.onData(tick);
+      if (bar) bars.push(bar);
+    });
+
+    expect(bars).toEqual([
+      {
+        timestamp: Date.parse("2025-03-10T13:30:00Z"),
+        open: 100,
+        high: 100.5,
+        low: 100,
+        close: 100.5,
+        volume: 7,
+        turnover: 100 * 5 + 100.5 * 2,
+      },
+    ]);
+  });
+});
+
+describe("Replay", () => {
+  it("should pace records by timestamp", async () => {
+    const records = [0, 40, 80].map((timestamp) => ({ timestamp }));
+    const start = performance.now();
+    const seen = await collect(new Replay(records, { speed: 2 }));
+
+    expect(seen).toEqual(records);
+    // 80ms of data at 2x
+    expect(performance.now() - start).toBeGreaterThanOrEqual(35);
+  });
+
+  it("should await async sinks", async () => {
+    const order: number[] = [];
+    await new Replay([1, 2, 3]).run(async (x) => {
+      await Promise.resolve();
+      order.push(x);
+    });
+    expect(order).toEqual([1, 2, 3]);
+    expect(() => new Replay([], { speed: 0 })).toThrow(
+      "Replay speed must be positive"
+    );
+  });
+});
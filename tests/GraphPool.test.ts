@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import {
+  GraphExec,
+  GraphPool,
+  OpRegistry,
+  type FlowGraph,
+} from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import { generateBars } from "./testUtils.js";
+
+const registry = new OpRegistry();
+regAll(registry);
+
+const schema: FlowGraph = {
+  root: "bar",
+  nodes: [
+    { name: "rsi", type: "RSI", init: { period: 14 }, inputSrc: "bar.close" },
+    {
+      name: "macd",
+      type: "MACD",
+      init: { period_fast: 5, period_slow: 10, period_signal: 4 },
+      inputSrc: "bar.close",
+    },
+    {
+      name: "spread",
+      type: "Sub",
+      inputSrc: ["macd.macd", "macd.signal"],
+    },
+    { name: "lo", type: "Const", init: { value: 30 } },
+    { name: "oversold", type: "LT", inputSrc: ["rsi", "lo"] },
+    { name: "prev", type: "Lag", init: { period: 2 }, inputSrc: "spread" },
+  ],
+};
+
+const symbols = {
+  AAA: generateBars({ count: 80, basePrice: 100, volatility: 5 }),
+  BBB: generateBars({ count: 80, basePrice: 20, volatility: 1 }),
+  CCC: generateBars({ count: 80, basePrice: 500, volatility: 20 }),
+};
+
+describe("GraphPool", () => {
+  it("should match one GraphExec per key with interleaved updates", () => {
+    const pool = GraphPool.fromJSON(schema, registry);
+    const graphs = new Map(
+      Object.keys(symbols).map((key) => [
+        key,
+        GraphExec.fromJSON(schema, registry),
+      ])
+    );
+
+    for (let i = 0; i < 80; i++) {
+      for (const [key, bars] of Object.entries(symbols)) {
+        expect(pool.update(key, bars[i])).toStrictEqual(
+          graphs.get(key)!.update(bars[i])
+        );
+      }
+    }
+    expect(pool.size).toBe(3);
+    expect([...pool.keys()]).toEqual(["AAA", "BBB", "CCC"]);
+  });
+
+  it("should apply warmup policy", () => {
+    const pool = GraphPool.fromJSON(schema, registry, { warmup: "undefined" });
+    const graph = GraphExec.fromJSON(schema, registry, {
+      warmup: "undefined",
+    });
+
+    for (const bar of symbols.AAA) {
+      expect(pool.update("AAA", bar)).toStrictEqual(graph.update(bar));
+    }
+  });
+
+  it("should reject invalid graphs", () => {
+    expect(() =>
+      GraphPool.fromJSON(
+        { root: "bar", nodes: [{ name: "x", type: "Missing" }] },
+        registry
+      )
+    ).toThrow(/Invalid graph schema/);
+  });
+
+  it("should evict keys", () => {
+    let now = 0;
+    const pool = GraphPool.fromJSON(schema, registry, { clock: () => now });
+    const bar = symbols.AAA[0]!;
+
+    pool.update("AAA", bar);
+    now = 1000;
+    pool.update("BBB", bar);
+    now = 1500;
+    pool.update("CCC", bar);
+
+    now = 2000;
+    expect(pool.evictIdle(1000)).toEqual(["AAA"]);
+    expect(pool.has("AAA")).toBe(false);
+    expect(pool.evict("BBB")).toBe(true);
+    expect(pool.evict("BBB")).toBe(false);
+    expect([...pool.keys()]).toEqual(["CCC"]);
+
+    // Evicted key starts fresh
+    const fresh = GraphPool.fromJSON(schema, registry);
+    for (const b of symbols.BBB.slice(0, 20)) {
+      expect(pool.update("AAA", b)).toStrictEqual(fresh.update("AAA", b));
+    }
+
+    pool.clear();
+    expect(pool.size).toBe(0);
+  });
+
+  it("should snapshot and restore a key", () => {
+    const pool = GraphPool.fromJSON(schema, registry);
+    const graph = GraphExec.fromJSON(schema, registry);
+    const bars = symbols.CCC;
+
+    for (const bar of bars.slice(0, 40)) {
+      pool.update("CCC", bar);
+      graph.update(bar);
+    }
+    expect(pool.snapshot("CCC")).toEqual(graph.snapshot());
+    expect(pool.snapshot("DDD")).toBeUndefined();
+
+    const saved = JSON.parse(JSON.stringify(pool.snapshot("CCC")));
+    pool.evict("CCC");
+    pool.restore("DDD", saved);
+    for (const bar of bars.slice(40)) {
+      expect(pool.update("DDD", bar)).toStrictEqual(graph.update(bar));
+    }
+  });
+
+  it("should reject mismatched snapshots", () => {
+    const pool = GraphPool.fromJSON(schema, registry);
+    pool.update("AAA", symbols.AAA[0]);
+    const snap = pool.snapshot("AAA")!;
+
+    expect(() => pool.restore("BBB", { ...snap, version: 99 })).toThrow(
+      /unsupported version/
+    );
+    expect(() =>
+      pool.restore("BBB", { ...snap, nodes: { ...snap.nodes, extra: {} } })
+    ).toThrow(/node 'extra' does not exist/);
+    const { rsi: _rsi, ...missing } = snap.nodes;
+    expect(() => pool.restore("BBB", { ...snap, nodes: missing })).toThrow(
+      /missing state for node 'rsi'/
+    );
+    expect(() =>
+      pool.restore("BBB", { ...snap, types: { ...snap.types, rsi: "MFI" } })
+    ).toThrow(/node 'rsi' has type 'MFI', expected 'RSI'/);
+    expect(pool.has("BBB")).toBe(false);
+  });
+});
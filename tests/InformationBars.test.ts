@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import {
+  DollarWindow,
+  OHLCVProcessor,
+  StreamingAdapter,
+  TickImbalanceWindow,
+  TickRunWindow,
+  VolumeImbalanceWindow,
+  VolumeRunWindow,
+  VolumeWindow,
+} from "../src/aggregation/index.js";
+import { CMA } from "../src/primitive/core-ops/online.js";
+
+/** Bar lengths emitted by a tick window over prices */
+function barLengths(
+  window: { update(price: number): { timestamp?: number | undefined } },
+  prices: number[]
+): number[] {
+  return prices.flatMap((price) => {
+    const spec = window.update(price);
+    return spec.timestamp === undefined ? [] : [spec.timestamp];
+  });
+}
+
+/** Deterministic +-1 random walk */
+function randomWalk(n: number): number[] {
+  let seed = 1;
+  let price = 100;
+  return Array.from({ length: n }, () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    price += seed < 1073741824 ? -1 : 1;
+    return price;
+  });
+}
+
+/** Indices (1-based tick counts) at which a window emits */
+function emissions(specs: { timestamp?: number | undefined }[]): number[] {
+  return specs.flatMap((spec, i) => (spec.timestamp === undefined ? [] : [i]));
+}
+
+describe("VolumeWindow", () => {
+  it("should compose with OHLCVProcessor", () => {
+    const window = new VolumeWindow({ threshold: 100 });
+    const processor = new OHLCVProcessor();
+    const ticks = [
+      { price: 10, volume: 40 },
+      { price: 12, volume: 50 },
+      { price: 11, volume: 30 },
+      { price: 9, volume: 100 },
+    ];
+
+    const bars = ticks.map((t) =>
+      processor.update(window.update(t.volume), t.price, t.volume)
+    );
+    expect(bars[0]).toBeUndefined();
+    expect(bars[1]).toBeUndefined();
+    expect(bars[2]).toEqual({
+      timestamp: 120,
+      open: 10,
+      high: 12,
+      low: 10,
+      close: 11,
+      volume: 120,
+      turnover: 400 + 600 + 330,
+    });
+    expect(bars[3]).toMatchObject({ open: 9, close: 9, volume: 100 });
+  });
+});
+
+describe("DollarWindow", () => {
+  it("should emit on accumulated turnover", () => {
+    const window = new DollarWindow({ threshold: 1000 });
+    const specs = [
+      window.update(10, 50),
+      window.update(10, 40),
+      window.update(20, 10),
+      window.update(100, 20),
+    ];
+    expect(specs[2]).toEqual({ timestamp: 1100, include: true });
+    expect(specs[3]).toEqual({ timestamp: 2000, include: true });
+    expect(emissions(specs)).toEqual([2, 3]);
+  });
+
+  it("should compose with StreamingAdapter", () => {
+    const WindowedCMA = StreamingAdapter(CMA, "DollarCMA");
+    const cma = new WindowedCMA({});
+    const window = new DollarWindow({ threshold: 300 });
+    expect(cma.update(window.update(100, 1), 100)).toBeUndefined();
+    expect(cma.update(window.update(200, 1), 200)).toBeCloseTo(150);
+  });
+});
+
+describe("TickImbalanceWindow", () => {
+  it("should adapt threshold to expected imbalance", () => {
+    // No threshold floor, so the EWMA expectation alone sets the threshold
+    const window = new TickImbalanceWindow({
+      initialTicks: 4,
+      period: 3,
+      minThreshold: 0,
+    });
+    const specs = [10, 11, 12, 11, 12, 11, 10].map((p) => window.update(p));
+
+    // First bar by count: signs 0, +, +, -; E[T] = 4, E[imbalance] = 0.25
+    expect(specs[3]).toEqual({ timestamp: 4, include: true });
+    // Threshold 4 * 0.25 = 1, met by the next uptick
+    expect(specs[4]).toEqual({ timestamp: 1, include: true });
+    // E[T] = 2.5, E[imbalance] = 0.625, threshold 1.5625 needs two downticks
+    expect(specs[5]!.timestamp).toBeUndefined();
+    expect(specs[6]).toEqual({ timestamp: 2, include: true });
+  });
+
+  it("should start over on reset", () => {
+    const window = new TickImbalanceWindow({ initialTicks: 2, period: 5 });
+    window.update(1);
+    window.update(2);
+    window.reset();
+    expect(window.update(3).timestamp).toBeUndefined();
+    expect(window.update(4)).toEqual({ timestamp: 2, include: true });
+  });
+});
+
+describe("VolumeImbalanceWindow", () => {
+  it("should weight ticks by volume", () => {
+    const window = new VolumeImbalanceWindow({ initialTicks: 2, period: 1 });
+    // First bar: one buy of 10 over 2 ticks, E[T] = 2, E[imbalance] = 5
+    window.update(10, 100);
+    expect(window.update(11, 10)).toEqual({ timestamp: 2, include: true });
+    // Threshold 2 * 5 = 10
+    expect(window.update(12, 9).timestamp).toBeUndefined();
+    expect(window.update(12, 1)).toEqual({ timestamp: 2, include: true });
+  });
+});
+
+describe("Run windows", () => {
+  it("should emit on the dominant side's run", () => {
+    const window = new TickRunWindow({ initialTicks: 3, period: 1 });
+    const specs = [1, 2, 3, 2, 3, 2].map((p) => window.update(p));
+    // First bar: 2 buys of 3 ticks, threshold 3 * 2/3 = 2
+    expect(emissions(specs)).toEqual([2, 5]);
+    expect(specs[5]).toEqual({ timestamp: 3, include: true });
+  });
+
+  it("should weight runs by volume", () => {
+    const window = new VolumeRunWindow({ initialTicks: 2, period: 1 });
+    window.update(10, 1);
+    // First bar: buy volume 4 over 2 ticks, threshold 2 * 2 = 4
+    expect(window.update(11, 4).timestamp).toBe(2);
+    expect(window.update(10, 3).timestamp).toBeUndefined();
+    expect(window.update(10, 1).timestamp).toBe(2);
+  });
+});
+
+describe("Flow window bar length limits", () => {
+  const walk = randomWalk(20000);
+  const alternating = Array.from({ length: 20000 }, (_, i) => 100 + (i % 2));
+
+  it("should keep imbalance bars from collapsing on balanced flow", () => {
+    const window = new TickImbalanceWindow({ initialTicks: 100, period: 20 });
+    const lengths = barLengths(window, walk);
+    expect(Math.min(...lengths)).toBeGreaterThanOrEqual(25);
+    expect(Math.max(...lengths)).toBeLessThanOrEqual(400);
+  });
+
+  it("should keep run bars from collapsing on balanced flow", () => {
+    const window = new TickRunWindow({ initialTicks: 100, period: 20 });
+    const lengths = barLengths(window, walk);
+    expect(Math.min(...lengths)).toBeGreaterThanOrEqual(25);
+    expect(Math.max(...lengths)).toBeLessThanOrEqual(400);
+    // Balanced runs settle on the initialTicks / 4 floor: about 50 ticks
+    const tail = lengths.slice(-50);
+    const mean = tail.reduce((a, b) => a + b, 0) / tail.length;
+    expect(mean).toBeGreaterThan(30);
+  });
+
+  it("should force imbalance bars closed on alternating ticks", () => {
+    const window = new TickImbalanceWindow({ initialTicks: 50, period: 20 });
+    const lengths = barLengths(window, alternating);
+    // First bar by count, then closed at maxTicks = 200
+    expect(lengths[0]).toBe(50);
+    expect(lengths.slice(1).every((n) => n === 200)).toBe(true);
+    expect(lengths.length).toBe(1 + Math.floor((20000 - 50) / 200));
+  });
+
+  it("should keep run bars bounded on alternating ticks", () => {
+    const window = new TickRunWindow({ initialTicks: 50, period: 20 });
+    const lengths = barLengths(window, alternating);
+    expect(Math.min(...lengths)).toBeGreaterThanOrEqual(13);
+    expect(Math.max(...lengths)).toBeLessThanOrEqual(200);
+  });
+
+  it("should honour explicit limits", () => {
+    const window = new TickImbalanceWindow({
+      initialTicks: 10,
+      period: 5,
+      minTicks: 5,
+      maxTicks: 8,
+    });
+    const lengths = barLengths(window, alternating.slice(0, 1000));
+    expect(lengths[0]).toBe(8);
+    expect(lengths.every((n) => n >= 5 && n <= 8)).toBe(true);
+  });
+
+  it("should reject minTicks above maxTicks", () => {
+    expect(
+      () =>
+        new TickRunWindow({
+          initialTicks: 10,
+          period: 5,
+          minTicks: 20,
+          maxTicks: 10,
+        })
+    ).toThrow("minTicks");
+  });
+});
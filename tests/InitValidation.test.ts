@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  GraphExec,
+  OpRegistry,
+  formatFlowValidationError,
+  validateFlowGraph,
+  type FlowGraph,
+} from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import { EMA } from "../src/primitive/index.js";
+import { BBANDS } from "../src/indicators/index.js";
+import { generateBars } from "./testUtils.js";
+
+const registry = new OpRegistry();
+regAll(registry);
+
+function validate(nodes: FlowGraph["nodes"]) {
+  return validateFlowGraph({ root: "bar", nodes }, registry);
+}
+
+describe("Init schemas", () => {
+  it("should be exposed by the registry", () => {
+    expect(registry.getInitSchema("RSI")).toBeDefined();
+    expect(registry.getInitSchema("Add")).toBeUndefined();
+    expect(registry.getInitSchema("Missing")).toBeUndefined();
+  });
+
+  it("should fill in defaults", () => {
+    expect(registry.getInitSchema("SAR")!.parse({})).toEqual({
+      acceleration: 0.02,
+      maximum: 0.2,
+    });
+    expect(BBANDS.initSchema.parse({ period: 20 })).toEqual({
+      period: 20,
+      Nstddev: 2,
+    });
+  });
+
+  it("should accept either period or alpha", () => {
+    expect(EMA.initSchema.safeParse({ period: 10 }).success).toBe(true);
+    expect(EMA.initSchema.safeParse({ alpha: 0.1 }).success).toBe(true);
+    expect(EMA.initSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe("Init validation", () => {
+  it("should report missing fields with path", () => {
+    const result = validate([
+      { name: "rsi", type: "RSI", inputSrc: "bar.close" },
+    ]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      type: "invalid_init",
+      node: "rsi",
+      opType: "RSI",
+      path: "init.period",
+    });
+    expect(formatFlowValidationError(result.errors[0]!)).toMatch(
+      /^Invalid init for node "rsi" \(RSI\) at init\.period: /
+    );
+  });
+
+  it("should report invalid values for every field", () => {
+    const result = validate([
+      {
+        name: "macd",
+        type: "MACD",
+        init: { period_fast: 12, period_slow: -26, period_signal: 9.5 },
+        inputSrc: "bar.close",
+      },
+    ]);
+    expect(
+      result.errors.map((e) => e.type === "invalid_init" && e.path)
+    ).toEqual(["init.period_slow", "init.period_signal"]);
+  });
+
+  it("should construct operators with defaults", () => {
+    const graph = GraphExec.fromJSON(
+      {
+        root: "bar",
+        nodes: [
+          {
+            name: "bb",
+            type: "BBANDS",
+            init: { period: 20 },
+            inputSrc: "bar.close",
+          },
+          { name: "sar", type: "SAR", inputSrc: ["bar.high", "bar.low"] },
+        ],
+      },
+      registry
+    );
+
+    const bb = new BBANDS({ period: 20 });
+    for (const bar of generateBars({ count: 30, basePrice: 100 })) {
+      const out = graph.update(bar);
+      expect(out["bb"]).toEqual(bb.update(bar.close));
+      expect(Number.isFinite(out["sar"])).toBe(true);
+    }
+  });
+
+  it("should throw on invalid init in fromJSON", () => {
+    expect(() =>
+      GraphExec.fromJSON(
+        {
+          root: "bar",
+          nodes: [{ name: "atr", type: "ATR", init: { period: 0 } }],
+        },
+        registry
+      )
+    ).toThrow(/init\.period/);
+  });
+});
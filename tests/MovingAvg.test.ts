@@ -0,0 +1,257 @@
+import { describe, expect, it } from "vitest";
+import {
+  ALMA,
+  DEMA,
+  HMA,
+  KAMA,
+  T3,
+  TEMA,
+  VIDYA,
+  WMA,
+  ZLEMA,
+  useWMA,
+} from "../src/indicators/index.js";
+import { OpRegistry } from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import { sequence } from "./testUtils.js";
+
+// Deterministic closes with trend, cycle and noise-like wiggle
+const closes = Array.from(
+  { length: 120 },
+  (_, i) => 100 + 0.2 * i + 8 * Math.sin(i / 6) + 1.5 * Math.sin(i * 1.7)
+);
+
+function run(op: { update(x: number): number }, xs: number[]): number[] {
+  return xs.map((x) => op.update(x));
+}
+
+// Reference implementations, recomputed from scratch at every index
+
+function emaRef(xs: number[], period: number): number[] {
+  const alpha = 2 / (period + 1);
+  const out: number[] = [];
+  xs.forEach((x, i) =>
+    out.push(i === 0 ? x : out[i - 1]! + alpha * (x - out[i - 1]!))
+  );
+  return out;
+}
+
+function wmaRef(xs: number[], period: number): number[] {
+  return xs.map((_, i) => {
+    const window = xs.slice(Math.max(0, i - period + 1), i + 1);
+    let sum = 0;
+    let norm = 0;
+    window.forEach((x, j) => {
+      sum += (j + 1) * x;
+      norm += j + 1;
+    });
+    return sum / norm;
+  });
+}
+
+function cmoRef(xs: number[], i: number, period: number): number {
+  if (i < period) return 0;
+  let up = 0;
+  let down = 0;
+  for (let j = i - period + 1; j <= i; j++) {
+    const change = xs[j]! - xs[j - 1]!;
+    if (change > 0) up += change;
+    else down -= change;
+  }
+  return up + down !== 0 ? ((up - down) / (up + down)) * 100 : 0;
+}
+
+function expectClose(actual: number[], expected: number[], from = 0): void {
+  for (let i = from; i < expected.length; i++) {
+    expect(actual[i]).toBeCloseTo(expected[i]!, 8);
+  }
+}
+
+describe("Weighted moving averages", () => {
+  it("WMA should weight newest closes linearly", () => {
+    const out = run(new WMA({ period: 3 }), [1, 2, 3, 4, 5]);
+    expect(out[0]).toBe(1);
+    expect(out[1]).toBeCloseTo(5 / 3);
+    expect(out[4]).toBeCloseTo((3 + 2 * 4 + 3 * 5) / 6);
+    expectClose(run(new WMA({ period: 10 }), closes), wmaRef(closes, 10));
+
+    const getWMA = useWMA({ period: 10 });
+    expect(getWMA({ close: 5 })).toBe(5);
+  });
+
+  it("HMA should match WMA(2 * WMA(n/2) - WMA(n), sqrt(n))", () => {
+    const raw = wmaRef(closes, 8).map((x, i) => 2 * x - wmaRef(closes, 16)[i]!);
+    expectClose(run(new HMA({ period: 16 }), closes), wmaRef(raw, 4));
+  });
+
+  it("ALMA should match Gaussian weights over full windows", () => {
+    const period = 9;
+    const m = 0.85 * (period - 1);
+    const s = period / 6;
+    const weights = sequence(0, period).map((i) =>
+      Math.exp(-((i - m) ** 2) / (2 * s * s))
+    );
+    const norm = weights.reduce((a, b) => a + b, 0);
+    const expected = closes.map((_, i) =>
+      i < period - 1
+        ? NaN
+        : weights.reduce(
+            (acc, w, j) => acc + w * closes[i - period + 1 + j]!,
+            0
+          ) / norm
+    );
+
+    const alma = new ALMA({ period });
+    expectClose(run(alma, closes), expected, period - 1);
+    expect(alma.isReady).toBe(true);
+    expectClose(run(new ALMA({ period }), [7, 7, 7]), [7, 7, 7]);
+  });
+});
+
+describe("Exponential moving averages", () => {
+  it("DEMA and TEMA should match EMA compositions", () => {
+    const e1 = emaRef(closes, 10);
+    const e2 = emaRef(e1, 10);
+    const e3 = emaRef(e2, 10);
+    expectClose(
+      run(new DEMA({ period: 10 }), closes),
+      e1.map((x, i) => 2 * x - e2[i]!)
+    );
+    expectClose(
+      run(new TEMA({ period: 10 }), closes),
+      e1.map((x, i) => 3 * x - 3 * e2[i]! + e3[i]!)
+    );
+  });
+
+  it("DEMA, TEMA and ZLEMA should track a linear ramp without lag", () => {
+    const ramp = sequence(0, 400);
+    expect(run(new DEMA({ period: 9 }), ramp)[399]).toBeCloseTo(399, 6);
+    expect(run(new TEMA({ period: 9 }), ramp)[399]).toBeCloseTo(399, 6);
+    expect(run(new ZLEMA({ period: 9 }), ramp)[399]).toBeCloseTo(399, 6);
+  });
+
+  it("T3 should match the six EMA cascade", () => {
+    const a = 0.7;
+    const e = [closes];
+    for (let k = 0; k < 6; k++) e.push(emaRef(e[k]!, 5));
+    const expected = closes.map(
+      (_, i) =>
+        -(a ** 3) * e[6]![i]! +
+        (3 * a ** 2 + 3 * a ** 3) * e[5]![i]! +
+        (-6 * a ** 2 - 3 * a - 3 * a ** 3) * e[4]![i]! +
+        (1 + 3 * a + a ** 3 + 3 * a ** 2) * e[3]![i]!
+    );
+    expectClose(run(new T3({ period: 5 }), closes), expected);
+  });
+
+  it("ZLEMA should smooth the de-lagged close", () => {
+    const lag = 4;
+    const input = closes.map((x, i) =>
+      i < lag ? x : 2 * x - closes[i - lag]!
+    );
+    expectClose(run(new ZLEMA({ period: 10 }), closes), emaRef(input, 10));
+  });
+});
+
+describe("Adaptive moving averages", () => {
+  it("KAMA should follow the efficiency ratio", () => {
+    const period = 10;
+    const fast = 2 / 3;
+    const slow = 2 / 31;
+    const expected: number[] = [];
+    closes.forEach((x, i) => {
+      if (i < period) {
+        expected.push(x);
+        return;
+      }
+      let volatility = 0;
+      for (let j = i - period + 1; j <= i; j++) {
+        volatility += Math.abs(closes[j]! - closes[j - 1]!);
+      }
+      const er = Math.abs(x - closes[i - period]!) / volatility;
+      const sc = (er * (fast - slow) + slow) ** 2;
+      expected.push(expected[i - 1]! + sc * (x - expected[i - 1]!));
+    });
+
+    const kama = new KAMA();
+    expect(kama.warmupPeriod).toBe(11);
+    expectClose(run(kama, closes), expected);
+  });
+
+  it("KAMA should move at the fast constant on a straight line", () => {
+    const out = run(
+      new KAMA({ period: 3, period_fast: 2, period_slow: 30 }),
+      [1, 2, 3, 4]
+    );
+    // ER = 1, sc = (2/3)^2, seeded at 3
+    expect(out[3]).toBeCloseTo(3 + (4 / 9) * (4 - 3));
+  });
+
+  it("VIDYA should scale alpha by |CMO|", () => {
+    const alpha = 2 / 15;
+    const expected: number[] = [];
+    closes.forEach((x, i) => {
+      const k = (alpha * Math.abs(cmoRef(closes, i, 9))) / 100;
+      expected.push(
+        i === 0 ? x : expected[i - 1]! + k * (x - expected[i - 1]!)
+      );
+    });
+
+    const vidya = new VIDYA({ period: 14 });
+    expectClose(run(vidya, closes), expected);
+    expect(vidya.isReady).toBe(true);
+  });
+});
+
+describe("Moving average readiness and registry", () => {
+  it("should become ready after warmupPeriod updates", () => {
+    const ops = [
+      new WMA({ period: 10 }),
+      new DEMA({ period: 10 }),
+      new TEMA({ period: 10 }),
+      new HMA({ period: 16 }),
+      new KAMA(),
+      new T3({ period: 5 }),
+      new ZLEMA({ period: 10 }),
+      new ALMA({ period: 9 }),
+      new VIDYA({ period: 14 }),
+    ];
+    for (const op of ops) {
+      for (let i = 0; i < op.warmupPeriod; i++) {
+        expect(op.isReady).toBe(false);
+        op.update(closes[i]!);
+      }
+      expect(op.isReady).toBe(true);
+    }
+  });
+
+  it("should register under ti.ma with defaults filled in", () => {
+    const registry = new OpRegistry();
+    regAll(registry);
+    const types = registry
+      .getAllContexts()
+      .get("ti.ma")!
+      .map((doc) => doc.type);
+    expect(types).toEqual([
+      "WMA",
+      "DEMA",
+      "TEMA",
+      "HMA",
+      "KAMA",
+      "T3",
+      "ZLEMA",
+      "ALMA",
+      "VIDYA",
+    ]);
+    expect(registry.getInitSchema("KAMA")!.parse({})).toEqual({
+      period: 10,
+      period_fast: 2,
+      period_slow: 30,
+    });
+    expect(registry.getInitSchema("ALMA")!.parse({ period: 9 })).toEqual({
+      period: 9,
+      offset: 0.85,
+      sigma: 6,
+    });
+  });
+});
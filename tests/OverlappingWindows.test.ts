@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import {
+  HoppingWindow,
+  SlidingWindow,
+  StreamingAdapter,
+} from "../src/aggregation/index.js";
+import { RVWAP, VWAP, VWMA } from "../src/indicators/Volume.js";
+import { CMA } from "../src/primitive/core-ops/online.js";
+import { RollingSum, SMA } from "../src/primitive/core-ops/rolling.js";
+import { generateBars } from "./testUtils.js";
+
+describe("HoppingWindow", () => {
+  it("should open and emit overlapping windows", () => {
+    const window = new HoppingWindow({ size: 30, step: 10 });
+    expect(window.update(5)).toEqual({ emit: [], open: [-20, -10, 0] });
+    expect(window.update(12)).toEqual({ emit: [-20], open: [10] });
+    expect(window.update(25)).toEqual({ emit: [-10], open: [20] });
+    expect(window.update(26)).toEqual({ emit: [], open: [] });
+    // Gap: windows 0..20 close, windows covering 55 open late
+    expect(window.update(55)).toEqual({
+      emit: [0, 10, 20],
+      open: [30, 40, 50],
+    });
+  });
+
+  it("should start over on reset", () => {
+    const window = new HoppingWindow({ size: 20, step: 10 });
+    window.update(15);
+    window.reset();
+    expect(window.update(3)).toEqual({ emit: [], open: [-10, 0] });
+  });
+
+  it("should reject non-positive size or step", () => {
+    expect(() => new HoppingWindow({ size: 10, step: 0 })).toThrow();
+    expect(() => new SlidingWindow({ size: -1 })).toThrow();
+  });
+});
+
+describe("SlidingWindow", () => {
+  it("should evict values outside (value - size, value]", () => {
+    const window = new SlidingWindow({ size: 10 });
+    expect(window.update(1)).toEqual({ timestamp: 1, evict: 0 });
+    expect(window.update(5)).toEqual({ timestamp: 5, evict: 0 });
+    expect(window.update(11)).toEqual({ timestamp: 11, evict: 1 });
+    expect(window.update(30)).toEqual({ timestamp: 30, evict: 2 });
+  });
+});
+
+describe("StreamingAdapter with overlapping windows", () => {
+  it("should keep one instance per hopping window", () => {
+    const HoppingCMA = StreamingAdapter(CMA, "HoppingCMA");
+    const cma = new HoppingCMA({});
+    const window = new HoppingWindow({ size: 20, step: 10 });
+
+    expect(cma.update(window.update(0), 1)).toBeUndefined();
+    expect(cma.update(window.update(10), 3)).toEqual([
+      { timestamp: -10, value: 1 },
+    ]);
+    expect(cma.update(window.update(15), 5)).toBeUndefined();
+    // Window [0, 20) saw 1, 3, 5; window [10, 30) keeps 3, 5
+    expect(cma.update(window.update(20), 7)).toEqual([
+      { timestamp: 0, value: 3 },
+    ]);
+    expect(cma.update(window.update(45), 0)).toEqual([
+      { timestamp: 10, value: 5 },
+      { timestamp: 20, value: 7 },
+    ]);
+  });
+
+  it("should slide removable operators incrementally", () => {
+    let updates = 0;
+    class WindowSum {
+      private sum = 0;
+      update(x: number): number {
+        updates++;
+        return (this.sum += x);
+      }
+      remove(x: number): void {
+        this.sum -= x;
+      }
+    }
+    const SlidingSum = StreamingAdapter(WindowSum, "SlidingSum");
+    const sum = new SlidingSum({});
+    const window = new SlidingWindow({ size: 3 });
+
+    const out = [
+      [0, 1],
+      [1, 2],
+      [2, 4],
+      [3, 8],
+      [10, 16],
+    ].map(([t, x]) => sum.update(window.update(t!), x!));
+    expect(out).toEqual([1, 3, 7, 14, 16]);
+    // One update per data point, no replay
+    expect(updates).toBe(5);
+
+    sum.reset();
+    window.reset();
+    expect(sum.update(window.update(11), 2)).toBe(2);
+  });
+
+  it("should replay the sliding window without remove", () => {
+    class Mean {
+      private readonly cma = new CMA();
+      update(x: number): number {
+        return this.cma.update(x);
+      }
+    }
+    const SlidingCMA = StreamingAdapter(Mean, "SlidingCMA");
+    const cma = new SlidingCMA({});
+    const window = new SlidingWindow({ size: 3 });
+
+    const out = [
+      [0, 1],
+      [1, 2],
+      [2, 4],
+      [3, 8],
+      [10, 16],
+    ].map(([t, x]) => cma.update(window.update(t!), x!));
+    expect(out[0]).toBeCloseTo(1);
+    expect(out[1]).toBeCloseTo(1.5);
+    expect(out[2]).toBeCloseTo(7 / 3);
+    // t = 0 evicted
+    expect(out[3]).toBeCloseTo(14 / 3);
+    expect(out[4]).toBeCloseTo(16);
+
+    cma.reset();
+    window.reset();
+    expect(cma.update(window.update(11), 2)).toBeCloseTo(2);
+  });
+});
+
+describe("Removable operators", () => {
+  const bars = generateBars({ count: 200, basePrice: 100, volatility: 2 });
+  // Irregular timestamps so sliding windows grow and shrink
+  const times = bars.map((_, i) => i * 10 + ((i * 7) % 9));
+
+  /** Same operator without remove(), forcing the adapter to replay */
+  function replayed<T extends { update(...args: any[]): any }>(
+    Op: new (opts: any) => T
+  ) {
+    return class {
+      private readonly op: T;
+      constructor(opts: any) {
+        this.op = new Op(opts);
+      }
+      update(...args: Parameters<T["update"]>): ReturnType<T["update"]> {
+        return this.op.update(...args);
+      }
+    };
+  }
+
+  function compare<T extends { update(...args: any[]): any }>(
+    Op: new (opts: any) => T,
+    opts: any,
+    args: (i: number) => Parameters<T["update"]>
+  ): void {
+    expect(typeof Op.prototype.remove).toBe("function");
+    const incremental = new (StreamingAdapter(Op, "Incremental"))(opts);
+    const replay = new (StreamingAdapter(replayed(Op), "Replay"))(opts);
+    const window = new SlidingWindow({ size: 60 });
+    times.forEach((t, i) => {
+      const spec = window.update(t);
+      const actual = incremental.update(spec, ...args(i));
+      const expected = replay.update(spec, ...args(i));
+      if (typeof expected === "number") {
+        expect(actual).toBeCloseTo(expected, 9);
+      } else {
+        for (const key of Object.keys(expected)) {
+          expect(actual[key]).toBeCloseTo(expected[key], 9);
+        }
+      }
+    });
+  }
+
+  const close = (i: number): [number] => [bars[i]!.close];
+
+  it("should slide RollingSum, SMA and CMA like a replay", () => {
+    // Period shorter than the window: removal of dropped values is a no-op
+    compare(RollingSum, { period: 4 }, close);
+    compare(RollingSum, { period: 100 }, close);
+    compare(SMA, { period: 4 }, close);
+    compare(SMA, { period: 100 }, close);
+    compare(CMA, {}, close);
+  });
+
+  it("should slide VWAP, RVWAP and VWMA like a replay", () => {
+    const hlcv = (i: number) => {
+      const { high, low, close, volume } = bars[i]!;
+      return [high, low, close, volume] as const;
+    };
+    compare(VWAP, { multiplier: 2 }, (i) => [...hlcv(i), false]);
+    compare(RVWAP, { period: 4 }, (i) => [...hlcv(i)]);
+    compare(RVWAP, { period: 100, multiplier: 2 }, (i) => [...hlcv(i)]);
+    compare(VWMA, { period: 4 }, (i) => [bars[i]!.close, bars[i]!.volume]);
+    compare(VWMA, { period: 100 }, (i) => [bars[i]!.close, bars[i]!.volume]);
+  });
+});
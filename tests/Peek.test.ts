@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  GraphExec,
+  GraphPool,
+  OpRegistry,
+  peekOp,
+  type FlowGraph,
+} from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import { RSI } from "../src/indicators/Momentum.js";
+import { SAR } from "../src/indicators/Trend.js";
+import { EMA, RollingMedian } from "../src/primitive/index.js";
+import { generateBars } from "./testUtils.js";
+
+const bars = generateBars({ count: 120, basePrice: 100, volatility: 5 });
+
+/** Revisions of a forming bar, the last one is final */
+function revisions(i: number): { high: number; low: number; close: number }[] {
+  const bar = bars[i]!;
+  return [
+    { high: bar.open, low: bar.open, close: bar.open },
+    { high: bar.high!, low: bar.open, close: bar.high! },
+    { high: bar.high!, low: bar.low!, close: bar.close },
+  ];
+}
+
+/**
+ * Peek every revision, commit the final one, and compare with an operator
+ * fed final bars only.
+ */
+function replay<T extends { update(...args: any[]): any }>(
+  make: () => T,
+  args: (bar: { high: number; low: number; close: number }) => any[]
+): void {
+  const live = make();
+  const reference = make();
+  bars.forEach((_, i) => {
+    const revs = revisions(i);
+    for (const rev of revs) {
+      // As if the revision were final: same as a copy fed the revision
+      const copy = make();
+      bars.slice(0, i).forEach((_, j) => {
+        copy.update(...args(revisions(j)[2]!));
+      });
+      expect(peekOp(live, ...args(rev))).toStrictEqual(
+        copy.update(...args(rev))
+      );
+    }
+    expect(live.update(...args(revs[2]!))).toStrictEqual(
+      reference.update(...args(revs[2]!))
+    );
+  });
+}
+
+describe("peekOp", () => {
+  it("should not commit RSI, EMA and SAR state", () => {
+    replay(
+      () => new RSI({ period: 14 }),
+      (bar) => [bar.close]
+    );
+    replay(
+      () => new EMA({ period: 10 }),
+      (bar) => [bar.close]
+    );
+    replay(
+      () => new SAR(),
+      (bar) => [bar.high, bar.low]
+    );
+  });
+
+  it("should not commit rolling primitive state", () => {
+    replay(
+      () => new RollingMedian({ period: 8 }),
+      (bar) => [bar.close]
+    );
+  });
+});
+
+const registry = new OpRegistry();
+regAll(registry);
+
+const schema: FlowGraph = {
+  root: "bar",
+  nodes: [
+    { name: "rsi", type: "RSI", init: { period: 14 }, inputSrc: "bar.close" },
+    { name: "ema", type: "EMA", init: { period: 10 }, inputSrc: "bar.close" },
+    { name: "sar", type: "SAR", inputSrc: ["bar.high", "bar.low"] },
+    { name: "gap", type: "Sub", inputSrc: ["bar.close", "ema"] },
+  ],
+};
+
+describe("GraphExec peek", () => {
+  it("should match update on final bars", () => {
+    const live = GraphExec.fromJSON(schema, registry);
+    const reference = GraphExec.fromJSON(schema, registry);
+
+    bars.forEach((_, i) => {
+      const revs = revisions(i);
+      const last = live.peek(revs[0]);
+      live.peek(revs[1]);
+      // Peeking the same revision twice gives the same result
+      expect(live.peek(revs[0])).toEqual(last);
+      expect(live.update(revs[2])).toEqual(reference.update(revs[2]));
+    });
+  });
+
+  it("should peek held and async graphs", async () => {
+    const live = GraphExec.fromJSON(schema, registry, { hold: ["ema"] });
+    const reference = GraphExec.fromJSON(schema, registry, { hold: ["ema"] });
+
+    for (let i = 0; i < 40; i++) {
+      const revs = revisions(i);
+      const expected = reference.peek(revs[1]);
+      expect(await live.peekAsync(revs[1])).toEqual(expected);
+      expect(await live.updateAsync(revs[2])).toEqual(
+        reference.update(revs[2])
+      );
+    }
+  });
+
+  it("should reject updates until peekAsync has rolled back", async () => {
+    const live = GraphExec.fromJSON(schema, registry);
+    const reference = GraphExec.fromJSON(schema, registry);
+    live.update(revisions(0)[2]);
+    reference.update(revisions(0)[2]);
+
+    const revs = revisions(1);
+    const peeking = live.peekAsync(revs[0]);
+    // The peek has run but not yet restored its snapshot
+    expect(() => live.update(revs[2])).toThrow("in progress");
+    const updating = live.updateAsync(revs[2]);
+    await expect(updating).rejects.toThrow("in progress");
+    await peeking;
+    expect(await live.updateAsync(revs[2])).toEqual(reference.update(revs[2]));
+  });
+});
+
+describe("GraphPool peek", () => {
+  it("should not commit key state", () => {
+    const pool = GraphPool.fromJSON(schema, registry);
+    const reference = GraphExec.fromJSON(schema, registry);
+
+    pool.peek("AAA", revisions(0)[0]);
+    expect(pool.has("AAA")).toBe(false);
+
+    bars.forEach((_, i) => {
+      const revs = revisions(i);
+      pool.peek("AAA", revs[0]);
+      expect(pool.peek("AAA", revs[1])).toEqual(reference.peek(revs[1]));
+      expect(pool.update("AAA", revs[2])).toEqual(reference.update(revs[2]));
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  calmar,
+  profitFactor,
+  sharpe,
+  sortino,
+  winRate,
+} from "@junduck/trading-core";
+import { GraphExec, OpRegistry } from "../src/flow/index.js";
+import { regPerf } from "../src/flow/registry-utils.js";
+import {
+  Calmar,
+  CuSharpe,
+  CuSortino,
+  DrawdownDuration,
+  HitRate,
+  MaxDrawdown,
+  Omega,
+  ProfitFactor,
+  RollingSharpe,
+  RollingSortino,
+  useRollingSortino,
+} from "../src/indicators/index.js";
+import { generateBars } from "./testUtils.js";
+
+const closes = generateBars({ count: 300, basePrice: 100, volatility: 3 }).map(
+  (bar) => bar.close
+);
+const returns = closes.slice(1).map((c, i) => c / closes[i]! - 1);
+
+function last<T>(op: { update(x: number): T }, xs: number[]): T {
+  let out!: T;
+  for (const x of xs) out = op.update(x);
+  return out;
+}
+
+describe("Drawdown", () => {
+  it("should track relative drawdown and its maximum", () => {
+    const dd = new MaxDrawdown();
+    const out = [100, 120, 90, 110, 60, 130].map((x) => dd.update(x));
+    expect(out.map((o) => o.drawdown)).toEqual([0, 0, 0.25, 1 / 12, 0.5, 0]);
+    expect(out.map((o) => o.max)).toEqual([0, 0, 0.25, 0.25, 0.5, 0.5]);
+  });
+
+  it("should track drawdown duration in updates", () => {
+    const dd = new DrawdownDuration();
+    const out = [100, 90, 95, 101, 100, 102].map((x) => dd.update(x));
+    expect(out.map((o) => o.duration)).toEqual([0, 1, 2, 0, 1, 0]);
+    expect(out[5]!.longest).toBe(3);
+  });
+});
+
+describe("Ratios", () => {
+  it("should match batch metrics", () => {
+    expect(last(new CuSharpe(), returns)).toBeCloseTo(sharpe(returns), 10);
+    expect(last(new CuSharpe({ riskfree: 0.001 }), returns)).toBeCloseTo(
+      sharpe(returns, 0.001),
+      10
+    );
+    expect(last(new CuSortino(), returns)).toBeCloseTo(sortino(returns), 10);
+    expect(last(new Calmar(), returns)).toBeCloseTo(calmar(returns, 250), 10);
+    expect(last(new Calmar({ periodsPerYear: 12 }), returns)).toBeCloseTo(
+      calmar(returns, 12),
+      10
+    );
+    expect(last(new HitRate(), returns)).toBeCloseTo(winRate(returns), 10);
+    expect(last(new ProfitFactor(), returns)).toBeCloseTo(
+      profitFactor(returns),
+      10
+    );
+  });
+
+  it("should compute rolling Sharpe over the window", () => {
+    const period = 20;
+    const rolling = new RollingSharpe({ period });
+    returns.forEach((ret, i) => {
+      const out = rolling.update(ret);
+      if (i >= period - 1) {
+        const window = returns.slice(i - period + 1, i + 1);
+        expect(out).toBeCloseTo(sharpe(window), 10);
+      }
+    });
+    expect(rolling.isReady).toBe(true);
+    expect(new RollingSharpe({ period }).isReady).toBe(false);
+  });
+
+  it("should compute rolling Sortino over the window", () => {
+    const period = 20;
+    const riskfree = 0.001;
+    const rolling = new RollingSortino({ period, riskfree });
+    returns.forEach((ret, i) => {
+      const out = rolling.update(ret);
+      expect(rolling.isReady).toBe(i >= period - 1);
+      const window = returns.slice(Math.max(0, i - period + 1), i + 1);
+      if (window.filter((r) => r < riskfree).length >= 2) {
+        expect(out).toBeCloseTo(sortino(window, riskfree), 10);
+      }
+    });
+
+    // No downside stddev until two returns fall below riskfree
+    const getSortino = useRollingSortino({ period: 3 });
+    const out = [0.01, -0.02, 0.04, -0.01].map(getSortino);
+    expect(out.slice(0, 3)).toEqual([0, 0, 0]);
+    expect(out[3]).toBeCloseTo(sortino([-0.02, 0.04, -0.01]), 10);
+  });
+
+  it("should compute Omega against a threshold", () => {
+    const xs = [0.02, -0.01, 0.03, -0.02, 0.01];
+    // Equals profit factor at threshold 0
+    expect(last(new Omega(), xs)).toBeCloseTo(0.06 / 0.03);
+    // Gains 0.01 + 0.02, shortfalls 0.02 + 0.03 + 0.00
+    expect(last(new Omega({ threshold: 0.01 }), xs)).toBeCloseTo(0.03 / 0.05);
+    expect(new Omega().update(0.01)).toBe(0);
+  });
+});
+
+describe("regPerf", () => {
+  it("should monitor an equity stream in GraphExec", () => {
+    const registry = new OpRegistry();
+    regPerf(registry);
+    expect(registry.getAllContexts().get("perf")).toHaveLength(10);
+
+    const graph = GraphExec.fromJSON(
+      {
+        root: "acct",
+        nodes: [
+          { name: "dd", type: "MaxDrawdown", inputSrc: "acct.equity" },
+          { name: "sharpe", type: "CuSharpe", inputSrc: "acct.ret" },
+          {
+            name: "rolling",
+            type: "RollingSharpe",
+            init: { period: 20 },
+            inputSrc: "acct.ret",
+          },
+          {
+            name: "sortino",
+            type: "RollingSortino",
+            init: { period: 20 },
+            inputSrc: "acct.ret",
+          },
+          { name: "calmar", type: "Calmar", inputSrc: "acct.ret" },
+        ],
+      },
+      registry
+    );
+
+    let out: Record<string, any> = {};
+    returns.forEach((ret, i) => {
+      out = graph.update({ equity: closes[i + 1], ret });
+    });
+    expect(out["sharpe"]).toBeCloseTo(sharpe(returns), 10);
+    expect(out["calmar"]).toBeCloseTo(calmar(returns, 250), 10);
+    expect(out["sortino"]).toBeCloseTo(sortino(returns.slice(-20)), 10);
+    expect(out["dd"].max).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import {
+  OpRegistry,
+  formatFlowValidationError,
+  getOperatorPorts,
+  validateFlowGraph,
+  type FlowGraph,
+} from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import { MACD, RVWAP } from "../src/indicators/index.js";
+import { AllOf, Lag, RollingArgMinMax } from "../src/primitive/index.js";
+
+const registry = new OpRegistry();
+regAll(registry);
+
+function validate(nodes: FlowGraph["nodes"]) {
+  return validateFlowGraph({ root: "bar", nodes }, registry);
+}
+
+describe("Operator ports", () => {
+  it("should parse ports from doc strings", () => {
+    expect(getOperatorPorts(MACD.doc)).toEqual({
+      input: [{ name: "close", type: "number" }],
+      output: { macd: "number", signal: "number", histogram: "number" },
+    });
+    expect(getOperatorPorts(AllOf.doc)).toEqual({
+      input: [],
+      variadic: { name: "inputs", type: "boolean" },
+      output: "boolean",
+    });
+    expect(getOperatorPorts(RollingArgMinMax.doc)?.output).toEqual({
+      min: { val: "number", pos: "number" },
+      max: { val: "number", pos: "number" },
+    });
+  });
+
+  it("should parse optional trailing parameters", () => {
+    expect(getOperatorPorts(RVWAP.doc)?.input).toEqual([
+      { name: "high", type: "number" },
+      { name: "low", type: "number" },
+      { name: "close", type: "number" },
+      { name: "volume", type: "number" },
+      { name: "turnover", type: "number", optional: true },
+    ]);
+  });
+
+  it("should prefer explicit ports", () => {
+    expect(getOperatorPorts(Lag.doc)).toEqual({
+      input: [{ name: "x", type: "any" }],
+      output: "any",
+    });
+  });
+});
+
+describe("Port validation", () => {
+  const macd = {
+    name: "macd",
+    type: "MACD",
+    init: { period_fast: 12, period_slow: 26, period_signal: 9 },
+    inputSrc: "bar.close",
+  };
+
+  it("should accept matching ports", () => {
+    const result = validate([
+      macd,
+      { name: "hist", type: "Sub", inputSrc: ["macd.macd", "macd.signal"] },
+      { name: "up", type: "GT", inputSrc: ["hist", "macd.histogram"] },
+      { name: "both", type: "AllOf", inputSrc: ["up", "up"] },
+      {
+        name: "pick",
+        type: "IfThenElse",
+        inputSrc: ["both", "macd", "macd.signal"],
+      },
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("should report arity mismatch", () => {
+    const result = validate([
+      {
+        name: "rsi",
+        type: "RSI",
+        init: { period: 14 },
+        inputSrc: ["bar.close", "bar.open"],
+      },
+    ]);
+    expect(result.errors).toEqual([
+      {
+        type: "arity_mismatch",
+        node: "rsi",
+        opType: "RSI",
+        expected: 1,
+        actual: 2,
+        variadic: false,
+      },
+    ]);
+    expect(formatFlowValidationError(result.errors[0]!)).toBe(
+      'Node "rsi" (RSI) expects 1 input(s), got 2'
+    );
+  });
+
+  it("should accept optional inputs left out or given", () => {
+    const hlcv = ["bar.high", "bar.low", "bar.close", "bar.volume"];
+    const rvwap = { type: "RVWAP", init: { period: 5 } };
+    expect(
+      validate([
+        { name: "a", ...rvwap, inputSrc: hlcv },
+        { name: "b", ...rvwap, inputSrc: [...hlcv, "bar.turnover"] },
+      ]).errors
+    ).toEqual([]);
+
+    const result = validate([{ name: "c", ...rvwap, inputSrc: hlcv.slice(1) }]);
+    expect(result.errors).toEqual([
+      {
+        type: "arity_mismatch",
+        node: "c",
+        opType: "RVWAP",
+        expected: 5,
+        required: 4,
+        actual: 3,
+        variadic: false,
+      },
+    ]);
+    expect(formatFlowValidationError(result.errors[0]!)).toBe(
+      'Node "c" (RVWAP) expects 4 to 5 input(s), got 3'
+    );
+  });
+
+  it("should report unknown fields", () => {
+    const result = validate([
+      macd,
+      { name: "x", type: "Abs", inputSrc: "macd.hist" },
+      { name: "y", type: "Abs", inputSrc: "x.value" },
+    ]);
+    expect(result.errors).toEqual([
+      {
+        type: "unknown_field",
+        node: "x",
+        path: "macd.hist",
+        field: "hist",
+        available: ["macd", "signal", "histogram"],
+      },
+      {
+        type: "unknown_field",
+        node: "y",
+        path: "x.value",
+        field: "value",
+        available: [],
+      },
+    ]);
+    expect(formatFlowValidationError(result.errors[0]!)).toBe(
+      'Unknown field "hist" in input "macd.hist" of node "x" (available: macd, signal, histogram)'
+    );
+  });
+
+  it("should report type mismatch", () => {
+    const result = validate([
+      macd,
+      { name: "x", type: "Abs", inputSrc: "macd" },
+      { name: "up", type: "GT", inputSrc: ["x", "bar.open"] },
+      { name: "y", type: "Add", inputSrc: ["up", "x"] },
+    ]);
+    expect(result.errors.map((e) => e.type)).toEqual([
+      "type_mismatch",
+      "type_mismatch",
+    ]);
+    expect(formatFlowValidationError(result.errors[0]!)).toBe(
+      'Type mismatch in input "macd" of node "x": port "x" expects number, got {macd, signal, histogram}'
+    );
+    expect(result.errors[1]).toMatchObject({
+      node: "y",
+      port: "lhs",
+      expected: "number",
+      actual: "boolean",
+    });
+  });
+
+  it("should not check paths into root", () => {
+    const result = validate([
+      { name: "x", type: "Abs", inputSrc: "bar.anything.at.all" },
+    ]);
+    expect(result.valid).toBe(true);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import {
+  HeikinAshi,
+  RangeBars,
+  Renko,
+  type OHLCVBar,
+} from "../src/aggregation/index.js";
+import { GraphExec, OpRegistry, validateFlowGraph } from "../src/flow/index.js";
+import {
+  regAggregateIndicators,
+  regHeuristics,
+} from "../src/flow/registry-utils.js";
+import { ATR } from "../src/indicators/index.js";
+
+function bar(
+  timestamp: number,
+  open: number,
+  high: number,
+  low: number,
+  close: number,
+  volume = 1
+): OHLCVBar {
+  return {
+    timestamp,
+    open,
+    high,
+    low,
+    close,
+    volume,
+    turnover: close * volume,
+  };
+}
+
+function closes(xs: number[]): OHLCVBar[] {
+  return xs.map((x, i) => bar(i, x, x, x, x));
+}
+
+describe("RangeBars", () => {
+  it("should complete a bar when the range is reached", () => {
+    const range = new RangeBars({ range: 2 });
+    const out = [
+      range.update(1, 10, 1),
+      range.update(2, 11, 2),
+      range.update(3, 9, 3),
+      range.update(4, 9.5, 1),
+      range.update(5, 10, 1),
+    ];
+    expect(out[0]).toBeUndefined();
+    expect(out[1]).toBeUndefined();
+    expect(out[2]).toEqual({
+      timestamp: 1,
+      open: 10,
+      high: 11,
+      low: 9,
+      close: 9,
+      volume: 6,
+      turnover: 10 + 22 + 27,
+    });
+    // Next bar opens on the following tick
+    expect(out[3]).toBeUndefined();
+    expect(out[4]).toBeUndefined();
+    expect(
+      range.onData({ timestamp: 6, price: 11.5, volume: 1 })
+    ).toMatchObject({
+      timestamp: 4,
+      open: 9.5,
+      high: 11.5,
+      low: 9.5,
+      close: 11.5,
+    });
+  });
+});
+
+describe("Renko", () => {
+  it("should form bricks with a fixed box", () => {
+    const renko = new Renko({ boxSize: 1 });
+    const out = closes([10, 10.5, 12.2, 11.5, 10.9, 9.8, 12]).map((b) =>
+      renko.update(b)
+    );
+    expect(out[0]).toBeUndefined();
+    expect(out[1]).toBeUndefined();
+    expect(out[2]).toMatchObject({
+      timestamp: 2,
+      open: 10,
+      high: 12,
+      low: 10,
+      close: 12,
+      volume: 3,
+      bricks: 2,
+    });
+    // Reversal needs two boxes below the last brick's top
+    expect(out[3]).toBeUndefined();
+    expect(out[4]).toBeUndefined();
+    expect(out[5]).toMatchObject({ open: 11, close: 10, bricks: -1 });
+    expect(out[5]!.volume).toBe(3);
+    expect(out[6]).toMatchObject({ open: 11, close: 12, bricks: 1 });
+  });
+
+  it("should use ATR as box size once ready", () => {
+    const period = 3;
+    const bars = [
+      bar(0, 10, 11, 9, 10),
+      bar(1, 10, 11, 9, 10.5),
+      bar(2, 10.5, 12, 10, 11),
+      bar(3, 11, 13, 11, 13),
+      bar(4, 13, 17, 13, 17),
+    ];
+    const renko = new Renko({ atrPeriod: period });
+    const atr = new ATR({ period });
+    const out = bars.map((b) => {
+      const box = atr.update(b.high, b.low, b.close);
+      return { brick: renko.update(b), box, ready: atr.isReady };
+    });
+
+    out.forEach(({ brick, ready }) => {
+      if (!ready) expect(brick).toBeUndefined();
+    });
+    const formed = out.filter((o) => o.brick !== undefined);
+    expect(formed.length).toBeGreaterThan(0);
+    for (const { brick, box } of formed) {
+      expect(brick!.close - brick!.open).toBeCloseTo(brick!.bricks * box, 10);
+    }
+  });
+
+  it("should reject missing box configuration", () => {
+    expect(Renko.initSchema.safeParse({}).success).toBe(false);
+    expect(Renko.initSchema.safeParse({ atrPeriod: 14 }).success).toBe(true);
+    expect(() => new Renko({})).toThrow();
+  });
+});
+
+describe("HeikinAshi", () => {
+  it("should smooth bars", () => {
+    const ha = new HeikinAshi();
+    const first = ha.update(bar(1, 10, 12, 9, 11, 5));
+    expect(first).toEqual({
+      timestamp: 1,
+      open: 10.5,
+      high: 12,
+      low: 9,
+      close: 10.5,
+      volume: 5,
+      turnover: 55,
+    });
+
+    const second = ha.update(bar(2, 11, 14, 10.8, 13));
+    expect(second.open).toBeCloseTo(10.5);
+    expect(second.close).toBeCloseTo(12.2);
+    expect(second.high).toBe(14);
+    expect(second.low).toBe(10.5);
+  });
+});
+
+describe("Price bars in GraphExec", () => {
+  it("should feed OHLCV bars through HeikinAshi into a pattern", () => {
+    const registry = new OpRegistry();
+    regAggregateIndicators(registry);
+    regHeuristics(registry);
+
+    const schema = {
+      root: "tick",
+      nodes: [
+        {
+          name: "bar",
+          type: "OHLCV",
+          init: { intervalMs: 1000 },
+          inputSrc: ["tick.timestamp", "tick.price", "tick.volume"],
+        },
+        { name: "ha", type: "HeikinAshi", inputSrc: "bar" },
+        { name: "renko", type: "Renko", init: { boxSize: 1 }, inputSrc: "bar" },
+        {
+          name: "doji",
+          type: "Doji",
+          inputSrc: ["ha.open", "ha.close", "ha.high", "ha.low"],
+        },
+      ],
+    };
+    expect(validateFlowGraph(schema, registry).valid).toBe(true);
+
+    const graph = GraphExec.fromJSON(schema, registry);
+    let out: Record<string, any> = {};
+    const prices = [10, 10.5, 11, 12, 12.5, 13, 13.2];
+    prices.forEach((price, i) => {
+      out = graph.update({ timestamp: i * 500, price, volume: 1 });
+    });
+    expect(out["ha"]).toBeDefined();
+    expect(typeof out["doji"]).toBe("boolean");
+    expect(out["renko"]).toMatchObject({ open: 11.5, close: 12.5, bricks: 1 });
+  });
+
+  it("should register price bar operators", () => {
+    const registry = new OpRegistry();
+    regAggregateIndicators(registry);
+    expect(registry.has("RangeBars")).toBe(true);
+    expect(registry.has("Renko")).toBe(true);
+    expect(registry.has("HeikinAshi")).toBe(true);
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest";
+import {
+  BipowerVol,
+  GarmanKlassVol,
+  GarmanKlassVolEW,
+  ParkinsonVol,
+  ParkinsonVolEW,
+  RealizedVol,
+  RogersSatchellVol,
+  RogersSatchellVolEW,
+  Volatility,
+  YangZhangVol,
+  YangZhangVolEW,
+  useParkinsonVol,
+} from "../src/indicators/index.js";
+import { OpRegistry } from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+
+type OHLC = { open: number; high: number; low: number; close: number };
+
+// Deterministic uniform(0, 1)
+function lcg(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function gaussian(rand: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - rand())) * Math.cos(2 * Math.PI * rand());
+}
+
+// Bars of a driftless random walk in log price, daily volatility sigma
+function simulate(
+  count: number,
+  steps: number,
+  sigma: number,
+  gapSigma = 0
+): { bars: OHLC[]; prices: number[] } {
+  const rand = lcg(42);
+  const bars: OHLC[] = [];
+  const prices: number[] = [];
+  let logPrice = Math.log(100);
+  const stepSigma = sigma / Math.sqrt(steps);
+  for (let i = 0; i < count; i++) {
+    logPrice += gapSigma * gaussian(rand);
+    const open = Math.exp(logPrice);
+    let high = open;
+    let low = open;
+    for (let j = 0; j < steps; j++) {
+      logPrice += stepSigma * gaussian(rand);
+      const price = Math.exp(logPrice);
+      high = Math.max(high, price);
+      low = Math.min(low, price);
+      prices.push(price);
+    }
+    bars.push({ open, high, low, close: Math.exp(logPrice) });
+  }
+  return { bars, prices };
+}
+
+const { bars } = simulate(60, 20, 0.02, 0.005);
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+const sampleVar = (xs: number[]) => {
+  const m = mean(xs);
+  return xs.reduce((a, x) => a + (x - m) ** 2, 0) / (xs.length - 1);
+};
+const annualized = (variance: number) => Math.sqrt(variance * 250) * 100;
+
+const parkinson = (b: OHLC) => Math.log(b.high / b.low) ** 2 / (4 * Math.LN2);
+const garmanKlass = (b: OHLC) =>
+  0.5 * Math.log(b.high / b.low) ** 2 -
+  (2 * Math.LN2 - 1) * Math.log(b.close / b.open) ** 2;
+const rogersSatchell = (b: OHLC) =>
+  Math.log(b.high / b.close) * Math.log(b.high / b.open) +
+  Math.log(b.low / b.close) * Math.log(b.low / b.open);
+
+function emaRef(xs: number[], alpha: number): number[] {
+  const out: number[] = [];
+  xs.forEach((x, i) =>
+    out.push(i === 0 ? x : out[i - 1]! + alpha * (x - out[i - 1]!))
+  );
+  return out;
+}
+
+describe("Range-based volatility", () => {
+  const period = 10;
+  const window = (i: number) => bars.slice(Math.max(0, i - period + 1), i + 1);
+
+  it("should match Parkinson, Garman-Klass and Rogers-Satchell over period", () => {
+    const pk = new ParkinsonVol({ period });
+    const gk = new GarmanKlassVol({ period });
+    const rs = new RogersSatchellVol({ period });
+    bars.forEach((bar, i) => {
+      const w = window(i);
+      expect(pk.onData(bar)).toBeCloseTo(annualized(mean(w.map(parkinson))), 9);
+      expect(gk.onData(bar)).toBeCloseTo(
+        annualized(mean(w.map(garmanKlass))),
+        9
+      );
+      expect(rs.onData(bar)).toBeCloseTo(
+        annualized(mean(w.map(rogersSatchell))),
+        9
+      );
+    });
+    expect(pk.isReady && gk.isReady && rs.isReady).toBe(true);
+  });
+
+  it("should smooth per-bar variances exponentially in EW variants", () => {
+    const alpha = 2 / (period + 1);
+    const pk = emaRef(bars.map(parkinson), alpha);
+    const gk = emaRef(bars.map(garmanKlass), 0.2);
+    const rs = emaRef(bars.map(rogersSatchell), alpha);
+    const pkEW = new ParkinsonVolEW({ period });
+    const gkEW = new GarmanKlassVolEW({ alpha: 0.2, annualizedDays: 365 });
+    const rsEW = new RogersSatchellVolEW({ period });
+    expect(gkEW.warmupPeriod).toBe(9);
+
+    bars.forEach((bar, i) => {
+      expect(pkEW.onData(bar)).toBeCloseTo(annualized(pk[i]!), 9);
+      expect(gkEW.onData(bar)).toBeCloseTo(Math.sqrt(gk[i]! * 365) * 100, 9);
+      expect(rsEW.onData(bar)).toBeCloseTo(annualized(rs[i]!), 9);
+    });
+  });
+
+  it("should combine overnight, open-to-close and RS variance in Yang-Zhang", () => {
+    const yz = new YangZhangVol({ period });
+    const k = 0.34 / (1.34 + (period + 1) / (period - 1));
+    expect(yz.onData(bars[0]!)).toBe(0);
+
+    for (let i = 1; i < bars.length; i++) {
+      const from = Math.max(1, i - period + 1);
+      const w = bars.slice(from, i + 1);
+      const overnight = w.map((b, j) =>
+        Math.log(b.open / bars[from + j - 1]!.close)
+      );
+      const openClose = w.map((b) => Math.log(b.close / b.open));
+      const out = yz.onData(bars[i]!);
+      expect(yz.isReady).toBe(i >= period);
+      if (w.length < 2) continue;
+      const variance =
+        sampleVar(overnight) +
+        k * sampleVar(openClose) +
+        (1 - k) * mean(w.map(rogersSatchell));
+      expect(out).toBeCloseTo(annualized(variance), 9);
+    }
+  });
+
+  it("should estimate the simulated volatility", () => {
+    // 2% daily, annualized over 250 days
+    const sim = simulate(400, 200, 0.02).bars;
+    const expected = 0.02 * Math.sqrt(250) * 100;
+    const estimators = [
+      new Volatility({ period: 400 }),
+      new ParkinsonVol({ period: 400 }),
+      new GarmanKlassVol({ period: 400 }),
+      new RogersSatchellVol({ period: 400 }),
+      new YangZhangVol({ period: 399 }),
+      new YangZhangVolEW({ period: 399 }),
+    ];
+    for (const op of estimators) {
+      let out = 0;
+      for (const bar of sim) out = op.onData(bar);
+      // Discrete sampling biases range estimators slightly low
+      expect(out / expected).toBeGreaterThan(0.85);
+      expect(out / expected).toBeLessThan(1.15);
+    }
+
+    const getParkinson = useParkinsonVol({ period: 5 });
+    expect(getParkinson({ high: 100, low: 100 })).toBe(0);
+  });
+});
+
+describe("Realized volatility", () => {
+  it("should sum squared intraday returns over a day", () => {
+    const closes = [100, 101, 100.5, 102, 101];
+    const rv = new RealizedVol({ period: 4 });
+    let out = 0;
+    for (const close of closes) out = rv.update(close);
+    const sq = closes
+      .slice(1)
+      .reduce((a, c, i) => a + Math.log(c / closes[i]!) ** 2, 0);
+    expect(out).toBeCloseTo(annualized(sq), 9);
+    expect(rv.isReady).toBe(true);
+
+    // Two-day window of 2-return days: half the sum is one day
+    const rv2 = new RealizedVol({ period: 4, periodsPerDay: 2 });
+    for (const close of closes) out = rv2.update(close);
+    expect(out).toBeCloseTo(annualized(sq / 2), 9);
+  });
+
+  it("should compute bipower variation from adjacent returns", () => {
+    const closes = [100, 101, 100.5, 102, 101];
+    const r = closes.slice(1).map((c, i) => Math.abs(Math.log(c / closes[i]!)));
+    const bv =
+      (Math.PI / 2) * (4 / 3) * (r[0]! * r[1]! + r[1]! * r[2]! + r[2]! * r[3]!);
+
+    const op = new BipowerVol({ period: 4 });
+    let out = 0;
+    closes.forEach((close, i) => {
+      out = op.update(close);
+      expect(op.isReady).toBe(i >= 4);
+    });
+    expect(out).toBeCloseTo(annualized(bv), 9);
+  });
+
+  it("should separate jumps from diffusion", () => {
+    const { prices } = simulate(1, 400, 0.02);
+    const rv = new RealizedVol({ period: 400 });
+    const bv = new BipowerVol({ period: 400 });
+    const rvJump = new RealizedVol({ period: 400 });
+    const bvJump = new BipowerVol({ period: 400 });
+    let out = [0, 0, 0, 0];
+    prices.forEach((price, i) => {
+      // 3% jump halfway through the day
+      const jumped = i >= 200 ? price * 1.03 : price;
+      out = [
+        rv.update(price),
+        bv.update(price),
+        rvJump.update(jumped),
+        bvJump.update(jumped),
+      ];
+    });
+    const [rvOut, bvOut, rvJumpOut, bvJumpOut] = out as [
+      number,
+      number,
+      number,
+      number
+    ];
+    expect(bvOut / rvOut).toBeGreaterThan(0.8);
+    expect(rvJumpOut).toBeGreaterThan(1.5 * rvOut);
+    expect(bvJumpOut).toBeLessThan(1.2 * bvOut);
+  });
+});
+
+describe("Volatility registry", () => {
+  it("should register estimators with annualizedDays defaults", () => {
+    const registry = new OpRegistry();
+    regAll(registry);
+    expect(
+      registry.getInitSchema("YangZhangVol")!.parse({ period: 20 })
+    ).toEqual({ period: 20, annualizedDays: 250 });
+    expect(
+      registry.getInitSchema("ParkinsonVolEW")!.parse({ alpha: 0.1 })
+    ).toEqual({ alpha: 0.1, annualizedDays: 250 });
+    expect(() => registry.getInitSchema("ParkinsonVolEW")!.parse({})).toThrow();
+    expect(() =>
+      registry.getInitSchema("BipowerVol")!.parse({ period: 1 })
+    ).toThrow();
+  });
+});
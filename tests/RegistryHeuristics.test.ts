@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { GraphExec, OpRegistry, type FlowGraph } from "../src/flow/index.js";
+import { regAll, regHeuristics, regLags } from "../src/flow/registry-utils.js";
+import {
+  ThreeBuddhaTop,
+  TweezerTops,
+  useThreeBuddhaTop,
+  useTweezerTops,
+} from "../src/index.js";
+import type { BarWith } from "../src/types/BarData.js";
+import { generateBars } from "./testUtils.js";
+
+const bars = generateBars({ count: 60, basePrice: 100, volatility: 5 });
+
+describe("regHeuristics", () => {
+  const registry = new OpRegistry();
+  regHeuristics(registry);
+
+  const groups = ["heuristics.single", "heuristics.two", "heuristics.multi"];
+  const patterns = groups.flatMap(
+    (group) => registry.getAllContexts().get(group) ?? []
+  );
+
+  it("should register every pattern", () => {
+    expect(patterns.length).toBe(42);
+    expect(registry.has("TweezerTops")).toBe(true);
+    expect(registry.has("ThreeBuddhaTop")).toBe(true);
+    expect(registry.has("AverageBodyLength")).toBe(true);
+    expect(registry.has("SmoothedTrend")).toBe(true);
+  });
+
+  it("should run every pattern from a FlowGraph with default init", () => {
+    const schema: FlowGraph = {
+      root: "bar",
+      nodes: patterns.map((doc) => ({
+        name: doc.type,
+        type: doc.type,
+        inputSrc: doc.input.split(", ").map((field) => `bar.${field}`),
+      })),
+    };
+    const graph = GraphExec.fromJSON(schema, registry);
+
+    for (const bar of bars) {
+      const out = graph.update(bar);
+      for (const doc of patterns) {
+        expect(typeof out[doc.type]).toBe("boolean");
+      }
+    }
+  });
+
+  it("should run helpers from a FlowGraph", () => {
+    const graph = GraphExec.fromJSON(
+      {
+        root: "bar",
+        nodes: [
+          {
+            name: "body",
+            type: "AverageBodyLength",
+            init: { period: 5 },
+            inputSrc: ["bar.open", "bar.close"],
+          },
+          {
+            name: "trend",
+            type: "SmoothedTrend",
+            init: { period: 5 },
+            inputSrc: "bar.close",
+          },
+        ],
+      },
+      registry
+    );
+
+    const out = graph.update(bars[0]);
+    expect(out["body"]).toBeCloseTo(Math.abs(bars[0]!.close - bars[0]!.open));
+    expect(out["trend"].ema).toBe(bars[0]!.close);
+  });
+});
+
+describe("regLags", () => {
+  it("should run Lag and LagTime from a FlowGraph", () => {
+    const registry = new OpRegistry();
+    regLags(registry);
+
+    const graph = GraphExec.fromJSON(
+      {
+        root: "tick",
+        nodes: [
+          {
+            name: "prev",
+            type: "Lag",
+            init: { period: 1 },
+            inputSrc: "tick.price",
+          },
+          {
+            name: "stale",
+            type: "LagTime",
+            init: { lag_time_ms: 1000 },
+            inputSrc: ["tick.timestamp", "tick.price"],
+          },
+        ],
+      },
+      registry
+    );
+
+    expect(graph.update({ timestamp: 0, price: 1 })).toEqual({
+      tick: { timestamp: 0, price: 1 },
+      stale: 1,
+    });
+    const out = graph.update({ timestamp: 1500, price: 2 });
+    expect(out["prev"]).toBe(1);
+    expect(out["stale"]).toBe(2);
+  });
+
+  it("should be included in regAll", () => {
+    const registry = new OpRegistry();
+    regAll(registry);
+    expect(registry.has("Lag")).toBe(true);
+    expect(registry.has("Doji")).toBe(true);
+  });
+});
+
+describe("Pattern closures", () => {
+  type OHLC = BarWith<"open" | "close" | "high" | "low">;
+
+  // Swings of a sine wave, then a bullish and bearish bar with equal highs
+  const ohlc: OHLC[] = Array.from({ length: 40 }, (_, i) => {
+    const open = 100 + 5 * Math.sin(i / 2);
+    const close = 100 + 5 * Math.sin((i + 1) / 2);
+    const high = Math.max(open, close) + 1 + (i % 3);
+    const low = Math.min(open, close) - 1 - (i % 2);
+    return { open, close, high, low };
+  });
+  ohlc.push(
+    { open: 100, close: 104, high: 105, low: 99 },
+    { open: 104, close: 101, high: 105, low: 100 }
+  );
+
+  it("should match class output", () => {
+    const tweezer = useTweezerTops();
+    const tweezerClass = new TweezerTops();
+    const buddha = useThreeBuddhaTop();
+    const buddhaClass = new ThreeBuddhaTop();
+
+    const tops = ohlc.map((bar) => {
+      const out = tweezer(bar);
+      expect(out).toBe(tweezerClass.onData(bar));
+      expect(buddha(bar)).toBe(buddhaClass.onData(bar));
+      return out;
+    });
+    expect(tops[tops.length - 1]).toBe(true);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import { Resample, useResample } from "../src/aggregation/index.js";
+import type { OHLCVBar } from "../src/aggregation/index.js";
+import {
+  compileGraph,
+  GraphExec,
+  GraphPool,
+  OpRegistry,
+  type FlowGraph,
+  type GraphExecOptions,
+} from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+
+const MIN = 60000;
+
+/** One-minute bars with close = index */
+function minuteBars(count: number): OHLCVBar[] {
+  return Array.from({ length: count }, (_, i) => ({
+    timestamp: i * MIN,
+    open: i - 0.5,
+    high: i + 1,
+    low: i - 1,
+    close: i,
+    volume: 1,
+    turnover: i,
+  }));
+}
+
+const registry = new OpRegistry();
+regAll(registry);
+
+const schema: FlowGraph = {
+  root: "bar",
+  nodes: [
+    {
+      name: "bar5",
+      type: "Resample",
+      init: { intervalMs: 5 * MIN, sourceMs: MIN },
+      inputSrc: "bar",
+    },
+    { name: "gap", type: "Sub", inputSrc: ["bar.close", "bar5.close"] },
+    { name: "cma5", type: "CMA", inputSrc: "bar5.close" },
+  ],
+};
+
+function build(opts: GraphExecOptions = { hold: ["bar5"] }): GraphExec {
+  return GraphExec.fromJSON(schema, registry, opts);
+}
+
+describe("Resample", () => {
+  it("should merge bars into aligned buckets", () => {
+    const resample = new Resample({ intervalMs: 5 * MIN });
+    const out = minuteBars(11).map((bar) => resample.update(bar));
+
+    expect(out.slice(0, 5)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ]);
+    expect(out[5]).toEqual({
+      timestamp: 0,
+      open: -0.5,
+      high: 5,
+      low: -1,
+      close: 4,
+      volume: 5,
+      turnover: 10,
+    });
+    expect(out[10]).toMatchObject({ timestamp: 5 * MIN, close: 9 });
+  });
+
+  it("should emit with the completing bar when sourceMs is set", () => {
+    const update = useResample({ intervalMs: 5 * MIN, sourceMs: MIN });
+    const out = minuteBars(10).map(update);
+
+    expect(out[3]).toBeUndefined();
+    expect(out[4]).toMatchObject({ timestamp: 0, close: 4, volume: 5 });
+    expect(out[5]).toBeUndefined();
+    expect(out[9]).toMatchObject({ timestamp: 5 * MIN, close: 9 });
+  });
+
+  it("should emit one bar per update across gaps", () => {
+    const resample = new Resample({ intervalMs: 5 * MIN, sourceMs: MIN });
+    const [b0, , , , , , , , , b9] = minuteBars(12);
+
+    expect(resample.update(b0!)).toBeUndefined();
+    // Closes bucket 0, its own bucket is complete too
+    expect(resample.update(b9!)).toMatchObject({ timestamp: 0, close: 0 });
+    expect(resample.update(minuteBars(12)[11]!)).toMatchObject({
+      timestamp: 5 * MIN,
+      close: 9,
+    });
+  });
+});
+
+describe("GraphExec hold", () => {
+  it("should expose the last completed bar without re-running successors", () => {
+    const graph = build();
+    const plain = build({});
+    const bars = minuteBars(15);
+    const results = bars.map((bar) => graph.update(bar));
+    const plainResults = bars.map((bar) => plain.update(bar));
+
+    // No completed bar yet: nothing to hold
+    expect(results[2]!["bar5"]).toBeUndefined();
+    expect(results[2]!["gap"]).toBeUndefined();
+    // Minute 6 pairs with the 0-4 bar, no look-ahead into 5-9
+    expect(results[6]!["bar5"]).toMatchObject({ timestamp: 0, close: 4 });
+    expect(results[6]!["gap"]).toBe(2);
+    expect(plainResults[6]!["gap"]).toBeUndefined();
+
+    // CMA only runs on completed bars: (4 + 9) / 2
+    expect(results[9]!["cma5"]).toBe(6.5);
+    expect(results[11]!["cma5"]).toBeUndefined();
+    expect(results[11]!["gap"]).toBe(2);
+    // A re-run on held values would have averaged in 9 again
+    expect(results[14]!["cma5"]).toBe(9);
+  });
+
+  it("should match compiled and async execution", async () => {
+    const interpreted = build();
+    const compiled = compileGraph(build());
+    const asyncGraph = build();
+
+    for (const bar of minuteBars(23)) {
+      const expected = interpreted.update(bar);
+      expect(compiled(bar)).toEqual(expected);
+      expect(await asyncGraph.updateAsync(bar)).toEqual(expected);
+    }
+  });
+
+  it("should restore held values from a snapshot", () => {
+    const bars = minuteBars(14);
+    const graph = build();
+    bars.slice(0, 7).forEach((bar) => graph.update(bar));
+
+    const restored = build();
+    restored.restore(graph.snapshot());
+    for (const bar of bars.slice(7)) {
+      expect(restored.update(bar)).toEqual(graph.update(bar));
+    }
+  });
+
+  it("should hold every node with hold: true", () => {
+    const all = build({ hold: true });
+    const some = build();
+    for (const bar of minuteBars(6)) {
+      all.update(bar);
+      some.update(bar);
+    }
+    const bar = minuteBars(7)[6]!;
+    expect(all.update(bar)["cma5"]).toBe(4);
+    expect(some.update(bar)["cma5"]).toBeUndefined();
+  });
+
+  it("should reject unknown held nodes", () => {
+    expect(() => build({ hold: ["bar15"] })).toThrow(
+      "Cannot hold node 'bar15': node does not exist"
+    );
+  });
+});
+
+describe("GraphPool hold", () => {
+  it("should match one GraphExec per key", () => {
+    const pool = GraphPool.fromJSON(schema, registry, { hold: ["bar5"] });
+    const graphs = { AAA: build(), BBB: build() };
+
+    for (const bar of minuteBars(17)) {
+      for (const [key, graph] of Object.entries(graphs)) {
+        expect(pool.update(key, bar)).toEqual(graph.update(bar));
+      }
+    }
+  });
+
+  it("should restore held values from a snapshot", () => {
+    const pool = GraphPool.fromJSON(schema, registry, { hold: ["bar5"] });
+    const graph = build();
+    const bars = minuteBars(12);
+    bars.slice(0, 7).forEach((bar) => pool.update("AAA", bar));
+    graph.restore(pool.snapshot("AAA")!);
+
+    for (const bar of bars.slice(7)) {
+      expect(graph.update(bar)).toEqual(pool.update("AAA", bar));
+    }
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, expect, it } from "vitest";
+import {
+  GraphExec,
+  OpRegistry,
+  restoreOp,
+  snapshotOp,
+  type FlowGraph,
+  type GraphSnapshot,
+} from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import { RSI } from "../src/indicators/Momentum.js";
+import { ATR } from "../src/indicators/Volatility.js";
+import { ICHIMOKU, SAR } from "../src/indicators/Trend.js";
+import { AD, MFI } from "../src/indicators/Volume.js";
+import { RollingMinMax, RollingMedian } from "../src/primitive/index.js";
+import { LagTime } from "../src/primitive/lag.js";
+import { generateBars } from "./testUtils.js";
+
+const bars = generateBars({ count: 200, basePrice: 100, volatility: 5 });
+
+function replay<T>(make: () => T, step: (op: T, i: number) => any): void {
+  const split = 120;
+  const reference = make();
+  const expected = bars.map((_, i) => step(reference, i));
+
+  const original = make();
+  for (let i = 0; i < split; i++) step(original, i);
+
+  // Round-trip through JSON, as a restarting service would
+  const state = JSON.parse(JSON.stringify(snapshotOp(original as object)));
+  const restored = make();
+  restoreOp(restored as object, state);
+
+  for (let i = split; i < bars.length; i++) {
+    expect(step(restored, i)).toStrictEqual(expected[i]);
+  }
+}
+
+describe("Operator snapshot", () => {
+  it("should continue RSI bit-identically after restore", () => {
+    replay(
+      () => new RSI({ period: 14 }),
+      (op, i) => op.onData(bars[i]!)
+    );
+  });
+
+  it("should continue ATR bit-identically after restore", () => {
+    replay(
+      () => new ATR({ period: 14 }),
+      (op, i) => op.update(bars[i]!.high!, bars[i]!.low!, bars[i]!.close)
+    );
+  });
+
+  it("should continue SAR and ICHIMOKU after restore", () => {
+    replay(
+      () => new SAR(),
+      (op, i) => op.update(bars[i]!.high!, bars[i]!.low!)
+    );
+    replay(
+      () => new ICHIMOKU(),
+      (op, i) => op.update(bars[i]!.high!, bars[i]!.low!, bars[i]!.close)
+    );
+  });
+
+  it("should restore CircularBuffer and Kahan backed operators", () => {
+    replay(
+      () => new MFI({ period: 10 }),
+      (op, i) =>
+        op.update(
+          bars[i]!.high!,
+          bars[i]!.low!,
+          bars[i]!.close,
+          bars[i]!.volume!
+        )
+    );
+    replay(
+      () => new AD(),
+      (op, i) =>
+        op.update(
+          bars[i]!.high!,
+          bars[i]!.low!,
+          bars[i]!.close,
+          bars[i]!.volume!
+        )
+    );
+  });
+
+  it("should restore rolling primitives", () => {
+    replay(
+      () => new RollingMinMax({ period: 7 }),
+      (op, i) => op.update(bars[i]!.close)
+    );
+    replay(
+      () => new RollingMedian({ period: 8 }),
+      (op, i) => op.update(bars[i]!.close)
+    );
+  });
+
+  it("should encode non-JSON values", () => {
+    const lag = new LagTime<number>({ lag_time_ms: 1000 });
+    lag.update(new Date(0), NaN);
+    lag.update(new Date(500), -Infinity);
+
+    const state = JSON.parse(JSON.stringify(snapshotOp(lag)));
+    const restored = new LagTime<number>({ lag_time_ms: 1000 });
+    restoreOp(restored, state);
+
+    expect(restored.update(new Date(1000), 1)).toBeNaN();
+    expect(restored.update(new Date(1400), 2)).toBe(-Infinity);
+  });
+
+  it("should prefer custom snapshot/restore", () => {
+    class Counter {
+      n = 0;
+      update(): number {
+        return ++this.n;
+      }
+      snapshot() {
+        return { count: this.n };
+      }
+      restore(state: any) {
+        this.n = state.count;
+      }
+    }
+
+    const c = new Counter();
+    c.update();
+    c.update();
+    expect(snapshotOp(c)).toEqual({ count: 2 });
+
+    const r = new Counter();
+    restoreOp(r, { count: 2 });
+    expect(r.update()).toBe(3);
+  });
+});
+
+describe("GraphExec snapshot", () => {
+  const schema: FlowGraph = {
+    root: "bar",
+    nodes: [
+      { name: "rsi", type: "RSI", init: { period: 14 }, inputSrc: "bar.close" },
+      {
+        name: "atr",
+        type: "ATR",
+        init: { period: 14 },
+        inputSrc: ["bar.high", "bar.low", "bar.close"],
+      },
+      { name: "sar", type: "SAR", inputSrc: ["bar.high", "bar.low"] },
+      {
+        name: "ichimoku",
+        type: "ICHIMOKU",
+        inputSrc: ["bar.high", "bar.low", "bar.close"],
+      },
+      {
+        name: "minmax",
+        type: "RollingMinMax",
+        init: { period: 10 },
+        inputSrc: "rsi",
+      },
+      { name: "spread", type: "Sub", inputSrc: ["ichimoku.tenkan", "sar"] },
+      { name: "ratio", type: "Div", inputSrc: ["spread", "atr"] },
+    ],
+  };
+
+  function buildGraph(): GraphExec {
+    const registry = new OpRegistry();
+    regAll(registry);
+    return GraphExec.fromJSON(schema, registry);
+  }
+
+  it("should capture all node states keyed by name", () => {
+    const g = buildGraph();
+    g.update(bars[0]);
+
+    const snap = g.snapshot();
+    expect(snap.version).toBe(2);
+    expect(snap.root).toBe("bar");
+    expect(snap.types["minmax"]).toBe("RollingMinMax");
+    expect(Object.keys(snap.nodes).sort()).toEqual(
+      schema.nodes.map((n) => n.name).sort()
+    );
+  });
+
+  it("should continue bit-identically after restore", () => {
+    const reference = buildGraph();
+    const expected = bars.map((bar) => reference.update(bar));
+
+    const original = buildGraph();
+    for (let i = 0; i < 100; i++) original.update(bars[i]);
+
+    const json = JSON.stringify(original.snapshot());
+    const restored = buildGraph();
+    restored.restore(JSON.parse(json) as GraphSnapshot);
+
+    for (let i = 100; i < bars.length; i++) {
+      expect(restored.update(bars[i])).toStrictEqual(expected[i]);
+    }
+  });
+
+  it("should reject mismatched snapshots", () => {
+    const g = buildGraph();
+    const snap = g.snapshot();
+
+    expect(() => g.restore({ ...snap, version: 99 })).toThrow(/version/);
+    expect(() => g.restore({ ...snap, root: "tick" })).toThrow(/root/);
+    expect(() =>
+      g.restore({ ...snap, nodes: { ...snap.nodes, extra: {} } })
+    ).toThrow(/extra/);
+
+    const { rsi: _rsi, ...rest } = snap.nodes;
+    expect(() => g.restore({ ...snap, nodes: rest })).toThrow(/rsi/);
+    expect(() =>
+      g.restore({ ...snap, types: { ...snap.types, rsi: "MFI" } })
+    ).toThrow(/node 'rsi' has type 'MFI', expected 'RSI'/);
+  });
+
+  it("should leave the graph untouched when a node fails to restore", () => {
+    const g = buildGraph();
+    const source = buildGraph();
+    for (let i = 0; i < 50; i++) source.update(bars[i]);
+    const bad = source.snapshot();
+    // Restored last, after every other node
+    bad.nodes["ratio"] = 42;
+
+    g.update(bars[0]);
+    const before = g.snapshot();
+    expect(() => g.restore(bad)).toThrow(/non-object state/);
+    expect(g.snapshot()).toStrictEqual(before);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+  ATR,
+  ChandeKrollStop,
+  ChandelierExit,
+  SuperTrend,
+  useSuperTrend,
+} from "../src/indicators/index.js";
+import { GraphExec, OpRegistry, type FlowGraph } from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+
+// Rally, sell-off, recovery
+const bars = Array.from({ length: 90 }, (_, i) => {
+  const close =
+    100 + (i < 30 ? i : i < 60 ? 60 - i : i - 60) + 1.5 * Math.sin(i * 1.3);
+  return {
+    high: close + 1 + (i % 4) * 0.25,
+    low: close - 1 - (i % 3) * 0.25,
+    close,
+  };
+});
+
+// Reference ATR from scratch: EMA of true range seeded with the first value
+function atrRef(alpha: number): number[] {
+  const out: number[] = [];
+  bars.forEach((bar, i) => {
+    const prev = bars[i - 1];
+    const tr = prev
+      ? Math.max(
+          bar.high - bar.low,
+          Math.abs(bar.high - prev.close),
+          Math.abs(bar.low - prev.close)
+        )
+      : bar.high - bar.low;
+    out.push(i === 0 ? tr : out[i - 1]! + alpha * (tr - out[i - 1]!));
+  });
+  return out;
+}
+
+const highest = (i: number, n: number) =>
+  Math.max(...bars.slice(Math.max(0, i - n + 1), i + 1).map((b) => b.high));
+const lowest = (i: number, n: number) =>
+  Math.min(...bars.slice(Math.max(0, i - n + 1), i + 1).map((b) => b.low));
+
+describe("ATR smoothing", () => {
+  it("should use Wilder's smoothing by default and EMA on request", () => {
+    const wilder = new ATR({ period: 10 });
+    const ema = new ATR({ period: 10, smoothing: "ema" });
+    const wilderRef = atrRef(1 / 10);
+    const emaRef = atrRef(2 / 11);
+    bars.forEach((bar, i) => {
+      expect(wilder.onData(bar)).toBeCloseTo(wilderRef[i]!, 10);
+      expect(ema.onData(bar)).toBeCloseTo(emaRef[i]!, 10);
+    });
+  });
+});
+
+describe("SuperTrend", () => {
+  it("should match the reference band recursion", () => {
+    const atr = atrRef(1 / 10);
+    let upper = 0;
+    let lower = 0;
+    let direction = 1;
+    const supertrend = new SuperTrend({ period: 10, multiplier: 3 });
+
+    bars.forEach((bar, i) => {
+      const mid = (bar.high + bar.low) / 2;
+      const basicUpper = mid + 3 * atr[i]!;
+      const basicLower = mid - 3 * atr[i]!;
+      if (i === 0) {
+        upper = basicUpper;
+        lower = basicLower;
+      } else {
+        const prevClose = bars[i - 1]!.close;
+        upper = basicUpper < upper || prevClose > upper ? basicUpper : upper;
+        lower = basicLower > lower || prevClose < lower ? basicLower : lower;
+        if (direction > 0 && bar.close < lower) direction = -1;
+        else if (direction < 0 && bar.close > upper) direction = 1;
+      }
+
+      const out = supertrend.onData(bar);
+      expect(out.direction).toBe(direction);
+      expect(out.stop).toBeCloseTo(direction > 0 ? lower : upper, 10);
+    });
+  });
+
+  it("should follow the trend and flip on reversals", () => {
+    const getSuperTrend = useSuperTrend();
+    const out = bars.map((bar) => getSuperTrend(bar));
+    expect(out[29]!.direction).toBe(1);
+    expect(out[29]!.stop).toBeLessThan(bars[29]!.low);
+    expect(out[59]!.direction).toBe(-1);
+    expect(out[59]!.stop).toBeGreaterThan(bars[59]!.high);
+    expect(out[89]!.direction).toBe(1);
+  });
+});
+
+describe("ChandelierExit", () => {
+  it("should match the reference ratcheting stops", () => {
+    const atr = atrRef(1 / 22);
+    let long = 0;
+    let short = 0;
+    let direction = 1;
+    const chandelier = new ChandelierExit();
+
+    bars.forEach((bar, i) => {
+      let nextLong = highest(i, 22) - 3 * atr[i]!;
+      let nextShort = lowest(i, 22) + 3 * atr[i]!;
+      if (i > 0) {
+        const prevClose = bars[i - 1]!.close;
+        if (prevClose > long) nextLong = Math.max(nextLong, long);
+        if (prevClose < short) nextShort = Math.min(nextShort, short);
+        if (bar.close > short) direction = 1;
+        else if (bar.close < long) direction = -1;
+      }
+      long = nextLong;
+      short = nextShort;
+
+      const out = chandelier.onData(bar);
+      expect(out.long).toBeCloseTo(long, 10);
+      expect(out.short).toBeCloseTo(short, 10);
+      expect(out.direction).toBe(direction);
+      expect(out.stop).toBe(direction > 0 ? out.long : out.short);
+    });
+    expect(chandelier.isReady).toBe(true);
+  });
+});
+
+describe("ChandeKrollStop", () => {
+  it("should take extremes of the first stops over stop_period", () => {
+    const atr = atrRef(2 / 11);
+    const firstLong = bars.map((_, i) => highest(i, 10) - 2 * atr[i]!);
+    const firstShort = bars.map((_, i) => lowest(i, 10) + 2 * atr[i]!);
+    const cks = new ChandeKrollStop({
+      period: 10,
+      multiplier: 2,
+      stop_period: 5,
+      smoothing: "ema",
+    });
+    expect(cks.warmupPeriod).toBe(14);
+
+    bars.forEach((bar, i) => {
+      const from = Math.max(0, i - 4);
+      const out = cks.onData(bar);
+      expect(out.long).toBeCloseTo(
+        Math.max(...firstLong.slice(from, i + 1)),
+        10
+      );
+      expect(out.short).toBeCloseTo(
+        Math.min(...firstShort.slice(from, i + 1)),
+        10
+      );
+      expect(cks.isReady).toBe(i >= 13);
+    });
+  });
+});
+
+describe("Stop graph nodes", () => {
+  it("should register under ti.stops with defaults filled in", () => {
+    const registry = new OpRegistry();
+    regAll(registry);
+    expect(
+      registry
+        .getAllContexts()
+        .get("ti.stops")!
+        .map((doc) => doc.type)
+    ).toEqual(["SuperTrend", "ChandelierExit", "ChandeKrollStop"]);
+    expect(registry.getInitSchema("SuperTrend")!.parse({})).toEqual({
+      period: 10,
+      multiplier: 3,
+      smoothing: "wilder",
+    });
+
+    const hlc = ["bar.high", "bar.low", "bar.close"];
+    const schema: FlowGraph = {
+      root: "bar",
+      nodes: [
+        {
+          name: "st",
+          type: "SuperTrend",
+          init: { period: 7, smoothing: "ema" },
+          inputSrc: hlc,
+        },
+        { name: "ce", type: "ChandelierExit", init: {}, inputSrc: hlc },
+        { name: "exit", type: "LT", inputSrc: ["bar.close", "ce.long"] },
+      ],
+    };
+    const graph = GraphExec.fromJSON(schema, registry);
+    const supertrend = new SuperTrend({ period: 7, smoothing: "ema" });
+    for (const bar of bars) {
+      const out = graph.update(bar);
+      expect(out["st"]).toEqual(supertrend.onData(bar));
+      expect(typeof out["exit"]).toBe("boolean");
+    }
+  });
+});
@@ -10,10 +10,16 @@ describe("StreamingAdapter", () => {
     expect(CMAAggregator.doc).toBeDefined();
     expect(CMAAggregator.doc.type).toBe("WindowedCMA");
     expect(CMAAggregator.doc.desc).toBe(
-      "Aggregation using CMA, resets on window boundary"
+      "Aggregation using CMA: resets on tumbling window boundary, one " +
+        "instance per open hopping window (emits [{timestamp, value}]), " +
+        "slides incrementally via remove()"
+    );
+    expect(CMAAggregator.doc.input).toBe(
+      "window: TumblingSpec | HoppingSpec | SlidingSpec, x"
+    );
+    expect(CMAAggregator.doc.output).toBe(
+      "number | WindowOutput<number>[] | undefined"
     );
-    expect(CMAAggregator.doc.input).toBe("window: TumblingSpec, x");
-    expect(CMAAggregator.doc.output).toBe("number | undefined");
   });
 
   it("should accumulate and emit with right-open window (TumblingWindow)", () => {
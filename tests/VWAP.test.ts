@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import { AVWAP, RVWAP, VWAP, VWMA, useVWAP } from "../src/indicators/index.js";
+import {
+  GraphExec,
+  OpRegistry,
+  validateFlowGraph,
+  type FlowGraph,
+} from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+
+const bars = Array.from({ length: 40 }, (_, i) => {
+  const close = 100 + 5 * Math.sin(i / 3) + 0.1 * i;
+  return {
+    timestamp: i * 60000,
+    high: close + 1 + (i % 3) * 0.5,
+    low: close - 1 - (i % 2) * 0.5,
+    close,
+    volume: 1000 + ((i * 37) % 11) * 100,
+  };
+});
+
+const typical = (bar: { high: number; low: number; close: number }) =>
+  (bar.high + bar.low + bar.close) / 3;
+
+// Volume-weighted mean and population standard deviation, from scratch
+function reference(window: typeof bars): { vwap: number; stddev: number } {
+  let pv = 0;
+  let v = 0;
+  for (const bar of window) {
+    pv += typical(bar) * bar.volume;
+    v += bar.volume;
+  }
+  const vwap = pv / v;
+  let sq = 0;
+  for (const bar of window) sq += bar.volume * (typical(bar) - vwap) ** 2;
+  return { vwap, stddev: Math.sqrt(sq / v) };
+}
+
+describe("VWAP", () => {
+  it("should accumulate and reset on session boundaries", () => {
+    const vwap = new VWAP({ multiplier: 2 });
+    bars.forEach((bar, i) => {
+      const reset = i === 20;
+      const out = vwap.update(bar.high, bar.low, bar.close, bar.volume, reset);
+      const expected = reference(bars.slice(i < 20 ? 0 : 20, i + 1));
+      expect(out.vwap).toBeCloseTo(expected.vwap, 9);
+      expect(out.upper).toBeCloseTo(expected.vwap + 2 * expected.stddev, 9);
+      expect(out.lower).toBeCloseTo(expected.vwap - 2 * expected.stddev, 9);
+    });
+  });
+
+  it("should use turnover when bars track it", () => {
+    const getVWAP = useVWAP();
+    getVWAP({ high: 12, low: 8, close: 9, volume: 10, turnover: 100 });
+    const out = getVWAP({
+      high: 13,
+      low: 9,
+      close: 12,
+      volume: 30,
+      turnover: 360,
+    });
+    expect(out.vwap).toBeCloseTo(460 / 40);
+    // Prices 10 and 12 weighted 1:3
+    expect(out.upper - out.vwap).toBeCloseTo(Math.sqrt(0.75));
+  });
+
+  it("should report price alone before any volume", () => {
+    const vwap = new VWAP();
+    expect(vwap.update(11, 9, 10, 0)).toEqual({
+      vwap: 10,
+      upper: 10,
+      lower: 10,
+    });
+  });
+});
+
+describe("AVWAP", () => {
+  it("should start on the rising edge of anchor", () => {
+    const avwap = new AVWAP();
+    bars.forEach((bar, i) => {
+      // Anchor condition stays true once reached
+      const out = avwap.onData(bar, i >= 10);
+      if (i < 10) {
+        expect(out.vwap).toBeNaN();
+        expect(avwap.isReady).toBe(false);
+      } else {
+        expect(out.vwap).toBeCloseTo(reference(bars.slice(10, i + 1)).vwap, 9);
+      }
+    });
+    expect(avwap.isReady).toBe(true);
+  });
+
+  it("should re-anchor on a new event", () => {
+    const avwap = new AVWAP();
+    avwap.onData(bars[0]!, true);
+    avwap.onData(bars[1]!, false);
+    const out = avwap.onData(bars[2]!, true);
+    expect(out.vwap).toBeCloseTo(typical(bars[2]!));
+  });
+});
+
+describe("RVWAP", () => {
+  it("should match the VWAP of the last period bars", () => {
+    const rvwap = new RVWAP({ period: 8, multiplier: 1.5 });
+    bars.forEach((bar, i) => {
+      const out = rvwap.onData(bar);
+      const expected = reference(bars.slice(Math.max(0, i - 7), i + 1));
+      expect(out.vwap).toBeCloseTo(expected.vwap, 9);
+      expect(out.upper - out.vwap).toBeCloseTo(1.5 * expected.stddev, 9);
+      expect(rvwap.isReady).toBe(i >= 7);
+    });
+  });
+
+  it("should report price alone once the window has no volume", () => {
+    const rvwap = new RVWAP({ period: 3 });
+    const ticks = [
+      [100, 0.7],
+      [110, 0.1],
+      [90, 0.2],
+      [95, 0],
+      [96, 0],
+      [97, 0],
+    ] as const;
+    const out = ticks.map(([price, volume]) =>
+      rvwap.update(price, price, price, volume)
+    );
+    expect(out[3]!.vwap).toBeCloseTo((110 * 0.1 + 90 * 0.2) / 0.3, 9);
+    expect(out[4]!.vwap).toBeCloseTo(90, 9);
+    expect(out[5]).toEqual({ vwap: 97, upper: 97, lower: 97 });
+  });
+});
+
+describe("VWMA", () => {
+  it("should weight closes by volume over period", () => {
+    const vwma = new VWMA({ period: 3 });
+    vwma.update(10, 100);
+    vwma.update(11, 200);
+    expect(vwma.update(12, 100)).toBeCloseTo((1000 + 2200 + 1200) / 400);
+    expect(vwma.update(13, 0)).toBeCloseTo((2200 + 1200) / 300);
+    expect(vwma.isReady).toBe(true);
+  });
+});
+
+describe("VWAP graph nodes", () => {
+  it("should run session, anchored and rolling VWAP in a graph", () => {
+    const registry = new OpRegistry();
+    regAll(registry);
+    const ohlcv = ["bar.high", "bar.low", "bar.close", "bar.volume"];
+    const schema: FlowGraph = {
+      root: "bar",
+      nodes: [
+        { name: "t0", type: "Const", init: { value: 600000 } },
+        { name: "anchor", type: "GTE", inputSrc: ["bar.timestamp", "t0"] },
+        {
+          name: "session",
+          type: "VWAP",
+          inputSrc: [...ohlcv, "bar.newSession"],
+        },
+        { name: "anchored", type: "AVWAP", inputSrc: [...ohlcv, "anchor"] },
+        {
+          name: "rolling",
+          type: "RVWAP",
+          init: { period: 5 },
+          inputSrc: ohlcv,
+        },
+        {
+          name: "vwma",
+          type: "VWMA",
+          init: { period: 5 },
+          inputSrc: ["bar.close", "bar.volume"],
+        },
+      ],
+    };
+    const graph = GraphExec.fromJSON(schema, registry);
+
+    let out: Record<string, any> = {};
+    bars.forEach((bar, i) => {
+      out = graph.update({ ...bar, newSession: i === 30 });
+    });
+    expect(out["session"].vwap).toBeCloseTo(reference(bars.slice(30)).vwap, 9);
+    expect(out["anchored"].vwap).toBeCloseTo(reference(bars.slice(10)).vwap, 9);
+    expect(out["rolling"].vwap).toBeCloseTo(reference(bars.slice(35)).vwap, 9);
+    expect(typeof out["vwma"]).toBe("number");
+  });
+
+  it("should price by turnover through the optional turnover port", () => {
+    const registry = new OpRegistry();
+    regAll(registry);
+    const ohlcv = ["bar.high", "bar.low", "bar.close", "bar.volume"];
+    const schema: FlowGraph = {
+      root: "bar",
+      nodes: [
+        {
+          name: "session",
+          type: "VWAP",
+          inputSrc: [...ohlcv, "bar.newSession", "bar.turnover"],
+        },
+        {
+          name: "rolling",
+          type: "RVWAP",
+          init: { period: 2 },
+          inputSrc: [...ohlcv, "bar.turnover"],
+        },
+      ],
+    };
+    expect(validateFlowGraph(schema, registry).errors).toEqual([]);
+    const graph = GraphExec.fromJSON(schema, registry);
+
+    graph.update({
+      high: 12,
+      low: 8,
+      close: 9,
+      volume: 10,
+      turnover: 100,
+      newSession: true,
+    });
+    const out = graph.update({
+      newSession: false,
+      high: 13,
+      low: 9,
+      close: 12,
+      volume: 30,
+      turnover: 360,
+    });
+    expect(out["session"].vwap).toBeCloseTo(460 / 40);
+    expect(out["rolling"].vwap).toBeCloseTo(460 / 40);
+  });
+});
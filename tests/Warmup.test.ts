@@ -0,0 +1,241 @@
+import { describe, expect, it } from "vitest";
+import { GraphExec, OpRegistry, type FlowGraph } from "../src/flow/index.js";
+import { regAll } from "../src/flow/registry-utils.js";
+import {
+  ADX,
+  ADXR,
+  AROON,
+  ATR,
+  BOP,
+  CCI,
+  ICHIMOKU,
+  MACD,
+  MFI,
+  RSI,
+  STOCH,
+  STOCHRSI,
+  TRIX,
+  VHF,
+} from "../src/indicators/index.js";
+import {
+  BearishEngulfing,
+  EveningStar,
+  RisingWindow,
+  SpinningTop,
+} from "../src/heuristics/index.js";
+import { CuSharpe } from "../src/indicators/Performance.js";
+import { EMA, RollingVarEW, SMA } from "../src/primitive/index.js";
+import { withWarmup } from "../src/primitive/warmup.js";
+import type { BarData } from "../src/types/BarData.js";
+import { generateBars } from "./testUtils.js";
+
+const bars = generateBars({ count: 200, basePrice: 100, volatility: 5 });
+
+describe("Operator readiness", () => {
+  const cases: [
+    string,
+    () => { onData(bar: BarData): any; isReady: boolean; warmupPeriod: number }
+  ][] = [
+    ["AROON", () => new AROON({ period: 14 })],
+    ["CCI", () => new CCI({ period: 20 })],
+    ["VHF", () => new VHF({ period: 28 })],
+    ["STOCH", () => new STOCH({ k_period: 14, k_slowing: 3, d_period: 3 })],
+    ["STOCHRSI", () => new STOCHRSI({ period: 14 })],
+    ["RSI", () => new RSI({ period: 14 })],
+    [
+      "MACD",
+      () => new MACD({ period_fast: 12, period_slow: 26, period_signal: 9 }),
+    ],
+    ["TRIX", () => new TRIX({ period: 15 })],
+    ["ATR", () => new ATR({ period: 14 })],
+    ["ADX", () => new ADX({ period: 14 })],
+    ["ADXR", () => new ADXR({ period: 14 })],
+    ["MFI", () => new MFI({ period: 14 })],
+    ["ICHIMOKU", () => new ICHIMOKU()],
+    ["BearishEngulfing", () => new BearishEngulfing()],
+    ["EveningStar", () => new EveningStar({ period: 10 })],
+    ["RisingWindow", () => new RisingWindow({ period: 10 })],
+    ["SpinningTop", () => new SpinningTop()],
+  ];
+
+  for (const [name, make] of cases) {
+    it(`${name} should become ready after warmupPeriod updates`, () => {
+      const op = make();
+      expect(op.isReady).toBe(false);
+      for (let i = 0; i < op.warmupPeriod; i++) {
+        expect(op.isReady).toBe(false);
+        op.onData(bars[i]!);
+      }
+      expect(op.isReady).toBe(true);
+    });
+  }
+
+  it("should report expected warm-up periods", () => {
+    expect(new AROON({ period: 14 }).warmupPeriod).toBe(14);
+    expect(new STOCH().warmupPeriod).toBe(18);
+    expect(new RSI({ period: 14 }).warmupPeriod).toBe(15);
+    expect(
+      new MACD({ period_fast: 12, period_slow: 26, period_signal: 9 })
+        .warmupPeriod
+    ).toBe(34);
+  });
+
+  it("should report readiness from rolling primitives", () => {
+    const sma = new SMA({ period: 3 });
+    const ema = new EMA({ alpha: 0.5 });
+    const variance = new RollingVarEW({ period: 4 });
+    expect([sma.warmupPeriod, ema.warmupPeriod]).toEqual([3, 3]);
+    for (let i = 0; i < 4; i++) {
+      expect(sma.isReady).toBe(i >= 3);
+      expect(ema.isReady).toBe(i >= 3);
+      expect(variance.isReady).toBe(false);
+      sma.update(i);
+      ema.update(i);
+      variance.update(i);
+    }
+    expect(variance.isReady).toBe(true);
+
+    ema.reset();
+    expect(ema.isReady).toBe(false);
+  });
+
+  it("should report readiness from performance ops needing history", () => {
+    const sharpe = new CuSharpe();
+    expect(sharpe.warmupPeriod).toBe(2);
+    sharpe.update(0.01);
+    expect(sharpe.isReady).toBe(false);
+    sharpe.update(-0.01);
+    expect(sharpe.isReady).toBe(true);
+  });
+
+  it("should treat stateless indicators as always ready", () => {
+    const bop = new BOP();
+    expect(bop.isReady).toBe(true);
+    expect(bop.warmupPeriod).toBe(1);
+  });
+});
+
+describe("withWarmup", () => {
+  it("should emit undefined until ready", () => {
+    const aroon = new AROON({ period: 5 });
+    const fn = withWarmup(aroon, "undefined");
+
+    for (let i = 0; i < 4; i++) {
+      expect(fn(bars[i]!.high!, bars[i]!.low!)).toBeUndefined();
+    }
+    expect(fn(bars[4]!.high!, bars[4]!.low!)).toBeDefined();
+  });
+
+  it("should emit NaN fields until ready", () => {
+    const stoch = new STOCH({ k_period: 5, k_slowing: 3, d_period: 3 });
+    const fn = withWarmup(stoch, "NaN");
+
+    const first = fn(bars[0]!.high!, bars[0]!.low!, bars[0]!.close);
+    expect(first!.k).toBeNaN();
+    expect(first!.d).toBeNaN();
+
+    for (let i = 1; i < stoch.warmupPeriod; i++) {
+      fn(bars[i]!.high!, bars[i]!.low!, bars[i]!.close);
+    }
+    const ready = fn(bars[9]!.high!, bars[9]!.low!, bars[9]!.close);
+    expect(Number.isNaN(ready!.k)).toBe(false);
+  });
+
+  it("should keep current behaviour by default policy", () => {
+    const cci = new CCI({ period: 5 });
+    const fn = withWarmup(cci, "current");
+    expect(fn(bars[0]!.high!, bars[0]!.low!, bars[0]!.close)).toBe(0);
+  });
+});
+
+describe("GraphExec warm-up policy", () => {
+  const schema: FlowGraph = {
+    root: "bar",
+    nodes: [
+      {
+        name: "aroon",
+        type: "AROON",
+        init: { period: 5 },
+        inputSrc: ["bar.high", "bar.low"],
+      },
+      {
+        name: "osc",
+        type: "Sub",
+        inputSrc: ["aroon.up", "aroon.down"],
+      },
+    ],
+  };
+
+  function build(warmup?: "current" | "undefined" | "NaN"): GraphExec {
+    const registry = new OpRegistry();
+    regAll(registry);
+    return GraphExec.fromJSON(
+      schema,
+      registry,
+      warmup === undefined ? {} : { warmup }
+    );
+  }
+
+  it("should skip successors of nodes that are not ready", () => {
+    const g = build("undefined");
+    for (let i = 0; i < 4; i++) {
+      const out = g.update(bars[i]);
+      expect(out["aroon"]).toBeUndefined();
+      expect(out["osc"]).toBeUndefined();
+    }
+    const out = g.update(bars[4]);
+    expect(out["aroon"]).toBeDefined();
+    expect(out["osc"]).toBe(out["aroon"].up - out["aroon"].down);
+  });
+
+  it("should propagate NaN outputs", () => {
+    const g = build("NaN");
+    const out = g.update(bars[0]);
+    expect(out["aroon"].up).toBeNaN();
+    expect(out["osc"]).toBeNaN();
+  });
+
+  it("should keep warm-up outputs by default", () => {
+    const g = build();
+    const out = g.update(bars[0]);
+    expect(out["aroon"]).toEqual({ up: 0, down: 0 });
+    expect(out["osc"]).toBe(0);
+  });
+
+  it("should hold back primitive nodes until their window fills", () => {
+    const registry = new OpRegistry();
+    regAll(registry);
+    const primitives: FlowGraph = {
+      root: "tick",
+      nodes: [
+        { name: "sma", type: "SMA", init: { period: 3 }, inputSrc: ["tick"] },
+        {
+          name: "max",
+          type: "RollingMax",
+          init: { period: 2 },
+          inputSrc: ["tick"],
+        },
+        { name: "ema", type: "EMA", init: { alpha: 0.5 }, inputSrc: ["tick"] },
+      ],
+    };
+    const g = GraphExec.fromJSON(primitives, registry, { warmup: "undefined" });
+    const nan = GraphExec.fromJSON(primitives, registry, { warmup: "NaN" });
+
+    const [first, second, third] = [1, 2, 3].map((x) => g.update(x));
+    expect(first!["sma"]).toBeUndefined();
+    expect(first!["max"]).toBeUndefined();
+    expect(second!["max"]).toBe(2);
+    expect(second!["ema"]).toBeUndefined();
+    expect(third).toMatchObject({ sma: 2, max: 3, ema: 2.25 });
+
+    const out = nan.update(1);
+    expect(out["sma"]).toBeNaN();
+    expect(out["ema"]).toBeNaN();
+  });
+
+  it("should treat operators without readiness as ready", () => {
+    const g = new GraphExec("tick", { warmup: "undefined" });
+    g.add("double", { update: (x: number) => x * 2 }).depends("tick");
+    expect(g.update(2)["double"]).toBe(4);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from "vitest";
+import { OHLCV, type OHLCVTick } from "../src/aggregation/OHLCV";
+import {
+  WatermarkOHLCV,
+  useWatermarkOHLCV,
+  type WatermarkOHLCVOutput,
+} from "../src/aggregation/WatermarkOHLCV";
+import type { OHLCVBar } from "../src/aggregation/processors";
+
+/** Deterministic LCG in [0, 1) */
+function rng(seed: number): () => number {
+  let s = seed;
+  return () => {
+    s = (s * 1664525 + 1013904223) % 4294967296;
+    return s / 4294967296;
+  };
+}
+
+/** Ticks every 100ms with distinct timestamps */
+function ticks(count: number, seed: number): OHLCVTick[] {
+  const rand = rng(seed);
+  let price = 100;
+  return Array.from({ length: count }, (_, i) => {
+    price += rand() - 0.5;
+    return { timestamp: i * 100, price, volume: 1 + Math.floor(rand() * 10) };
+  });
+}
+
+/** Delay each tick's arrival by up to maxDelay ms */
+function shuffle(xs: OHLCVTick[], maxDelay: number, seed: number): OHLCVTick[] {
+  const rand = rng(seed);
+  return xs
+    .map((tick) => ({ tick, arrival: tick.timestamp + rand() * maxDelay }))
+    .sort((a, b) => a.arrival - b.arrival)
+    .map(({ tick }) => tick);
+}
+
+function collect(
+  agg: WatermarkOHLCV,
+  stream: OHLCVTick[]
+): WatermarkOHLCVOutput {
+  const out: WatermarkOHLCVOutput = { bars: [], revisions: [], late: [] };
+  const push = (o: WatermarkOHLCVOutput | undefined) => {
+    if (o === undefined) return;
+    out.bars.push(...o.bars);
+    out.revisions.push(...o.revisions);
+    out.late.push(...o.late);
+  };
+  stream.forEach((tick) => push(agg.onData(tick)));
+  push(agg.flush());
+  return out;
+}
+
+function orderedBars(stream: OHLCVTick[], intervalMs: number): OHLCVBar[] {
+  const ohlcv = new OHLCV({ intervalMs });
+  const bars = stream.flatMap((tick) => ohlcv.onData(tick) ?? []);
+  // Close the last bar
+  const last = stream[stream.length - 1]!;
+  const tail = ohlcv.update(last.timestamp + intervalMs, 0, 0);
+  return tail === undefined ? bars : [...bars, tail];
+}
+
+function expectBars(actual: OHLCVBar[], expected: OHLCVBar[]): void {
+  expect(actual.map((b) => b.timestamp)).toEqual(
+    expected.map((b) => b.timestamp)
+  );
+  actual.forEach((bar, i) => {
+    const want = expected[i]!;
+    expect(bar.open).toBe(want.open);
+    expect(bar.high).toBe(want.high);
+    expect(bar.low).toBe(want.low);
+    expect(bar.close).toBe(want.close);
+    expect(bar.volume).toBe(want.volume);
+    expect(bar.turnover).toBeCloseTo(want.turnover, 8);
+  });
+}
+
+describe("WatermarkOHLCV", () => {
+  it("should match OHLCV on ordered ticks", () => {
+    const stream = ticks(200, 1);
+    const out = collect(new WatermarkOHLCV({ intervalMs: 1000 }), stream);
+    expectBars(out.bars, orderedBars(stream, 1000));
+  });
+
+  it("should absorb shuffled ticks within allowed lateness", () => {
+    const stream = ticks(500, 2);
+    const agg = new WatermarkOHLCV({ intervalMs: 1000, allowedLateness: 500 });
+    const out = collect(agg, shuffle(stream, 500, 3));
+
+    expectBars(out.bars, orderedBars(stream, 1000));
+    expect(agg.lateTicks).toBe(0);
+    expect(agg.droppedTicks).toBe(0);
+  });
+
+  it("should count and drop ticks later than allowed", () => {
+    const stream = ticks(500, 4);
+    const agg = new WatermarkOHLCV({ intervalMs: 1000, allowedLateness: 200 });
+    const out = collect(agg, shuffle(stream, 1500, 5));
+
+    expect(agg.lateTicks).toBeGreaterThan(0);
+    expect(agg.droppedTicks).toBe(agg.lateTicks);
+    const volume = out.bars.reduce((sum, b) => sum + b.volume, 0);
+    const total = stream.reduce((sum, t) => sum + t.volume, 0);
+    expect(volume).toBeLessThan(total);
+    // Bars are emitted once, in order
+    const times = out.bars.map((b) => b.timestamp);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    expect(new Set(times).size).toBe(times.length);
+  });
+
+  it("should route late ticks to the side output", () => {
+    const stream = ticks(300, 6);
+    const agg = new WatermarkOHLCV({
+      intervalMs: 1000,
+      allowedLateness: 200,
+      latePolicy: "side",
+    });
+    const out = collect(agg, shuffle(stream, 1500, 7));
+
+    expect(out.late.length).toBe(agg.lateTicks);
+    expect(agg.droppedTicks).toBe(0);
+    const volume = [...out.bars, ...out.late].reduce(
+      (sum, x) => sum + x.volume,
+      0
+    );
+    expect(volume).toBe(stream.reduce((sum, t) => sum + t.volume, 0));
+  });
+
+  it("should revise emitted bars with late ticks", () => {
+    const agg = new WatermarkOHLCV({
+      intervalMs: 1000,
+      latePolicy: "revise",
+    });
+    agg.update(1000, 10, 1);
+    agg.update(1500, 12, 1);
+    const emitted = agg.update(2100, 11, 1);
+    expect(emitted!.bars).toEqual([
+      {
+        timestamp: 1000,
+        open: 10,
+        high: 12,
+        low: 10,
+        close: 12,
+        volume: 2,
+        turnover: 22,
+      },
+    ]);
+
+    // Late tick before the bar's close: extends low, keeps close
+    const revised = agg.update(1200, 8, 2);
+    expect(revised).toEqual({
+      bars: [],
+      revisions: [
+        {
+          timestamp: 1000,
+          open: 10,
+          high: 12,
+          low: 8,
+          close: 12,
+          volume: 4,
+          turnover: 38,
+        },
+      ],
+      late: [],
+    });
+    // Emitted bar object is not mutated
+    expect(emitted!.bars[0]!.low).toBe(10);
+
+    // Beyond revisionDepth: dropped
+    agg.update(3100, 11, 1);
+    expect(agg.update(1300, 9, 1)).toBeUndefined();
+    expect(agg.lateTicks).toBe(2);
+    expect(agg.droppedTicks).toBe(1);
+  });
+
+  it("should take open and close by event time", () => {
+    const agg = new WatermarkOHLCV({ intervalMs: 1000, allowedLateness: 1000 });
+    agg.update(1500, 15, 1);
+    agg.update(1100, 11, 1);
+    agg.update(1900, 19, 1);
+    agg.update(1700, 17, 1);
+    const out = agg.update(3000, 30, 1);
+    expect(out!.bars[0]).toMatchObject({ open: 11, close: 19, volume: 4 });
+    expect(agg.watermark).toBe(2000);
+  });
+
+  it("should work as functional closure", () => {
+    const update = useWatermarkOHLCV({ intervalMs: 1000 });
+    expect(update({ timestamp: 1000, price: 1, volume: 1 })).toBeUndefined();
+    expect(update({ timestamp: 2000, price: 2, volume: 1 })!.bars).toHaveLength(
+      1
+    );
+  });
+
+  it("should reset state and counters", () => {
+    const agg = new WatermarkOHLCV({ intervalMs: 1000 });
+    agg.update(5000, 1, 1);
+    agg.update(1000, 1, 1);
+    expect(agg.lateTicks).toBe(1);
+    agg.reset();
+    expect(agg.lateTicks).toBe(0);
+    expect(agg.watermark).toBe(-Infinity);
+    expect(agg.update(1000, 1, 1)).toBeUndefined();
+    expect(agg.flush()!.bars).toHaveLength(1);
+  });
+});